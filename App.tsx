@@ -1,24 +1,36 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { GoogleOAuthProvider } from '@react-oauth/google';
 import apiService from './services/apiService';
+import offlineStore from './services/offlineStore';
+import syncQueue, { isConflict } from './services/syncQueue';
+import pushService, { PushOpenTarget } from './services/pushService';
+import { tasksFromRows, taskFromRow, progressUpdateFromRow, taskFieldsInPayload, projectFromRow, workspaceFromRow, userFromRow, tagFromRow, categoryFromRow, timeEntryFromRow, activeTimerFromRow, notificationFromRow, taskToPayload, projectToPayload, timeEntryToPayload } from './services/mappers';
+import { TaskManager as TaskUtils } from './utils/taskManager';
 import Sidebar from './components/Sidebar';
 import Dashboard from './components/Dashboard';
 import TaskManager from './components/TaskManager';
 import ProjectManager from './components/ProjectManager';
 import CalendarView from './components/CalendarView';
+import GanttView from './components/GanttView';
 import WorkflowView from './components/WorkflowView';
 import WorkspaceIntelligence from './components/WorkspaceIntelligence';
 import BrainstormView from './components/BrainstormView';
+import TimeTracking from './components/TimeTracking';
 import Auth from './components/Auth';
 import UserProfile from './components/UserProfile';
 import Logo from './components/Logo';
 import ResetPassword from './components/ResetPassword';
-import { View, Task, Project, TaskStatus, User, Priority } from './types';
+import WorkspaceSettings from './components/WorkspaceSettings';
+import AcceptInvitation from './components/AcceptInvitation';
+import { View, Task, Project, Tag, Category, TimeEntry, ActiveTimer, TaskStatusKey, StatusDefinition, User, AppNotification, TaskConflict, Workspace, ProgressUpdate } from './types';
+import { TagPayload, CategoryPayload, CalendarImportEvent, NotificationRow, notificationRow, taskChangeEvent, taskDeletedEvent, taskProgressEvent, projectChangeEvent, projectDeletedEvent, taskConflictBody, projectConflictBody, TaskPayload } from './services/apiTypes';
+import { PendingMutation } from './services/offlineStore';
+import { ApiError } from './services/apiService';
 import NotificationCenter from './components/NotificationCenter';
-import { io } from 'socket.io-client';
+import { io, Socket } from 'socket.io-client';
 import { Menu, X, Bell } from 'lucide-react';
-import { format, differenceInCalendarDays } from 'date-fns';
+import { StatusModel } from './utils/statusModel';
 
 // Google OAuth Configuration
 const GOOGLE_CLIENT_ID = (import.meta as any).env?.VITE_GOOGLE_CLIENT_ID || 
@@ -26,6 +38,9 @@ const GOOGLE_CLIENT_ID = (import.meta as any).env?.VITE_GOOGLE_CLIENT_ID ||
     ? '436152930223-2p91794cslr6tqks1nlpekvqig2hn3ch.apps.googleusercontent.com'  // Local dev client ID
     : '436152930223-2p91794cslr6tqks1nlpekvqig2hn3ch.apps.googleusercontent.com'); // Production client ID
 
+// Whose unsynced changes the outbox is holding after their session expired
+const OUTBOX_OWNER_KEY = 'tasq_outbox_owner';
+
 const App: React.FC = () => {
   // Auth State
   const [user, setUser] = useState<User | null>(() => {
@@ -41,15 +56,7 @@ const App: React.FC = () => {
       apiService.getProfile()
         .then(response => {
           if (response.success) {
-            const authenticatedUser: User = {
-              id: response.data.user.id.toString(),
-              name: response.data.user.name,
-              email: response.data.user.email,
-              role: response.data.user.role || 'Product Designer',
-              avatarUrl: response.data.user.avatar_url,
-              joinDate: response.data.user.created_at
-            };
-            setUser(authenticatedUser);
+            setUser(userFromRow(response.data.user));
           }
         })
         .catch(() => {
@@ -79,21 +86,62 @@ const App: React.FC = () => {
   const [currentView, setCurrentView] = useState<View>('DASHBOARD');
   const [projects, setProjects] = useState<Project[]>([]);
   const [tasks, setTasks] = useState<Task[]>([]);
+  // Tasks assigned to or by the user from any owner or workspace, for the task list's assignment views
+  const [assignedToMe, setAssignedToMe] = useState<Task[]>([]);
+  const [assignedByMe, setAssignedByMe] = useState<Task[]>([]);
+  // Newest progress update on any task, for an open progress timeline to pick up
+  const [progressUpdate, setProgressUpdate] = useState<ProgressUpdate | null>(null);
+  const [statuses, setStatuses] = useState<StatusDefinition[]>(() => StatusModel.all());
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
+  const [activeTimer, setActiveTimer] = useState<ActiveTimer | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
   const [resetToken, setResetToken] = useState<string | null>(null);
+  // Local cache is only written back once it has been read, so an empty first render can't wipe it
+  const [isHydrated, setIsHydrated] = useState(false);
+
+  // Team workspaces: tasks and projects shown are either the user's personal ones (null) or one workspace's.
+  // The ref is for fetches and socket handlers set up once, which must see the current choice.
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(() => localStorage.getItem('tasq_workspace'));
+  const [isWorkspaceSettingsOpen, setIsWorkspaceSettingsOpen] = useState(false);
+  const [inviteToken, setInviteToken] = useState<string | null>(null);
+  const workspaceRef = useRef(activeWorkspaceId);
+  workspaceRef.current = activeWorkspaceId;
+  const activeWorkspace = workspaces.find(w => w.id === activeWorkspaceId) || null;
+  // The same role levels the server checks: guests only read, and deleting a project takes an admin
+  const canEditWorkspace = activeWorkspace?.role !== 'guest';
+  const canDeleteProjects = !activeWorkspace || activeWorkspace.role === 'admin' || activeWorkspace.role === 'owner';
 
-  // Check for reset token in URL
+  // Check for reset token and workspace invitations in URL
   useEffect(() => {
     const urlParams = new URLSearchParams(window.location.search);
     const token = urlParams.get('token');
     if (token) {
       setResetToken(token);
     }
+    const invite = urlParams.get('invite');
+    if (invite) {
+      setInviteToken(invite);
+    }
   }, []);
 
-  // Alerts
-  const [deadlineAlerts, setDeadlineAlerts] = useState<string[]>([]);
+  // Notifications: the inbox is stored on the server; toasts only show what arrived during this session
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [toasts, setToasts] = useState<AppNotification[]>([]);
+  const [isInboxOpen, setIsInboxOpen] = useState(false);
+  const [focusTaskId, setFocusTaskId] = useState<string | null>(null);
+  const [taskConflict, setTaskConflict] = useState<TaskConflict | null>(null);
+
+  // Latest user and tasks for the outbox listeners, which are registered once
+  const userRef = useRef(user);
+  userRef.current = user;
+  const tasksRef = useRef(tasks);
+  tasksRef.current = tasks;
+  const [sessionNotice, setSessionNotice] = useState<string | null>(null);
 
   // Persist User
   useEffect(() => {
@@ -104,6 +152,15 @@ const App: React.FC = () => {
     }
   }, [user]);
 
+  // The offline cache holds the space last shown, so the same one is reopened on the next visit
+  useEffect(() => {
+    if (activeWorkspaceId) {
+      localStorage.setItem('tasq_workspace', activeWorkspaceId);
+    } else {
+      localStorage.removeItem('tasq_workspace');
+    }
+  }, [activeWorkspaceId]);
+
   // Request Notification Permission on Mount
   useEffect(() => {
     if ("Notification" in window && Notification.permission !== "granted") {
@@ -111,128 +168,211 @@ const App: React.FC = () => {
     }
   }, []);
 
-  // Poll for Reminders and Upcoming Deadlines (4 days window)
+  // Reminders and upcoming deadlines are scheduled on the server (backend/utils/reminderScheduler.js),
+  // which needs our zone to place wall-clock due times; they arrive here as socket alerts
   useEffect(() => {
-    if (!user) return; // Only poll if logged in
+    if (!user) return;
+    apiService.updateProfile({ timezone: Intl.DateTimeFormat().resolvedOptions().timeZone })
+      .catch(error => console.warn('Could not report time zone:', error));
+  }, [user?.id]);
 
-    const checkNotifications = () => {
-      const now = new Date();
-      const todayStr = now.toISOString().split('T')[0];
-      
-      // 1. Check Standard Reminders
-      setTasks(prevTasks => {
-        let hasUpdates = false;
-        const updatedTasks = prevTasks.map(task => {
-          if (task.reminderMinutes && !task.reminderSent && task.status !== TaskStatus.DONE) {
-            const timeStr = task.dueTime || '09:00';
-            const dueDateTimeStr = `${task.dueDate}T${timeStr}`;
-            const dueDate = new Date(dueDateTimeStr);
-            const reminderTime = new Date(dueDate.getTime() - task.reminderMinutes * 60000);
-
-            if (now >= reminderTime && now < dueDate) {
-              if (Notification.permission === "granted") {
-                new Notification(`Reminder: ${task.title}`, {
-                  body: `Due today at ${timeStr}.`,
-                  icon: '/favicon.ico'
-                });
-              }
-              hasUpdates = true;
-              return { ...task, reminderSent: true };
-            }
-          }
-          return task;
-        });
-        return hasUpdates ? updatedTasks : prevTasks;
-      });
-
-      // 2. Check 4-Day Deadline Window
-      const storageKey = `notified_upcoming_${user.id}_${todayStr}`;
-      const notifiedIds: string[] = JSON.parse(localStorage.getItem(storageKey) || '[]');
-      let newAlerts: string[] = [];
-      let updatedNotifiedIds = [...notifiedIds];
-      let hasNewNotifications = false;
-
-      tasks.forEach(async (task) => {
-        if (task.status === TaskStatus.DONE) return;
-        if (updatedNotifiedIds.includes(task.id)) return;
-
-        const due = new Date(task.dueDate + 'T00:00:00');
-        const daysUntilDue = differenceInCalendarDays(due, now);
-
-        if (daysUntilDue <= 4 && daysUntilDue >= 0) {
-          const dayDisplay = daysUntilDue === 0 ? 'today' : `in ${daysUntilDue} day${daysUntilDue === 1 ? '' : 's'}`;
-          const msg = `Upcoming Deadline: "${task.title}" is due on ${format(due, 'MMM d')} (${dayDisplay}).`;
-          
-          newAlerts.push(msg);
-          updatedNotifiedIds.push(task.id);
-          hasNewNotifications = true;
-
-          // Browser Notification
-          if (Notification.permission === "granted") {
-            new Notification("Task Deadline Approaching", {
-              body: msg,
-              icon: '/favicon.ico'
-            });
-          }
+  // Live sync: the socket is authenticated as the user, and joins the rooms of the projects we hold
+  const socketRef = useRef<Socket | null>(null);
+  const projectRooms = useRef(new Set<string>());
+  const projectRoomKey = projects.map(p => p.id).filter(id => !TaskUtils.isTempId(id)).join(',');
 
-          // Email Notification
-          try {
-            await apiService.sendEmailNotification(
-              user.email,
-              `NEURAL ALERT: ${task.title} Deadline Approaching`,
-              `Attention ${user.name}, the neural engine has detected that "${task.title}" is reaching its target deadline (${dayDisplay}). Immediate execution is recommended to maintain workspace stability.`,
-              task.title
-            );
-            console.log(`Email notification dispatched for task: ${task.title}`);
-          } catch (err) {
-            console.error('Failed to dispatch email notification:', err);
-          }
-        }
-      });
+  useEffect(() => {
+    const next = new Set(projectRoomKey ? projectRoomKey.split(',') : []);
+    const socket = socketRef.current;
+    if (socket?.connected) {
+      next.forEach(id => { if (!projectRooms.current.has(id)) socket.emit('joinProjectRoom', id); });
+      projectRooms.current.forEach(id => { if (!next.has(id)) socket.emit('leaveProjectRoom', id); });
+    }
+    projectRooms.current = next;
+  }, [projectRoomKey]);
 
-      if (hasNewNotifications) {
-        setDeadlineAlerts(prev => [...prev, ...newAlerts]);
-        localStorage.setItem(storageKey, JSON.stringify(updatedNotifiedIds));
-      }
-    };
+  // The open workspace's room hears about projects and tasks added by other members
+  useEffect(() => {
+    const socket = socketRef.current;
+    if (!activeWorkspaceId || !socket?.connected) return;
+    socket.emit('joinWorkspaceRoom', activeWorkspaceId);
+    return () => { if (socket.connected) socket.emit('leaveWorkspaceRoom', activeWorkspaceId); };
+  }, [activeWorkspaceId]);
 
-    checkNotifications();
-    const interval = setInterval(checkNotifications, 60000);
+  useEffect(() => {
+    if (!user) return;
 
     // Neural Real-time Sync
     const socket = io({
       path: '/socket.io',
       transports: ['websocket', 'polling'],
+      auth: { token: apiService.getAuthToken() },
       // Use environment-appropriate URL
       ...(window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1'
         ? { hostname: 'localhost', port: 3001, protocol: 'ws:' }
         : { hostname: window.location.hostname, port: window.location.port || undefined })
     });
     
-    socket.on('neural_alert', (data: { message: string, taskTitle?: string }) => {
-      console.log('📡 Real-time TASQ.ONE Alert Received:', data);
-      setDeadlineAlerts(prev => [data.message, ...prev]);
+    socketRef.current = socket;
+
+    // The server puts the socket in the user's own room; project rooms are (re)joined on every connect,
+    // and a reconnect refetches whatever changed while we were away
+    let connectedBefore = false;
+    socket.on('connect', () => {
+      apiService.setSocketId(socket.id ?? null);
+      projectRooms.current.forEach(id => socket.emit('joinProjectRoom', id));
+      if (workspaceRef.current) socket.emit('joinWorkspaceRoom', workspaceRef.current);
+      if (connectedBefore) fetchAllData();
+      connectedBefore = true;
+    });
+    socket.on('disconnect', () => apiService.setSocketId(null));
+
+    // Changes made in other tabs or by teammates. Our own changes still waiting in the outbox win over
+    // them, and a copy older than the one we hold is ignored.
+    socket.on('task:created', (data: unknown) => mergeRemoteTask(data));
+    socket.on('task:updated', (data: unknown) => mergeRemoteTask(data));
+    socket.on('task:deleted', (data: unknown) => {
+      try {
+        const { id } = taskDeletedEvent(data);
+        setTasks(prev => TaskUtils.removeRemote(prev, id));
+        setAssignedToMe(prev => prev.filter(t => t.id !== id));
+        setAssignedByMe(prev => prev.filter(t => t.id !== id));
+      } catch (error) {
+        console.warn('⚠️ Ignoring malformed task event:', error);
+      }
+    });
+    socket.on('taskProgress', (data: unknown) => {
+      try {
+        const { task_id, update } = taskProgressEvent(data);
+        setProgressUpdate(progressUpdateFromRow(task_id, update));
+      } catch (error) {
+        console.warn('⚠️ Ignoring malformed progress event:', error);
+      }
+    });
+    socket.on('project:created', (data: unknown) => mergeRemoteProject(data));
+    socket.on('project:updated', (data: unknown) => mergeRemoteProject(data));
+    socket.on('project:deleted', (data: unknown) => {
+      try {
+        const { id } = projectDeletedEvent(data);
+        // The server deletes a project's tasks along with it
+        setProjects(prev => prev.filter(p => p.id !== id));
+        setTasks(prev => prev.filter(t => t.projectId !== id));
+        setSelectedProjectId(prev => prev === id ? null : prev);
+      } catch (error) {
+        console.warn('⚠️ Ignoring malformed project event:', error);
+      }
+    });
+
+    // Renames, role changes and members joining or leaving; the list is reloaded since roles are per user
+    const onWorkspaceChange = () => {
+      refreshWorkspaces().catch(err => console.warn('⚠️ Failed to reload workspaces:', err));
+    };
+    socket.on('workspace:updated', onWorkspaceChange);
+    socket.on('workspace:deleted', onWorkspaceChange);
+
+    // The server has already applied the user's notification preferences and says which channels apply
+    socket.on('neural_alert', (data: unknown) => {
+      let row: NotificationRow;
+      try {
+        row = notificationRow(data);
+      } catch (error) {
+        console.warn('⚠️ Ignoring malformed alert:', error);
+        return;
+      }
+      const notification = notificationFromRow(row);
+      console.log('📡 Real-time TASQ.ONE Alert Received:', notification);
+      if (row.inbox !== false) {
+        setNotifications(prev => [notification, ...prev.filter(n => n.id !== notification.id)]);
+        setUnreadCount(prev => prev + 1);
+        setToasts(prev => [notification, ...prev]);
+      }
       
-      if (Notification.permission === "granted") {
-        new Notification(data.taskTitle || "TASQ.ONE System Update", {
-          body: data.message,
+      // Devices subscribed to Web Push get the system notification from the service worker instead
+      if (row.push && !pushService.isSubscribed() && "Notification" in window && Notification.permission === "granted") {
+        new Notification(notification.title, {
+          body: notification.message,
           icon: '/logo.png'
         });
       }
     });
 
     return () => {
-      clearInterval(interval);
       socket.disconnect();
+      socketRef.current = null;
+      apiService.setSocketId(null);
     };
-  }, [user, tasks]);
+  }, [user?.id]);
+
+  const mergeRemoteTask = (data: unknown) => {
+    try {
+      const row = taskChangeEvent(data).task;
+      const task = taskFromRow(row);
+      if (syncQueue.hasPendingFor('task', task.id)) return;
+      // Tasks we can see are those of the open workspace, or else our own and those in projects we hold;
+      // one moved elsewhere drops out
+      const visible = workspaceRef.current
+        ? row.workspace === workspaceRef.current
+        : !row.workspace && (!row.user || row.user === user?.id || (!!task.projectId && projectRooms.current.has(task.projectId)));
+      setTasks(prev => visible ? TaskUtils.mergeRemote(prev, task) : prev.filter(t => t.id !== task.id));
+      // Change events only carry the assigner's id, so a listed task keeps the name it was fetched with
+      const mergeAssigned = (list: Task[], listed: boolean) => {
+        if (!listed) return list.filter(t => t.id !== task.id);
+        const assignedByName = list.find(t => t.id === task.id)?.assignedByName;
+        return TaskUtils.mergeRemote(list, { ...task, assignedByName });
+      };
+      setAssignedToMe(prev => mergeAssigned(prev, task.assigneeId === user?.id));
+      setAssignedByMe(prev => mergeAssigned(prev, !!task.assigneeId && task.assignedById === user?.id));
+    } catch (error) {
+      console.warn('⚠️ Ignoring malformed task event:', error);
+    }
+  };
+
+  const mergeRemoteProject = (data: unknown) => {
+    try {
+      const project = projectFromRow(projectChangeEvent(data).project);
+      if (syncQueue.hasPendingFor('project', project.id)) return;
+      if ((project.workspaceId || null) !== workspaceRef.current) return;
+      setProjects(prev => TaskUtils.mergeRemote(prev, project));
+    } catch (error) {
+      console.warn('⚠️ Ignoring malformed project event:', error);
+    }
+  };
 
   // Auth Handlers
-  const handleLogin = (loggedInUser: User) => {
+  const handleLogin = async (loggedInUser: User) => {
+    // Changes held back by an expired session are sent now, but only on behalf of whoever made them
+    const outboxOwner = localStorage.getItem(OUTBOX_OWNER_KEY);
+    localStorage.removeItem(OUTBOX_OWNER_KEY);
+    setSessionNotice(null);
+    if (outboxOwner && outboxOwner !== loggedInUser.id) {
+      await syncQueue.reset();
+    } else {
+      syncQueue.resume();
+    }
     setUser(loggedInUser);
   };
 
-  const handleLogout = () => {
+  // Unsynced changes are sent first; whatever can't be sent now is only dropped once the user agrees
+  const handleLogout = async () => {
+    await syncQueue.flush();
+    if (syncQueue.hasPending() && !window.confirm('Some of your changes have not synced yet and will be lost if you log out now. Log out anyway?')) return;
+    syncQueue.reset();
+    pushService.reset().catch(err => console.warn('⚠️ Failed to unsubscribe from push:', err));
+    endSession();
+    console.log('User logged out successfully');
+  };
+
+  // The server stopped accepting this session while changes were still queued. The user signs in
+  // again and the outbox picks up where it stopped; the cached tasks and projects are kept for that.
+  const expireSession = () => {
+    const owner = userRef.current?.id;
+    endSession();
+    if (owner) localStorage.setItem(OUTBOX_OWNER_KEY, owner);
+    setSessionNotice('Your session expired. Sign in again to sync your latest changes.');
+  };
+
+  // Forget the signed-in user and everything loaded for them
+  const endSession = () => {
     // Clear user data
     setUser(null);
     setCurrentView('DASHBOARD');
@@ -246,57 +386,232 @@ const App: React.FC = () => {
     }
     localStorage.removeItem('authToken');
     apiService.logout();
-    
-    console.log('User logged out successfully');
+    StatusModel.reset();
+    setStatuses(StatusModel.all());
+    setTags([]);
+    setCategories([]);
+    setTimeEntries([]);
+    setActiveTimer(null);
+    setTasks([]);
+    setAssignedToMe([]);
+    setAssignedByMe([]);
+    setProjects([]);
+    setWorkspaces([]);
+    setActiveWorkspaceId(null);
+    setIsWorkspaceSettingsOpen(false);
+    setTaskConflict(null);
+    setNotifications([]);
+    setUnreadCount(0);
+    setToasts([]);
+    setFocusTaskId(null);
+    setIsHydrated(false);
   };
 
   const updateUser = (updates: Partial<User>) => {
     setUser(prev => prev ? { ...prev, ...updates } : null);
   };
 
+  // Posting a progress update can move the task to another status; our own socket doesn't hear about it
+  const applyProgressTask = (task: Task) => {
+    const refetch = completesRecurrence(task.id, task.status);
+    const withStatus = (list: Task[]) => list.map(t => t.id === task.id
+      ? { ...t, status: task.status, updatedAt: task.updatedAt }
+      : t);
+    setTasks(withStatus);
+    setAssignedToMe(withStatus);
+    setAssignedByMe(withStatus);
+    if (refetch) fetchAllData();
+  };
+
+  // Assignments span every space the user is in, so switching workspaces doesn't reset them
+  const refreshAssignments = async () => {
+    const [toMe, byMe] = await Promise.all([apiService.getMyAssignedTasks(), apiService.getTasksAssignedByMe()]);
+    setAssignedToMe(toMe.map(taskFromRow));
+    setAssignedByMe(byMe.map(taskFromRow));
+  };
+
+  // Notification inbox; online only, like tags and time tracking
+  const refreshNotifications = async () => {
+    const response = await apiService.getNotifications();
+    setNotifications(response.data.notifications.map(notificationFromRow));
+    setUnreadCount(response.data.unread_count);
+  };
+
+  const markNotificationRead = async (id: string, read: boolean) => {
+    setNotifications(prev => prev.map(n => n.id === id ? { ...n, read } : n));
+    try {
+      const response = await apiService.markNotificationRead(id, read);
+      setUnreadCount(response.data.unread_count);
+    } catch (error) {
+      console.error('❌ Failed to update notification:', error);
+      refreshNotifications().catch(() => {});
+    }
+  };
+
+  const markAllNotificationsRead = async () => {
+    setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    setUnreadCount(0);
+    try {
+      await apiService.markAllNotificationsRead();
+    } catch (error) {
+      console.error('❌ Failed to mark notifications read:', error);
+      refreshNotifications().catch(() => {});
+    }
+  };
+
+  const deleteNotification = async (id: string) => {
+    setNotifications(prev => prev.filter(n => n.id !== id));
+    setToasts(prev => prev.filter(n => n.id !== id));
+    try {
+      const response = await apiService.deleteNotification(id);
+      setUnreadCount(response.data.unread_count);
+    } catch (error) {
+      console.error('❌ Failed to delete notification:', error);
+      refreshNotifications().catch(() => {});
+    }
+  };
+
+  // Workspaces are managed online only, like notifications
+  const refreshWorkspaces = async () => {
+    const list = (await apiService.getWorkspaces()).map(workspaceFromRow);
+    setWorkspaces(list);
+    // Removed from the open workspace, or it was deleted: fall back to the personal space
+    if (workspaceRef.current && !list.some(w => w.id === workspaceRef.current)) enterWorkspace(null);
+  };
+
+  const enterWorkspace = (id: string | null) => {
+    workspaceRef.current = id;
+    setActiveWorkspaceId(id);
+    setTasks([]);
+    setProjects([]);
+    setSelectedProjectId(null);
+    setFocusTaskId(null);
+    setTaskConflict(null);
+    fetchAllData();
+  };
+
+  // Queued offline edits are sent before leaving the space they were made in
+  const switchWorkspace = async (id: string | null) => {
+    if (id === workspaceRef.current) return;
+    await syncQueue.flush();
+    if (syncQueue.hasPending()) {
+      setToasts(prev => [{
+        id: `workspace-${Date.now()}`,
+        type: 'system',
+        title: 'Changes not synced yet',
+        message: 'Your offline changes are still waiting to sync. Switch workspaces once you are back online.',
+        read: true,
+        createdAt: new Date().toISOString()
+      }, ...prev]);
+      return;
+    }
+    enterWorkspace(id);
+  };
+
+  const createWorkspace = async (name: string) => {
+    const workspace = workspaceFromRow(await apiService.createWorkspace(name));
+    setWorkspaces(prev => [...prev, workspace].sort((a, b) => a.name.localeCompare(b.name)));
+    await switchWorkspace(workspace.id);
+  };
+
+  const saveWorkspace = (workspace: Workspace) => {
+    setWorkspaces(prev => prev.map(w => w.id === workspace.id ? workspace : w));
+  };
+
+  // Left or deleted from the settings dialog
+  const dropWorkspace = (id: string) => {
+    setWorkspaces(prev => prev.filter(w => w.id !== id));
+    setIsWorkspaceSettingsOpen(false);
+    if (workspaceRef.current === id) enterWorkspace(null);
+  };
+
+  const joinWorkspace = async (workspace: Workspace) => {
+    setWorkspaces(prev => [...prev.filter(w => w.id !== workspace.id), workspace].sort((a, b) => a.name.localeCompare(b.name)));
+    closeInvitation();
+    await switchWorkspace(workspace.id);
+  };
+
+  const closeInvitation = () => {
+    setInviteToken(null);
+    window.history.replaceState({}, document.title, '/');
+  };
+
+  // Deep link: a notification about a task opens it in My Tasks, otherwise its project
+  const openTarget = ({ taskId, projectId }: PushOpenTarget) => {
+    if (taskId) {
+      setFocusTaskId(taskId);
+      setCurrentView('TASKS');
+    } else if (projectId) {
+      handleProjectSelectFromDashboard(projectId);
+    }
+  };
+
+  const openNotification = (notification: AppNotification) => {
+    setToasts(prev => prev.filter(n => n.id !== notification.id));
+    if (!notification.read) markNotificationRead(notification.id, true);
+    openTarget(notification);
+  };
+
+  // Push notifications clicked while the app is open arrive from the service worker; with no tab
+  // open, the worker opens one with the target in the URL instead
+  useEffect(() => {
+    if (!user) return;
+    pushService.sync().catch(err => console.warn('⚠️ Failed to sync push subscription:', err));
+
+    const params = new URLSearchParams(window.location.search);
+    if (params.has('task') || params.has('project')) {
+      const notificationId = params.get('notification');
+      if (notificationId) markNotificationRead(notificationId, true);
+      openTarget({ taskId: params.get('task'), projectId: params.get('project') });
+      window.history.replaceState({}, document.title, window.location.pathname);
+    }
+
+    return pushService.onOpen(target => {
+      if (target.notificationId) markNotificationRead(target.notificationId, true);
+      openTarget(target);
+    });
+  }, [user?.id]);
+
   // Data Handlers
   const fetchAllData = async () => {
       try {
-        console.log('🔄 Fetching all data for user:', user?.id);
-        const [tasksRes, projectsRes] = await Promise.all([
-          apiService.getTasks(),
-          apiService.getProjects()
+        // Push queued offline changes first so the server copy includes them
+        await syncQueue.flush();
+        if (syncQueue.hasPending()) {
+          console.warn('⏸️ Offline changes still pending, keeping local workspace');
+          return;
+        }
+
+        refreshNotifications().catch(err => console.warn('⚠️ Failed to load notifications:', err));
+        refreshWorkspaces().catch(err => console.warn('⚠️ Failed to load workspaces:', err));
+        refreshAssignments().catch(err => console.warn('⚠️ Failed to load assignments:', err));
+
+        const [tasksRes, projectsRes, statusesRes, tagRows, categoryRows, entryRows, activeRow] = await Promise.all([
+          apiService.getAllTasks({ workspace_id: workspaceRef.current || undefined }),
+          apiService.getProjects(workspaceRef.current),
+          apiService.getTaskStatuses(),
+          apiService.getTags(),
+          apiService.getCategories(),
+          apiService.getTimeEntries(),
+          apiService.getActiveTimer()
         ]);
 
-        console.log('📥 Tasks response:', tasksRes);
-        console.log('📥 Projects response:', projectsRes);
+        setTags(tagRows.map(tagFromRow));
+        setCategories(categoryRows.map(categoryFromRow));
+        setTimeEntries(entryRows.map(timeEntryFromRow));
+        setActiveTimer(activeRow ? activeTimerFromRow(activeRow) : null);
+
+        if (statusesRes.success) {
+          StatusModel.set(statusesRes.data.statuses);
+          setStatuses(StatusModel.all());
+        }
 
         if (tasksRes.success) {
-          const mappedTasks = tasksRes.data.tasks.map((t: any) => ({
-            id: t.id.toString(),
-            projectId: t.project_id?.toString(),
-            title: t.title,
-            description: t.description,
-            status: mapBackendStatus(t.status),
-            priority: mapBackendPriority(t.priority),
-            dueDate: t.due_date ? t.due_date.split('T')[0] : new Date().toISOString().split('T')[0],
-            category: t.project_id ? (t.project_name?.includes('Personal') ? 'Personal' : 'Company') : 'Company', // simplified logic
-            reminderMinutes: 0
-          }));
-          console.log('✅ Mapped tasks:', mappedTasks.length);
-          setTasks(mappedTasks);
+          setTasks(tasksFromRows(tasksRes.data.tasks));
         }
 
         if (projectsRes.success) {
-          const projectsData = projectsRes.data.projects || projectsRes.data;
-          console.log('📦 Raw projects data:', projectsData);
-          const mappedProjects = projectsData.map((p: any) => ({
-             id: p.id.toString(),
-             name: p.name,
-             description: p.description,
-             category: p.category === 'personal' ? 'Personal' : 'Company',
-             priority: mapBackendPriority(p.priority),
-             dueDate: p.due_date ? p.due_date.split('T')[0] : '',
-             progress: p.progress || 0,
-             milestones: []
-          }));
-          console.log('✅ Mapped projects:', mappedProjects.length);
-          setProjects(mappedProjects);
+          setProjects(projectsRes.data.projects.map(projectFromRow));
         } else {
           console.error('❌ Projects fetch failed:', projectsRes);
         }
@@ -306,168 +621,357 @@ const App: React.FC = () => {
       }
   };
 
+  // Offline Sync: hydrate from the local store, then reconcile with the server
   useEffect(() => {
-    if (user) {
-      fetchAllData();
-    }
+    if (!user) return;
+    let cancelled = false;
+
+    Promise.all([offlineStore.getAll('tasks'), offlineStore.getAll('projects')])
+      .then(([cachedTasks, cachedProjects]) => {
+        if (cancelled) return;
+        if (cachedTasks.length > 0) setTasks(cachedTasks);
+        if (cachedProjects.length > 0) setProjects(cachedProjects);
+      })
+      .catch(err => console.warn('⚠️ Offline cache unavailable:', err))
+      .finally(() => {
+        if (cancelled) return;
+        setIsHydrated(true);
+        fetchAllData();
+      });
+
+    return () => { cancelled = true; };
   }, [user]);
 
-  const mapBackendStatus = (status: string): TaskStatus => {
-     const map: Record<string, TaskStatus> = {
-       'todo': TaskStatus.TODO,
-       'in_progress': TaskStatus.IN_PROGRESS,
-       'completed': TaskStatus.DONE,
-       'cancelled': TaskStatus.DONE 
-     };
-     return map[status] || TaskStatus.TODO;
+  useEffect(() => {
+    if (!user || !isHydrated) return;
+    offlineStore.replaceAll('tasks', tasks).catch(err => console.warn('⚠️ Failed to cache tasks:', err));
+  }, [tasks, isHydrated]);
+
+  useEffect(() => {
+    if (!user || !isHydrated) return;
+    offlineStore.replaceAll('projects', projects).catch(err => console.warn('⚠️ Failed to cache projects:', err));
+  }, [projects, isHydrated]);
+
+  useEffect(() => {
+    const offRemap = syncQueue.onIdRemap((entity, tempId, serverId) => {
+      if (entity === 'task') {
+        setTasks(prev => TaskUtils.remapTempId(prev, tempId, serverId));
+      } else {
+        setProjects(prev => prev.map(p => p.id === tempId ? { ...p, id: serverId } : p));
+        setTasks(prev => TaskUtils.remapTempId(prev, tempId, serverId));
+      }
+    });
+
+    const offSynced = syncQueue.onSynced((entity, id, updatedAt) => {
+      if (entity === 'task') {
+        setTasks(prev => prev.map(t => t.id === id ? { ...t, updatedAt } : t));
+      } else {
+        setProjects(prev => prev.map(p => p.id === id ? { ...p, updatedAt } : p));
+      }
+    });
+
+    const offFailure = syncQueue.onFailure((mutation, error) => {
+      if (isConflict(error)) {
+        handleConflict(mutation, error);
+      } else if (mutation.type === 'create') {
+        // Revert optimistic create
+        if (mutation.entity === 'task') {
+          setTasks(prev => prev.filter(t => t.id !== mutation.entityId));
+        } else {
+          setProjects(prev => prev.filter(p => p.id !== mutation.entityId));
+        }
+      } else {
+        fetchAllData(); // Revert on sync
+      }
+    });
+
+    const offSignIn = syncQueue.onSignInRequired(() => {
+      if (userRef.current) expireSession();
+    });
+
+    return () => {
+      offRemap();
+      offSynced();
+      offFailure();
+      offSignIn();
+    };
+  }, []);
+
+  // Someone else saved first. Fields this user didn't edit take the server's values; the ones they did
+  // edit stay as they are until they choose in the task editor, unless the server already agrees.
+  const handleConflict = (mutation: PendingMutation, error: ApiError) => {
+    try {
+      if (mutation.entity === 'project') {
+        const theirs = projectFromRow(projectConflictBody(error.data).data.project);
+        console.warn('⚠️ Project changed elsewhere, keeping the saved version:', theirs.name);
+        setProjects(prev => prev.map(p => p.id === theirs.id ? theirs : p));
+        return;
+      }
+
+      const theirs = taskFromRow(taskConflictBody(error.data).data.task);
+      const mine = tasksRef.current.find(t => t.id === theirs.id);
+      const fields = mine
+        ? taskFieldsInPayload((mutation.payload || {}) as TaskPayload).filter(field => !TaskUtils.sameValue(mine[field], theirs[field]))
+        : [];
+      const edited = mine ? Object.fromEntries(fields.map(field => [field, mine[field]])) : {};
+      setTasks(prev => prev.map(t => t.id === theirs.id ? { ...theirs, ...edited } : t));
+      if (!mine || fields.length === 0) return;
+
+      setTaskConflict({ taskId: theirs.id, fields, mine, theirs });
+      setToasts(prev => [{
+        id: `conflict-${theirs.id}-${Date.now()}`,
+        type: 'system',
+        title: theirs.title,
+        message: `Your edit to "${theirs.title}" clashed with someone else's. Open it to choose what to keep.`,
+        taskId: theirs.id,
+        read: true,
+        createdAt: new Date().toISOString()
+      }, ...prev]);
+    } catch (parseError) {
+      console.warn('⚠️ Malformed conflict response:', parseError);
+      fetchAllData();
+    }
   };
 
-  const mapBackendPriority = (priority: string): Priority => {
-     const map: Record<string, Priority> = {
-       'low': Priority.LOW,
-       'medium': Priority.MEDIUM,
-       'high': Priority.HIGH
-     };
-     return map[priority] || Priority.MEDIUM;
+  // The chosen edits are saved on top of the server copy the conflict came with
+  const resolveTaskConflict = async (keep: Partial<Task>) => {
+    if (!taskConflict) return;
+    const { theirs } = taskConflict;
+    setTaskConflict(null);
+    setTasks(prev => prev.map(t => t.id === theirs.id ? { ...theirs, ...keep } : t));
+    const payload = taskToPayload(keep);
+    if (Object.keys(payload).length > 0) {
+      if (theirs.updatedAt) payload.base_updated_at = theirs.updatedAt;
+      await syncQueue.enqueue({ entity: 'task', type: 'update', entityId: theirs.id, payload });
+    }
   };
 
   const addTask = async (task: Task) => {
     // Optimistic Update
-    const tempId = Date.now().toString();
-    const optimisticTask = { ...task, id: tempId };
+    const tempId = TaskUtils.generateTempId();
+    const optimisticTask = TaskUtils.createOptimisticTask(task, tempId);
     setTasks(prev => [optimisticTask, ...prev]);
 
     console.log('🚀 Creating task:', task.title);
-    console.log('📦 Task payload:', task);
 
-    try {
-       const payload = {
-         title: task.title,
-         description: task.description,
-         status: task.status === TaskStatus.TODO ? 'todo' : task.status === TaskStatus.IN_PROGRESS ? 'in_progress' : 'completed',
-         priority: task.priority.toLowerCase(),
-         due_date: task.dueDate,
-         project_id: task.projectId ? task.projectId : undefined
-       };
-       
-       console.log('📤 Sending to API:', payload);
-       
-       const response = await apiService.createTask(payload);
-       
-       console.log('📥 API Response:', response);
-       
-       if (response.success) {
-          const newTask = response.data.task;
-          console.log('✅ Task created successfully:', newTask);
-          setTasks(prev => prev.map(t => t.id === tempId ? { ...t, id: newTask.id.toString() } : t));
-       } else {
-          console.error('❌ API returned success:false', response);
-          // Revert optimistic update
-          setTasks(prev => prev.filter(t => t.id !== tempId));
-       }
-    } catch (e: any) {
-       console.error('❌ Failed to commit task:', e);
-       console.error('Error details:', {
-         message: e.message,
-         response: e.response?.data,
-         status: e.response?.status
-       });
-       // Revert optimistic
-       setTasks(prev => prev.filter(t => t.id !== tempId));
-    }
+    const payload = taskToPayload(task);
+    if (workspaceRef.current) payload.workspace_id = workspaceRef.current;
+    await syncQueue.enqueue({ entity: 'task', type: 'create', entityId: tempId, payload });
   };
 
   const removeTask = async (id: string) => {
-    setTasks(prev => prev.filter(t => t.id !== id));
-    try {
-      await apiService.deleteTask(id);
-    } catch (e) {
-      console.error("Failed to delete task:", e);
-      fetchAllData(); // Revert on sync
-    }
+    // The server deletes subtasks along with their parent
+    setTasks(prev => prev.filter(t => t.id !== id && t.parentId !== id));
+    await syncQueue.enqueue({ entity: 'task', type: 'delete', entityId: id });
+  };
+
+  // Completing a recurring task makes the server create the next occurrence, which we then pull in
+  const completesRecurrence = (id: string, status?: TaskStatusKey) => {
+    const task = tasks.find(t => t.id === id);
+    return !!task?.recurrence && status !== undefined && !StatusModel.isDone(task.status) && StatusModel.isDone(status);
+  };
+
+  // Mirrors the API rule that a parent can't be completed while it has open subtasks
+  const blockedBySubtasks = (id: string, status?: TaskStatusKey) => {
+    if (status === undefined || !StatusModel.isDone(status) || !TaskUtils.hasOpenSubtasks(tasks, id)) return false;
+    console.warn('⛔ Complete all subtasks before completing this task');
+    return true;
   };
 
-  const updateTaskStatus = async (id: string, status: TaskStatus) => {
+  // Mirrors the API rule that a task can't be started or finished before its dependencies are done;
+  // admins may override it, which the API records on the task
+  const blockedByDependencies = (id: string, status?: TaskStatusKey, override = false) => {
+    const task = tasks.find(t => t.id === id);
+    if (!task || status === undefined || status === task.status || !TaskUtils.needsDependencies(status)) return false;
+    if (TaskUtils.blockingTasks(tasks, task).length === 0 || (override && user?.role === 'admin')) return false;
+    console.warn('⛔ Finish this task\'s dependencies before moving it on');
+    return true;
+  };
+
+  const updateTaskStatus = async (id: string, status: TaskStatusKey, overrideDependencies = false) => {
+    if (blockedBySubtasks(id, status) || blockedByDependencies(id, status, overrideDependencies)) return;
+    const refetch = completesRecurrence(id, status);
+    const base = tasks.find(t => t.id === id)?.updatedAt;
     setTasks(prev => prev.map(t => t.id === id ? { ...t, status } : t));
-    try {
-      const backendStatus = status === TaskStatus.DONE ? 'completed' : status === TaskStatus.IN_PROGRESS ? 'in_progress' : 'todo';
-      await apiService.updateTask(id, { status: backendStatus });
-    } catch(e) {
-      console.error("Failed to update status", e);
-    }
+    const payload = taskToPayload({ status });
+    if (overrideDependencies) payload.override_dependencies = true;
+    if (base) payload.base_updated_at = base;
+    await syncQueue.enqueue({ entity: 'task', type: 'update', entityId: id, payload });
+    if (refetch) fetchAllData();
   };
 
   const updateTask = async (id: string, updates: Partial<Task>) => {
+    if (blockedBySubtasks(id, updates.status) || blockedByDependencies(id, updates.status)) return;
+    const refetch = completesRecurrence(id, updates.status);
+    const base = tasks.find(t => t.id === id)?.updatedAt;
     setTasks(prev => prev.map(t => t.id === id ? { ...t, ...updates } : t));
+    const payload = taskToPayload(updates);
+
+    if (Object.keys(payload).length > 0) {
+      if (base) payload.base_updated_at = base;
+      await syncQueue.enqueue({ entity: 'task', type: 'update', entityId: id, payload });
+      if (refetch) fetchAllData();
+    }
+  };
+
+  // Status model changes apply immediately and roll back if the server rejects them
+  const updateStatuses = async (next: StatusDefinition[]) => {
+    const previous = statuses;
+    StatusModel.set(next);
+    setStatuses(next);
+    try {
+      const response = await apiService.updateTaskStatuses(next);
+      StatusModel.set(response.data.statuses);
+      setStatuses(StatusModel.all());
+    } catch (error) {
+      console.error('❌ Failed to save statuses:', error);
+      StatusModel.set(previous);
+      setStatuses(previous);
+      throw error;
+    }
+  };
+
+  // Tags are managed online only; errors are rethrown so the tag editor can show them
+  const createTag = async (payload: TagPayload) => {
+    const response = await apiService.createTag(payload);
+    const tag = tagFromRow(response.data.tag);
+    setTags(prev => [...prev, tag].sort((a, b) => a.name.localeCompare(b.name)));
+    return tag;
+  };
+
+  const updateTag = async (id: string, payload: TagPayload) => {
+    const response = await apiService.updateTag(id, payload);
+    const updated = tagFromRow(response.data.tag);
+    setTags(prev => prev
+      .map(t => t.id === id ? { ...updated, taskCount: t.taskCount } : t)
+      .sort((a, b) => a.name.localeCompare(b.name)));
+  };
+
+  const deleteTag = async (id: string) => {
+    await apiService.deleteTag(id);
+    setTags(prev => prev.filter(t => t.id !== id));
+    setTasks(prev => prev.map(t => t.tags?.includes(id) ? { ...t, tags: t.tags.filter(tagId => tagId !== id) } : t));
+  };
+
+  // Categories follow the same online-only pattern; deleting one leaves its tasks and projects uncategorized
+  const createCategory = async (payload: CategoryPayload) => {
+    const response = await apiService.createCategory(payload);
+    const category = categoryFromRow(response.data.category);
+    setCategories(prev => [...prev, category].sort((a, b) => a.name.localeCompare(b.name)));
+    return category;
+  };
+
+  const updateCategory = async (id: string, payload: CategoryPayload) => {
+    const response = await apiService.updateCategory(id, payload);
+    const updated = categoryFromRow(response.data.category);
+    setCategories(prev => prev
+      .map(c => c.id === id ? { ...updated, taskCount: c.taskCount } : c)
+      .sort((a, b) => a.name.localeCompare(b.name)));
+  };
+
+  const deleteCategory = async (id: string) => {
+    await apiService.deleteCategory(id);
+    setCategories(prev => prev.filter(c => c.id !== id));
+    setTasks(prev => prev.map(t => t.category === id ? { ...t, category: undefined } : t));
+    setProjects(prev => prev.map(p => p.category === id ? { ...p, category: undefined } : p));
+  };
+
+  // Calendar imports run on the server, which dedupes by event UID, so the task list is refetched afterwards.
+  // The server takes at most 500 events per request.
+  const importCalendar = async (events: CalendarImportEvent[]) => {
+    const result = { created: 0, updated: 0, skipped: 0 };
+    for (let i = 0; i < events.length; i += 500) {
+      const response = await apiService.importCalendar(events.slice(i, i + 500));
+      result.created += response.data.created;
+      result.updated += response.data.updated;
+      result.skipped += response.data.skipped;
+    }
+    await fetchAllData();
+    return result;
+  };
+
+  // Time tracking is online only too. The running timer lives on the server, so when a request
+  // fails (typically because another device started or stopped it) we resync before rethrowing.
+  const refreshTimeTracking = async () => {
+    const [entryRows, activeRow] = await Promise.all([apiService.getTimeEntries(), apiService.getActiveTimer()]);
+    setTimeEntries(entryRows.map(timeEntryFromRow));
+    setActiveTimer(activeRow ? activeTimerFromRow(activeRow) : null);
+  };
+
+  const withTimeResync = async (action: () => Promise<void>) => {
     try {
-       const payload: any = {};
-       if (updates.title) payload.title = updates.title;
-       if (updates.priority) payload.priority = updates.priority.toLowerCase();
-       if (updates.dueDate) payload.due_date = updates.dueDate;
-       
-       if (Object.keys(payload).length > 0) {
-         await apiService.updateTask(id, payload);
-       }
-    } catch (e) {
-      console.error("Failed to update task", e);
+      await action();
+    } catch (error) {
+      await refreshTimeTracking().catch(err => console.warn('⚠️ Failed to resync time tracking:', err));
+      throw error;
     }
   };
 
+  const startTimer = (description: string, taskId?: string) => withTimeResync(async () => {
+    const response = await apiService.startTimer({ description, task_id: taskId || null });
+    setActiveTimer(activeTimerFromRow(response.data.entry));
+  });
+
+  const stopTimer = () => withTimeResync(async () => {
+    const response = await apiService.stopTimer();
+    setActiveTimer(null);
+    setTimeEntries(prev => [timeEntryFromRow(response.data.entry), ...prev]);
+  });
+
+  const addTimeEntry = async (entry: Omit<TimeEntry, 'id' | 'billable'> & { billable?: boolean }) => {
+    const response = await apiService.createTimeEntry(timeEntryToPayload(entry));
+    setTimeEntries(prev => [timeEntryFromRow(response.data.entry), ...prev]);
+  };
+
+  const updateTimeEntry = async (id: string, updates: Partial<TimeEntry>) => {
+    const response = await apiService.updateTimeEntry(id, timeEntryToPayload(updates));
+    const updated = timeEntryFromRow(response.data.entry);
+    setTimeEntries(prev => prev.map(e => e.id === id ? updated : e));
+  };
+
+  const deleteTimeEntry = async (id: string) => {
+    await apiService.deleteTimeEntry(id);
+    setTimeEntries(prev => prev.filter(e => e.id !== id));
+  };
+
+  // Pick up a timer started or stopped on another device when the user comes back to this tab
+  useEffect(() => {
+    if (!user) return;
+    const onFocus = () => {
+      refreshTimeTracking().catch(err => console.warn('⚠️ Failed to refresh time tracking:', err));
+    };
+    window.addEventListener('focus', onFocus);
+    return () => window.removeEventListener('focus', onFocus);
+  }, [user]);
+
   const addProject = async (project: Project) => {
     // Optimistic
-    const tempId = Date.now().toString();
-    const optimisticProject = { ...project, id: tempId };
+    const tempId = TaskUtils.generateTempId();
+    const optimisticProject = { ...project, id: tempId, workspaceId: workspaceRef.current };
     setProjects(prev => [optimisticProject, ...prev]);
 
-    try {
-      const payload = {
-        name: project.name,
-        description: project.description,
-        category: project.category === 'Personal' ? 'personal' : 'company',
-        priority: project.priority.toLowerCase(),
-        due_date: project.dueDate
-      };
-      
-      const response = await apiService.createProject(payload);
-      if (response.success) {
-         const newProject = response.data.project;
-         setProjects(prev => prev.map(p => p.id === tempId ? { ...p, id: newProject.id.toString() } : p));
-      }
-    } catch (e) {
-      console.error("Failed to create project:", e);
-      setProjects(prev => prev.filter(p => p.id !== tempId));
-    }
+    const payload = projectToPayload(project);
+    if (workspaceRef.current) payload.workspace_id = workspaceRef.current;
+    await syncQueue.enqueue({ entity: 'project', type: 'create', entityId: tempId, payload });
   };
 
   const updateProject = async (id: string, updates: Partial<Project>) => {
+    const base = projects.find(p => p.id === id)?.updatedAt;
     setProjects(prev => prev.map(p => p.id === id ? { ...p, ...updates } : p));
-    try {
-       const payload: any = {};
-       if (updates.name) payload.name = updates.name;
-       if (updates.description) payload.description = updates.description;
-       if (updates.category) payload.category = updates.category === 'Personal' ? 'personal' : 'company';
-       if (updates.priority) payload.priority = updates.priority.toLowerCase();
-       if (updates.dueDate) payload.due_date = updates.dueDate;
-       if (updates.progress !== undefined) payload.progress = updates.progress;
-
-       if (Object.keys(payload).length > 0) {
-         await apiService.updateProject(id, payload);
-       }
-    } catch (e) {
-      console.error("Failed to update project:", e);
+    const payload = projectToPayload(updates);
+
+    if (Object.keys(payload).length > 0) {
+      if (base) payload.base_updated_at = base;
+      await syncQueue.enqueue({ entity: 'project', type: 'update', entityId: id, payload });
     }
   };
 
   const removeProject = async (id: string) => {
+    // The server deletes the project's tasks with it; the cache follows the state
     setProjects(prev => prev.filter(p => p.id !== id));
-    setTasks(prev => prev.map(t => t.projectId === id ? { ...t, projectId: undefined } : t));
-    
-    try {
-      await apiService.deleteProject(id);
-    } catch (e) {
-      console.error("Failed to delete project:", e);
-      fetchAllData();
-    }
+    setTasks(prev => prev.filter(t => t.projectId !== id));
+    setSelectedProjectId(prev => prev === id ? null : prev);
+    await syncQueue.enqueue({ entity: 'project', type: 'delete', entityId: id });
   };
 
   const handleProjectSelectFromDashboard = (id: string) => {
@@ -488,11 +992,12 @@ const App: React.FC = () => {
           />
         );
       case 'TASKS':
-        return <TaskManager tasks={tasks} addTask={addTask} updateTaskStatus={updateTaskStatus} removeTask={removeTask} updateTask={updateTask} />;
+        return <TaskManager tasks={tasks} statuses={statuses} tags={tags} categories={categories} createTag={createTag} updateTag={updateTag} deleteTag={deleteTag} addTask={addTask} updateTaskStatus={updateTaskStatus} removeTask={removeTask} updateTask={updateTask} currentUserId={user?.id} focusTaskId={focusTaskId} onFocusHandled={() => setFocusTaskId(null)} conflict={taskConflict} onResolveConflict={resolveTaskConflict} projects={projects} workspaceId={activeWorkspaceId} canEdit={canEditWorkspace} assignedToMe={assignedToMe} assignedByMe={assignedByMe} progressUpdate={progressUpdate} onProgressPosted={applyProgressTask} />;
       case 'PROJECTS':
         return (
           <ProjectManager 
             projects={projects} 
+            categories={categories}
             addProject={addProject} 
             updateProject={updateProject}
             removeProject={removeProject}
@@ -502,18 +1007,38 @@ const App: React.FC = () => {
             removeTask={removeTask}
             updateTaskStatus={updateTaskStatus}
             initialSelectedId={selectedProjectId}
+            canEdit={canEditWorkspace}
+            canDelete={canDeleteProjects}
           />
         );
       case 'CALENDAR':
-        return <CalendarView tasks={tasks} updateTask={updateTask} addTask={addTask} />;
+        return <CalendarView tasks={tasks} tags={tags} categories={categories} updateTask={updateTask} addTask={addTask} importCalendar={importCalendar} />;
+      case 'TIMELINE':
+        return <GanttView tasks={tasks} projects={projects} updateTask={updateTask} updateProject={updateProject} />;
       case 'WORKFLOW':
-        return <WorkflowView tasks={tasks} updateTaskStatus={updateTaskStatus} />;
+        return <WorkflowView tasks={tasks} statuses={statuses} tags={tags} categories={categories} updateTaskStatus={updateTaskStatus} updateStatuses={updateStatuses} canOverrideDependencies={user?.role === 'admin'} canMoveTasks={canEditWorkspace} />;
+      case 'TIME':
+        return (
+          <TimeTracking
+            tasks={tasks}
+            projects={projects}
+            preparedFor={user?.name || ''}
+            updateProject={updateProject}
+            timeEntries={timeEntries}
+            activeTimer={activeTimer}
+            startTimer={startTimer}
+            stopTimer={stopTimer}
+            addManualEntry={addTimeEntry}
+            updateEntry={updateTimeEntry}
+            deleteEntry={deleteTimeEntry}
+          />
+        );
       case 'INTELLIGENCE':
         return <WorkspaceIntelligence tasks={tasks} projects={projects} addTask={addTask} />;
       case 'BRAINSTORM':
-        return <BrainstormView tasks={tasks} projects={projects} addTask={addTask} />;
+        return <BrainstormView tasks={tasks} projects={projects} categories={categories} addTask={addTask} />;
       case 'PROFILE':
-        return <UserProfile user={user!} tasks={tasks} projects={projects} onLogout={handleLogout} onUpdateUser={updateUser} />;
+        return <UserProfile user={user!} tasks={tasks} projects={projects} categories={categories} createCategory={createCategory} updateCategory={updateCategory} deleteCategory={deleteCategory} onLogout={handleLogout} onUpdateUser={updateUser} />;
       default:
         return <Dashboard tasks={tasks} projects={projects} user={user} onViewChange={setCurrentView} onProjectSelect={handleProjectSelectFromDashboard} />;
     }
@@ -534,7 +1059,7 @@ const App: React.FC = () => {
     
     return (
       <GoogleOAuthProvider clientId={GOOGLE_CLIENT_ID}>
-        <Auth onLogin={handleLogin} />
+        <Auth onLogin={handleLogin} notice={sessionNotice} />
       </GoogleOAuthProvider>
     );
   }
@@ -548,6 +1073,13 @@ const App: React.FC = () => {
           isOpen={isSidebarOpen}
           onClose={() => setIsSidebarOpen(false)}
           onLogout={handleLogout}
+          unreadNotifications={unreadCount}
+          onOpenNotifications={() => setIsInboxOpen(true)}
+          workspaces={workspaces}
+          activeWorkspace={activeWorkspace}
+          onSelectWorkspace={switchWorkspace}
+          onCreateWorkspace={createWorkspace}
+          onManageWorkspace={() => setIsWorkspaceSettingsOpen(true)}
         />
         
         <main className="flex-1 w-full md:ml-72 flex flex-col h-full overflow-hidden transition-all duration-300 relative">
@@ -567,8 +1099,14 @@ const App: React.FC = () => {
             <div className="flex items-center gap-3">
                <div className="relative z-50">
                   <NotificationCenter 
-                     notifications={deadlineAlerts} 
-                     onClear={(idx) => setDeadlineAlerts(prev => prev.filter((_, i) => i !== idx))} 
+                     notifications={notifications} 
+                     unreadCount={unreadCount}
+                     onOpen={openNotification}
+                     onMarkRead={markNotificationRead}
+                     onMarkAllRead={markAllNotificationsRead}
+                     onDelete={deleteNotification}
+                     isOpen={isInboxOpen}
+                     onOpenChange={setIsInboxOpen}
                   />
                </div>
                <button 
@@ -585,27 +1123,33 @@ const App: React.FC = () => {
             <div className="hidden md:flex absolute top-8 right-8 z-40 items-center gap-4">
                 <div className="relative z-50">
                     <NotificationCenter 
-                        notifications={deadlineAlerts} 
-                        onClear={(idx) => setDeadlineAlerts(prev => prev.filter((_, i) => i !== idx))} 
+                        notifications={notifications} 
+                        unreadCount={unreadCount}
+                        onOpen={openNotification}
+                        onMarkRead={markNotificationRead}
+                        onMarkAllRead={markAllNotificationsRead}
+                        onDelete={deleteNotification}
+                        isOpen={isInboxOpen}
+                        onOpenChange={setIsInboxOpen}
                     />
                 </div>
             </div>
             {renderContent()}
           </div>
 
-          {deadlineAlerts.length > 0 && (
+          {toasts.length > 0 && (
             <div className="fixed bottom-6 right-6 z-50 flex flex-col gap-3 animate-fade-in-up max-w-sm w-full">
-               {deadlineAlerts.map((alert, idx) => (
-                 <div key={idx} className="bg-white/90 backdrop-blur-xl border-l-4 border-amber-500 rounded-2xl shadow-2xl p-5 flex items-start gap-4 border border-white/50 relative group animate-float">
+               {toasts.map(toast => (
+                 <div key={toast.id} onClick={() => openNotification(toast)} className="cursor-pointer bg-white/90 backdrop-blur-xl border-l-4 border-amber-500 rounded-2xl shadow-2xl p-5 flex items-start gap-4 border border-white/50 relative group animate-float">
                     <div className="p-2.5 bg-amber-50 text-amber-600 rounded-xl shrink-0 shadow-inner">
                        <Bell size={20} />
                     </div>
                     <div className="flex-1 pr-6">
-                       <h4 className="font-bold text-slate-900 text-sm">Deadline Approaching</h4>
-                       <p className="text-slate-600 text-[13px] mt-1.5 leading-relaxed">{alert}</p>
+                       <h4 className="font-bold text-slate-900 text-sm">{toast.title}</h4>
+                       <p className="text-slate-600 text-[13px] mt-1.5 leading-relaxed">{toast.message}</p>
                     </div>
                     <button 
-                      onClick={() => setDeadlineAlerts(prev => prev.filter((_, i) => i !== idx))} 
+                      onClick={(e) => { e.stopPropagation(); setToasts(prev => prev.filter(n => n.id !== toast.id)); }} 
                       className="absolute top-3 right-3 text-slate-300 hover:text-slate-500 p-1.5 rounded-lg hover:bg-slate-100 transition-all"
                     >
                        <X size={16} />
@@ -615,6 +1159,20 @@ const App: React.FC = () => {
             </div>
           )}
         </main>
+
+        {isWorkspaceSettingsOpen && activeWorkspace && (
+          <WorkspaceSettings
+            workspace={activeWorkspace}
+            currentUserId={user.id}
+            onSaved={saveWorkspace}
+            onRemoved={dropWorkspace}
+            onClose={() => setIsWorkspaceSettingsOpen(false)}
+          />
+        )}
+
+        {inviteToken && (
+          <AcceptInvitation token={inviteToken} onAccepted={joinWorkspace} onClose={closeInvitation} />
+        )}
       </div>
     </GoogleOAuthProvider>
   );
@@ -0,0 +1,54 @@
+// Service worker for Web Push notifications
+// Registered by services/pushService.ts; the backend sends { title, body, tag, data } payloads from
+// backend/utils/notifications.js. Clicking a notification focuses an open tab (or opens one) on the
+// task or project it is about.
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+const appWindows = () => self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch (error) {
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil((async () => {
+    // A focused tab already shows the alert as an in-app toast
+    const windows = await appWindows();
+    if (windows.some(client => client.focused)) return;
+
+    await self.registration.showNotification(payload.title || 'TASQ.ONE', {
+      body: payload.body || '',
+      icon: '/logo.png',
+      tag: payload.tag,
+      data: payload.data || {}
+    });
+  })());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const data = event.notification.data || {};
+
+  event.waitUntil((async () => {
+    const windows = await appWindows();
+    const client = windows.find(w => new URL(w.url).origin === self.location.origin);
+    if (client) {
+      await client.focus();
+      client.postMessage({ type: 'open-notification', ...data });
+      return;
+    }
+
+    // App.tsx reads these on load
+    const params = new URLSearchParams();
+    if (data.notificationId) params.set('notification', data.notificationId);
+    if (data.taskId) params.set('task', data.taskId);
+    else if (data.projectId) params.set('project', data.projectId);
+    await self.clients.openWindow(`/?${params.toString()}`);
+  })());
+});
@@ -12,7 +12,7 @@ const authorizeRoles = (...roles) => {
       }
 
       // Find user in database to get latest role
-      const user = await User.findById(req.user.id);
+      const user = await User.findById(req.user.userId);
       if (!user) {
         return res.status(401).json({
           success: false,
@@ -0,0 +1,58 @@
+const mongoose = require('mongoose');
+
+// Email and push for a notification that arrived during the recipient's quiet hours. The inbox entry
+// (if any) is created straight away; utils/notifications.js sends these channels once quiet hours end.
+const heldDeliverySchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User', // Recipient
+    required: true
+  },
+  type: {
+    type: String,
+    required: true
+  },
+  title: {
+    type: String,
+    required: true
+  },
+  message: {
+    type: String,
+    required: true
+  },
+  task: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Task',
+    default: null
+  },
+  project: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Project',
+    default: null
+  },
+  // The inbox entry the push links to; null when the user doesn't keep this type in their inbox
+  notification: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Notification',
+    default: null
+  },
+  // Subject and body overriding the generic alert email
+  email: {
+    subject: String,
+    body: String
+  },
+  channels: [{
+    type: String,
+    enum: ['email', 'push']
+  }],
+  release_at: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
+});
+
+heldDeliverySchema.index({ release_at: 1 });
+
+module.exports = mongoose.model('HeldDelivery', heldDeliverySchema);
@@ -0,0 +1,64 @@
+const mongoose = require('mongoose');
+
+// One entry in a user's inbox; created by utils/notifications.js and pushed live as `neural_alert`
+const notificationSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User', // Recipient
+    required: true
+  },
+  // Keep in sync with NotificationType in types.ts, which picks icons and deep links by type
+  type: {
+    type: String,
+    enum: ['reminder', 'deadline', 'assignment', 'comment', 'status_change', 'system'],
+    default: 'system'
+  },
+  title: {
+    type: String,
+    required: true
+  },
+  message: {
+    type: String,
+    required: true
+  },
+  // What the notification links to; the client opens the task, or the project when there is no task
+  task: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Task',
+    default: null
+  },
+  project: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Project',
+    default: null
+  },
+  comment: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Comment',
+    default: null
+  },
+  read: {
+    type: Boolean,
+    default: false
+  },
+  read_at: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
+});
+
+notificationSchema.index({ user: 1, created_at: -1 });
+notificationSchema.index({ user: 1, read: 1 });
+
+// Transform _id to id
+notificationSchema.set('toJSON', {
+  virtuals: true,
+  versionKey: false,
+  transform: function (doc, ret) {
+    delete ret._id;
+  }
+});
+
+module.exports = mongoose.model('Notification', notificationSchema);
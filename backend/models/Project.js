@@ -11,22 +11,52 @@ const projectSchema = new mongoose.Schema({
     default: '#3B82F6'
   },
   category: {
-    type: String,
-    default: 'company'
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Category',
+    default: null
   },
   priority: {
     type: String,
     default: 'medium'
   },
   due_date: Date,
+  // Ids are generated by the client, which creates milestones offline
+  milestones: [{
+    _id: false,
+    id: String,
+    text: String,
+    due_date: Date,
+    completed: {
+      type: Boolean,
+      default: false
+    }
+  }],
   progress: {
     type: Number,
     default: 0
   },
+  // Timesheet billing: the rate applied to time logged against the project's tasks, and whether
+  // that time is billable unless an entry says otherwise
+  hourly_rate: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  billable: {
+    type: Boolean,
+    default: true
+  },
   user: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User',
     required: true
+  },
+  // Shared with the workspace's members; null keeps the project in its creator's personal space
+  workspace: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Workspace',
+    default: null,
+    index: true
   }
 }, {
   timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
@@ -0,0 +1,54 @@
+const mongoose = require('mongoose');
+
+// One browser a user turned on push notifications in; the endpoint and keys come from the browser's
+// PushSubscription and are what utils/webPush.js sends to
+const pushSubscriptionSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  endpoint: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  keys: {
+    p256dh: {
+      type: String,
+      required: true
+    },
+    auth: {
+      type: String,
+      required: true
+    }
+  },
+  // Shown in the device list, e.g. "Chrome on Windows"
+  device_name: {
+    type: String,
+    default: 'Unknown device'
+  },
+  user_agent: {
+    type: String,
+    default: ''
+  },
+  last_used_at: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
+});
+
+// Transform _id to id; the keys stay on the server
+pushSubscriptionSchema.set('toJSON', {
+  virtuals: true,
+  versionKey: false,
+  transform: function (doc, ret) {
+    delete ret._id;
+    delete ret.keys;
+  }
+});
+
+module.exports = mongoose.model('PushSubscription', pushSubscriptionSchema);
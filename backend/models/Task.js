@@ -6,9 +6,9 @@ const taskSchema = new mongoose.Schema({
     required: true
   },
   description: String,
+  // Status keys are per-user (see utils/taskStatuses.js), so they are validated in the routes
   status: {
     type: String,
-    enum: ['todo', 'in_progress', 'completed', 'cancelled'],
     default: 'todo'
   },
   priority: {
@@ -17,6 +17,68 @@ const taskSchema = new mongoose.Schema({
     default: 'medium'
   },
   due_date: Date,
+  due_time: {
+    type: String, // HH:mm on due_date, null for tasks due any time that day
+    default: null
+  },
+  // Minutes before the due date/time to remind; 0 for no reminder
+  reminder_minutes: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  // Delivery state for the reminder scheduler (utils/reminderScheduler.js); cleared when the due date,
+  // time or reminder changes so the new one fires
+  reminder_sent_at: {
+    type: Date,
+    default: null
+  },
+  deadline_alerted_on: {
+    type: String, // The recipient's local YYYY-MM-DD of the last upcoming-deadline alert
+    default: null
+  },
+  // Planned effort, used for critical-path scheduling on the client
+  estimate_hours: {
+    type: Number,
+    default: null,
+    min: 0
+  },
+  // RFC 5545 RRULE subset (see utils/recurrence.js); null for one-off tasks
+  recurrence: {
+    type: String,
+    default: null
+  },
+  recurrence_start: Date, // DTSTART of the series, the first occurrence's due date
+  series_id: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Task', // First task of a recurring series, null on that task itself
+    default: null
+  },
+  parent: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Task', // Set on subtasks; nesting is one level deep
+    default: null,
+    index: true
+  },
+  // Tasks that must be done before this one can be started (task_dependencies in the SQL schemas)
+  dependencies: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Task'
+  }],
+  // UID of the calendar event this task was imported from, so re-importing a file updates it
+  ical_uid: {
+    type: String,
+    default: null
+  },
+  tags: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tag'
+  }],
+  category: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Category',
+    default: null
+  },
   project: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'Project',
@@ -27,6 +89,14 @@ const taskSchema = new mongoose.Schema({
     ref: 'User',
     required: true
   },
+  // Set when the task is created and never changed; its project and parent are always in the same
+  // workspace. Null keeps the task in its creator's personal space.
+  workspace: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Workspace',
+    default: null,
+    index: true
+  },
   assigned_by: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User', // Admin who assigned the task
@@ -46,10 +116,8 @@ const taskSchema = new mongoose.Schema({
     ref: 'User' // Last person who updated the task
   },
   progress_updates: [{
-    status: {
-      type: String,
-      enum: ['todo', 'in_progress', 'completed', 'cancelled']
-    },
+    status: String,
+    from_status: String, // Set when the update moved the task to `status`
     updated_by: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User'
@@ -73,4 +141,6 @@ taskSchema.set('toJSON', {
   }
 });
 
+taskSchema.index({ user: 1, ical_uid: 1 });
+
 module.exports = mongoose.model('Task', taskSchema);
\ No newline at end of file
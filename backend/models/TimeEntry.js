@@ -0,0 +1,55 @@
+const mongoose = require('mongoose');
+
+// Mirrors the time_entries table in database/mysql-schema.sql. An entry without an end_time is the
+// user's running timer; it lives here rather than in the browser so it survives reloads and devices.
+const timeEntrySchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  task: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Task', // Optional; entries outlive the task they were logged against
+    default: null
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 500,
+    default: ''
+  },
+  start_time: {
+    type: Date,
+    required: true
+  },
+  end_time: {
+    type: Date,
+    default: null
+  },
+  duration: {
+    type: Number, // in seconds; 0 while the timer is running
+    default: 0,
+    min: 0
+  },
+  billable: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
+});
+
+timeEntrySchema.index({ user: 1, start_time: -1 });
+timeEntrySchema.index({ task: 1 });
+
+// Transform _id to id
+timeEntrySchema.set('toJSON', {
+  virtuals: true,
+  versionKey: false,
+  transform: function (doc, ret) {
+    delete ret._id;
+  }
+});
+
+module.exports = mongoose.model('TimeEntry', timeEntrySchema);
@@ -41,6 +41,45 @@ const userSchema = new mongoose.Schema({
     type: Boolean,
     default: true
   },
+  // Per-event channel choices, quiet hours and the daily or weekly digest; null means the defaults
+  // (resolved by utils/notificationPreferences.js). `notifications_enabled` above is the master switch.
+  notification_preferences: {
+    type: mongoose.Schema.Types.Mixed,
+    default: null
+  },
+  // Local day the last digest went out, and when, so the next one starts where it left off
+  digest_sent_on: {
+    type: String,
+    default: null
+  },
+  digest_sent_at: {
+    type: Date,
+    default: null
+  },
+  // IANA zone the client last reported; due times are wall-clock times in it
+  timezone: {
+    type: String,
+    default: 'UTC'
+  },
+  // Ordered task status columns; empty means the built-in defaults
+  task_statuses: [{
+    _id: false,
+    key: String,
+    label: String,
+    color: String,
+    done: Boolean
+  }],
+  // Set once the default categories have been created and legacy data migrated to them
+  categories_seeded: {
+    type: Boolean,
+    default: false
+  },
+  // Secret in the URL of the user's iCalendar feed; regenerating it revokes existing subscriptions
+  calendar_token: {
+    type: String,
+    default: null,
+    index: true
+  },
   reset_token: String,
   reset_token_expires: Date,
   googleId: String
@@ -55,6 +94,7 @@ userSchema.set('toJSON', {
   transform: function (doc, ret) {
     delete ret._id;
     delete ret.password; // Don't return password
+    delete ret.calendar_token; // Only handed out by the calendar feed route
   }
 });
 
@@ -0,0 +1,49 @@
+const mongoose = require('mongoose');
+
+// A team that shares projects. Every member has a role; see utils/workspaces.js for what each allows.
+// The owner is also listed in members, so membership checks only ever look there.
+const workspaceSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  owner: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  members: [{
+    _id: false,
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    // Keep in sync with WorkspaceRole in types.ts
+    role: {
+      type: String,
+      enum: ['owner', 'admin', 'member', 'guest'],
+      default: 'member'
+    },
+    joined_at: {
+      type: Date,
+      default: Date.now
+    }
+  }]
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
+});
+
+workspaceSchema.index({ 'members.user': 1 });
+
+// Transform _id to id
+workspaceSchema.set('toJSON', {
+  virtuals: true,
+  versionKey: false,
+  transform: function (doc, ret) {
+    delete ret._id;
+  }
+});
+
+module.exports = mongoose.model('Workspace', workspaceSchema);
@@ -0,0 +1,55 @@
+const mongoose = require('mongoose');
+
+// An emailed invitation to join a workspace. Like a password reset, the link carries a random token
+// that expires; accepting it adds whoever is signed in with the invited address as a member.
+const workspaceInvitationSchema = new mongoose.Schema({
+  workspace: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Workspace',
+    required: true,
+    index: true
+  },
+  email: {
+    type: String,
+    required: true,
+    trim: true,
+    lowercase: true
+  },
+  role: {
+    type: String,
+    enum: ['admin', 'member', 'guest'],
+    default: 'member'
+  },
+  token: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  invited_by: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  expires_at: {
+    type: Date,
+    required: true
+  },
+  accepted_at: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
+});
+
+// Transform _id to id; the token only ever travels in the emailed link
+workspaceInvitationSchema.set('toJSON', {
+  virtuals: true,
+  versionKey: false,
+  transform: function (doc, ret) {
+    delete ret._id;
+    delete ret.token;
+  }
+});
+
+module.exports = mongoose.model('WorkspaceInvitation', workspaceInvitationSchema);
@@ -4,6 +4,8 @@ const Task = require('../models/Task');
 const User = require('../models/User');
 const { authenticateToken } = require('../middleware/auth');
 const { authorizeRoles } = require('../middleware/roleAuth');
+const { notify } = require('../utils/notifications');
+const { emitTaskChange } = require('../utils/realtime');
 
 // Admin route: Assign task to user
 router.post('/assign/:taskId/to/:userId', authenticateToken, authorizeRoles('admin'), async (req, res) => {
@@ -31,8 +33,9 @@ router.post('/assign/:taskId/to/:userId', authenticateToken, authorizeRoles('adm
     }
 
     // Assign the task to the user
+    const previous = { user: task.user, assigned_to: task.assigned_to, project: task.project };
     task.assigned_to = userId;
-    task.assigned_by = req.user.id; // Current admin assigning the task
+    task.assigned_by = req.user.userId; // Current admin assigning the task
     task.assigned_at = new Date();
 
     // Add task to user's assigned_tasks array
@@ -40,6 +43,7 @@ router.post('/assign/:taskId/to/:userId', authenticateToken, authorizeRoles('adm
     await user.save();
 
     await task.save();
+    emitTaskChange(req, 'updated', task, { previous });
 
     // Emit real-time notification to the assigned user
     const io = req.app.get('io');
@@ -49,6 +53,13 @@ router.post('/assign/:taskId/to/:userId', authenticateToken, authorizeRoles('adm
         task: task
       });
     }
+    await notify(io, userId, {
+      type: 'assignment',
+      title: task.title,
+      message: `A new task "${task.title}" has been assigned to you`,
+      task: task._id,
+      project: task.project
+    });
 
     res.status(200).json({
       success: true,
@@ -93,12 +104,14 @@ router.get('/users-with-tasks', authenticateToken, authorizeRoles('admin'), asyn
   }
 });
 
-// Admin route: Get all tasks assigned by admin
-router.get('/assigned-by-me', authenticateToken, authorizeRoles('admin'), async (req, res) => {
+// Get all tasks the current user handed out. Open to everyone: besides this panel's assignments, any
+// user can assign their own and their workspaces' tasks from the task editor.
+router.get('/assigned-by-me', authenticateToken, async (req, res) => {
   try {
-    const tasks = await Task.find({ assigned_by: req.user.id })
-      .populate('assigned_to', 'name email')
-      .populate('assigned_by', 'name email');
+    const tasks = await Task.find({ assigned_by: req.user.userId })
+      .populate('assigned_to', 'name email avatar_url')
+      .populate('assigned_by', 'name email avatar_url')
+      .sort({ created_at: -1 });
 
     res.status(200).json({
       success: true,
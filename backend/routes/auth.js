@@ -6,6 +6,7 @@ const User = require('../models/User');
 const { sendResetPasswordEmail } = require('../utils/emailService');
 const { authenticateToken } = require('../middleware/auth');
 const { dbOperation, inMemoryOperations, isDbConnected } = require('../utils/dbHelper');
+const { isValidTimeZone } = require('../utils/timezone');
 
 const router = express.Router();
 
@@ -223,6 +224,7 @@ router.get('/profile', authenticateToken, async (req, res, next) => {
           website: user.website,
           twoFactorEnabled: user.two_factor_enabled,
           notificationsEnabled: user.notifications_enabled,
+          timezone: user.timezone,
           created_at: user.created_at || new Date().toISOString()
         }
       }
@@ -236,7 +238,7 @@ router.get('/profile', authenticateToken, async (req, res, next) => {
 // Update user profile
 router.put('/profile', authenticateToken, async (req, res, next) => {
   try {
-    const { name, avatar_url, role, location, bio, website, security } = req.body;
+    const { name, avatar_url, role, location, bio, website, security, timezone } = req.body;
     
     const updateData = {};
     if (name) updateData.name = name;
@@ -245,6 +247,15 @@ router.put('/profile', authenticateToken, async (req, res, next) => {
     if (location !== undefined) updateData.location = location;
     if (bio !== undefined) updateData.bio = bio;
     if (website !== undefined) updateData.website = website;
+    if (timezone !== undefined) {
+      if (!isValidTimeZone(timezone)) {
+        return res.status(400).json({
+          success: false,
+          message: `Unknown time zone "${timezone}"`
+        });
+      }
+      updateData.timezone = timezone;
+    }
     
     if (security) {
       if (security.twoFactorEnabled !== undefined) updateData.two_factor_enabled = security.twoFactorEnabled;
@@ -288,6 +299,7 @@ router.put('/profile', authenticateToken, async (req, res, next) => {
           website: user.website,
           twoFactorEnabled: user.two_factor_enabled,
           notificationsEnabled: user.notifications_enabled,
+          timezone: user.timezone,
           updated_at: user.updated_at || new Date().toISOString()
         }
       }
@@ -0,0 +1,180 @@
+const express = require('express');
+const crypto = require('crypto');
+const { body, validationResult } = require('express-validator');
+const Task = require('../models/Task');
+const Project = require('../models/Project');
+const User = require('../models/User');
+const { authenticateToken } = require('../middleware/auth');
+const { isDbConnected } = require('../utils/dbHelper');
+const { getStatusesForUser, getDoneKeys } = require('../utils/taskStatuses');
+const { buildCalendar, parseOwnUid } = require('../utils/ical');
+const { emitTaskChange } = require('../utils/realtime');
+
+const router = express.Router();
+
+// Tasks due further back than this are left out of the feed
+const FEED_HISTORY_DAYS = 180;
+
+// Validation middleware
+// Events arrive already parsed by the client (utils/ical.ts), one per UID
+const importValidation = [
+  body('events').isArray({ min: 1, max: 500 }).withMessage('Events must be a list of 1 to 500 entries'),
+  body('events.*.uid').isString().trim().isLength({ min: 1, max: 255 }).withMessage('Every event needs a UID'),
+  body('events.*.title').isString().trim().notEmpty().escape().withMessage('Every event needs a title'),
+  body('events.*.description').optional().isString().trim().escape(),
+  body('events.*.due_date').isISO8601().withMessage('Invalid event date'),
+  body('events.*.due_time').optional({ nullable: true, checkFalsy: true }).matches(/^([01]\d|2[0-3]):[0-5]\d$/).withMessage('Event time must be HH:mm'),
+  body('events.*.estimate_hours').optional({ nullable: true }).isFloat({ min: 0, max: 10000 }).withMessage('Invalid event duration').toFloat(),
+  body('events.*.reminder_minutes').optional().isInt({ min: 0, max: 40320 }).withMessage('Invalid event reminder').toInt()
+];
+
+const checkValidation = (req, res, next) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+  next();
+};
+
+const requireDb = (req, res, next) => {
+  if (!isDbConnected()) {
+    return res.status(500).json({
+      success: false,
+      message: 'Calendar sync requires database connection'
+    });
+  }
+  next();
+};
+
+const feedUrl = (req, token) => `${req.protocol}://${req.get('host')}${req.baseUrl}/feed/${token}.ics`;
+
+// Get the user's feed URL, creating its token on first use
+router.get('/feed', authenticateToken, requireDb, async (req, res, next) => {
+  try {
+    const user = await User.findById(req.user.userId).select('calendar_token');
+    if (!user.calendar_token) {
+      user.calendar_token = crypto.randomBytes(24).toString('hex');
+      await user.save();
+    }
+
+    res.json({
+      success: true,
+      data: {
+        feed_url: feedUrl(req, user.calendar_token)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Replace the feed token; calendar clients subscribed to the old URL stop receiving updates
+router.post('/feed/reset', authenticateToken, requireDb, async (req, res, next) => {
+  try {
+    const token = crypto.randomBytes(24).toString('hex');
+    await User.updateOne({ _id: req.user.userId }, { calendar_token: token });
+
+    res.json({
+      success: true,
+      message: 'Calendar feed URL regenerated',
+      data: {
+        feed_url: feedUrl(req, token)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// The feed itself; calendar clients can't send a bearer token, so the URL is the credential
+router.get('/feed/:token.ics', requireDb, async (req, res, next) => {
+  try {
+    const user = await User.findOne({ calendar_token: req.params.token }).select('name');
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'Calendar feed not found'
+      });
+    }
+
+    const since = new Date(Date.now() - FEED_HISTORY_DAYS * 86400000);
+    const [tasks, projects, statuses] = await Promise.all([
+      Task.find({ $or: [{ user: user._id }, { assigned_to: user._id }], due_date: { $gte: since } })
+        .populate('project', 'name'),
+      Project.find({ user: user._id, 'milestones.0': { $exists: true } }).select('name milestones'),
+      getStatusesForUser(user._id)
+    ]);
+
+    res.set({
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="tasq-one.ics"',
+      'Cache-Control': 'private, max-age=300'
+    });
+    res.send(buildCalendar({ name: `TASQ.ONE · ${user.name}`, tasks, projects, doneKeys: getDoneKeys(statuses) }));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Import parsed calendar events as tasks
+// A UID seen before updates the task it created instead of adding another; UIDs from this server's own
+// feed point at tasks and milestones that already exist and are skipped.
+router.post('/import', authenticateToken, requireDb, importValidation, checkValidation, async (req, res, next) => {
+  try {
+    const userId = req.user.userId;
+    const events = [...new Map(req.body.events.map(e => [e.uid, e])).values()];
+
+    const ownTaskIds = events.map(e => parseOwnUid(e.uid)).filter(ref => ref && ref.kind === 'task').map(ref => ref.id);
+    const visible = new Set((await Task.find({
+      _id: { $in: ownTaskIds },
+      $or: [{ user: userId }, { assigned_to: userId }]
+    }).select('_id')).map(t => t.id));
+    const ownProjectIds = new Set((await Project.find({ user: userId }).select('_id')).map(p => p.id));
+
+    const existing = new Map((await Task.find({ user: userId, ical_uid: { $in: events.map(e => e.uid) } }).select('ical_uid'))
+      .map(t => [t.ical_uid, t]));
+
+    const result = { created: 0, updated: 0, skipped: 0 };
+    for (const event of events) {
+      const own = parseOwnUid(event.uid);
+      if (own && (own.kind === 'task' ? visible.has(own.id) : ownProjectIds.has(own.id))) {
+        result.skipped += 1;
+        continue;
+      }
+
+      const fields = {
+        title: event.title,
+        description: event.description || '',
+        due_date: event.due_date,
+        due_time: event.due_time || null,
+        estimate_hours: event.estimate_hours ?? null,
+        reminder_minutes: event.reminder_minutes || 0,
+        reminder_sent_at: null,
+        deadline_alerted_on: null
+      };
+
+      const match = existing.get(event.uid);
+      if (match) {
+        emitTaskChange(req, 'updated', await Task.findByIdAndUpdate(match._id, fields, { new: true }));
+        result.updated += 1;
+      } else {
+        emitTaskChange(req, 'created', await Task.create({ ...fields, ical_uid: event.uid, user: userId }));
+        result.created += 1;
+      }
+    }
+
+    res.json({
+      success: true,
+      message: `Imported ${result.created} new, ${result.updated} updated, ${result.skipped} skipped`,
+      data: result
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+module.exports = router;
@@ -1,18 +1,204 @@
 const express = require('express');
+const mongoose = require('mongoose');
+const { body, validationResult } = require('express-validator');
+const Category = require('../models/Category');
+const Project = require('../models/Project');
+const Task = require('../models/Task');
 const { authenticateToken } = require('../middleware/auth');
+const { dbOperation, isDbConnected } = require('../utils/dbHelper');
+const { CATEGORY_ICONS, ensureCategories } = require('../utils/categories');
 
 const router = express.Router();
 
-// Categories endpoints - to be implemented
+// Validation middleware
+const categoryValidation = [
+  body('name').notEmpty().trim().isLength({ max: 50 }).withMessage('Category name is required (max 50 characters)'),
+  body('color').optional().matches(/^#[0-9A-F]{6}$/i).withMessage('Invalid color format'),
+  body('icon').optional().isIn(CATEGORY_ICONS).withMessage(`Icon must be one of: ${CATEGORY_ICONS.join(', ')}`)
+];
+
+const categoryUpdateValidation = [
+  body('name').optional().notEmpty().trim().isLength({ max: 50 }).withMessage('Category name cannot be empty (max 50 characters)'),
+  ...categoryValidation.slice(1)
+];
+
+const checkValidation = (req, res, next) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+  next();
+};
+
+const requireDb = (req, res, next) => {
+  if (!isDbConnected()) {
+    return res.status(500).json({
+      success: false,
+      message: 'Categories require database connection'
+    });
+  }
+  next();
+};
+
+// Names are unique per user regardless of case
+const findByName = (userId, name) =>
+  Category.findOne({ user: userId, name }).collation({ locale: 'en', strength: 2 });
+
+// Get all categories for user, with how many tasks are filed under each
 router.get('/', authenticateToken, async (req, res, next) => {
   try {
+    if (!isDbConnected()) {
+      return res.json({
+        success: true,
+        data: {
+          categories: []
+        }
+      });
+    }
+
+    await ensureCategories(req.user.userId);
+
+    const categories = await dbOperation(async () => {
+      return await Category.find({ user: req.user.userId }).sort({ name: 1 });
+    }, []);
+
+    const counts = await dbOperation(async () => {
+      return await Task.aggregate([
+        // Aggregation pipelines don't cast ids, so the user id is converted by hand
+        { $match: { user: new mongoose.Types.ObjectId(req.user.userId), category: { $ne: null } } },
+        { $group: { _id: '$category', count: { $sum: 1 } } }
+      ]);
+    }, []);
+    const countById = Object.fromEntries(counts.map(c => [c._id.toString(), c.count]));
+
+    res.json({
+      success: true,
+      data: {
+        categories: categories.map(category => ({ ...category.toJSON(), task_count: countById[category.id] || 0 }))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create category
+router.post('/', authenticateToken, requireDb, categoryValidation, checkValidation, async (req, res, next) => {
+  try {
+    const { name, color, icon } = req.body;
+
+    if (await findByName(req.user.userId, name)) {
+      return res.status(409).json({
+        success: false,
+        message: `A category named "${name}" already exists`
+      });
+    }
+
+    const category = await dbOperation(async () => {
+      return await Category.create({
+        name,
+        color: color || '#6366F1',
+        icon: icon || 'folder',
+        user: req.user.userId
+      });
+    });
+
+    if (!category) {
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to create category'
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Category created successfully',
+      data: {
+        category: { ...category.toJSON(), task_count: 0 }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Rename, recolor or change the icon of a category
+router.put('/:id', authenticateToken, requireDb, categoryUpdateValidation, checkValidation, async (req, res, next) => {
+  try {
+    const { name, color, icon } = req.body;
+
+    if (name !== undefined) {
+      const existing = await findByName(req.user.userId, name);
+      if (existing && existing.id !== req.params.id) {
+        return res.status(409).json({
+          success: false,
+          message: `A category named "${name}" already exists`
+        });
+      }
+    }
+
+    const update = {};
+    if (name !== undefined) update.name = name;
+    if (color !== undefined) update.color = color;
+    if (icon !== undefined) update.icon = icon;
+
+    const category = await dbOperation(async () => {
+      return await Category.findOneAndUpdate(
+        { _id: req.params.id, user: req.user.userId },
+        update,
+        { new: true, runValidators: true }
+      );
+    });
+
+    if (!category) {
+      return res.status(404).json({
+        success: false,
+        message: 'Category not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Category updated successfully',
+      data: {
+        category: category.toJSON()
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete category; its tasks and projects become uncategorized
+router.delete('/:id', authenticateToken, requireDb, async (req, res, next) => {
+  try {
+    const category = await dbOperation(async () => {
+      return await Category.findOneAndDelete({ _id: req.params.id, user: req.user.userId });
+    });
+
+    if (!category) {
+      return res.status(404).json({
+        success: false,
+        message: 'Category not found'
+      });
+    }
+
+    await dbOperation(async () => {
+      await Task.updateMany({ user: req.user.userId, category: category._id }, { category: null });
+      await Project.updateMany({ user: req.user.userId, category: category._id }, { category: null });
+    });
+
     res.json({
       success: true,
-      message: 'Categories endpoint - to be implemented'
+      message: 'Category deleted successfully'
     });
   } catch (error) {
     next(error);
   }
 });
 
-module.exports = router;
\ No newline at end of file
+module.exports = router;
@@ -0,0 +1,241 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const Comment = require('../models/Comment');
+const Task = require('../models/Task');
+const { authenticateToken } = require('../middleware/auth');
+const { dbOperation, isDbConnected } = require('../utils/dbHelper');
+const { resolveMentions } = require('../utils/mentions');
+const { notify } = require('../utils/notifications');
+const { workspaceIdsFor } = require('../utils/workspaces');
+
+// Mounted under /api/tasks/:taskId/comments
+const router = express.Router({ mergeParams: true });
+
+const commentValidation = [
+  body('content').isString().trim().isLength({ min: 1, max: 5000 }).withMessage('Comment must be 1-5000 characters'),
+  body('parent_id').optional({ nullable: true, checkFalsy: true }).isMongoId().withMessage('Invalid parent comment')
+];
+
+// The task's owner, assignee and assigner can all take part in its thread, as can everyone in its workspace
+const loadTask = async (req, res, next) => {
+  if (!isDbConnected()) {
+    return res.status(500).json({
+      success: false,
+      message: 'Comments require database connection'
+    });
+  }
+  try {
+    const userId = req.user.userId;
+    const task = await dbOperation(async () => {
+      return await Task.findOne({
+        _id: req.params.taskId,
+        $or: [{ user: userId }, { assigned_to: userId }, { assigned_by: userId }, { workspace: { $in: await workspaceIdsFor(userId) } }]
+      }).select('title user project assigned_to assigned_by workspace');
+    });
+
+    if (!task) {
+      return res.status(404).json({
+        success: false,
+        message: 'Task not found'
+      });
+    }
+
+    req.task = task;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+const checkValidation = (req, res, next) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+  next();
+};
+
+// Flatten the populated author into the row shape the frontend expects
+const formatComment = (comment) => {
+  const obj = comment.toJSON();
+  if (comment.user && comment.user.name) {
+    obj.user = comment.user.id;
+    obj.author_name = comment.user.name;
+    obj.author_avatar = comment.user.avatar_url;
+  }
+  return obj;
+};
+
+// Notify mentioned users; nobody is notified about their own comment
+const notifyMentions = async (req, users, comment) => {
+  const recipients = users.filter(user => user.id !== req.user.userId);
+  for (const user of recipients) {
+    await notify(req.app.get('io'), user.id, {
+      type: 'comment',
+      title: req.task.title,
+      message: `${comment.author_name} mentioned you on "${req.task.title}"`,
+      task: req.task._id,
+      project: req.task.project,
+      comment: comment.id
+    });
+  }
+};
+
+// List a task's comments, oldest first; replies carry the id of the comment they answer
+router.get('/', authenticateToken, loadTask, async (req, res, next) => {
+  try {
+    const comments = await dbOperation(async () => {
+      return await Comment.find({ task: req.task._id })
+        .populate('user', 'name avatar_url')
+        .sort({ created_at: 1 });
+    }, []);
+
+    res.json({
+      success: true,
+      data: {
+        comments: comments.map(formatComment)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Add a comment or a reply
+router.post('/', authenticateToken, loadTask, commentValidation, checkValidation, async (req, res, next) => {
+  try {
+    const { content, parent_id } = req.body;
+
+    let parent = null;
+    if (parent_id) {
+      parent = await dbOperation(async () => {
+        return await Comment.findOne({ _id: parent_id, task: req.task._id }).select('parent');
+      });
+      if (!parent) {
+        return res.status(404).json({
+          success: false,
+          message: 'Parent comment not found'
+        });
+      }
+    }
+
+    const mentioned = await resolveMentions(req.task, content);
+    const comment = await dbOperation(async () => {
+      const created = await Comment.create({
+        task: req.task._id,
+        user: req.user.userId,
+        content,
+        // Replies to a reply join the same thread
+        parent: parent ? (parent.parent || parent._id) : null,
+        mentions: mentioned.map(u => u._id)
+      });
+      return await created.populate('user', 'name avatar_url');
+    });
+
+    if (!comment) {
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to add comment'
+      });
+    }
+
+    const commentObj = formatComment(comment);
+    notifyMentions(req, mentioned, commentObj);
+
+    res.status(201).json({
+      success: true,
+      message: 'Comment added successfully',
+      data: {
+        comment: commentObj
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Edit a comment (author only)
+router.put('/:commentId', authenticateToken, loadTask, commentValidation.slice(0, 1), checkValidation, async (req, res, next) => {
+  try {
+    const comment = await dbOperation(async () => {
+      return await Comment.findOne({ _id: req.params.commentId, task: req.task._id, user: req.user.userId });
+    });
+
+    if (!comment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Comment not found'
+      });
+    }
+
+    // Only people newly mentioned by the edit get a fresh notification
+    const previous = comment.mentions.map(id => id.toString());
+    const mentioned = await resolveMentions(req.task, req.body.content);
+    comment.content = req.body.content;
+    comment.mentions = mentioned.map(u => u._id);
+    comment.edited = true;
+
+    const saved = await dbOperation(async () => {
+      await comment.save();
+      return await comment.populate('user', 'name avatar_url');
+    });
+
+    if (!saved) {
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to update comment'
+      });
+    }
+
+    const commentObj = formatComment(saved);
+    notifyMentions(req, mentioned.filter(u => !previous.includes(u.id)), commentObj);
+
+    res.json({
+      success: true,
+      message: 'Comment updated successfully',
+      data: {
+        comment: commentObj
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete a comment and its replies (author or task owner)
+router.delete('/:commentId', authenticateToken, loadTask, async (req, res, next) => {
+  try {
+    const filter = { _id: req.params.commentId, task: req.task._id };
+    if (req.task.user.toString() !== req.user.userId) {
+      filter.user = req.user.userId;
+    }
+
+    const comment = await dbOperation(async () => {
+      return await Comment.findOneAndDelete(filter);
+    });
+
+    if (!comment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Comment not found'
+      });
+    }
+
+    await dbOperation(async () => {
+      return await Comment.deleteMany({ parent: comment._id });
+    });
+
+    res.json({
+      success: true,
+      message: 'Comment deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+module.exports = router;
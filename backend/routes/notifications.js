@@ -1,78 +1,200 @@
 const express = require('express');
-const router = express.Router();
-const nodemailer = require('nodemailer');
+const { body, query, validationResult } = require('express-validator');
+const Notification = require('../models/Notification');
+const User = require('../models/User');
 const { authenticateToken } = require('../middleware/auth');
+const { isDbConnected } = require('../utils/dbHelper');
+const { resolvePreferences, normalizePreferences } = require('../utils/notificationPreferences');
+
+const router = express.Router();
+
+// Validation middleware
+const listValidation = [
+  query('unread').optional().isBoolean().withMessage('unread must be true or false').toBoolean(),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100').toInt(),
+  query('before').optional().isISO8601().withMessage('Invalid before date')
+];
+
+const readValidation = [
+  body('read').optional().isBoolean().withMessage('read must be true or false').toBoolean()
+];
+
+const checkValidation = (req, res, next) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+  next();
+};
+
+const requireDb = (req, res, next) => {
+  if (!isDbConnected()) {
+    return res.status(500).json({
+      success: false,
+      message: 'Notifications require database connection'
+    });
+  }
+  next();
+};
+
+const unreadCount = (userId) => Notification.countDocuments({ user: userId, read: false });
+
+// List the user's notifications, newest first; pass the oldest created_at as `before` for the next page
+router.get('/', authenticateToken, requireDb, listValidation, checkValidation, async (req, res, next) => {
+  try {
+    const { unread, limit = 50, before } = req.query;
+    const filter = { user: req.user.userId };
+    if (unread) filter.read = false;
+    if (before) filter.created_at = { $lt: new Date(before) };
+
+    const [notifications, unread_count] = await Promise.all([
+      Notification.find(filter).sort({ created_at: -1 }).limit(limit),
+      unreadCount(req.user.userId)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        notifications,
+        unread_count
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get the user's delivery preferences, with defaults filled in
+router.get('/preferences', authenticateToken, requireDb, async (req, res, next) => {
+  try {
+    const user = await User.findById(req.user.userId).select('notifications_enabled notification_preferences');
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
 
-// Configure nodemailer transporter
-const transporter = nodemailer.createTransport({
-    host: process.env.SMTP_HOST || 'smtp.gmail.com',
-    port: parseInt(process.env.SMTP_PORT) || 587,
-    secure: false,
-    tls: {
-        rejectUnauthorized: false
-    },
-    auth: {
-        user: process.env.SMTP_USER,
-        pass: process.env.SMTP_PASS,
-    },
-    // Add timeout configuration for Render deployment
-    connectionTimeout: 30000,
-    greetingTimeout: 30000,
-    socketTimeout: 30000,
+    res.json({
+      success: true,
+      data: {
+        preferences: resolvePreferences(user)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
 });
 
-// @route   POST api/notifications/email
-// @desc    Send email notification
-// @access  Protected
-router.post('/email', authenticateToken, async (req, res) => {
-    const { to, subject, body, taskTitle } = req.body;
+// Update delivery preferences; any subset of the fields may be sent
+router.put('/preferences', authenticateToken, requireDb, async (req, res, next) => {
+  try {
+    const user = await User.findById(req.user.userId).select('notifications_enabled notification_preferences');
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const { preferences, error } = normalizePreferences(req.body, resolvePreferences(user));
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error
+      });
+    }
+
+    const { enabled, ...stored } = preferences;
+    await User.updateOne({ _id: user._id }, { $set: { notifications_enabled: enabled, notification_preferences: stored } });
+
+    res.json({
+      success: true,
+      message: 'Notification preferences updated',
+      data: {
+        preferences
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Mark every unread notification read
+router.put('/read-all', authenticateToken, requireDb, async (req, res, next) => {
+  try {
+    const result = await Notification.updateMany(
+      { user: req.user.userId, read: false },
+      { read: true, read_at: new Date() }
+    );
 
-    if (!to || !subject || !body) {
-        return res.status(400).json({ success: false, message: 'Missing required fields' });
+    res.json({
+      success: true,
+      message: `Marked ${result.modifiedCount} notification(s) read`,
+      data: {
+        unread_count: 0
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Mark one notification read, or unread again with { read: false }
+router.put('/:id/read', authenticateToken, requireDb, readValidation, checkValidation, async (req, res, next) => {
+  try {
+    const read = req.body.read !== false;
+    const notification = await Notification.findOneAndUpdate(
+      { _id: req.params.id, user: req.user.userId },
+      { read, read_at: read ? new Date() : null },
+      { new: true }
+    );
+
+    if (!notification) {
+      return res.status(404).json({
+        success: false,
+        message: 'Notification not found'
+      });
     }
 
-    try {
-        // Check if email configuration exists
-        if (!process.env.SMTP_USER || !process.env.SMTP_PASS) {
-            console.warn('Email service not configured - skipping email send');
-            return res.json({ 
-                success: true, 
-                message: 'Notification processed (email service not configured)', 
-                messageId: 'mock-id-' + Date.now() 
-            });
-        }
-
-        const mailOptions = {
-            from: process.env.SMTP_FROM || '"TASQ.ONE Neural Sync" <notifications@tasq.one>',
-            to: to,
-            subject: subject,
-            html: `
-                <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; border: 1px solid #e2e8f0; border-radius: 20px;">
-                    <h2 style="color: #0f172a; font-weight: 800; letter-spacing: -0.025em; font-size: 24px;">TASQ.ONE Alert</h2>
-                    <p style="color: #64748b; font-size: 14px; line-height: 1.5;">Your workspace has detected an urgent operational requirement.</p>
-                    
-                    <div style="background-color: #f8fafc; padding: 20px; border-radius: 12px; margin: 20px 0; border-left: 4px solid #6366f1;">
-                        <p style="margin: 0; font-size: 12px; color: #94a3b8; font-weight: 700; text-transform: uppercase; letter-spacing: 0.1em;">Target Unit</p>
-                        <p style="margin: 5px 0; font-size: 18px; color: #1e293b; font-weight: 800;">${taskTitle || 'Task Update'}</p>
-                    </div>
-
-                    <p style="color: #334155; font-size: 15px;">${body}</p>
-                    
-                    <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #f1f5f9;">
-                        <p style="color: #94a3b8; font-size: 11px; text-transform: uppercase; font-weight: 700; letter-spacing: 0.1em;">TASQ.ONE COMMAND CENTER</p>
-                    </div>
-                </div>
-            `
-        };
-
-        const info = await transporter.sendMail(mailOptions);
-        console.log('📧 Message sent: %s', info.messageId);
-
-        res.json({ success: true, messageId: info.messageId, message: 'Email sent successfully' });
-    } catch (error) {
-        console.error('Email error:', error);
-        res.status(500).json({ success: false, message: 'Failed to send email', error: error.message });
+    res.json({
+      success: true,
+      data: {
+        notification,
+        unread_count: await unreadCount(req.user.userId)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete a notification
+router.delete('/:id', authenticateToken, requireDb, async (req, res, next) => {
+  try {
+    const notification = await Notification.findOneAndDelete({ _id: req.params.id, user: req.user.userId });
+
+    if (!notification) {
+      return res.status(404).json({
+        success: false,
+        message: 'Notification not found'
+      });
     }
+
+    res.json({
+      success: true,
+      message: 'Notification deleted',
+      data: {
+        unread_count: await unreadCount(req.user.userId)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
 });
 
 module.exports = router;
@@ -1,27 +1,80 @@
 const express = require('express');
+const mongoose = require('mongoose');
 const { body, validationResult } = require('express-validator');
 const Project = require('../models/Project');
 const Task = require('../models/Task');
 const { authenticateToken } = require('../middleware/auth');
 const { dbOperation, inMemoryOperations, isDbConnected } = require('../utils/dbHelper');
+const { getStatusesForUser, getDoneKeys } = require('../utils/taskStatuses');
+const { ensureCategories, isCategoryRef, checkCategory } = require('../utils/categories');
+const { emitProjectChange, emitProjectDeleted } = require('../utils/realtime');
+const { baseVersionValidation, isStale, versionFilter, sendConflict } = require('../utils/concurrency');
+const { projectAccessFilter, checkWorkspace } = require('../utils/workspaces');
+const { deleteTasks } = require('../utils/taskCleanup');
 
 const router = express.Router();
 
 // Validation middleware
+// Fields a project can be created or updated with, other than its name
+const projectFieldValidation = [
+  body('description').optional().trim().escape(),
+  body('color').optional().matches(/^#[0-9A-F]{6}$/i).withMessage('Invalid color format'),
+  body('category').optional({ nullable: true, checkFalsy: true }).custom(isCategoryRef).withMessage('Invalid category'),
+  body('hourly_rate').optional().isFloat({ min: 0 }).withMessage('Hourly rate must be a positive number').toFloat(),
+  body('billable').optional().isBoolean().withMessage('Billable must be true or false').toBoolean(),
+  body('milestones').optional().isArray({ max: 100 }).withMessage('Milestones must be a list of at most 100 entries'),
+  body('milestones.*.id').isString().trim().notEmpty().withMessage('Milestone id is required'),
+  body('milestones.*.text').isString().trim().notEmpty().escape().withMessage('Milestone text is required'),
+  body('milestones.*.due_date').isISO8601().withMessage('Invalid milestone date'),
+  body('milestones.*.completed').optional().isBoolean().withMessage('Milestone completed must be true or false').toBoolean()
+];
+
 const projectValidation = [
   body('name').notEmpty().trim().escape().withMessage('Project name is required'),
-  body('description').optional().trim().escape(),
-  body('color').optional().matches(/^#[0-9A-F]{6}$/i).withMessage('Invalid color format')
+  ...projectFieldValidation,
+  body('workspace_id').optional({ nullable: true, checkFalsy: true }).isMongoId().withMessage('Invalid workspace')
 ];
 
-// Get all projects for user
-router.get('/', authenticateToken, async (req, res, next) => {
+// Updates are partial: queued offline edits only carry the fields that changed. Projects don't move
+// between workspaces, so workspace_id is only read on create.
+const projectUpdateValidation = [
+  body('name').optional().notEmpty().trim().escape().withMessage('Project name cannot be empty'),
+  ...projectFieldValidation,
+  baseVersionValidation
+];
+
+// A teammate editing a workspace project may keep the category its creator gave it
+const projectOwner = async (req) => {
+  const existing = mongoose.isValidObjectId(req.params.id) ? await Project.findById(req.params.id).select('user') : null;
+  return existing ? existing.user : req.user.userId;
+};
+
+// Build an update document from only the fields present in the request
+const buildProjectUpdate = ({ name, description, color, category, priority, due_date, progress, hourly_rate, billable, milestones }) => {
+  const update = {};
+  if (name !== undefined) update.name = name;
+  if (description !== undefined) update.description = description;
+  if (color !== undefined) update.color = color;
+  if (category !== undefined) update.category = category || null;
+  if (priority !== undefined) update.priority = priority;
+  if (due_date !== undefined) update.due_date = due_date;
+  if (progress !== undefined) update.progress = progress;
+  if (hourly_rate !== undefined) update.hourly_rate = hourly_rate;
+  if (billable !== undefined) update.billable = billable;
+  if (milestones !== undefined) update.milestones = milestones;
+  return update;
+};
+
+// Get the user's personal projects, or a workspace's with ?workspace_id=
+router.get('/', authenticateToken, checkWorkspace('guest'), async (req, res, next) => {
   try {
     let projects;
     if (isDbConnected()) {
       // Use database
+      await ensureCategories(req.user.userId);
       projects = await dbOperation(async () => {
-        return await Project.find({ user: req.user.userId })
+        const filter = req.workspace ? { workspace: req.workspace._id } : { user: req.user.userId, workspace: null };
+        return await Project.find(filter)
           .sort({ created_at: -1 });
       }, []);
     } else {
@@ -41,14 +94,15 @@ router.get('/', authenticateToken, async (req, res, next) => {
 
     // For database results, populate task counts
     if (isDbConnected()) {
-      // Populate task counts
+      // Populate task counts; any status flagged done counts as completed
+      const doneKeys = getDoneKeys(await getStatusesForUser(req.user.userId));
       const projectsWithCounts = await Promise.all(projects.map(async (project) => {
         const taskCount = await dbOperation(async () => {
           return await Task.countDocuments({ project: project._id });
         }, 0);
         
         const completedCount = await dbOperation(async () => {
-          return await Task.countDocuments({ project: project._id, status: 'completed' });
+          return await Task.countDocuments({ project: project._id, status: { $in: doneKeys } });
         }, 0);
         
         const pObj = project.toJSON();
@@ -87,7 +141,7 @@ router.get('/:id', authenticateToken, async (req, res, next) => {
     if (isDbConnected()) {
       // Use database
       project = await dbOperation(async () => {
-        return await Project.findOne({ _id: id, user: req.user.userId });
+        return await Project.findOne({ _id: id, ...(await projectAccessFilter(req.user.userId)) });
       });
     } else {
       // Use in-memory storage
@@ -147,8 +201,8 @@ router.get('/:id', authenticateToken, async (req, res, next) => {
   }
 });
 
-// Create new project
-router.post('/', authenticateToken, projectValidation, async (req, res, next) => {
+// Create new project; with workspace_id it is created in that workspace, which takes a member
+router.post('/', authenticateToken, projectValidation, checkWorkspace('member'), checkCategory(), async (req, res, next) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -159,7 +213,7 @@ router.post('/', authenticateToken, projectValidation, async (req, res, next) =>
       });
     }
 
-    const { name, description, color, category, priority, due_date } = req.body;
+    const { name, description, color, category, priority, due_date, hourly_rate, billable, milestones } = req.body;
 
     let project;
     if (isDbConnected()) {
@@ -169,10 +223,14 @@ router.post('/', authenticateToken, projectValidation, async (req, res, next) =>
           name,
           description,
           color: color || '#3B82F6',
-          category: category || 'company',
+          category: category || null,
           priority: priority || 'medium',
           due_date,
-          user: req.user.userId
+          hourly_rate: hourly_rate || 0,
+          billable: billable !== undefined ? billable : true,
+          milestones: milestones || [],
+          user: req.user.userId,
+          workspace: req.workspace ? req.workspace._id : null
         });
       });
     } else {
@@ -181,9 +239,12 @@ router.post('/', authenticateToken, projectValidation, async (req, res, next) =>
         name,
         description,
         color: color || '#3B82F6',
-        category: category || 'company',
+        category: category || null,
         priority: priority || 'medium',
         due_date,
+        hourly_rate: hourly_rate || 0,
+        billable: billable !== undefined ? billable : true,
+        milestones: milestones || [],
         user: req.user.userId
       });
     }
@@ -194,6 +255,7 @@ router.post('/', authenticateToken, projectValidation, async (req, res, next) =>
         message: 'Failed to create project'
       });
     }
+    emitProjectChange(req, 'created', project);
 
     res.status(201).json({
       success: true,
@@ -209,7 +271,7 @@ router.post('/', authenticateToken, projectValidation, async (req, res, next) =>
 });
 
 // Update project
-router.put('/:id', authenticateToken, projectValidation, async (req, res, next) => {
+router.put('/:id', authenticateToken, projectUpdateValidation, checkCategory(projectOwner), async (req, res, next) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -221,26 +283,28 @@ router.put('/:id', authenticateToken, projectValidation, async (req, res, next)
     }
 
     const { id } = req.params;
-    const { name, description, color, category, priority, due_date, progress } = req.body;
 
     let project;
     if (isDbConnected()) {
+      // Someone else saved the project since this edit was made
+      const base = req.body.base_updated_at;
+      const access = await projectAccessFilter(req.user.userId, 'member');
+      const previous = base ? await dbOperation(() => Project.findOne({ _id: id, ...access })) : null;
+      if (isStale(previous, base)) {
+        return sendConflict(res, 'project', previous);
+      }
+
       // Use database
       project = await dbOperation(async () => {
         return await Project.findOneAndUpdate(
-          { _id: id, user: req.user.userId },
-          { 
-            name, 
-            description, 
-            color, 
-            category, 
-            priority, 
-            due_date, 
-            progress 
-          },
+          { _id: id, ...access, ...versionFilter(previous, base) },
+          buildProjectUpdate(req.body),
           { new: true, runValidators: true }
         );
       });
+      if (!project && previous) {
+        return sendConflict(res, 'project', await dbOperation(() => Project.findById(id)));
+      }
     } else {
       // For in-memory, we'll just return a success response since we can't really update
       // a project in the in-memory storage without a proper update method
@@ -256,6 +320,7 @@ router.put('/:id', authenticateToken, projectValidation, async (req, res, next)
         message: 'Project not found'
       });
     }
+    emitProjectChange(req, 'updated', project);
 
     res.json({
       success: true,
@@ -270,7 +335,7 @@ router.put('/:id', authenticateToken, projectValidation, async (req, res, next)
   }
 });
 
-// Delete project
+// Delete project; in a workspace this takes an admin
 router.delete('/:id', authenticateToken, async (req, res, next) => {
   try {
     const { id } = req.params;
@@ -279,7 +344,7 @@ router.delete('/:id', authenticateToken, async (req, res, next) => {
     if (isDbConnected()) {
       // Use database
       project = await dbOperation(async () => {
-        return await Project.findOneAndDelete({ _id: id, user: req.user.userId });
+        return await Project.findOneAndDelete({ _id: id, ...(await projectAccessFilter(req.user.userId, 'admin')) });
       });
     } else {
       // For in-memory, we can't delete projects properly
@@ -296,12 +361,13 @@ router.delete('/:id', authenticateToken, async (req, res, next) => {
       });
     }
 
-    // Delete associated tasks
+    // Delete associated tasks, cleaning up after them as deleting each one would
     if (isDbConnected()) {
       await dbOperation(async () => {
-        await Task.deleteMany({ project: id });
+        await deleteTasks(await Task.find({ project: id }).distinct('_id'));
       });
     }
+    emitProjectDeleted(req, project);
 
     res.json({
       success: true,
@@ -322,7 +388,7 @@ router.get('/:id/stats', authenticateToken, async (req, res, next) => {
     let project;
     if (isDbConnected()) {
       project = await dbOperation(async () => {
-        return await Project.findOne({ _id: id, user: req.user.userId });
+        return await Project.findOne({ _id: id, ...(await projectAccessFilter(req.user.userId)) });
       });
     } else {
       project = inMemoryOperations.findProjectById(id);
@@ -341,6 +407,7 @@ router.get('/:id/stats', authenticateToken, async (req, res, next) => {
 
     // Aggregate stats
     if (isDbConnected()) {
+      const doneKeys = getDoneKeys(await getStatusesForUser(req.user.userId));
       const total_tasks = await dbOperation(async () => {
         return await Task.countDocuments({ project: id });
       }, 0);
@@ -354,7 +421,7 @@ router.get('/:id/stats', authenticateToken, async (req, res, next) => {
       }, 0);
       
       const completed_count = await dbOperation(async () => {
-        return await Task.countDocuments({ project: id, status: 'completed' });
+        return await Task.countDocuments({ project: id, status: { $in: doneKeys } });
       }, 0);
       
       const high_priority_count = await dbOperation(async () => {
@@ -365,7 +432,7 @@ router.get('/:id/stats', authenticateToken, async (req, res, next) => {
         return await Task.countDocuments({ 
           project: id, 
           due_date: { $lt: new Date() }, 
-          status: { $ne: 'completed' } 
+          status: { $nin: doneKeys } 
         });
       }, 0);
 
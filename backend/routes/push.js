@@ -0,0 +1,123 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const PushSubscription = require('../models/PushSubscription');
+const { authenticateToken } = require('../middleware/auth');
+const { isDbConnected } = require('../utils/dbHelper');
+const { isPushConfigured, getPublicKey } = require('../utils/webPush');
+
+const router = express.Router();
+
+// Validation middleware
+// The body is the browser's PushSubscription.toJSON() plus a readable device name
+const subscriptionValidation = [
+  body('endpoint').isURL({ protocols: ['https'], require_tld: false }).withMessage('Endpoint must be an https URL'),
+  body('keys.p256dh').isString().notEmpty().withMessage('Subscription key p256dh is required'),
+  body('keys.auth').isString().notEmpty().withMessage('Subscription key auth is required'),
+  body('device_name').optional().isString().trim().isLength({ max: 100 }).withMessage('Device name must be at most 100 characters').escape()
+];
+
+const checkValidation = (req, res, next) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+  next();
+};
+
+const requireDb = (req, res, next) => {
+  if (!isDbConnected()) {
+    return res.status(500).json({
+      success: false,
+      message: 'Push notifications require database connection'
+    });
+  }
+  next();
+};
+
+// Whether push is set up on this server, and the key browsers subscribe with
+router.get('/config', authenticateToken, (req, res) => {
+  res.json({
+    success: true,
+    data: {
+      enabled: isPushConfigured(),
+      public_key: getPublicKey()
+    }
+  });
+});
+
+// List the devices receiving the user's push notifications
+router.get('/subscriptions', authenticateToken, requireDb, async (req, res, next) => {
+  try {
+    const subscriptions = await PushSubscription.find({ user: req.user.userId }).sort({ created_at: -1 });
+
+    res.json({
+      success: true,
+      data: {
+        subscriptions
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Register this browser; an endpoint seen before (e.g. after signing in as someone else) moves to this user
+router.post('/subscriptions', authenticateToken, requireDb, subscriptionValidation, checkValidation, async (req, res, next) => {
+  try {
+    if (!isPushConfigured()) {
+      return res.status(503).json({
+        success: false,
+        message: 'Push notifications are not configured on this server'
+      });
+    }
+
+    const { endpoint, keys, device_name } = req.body;
+    const subscription = await PushSubscription.findOneAndUpdate(
+      { endpoint },
+      {
+        user: req.user.userId,
+        keys: { p256dh: keys.p256dh, auth: keys.auth },
+        device_name: device_name || 'Unknown device',
+        user_agent: (req.get('user-agent') || '').slice(0, 300)
+      },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Push notifications enabled on this device',
+      data: {
+        subscription
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Revoke a device; the browser stops receiving pushes even if it never unsubscribes itself
+router.delete('/subscriptions/:id', authenticateToken, requireDb, async (req, res, next) => {
+  try {
+    const subscription = await PushSubscription.findOneAndDelete({ _id: req.params.id, user: req.user.userId });
+
+    if (!subscription) {
+      return res.status(404).json({
+        success: false,
+        message: 'Device not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Device removed'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+module.exports = router;
@@ -1,18 +1,197 @@
 const express = require('express');
+const mongoose = require('mongoose');
+const { body, validationResult } = require('express-validator');
+const Tag = require('../models/Tag');
+const Task = require('../models/Task');
 const { authenticateToken } = require('../middleware/auth');
+const { dbOperation, isDbConnected } = require('../utils/dbHelper');
 
 const router = express.Router();
 
-// Tags endpoints - to be implemented
+// Validation middleware
+const tagValidation = [
+  body('name').notEmpty().trim().isLength({ max: 50 }).withMessage('Tag name is required (max 50 characters)'),
+  body('color').optional().matches(/^#[0-9A-F]{6}$/i).withMessage('Invalid color format')
+];
+
+const tagUpdateValidation = [
+  body('name').optional().notEmpty().trim().isLength({ max: 50 }).withMessage('Tag name cannot be empty (max 50 characters)'),
+  tagValidation[1]
+];
+
+const checkValidation = (req, res, next) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+  next();
+};
+
+const requireDb = (req, res, next) => {
+  if (!isDbConnected()) {
+    return res.status(500).json({
+      success: false,
+      message: 'Tags require database connection'
+    });
+  }
+  next();
+};
+
+// Names are unique per user regardless of case
+const findByName = (userId, name) =>
+  Tag.findOne({ user: userId, name }).collation({ locale: 'en', strength: 2 });
+
+// Get all tags for user, with how many tasks carry each
 router.get('/', authenticateToken, async (req, res, next) => {
   try {
+    if (!isDbConnected()) {
+      return res.json({
+        success: true,
+        data: {
+          tags: []
+        }
+      });
+    }
+
+    const tags = await dbOperation(async () => {
+      return await Tag.find({ user: req.user.userId }).sort({ name: 1 });
+    }, []);
+
+    const counts = await dbOperation(async () => {
+      return await Task.aggregate([
+        // Aggregation pipelines don't cast ids, so the user id is converted by hand
+        { $match: { user: new mongoose.Types.ObjectId(req.user.userId), tags: { $exists: true, $ne: [] } } },
+        { $unwind: '$tags' },
+        { $group: { _id: '$tags', count: { $sum: 1 } } }
+      ]);
+    }, []);
+    const countById = Object.fromEntries(counts.map(c => [c._id.toString(), c.count]));
+
+    res.json({
+      success: true,
+      data: {
+        tags: tags.map(tag => ({ ...tag.toJSON(), task_count: countById[tag.id] || 0 }))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create tag
+router.post('/', authenticateToken, requireDb, tagValidation, checkValidation, async (req, res, next) => {
+  try {
+    const { name, color } = req.body;
+
+    if (await findByName(req.user.userId, name)) {
+      return res.status(409).json({
+        success: false,
+        message: `A tag named "${name}" already exists`
+      });
+    }
+
+    const tag = await dbOperation(async () => {
+      return await Tag.create({
+        name,
+        color: color || '#9CA3AF',
+        user: req.user.userId
+      });
+    });
+
+    if (!tag) {
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to create tag'
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Tag created successfully',
+      data: {
+        tag: { ...tag.toJSON(), task_count: 0 }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Rename or recolor tag
+router.put('/:id', authenticateToken, requireDb, tagUpdateValidation, checkValidation, async (req, res, next) => {
+  try {
+    const { name, color } = req.body;
+
+    if (name !== undefined) {
+      const existing = await findByName(req.user.userId, name);
+      if (existing && existing.id !== req.params.id) {
+        return res.status(409).json({
+          success: false,
+          message: `A tag named "${name}" already exists`
+        });
+      }
+    }
+
+    const update = {};
+    if (name !== undefined) update.name = name;
+    if (color !== undefined) update.color = color;
+
+    const tag = await dbOperation(async () => {
+      return await Tag.findOneAndUpdate(
+        { _id: req.params.id, user: req.user.userId },
+        update,
+        { new: true, runValidators: true }
+      );
+    });
+
+    if (!tag) {
+      return res.status(404).json({
+        success: false,
+        message: 'Tag not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Tag updated successfully',
+      data: {
+        tag: tag.toJSON()
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete tag and detach it from every task
+router.delete('/:id', authenticateToken, requireDb, async (req, res, next) => {
+  try {
+    const tag = await dbOperation(async () => {
+      return await Tag.findOneAndDelete({ _id: req.params.id, user: req.user.userId });
+    });
+
+    if (!tag) {
+      return res.status(404).json({
+        success: false,
+        message: 'Tag not found'
+      });
+    }
+
+    await dbOperation(async () => {
+      return await Task.updateMany({ user: req.user.userId, tags: tag._id }, { $pull: { tags: tag._id } });
+    });
+
     res.json({
       success: true,
-      message: 'Tags endpoint - to be implemented'
+      message: 'Tag deleted successfully'
     });
   } catch (error) {
     next(error);
   }
 });
 
-module.exports = router;
\ No newline at end of file
+module.exports = router;
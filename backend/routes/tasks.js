@@ -1,31 +1,302 @@
 const express = require('express');
+const mongoose = require('mongoose');
 const { body, query, validationResult } = require('express-validator');
 const Task = require('../models/Task');
 const Project = require('../models/Project');
+const Tag = require('../models/Tag');
 const User = require('../models/User'); // Imported for populating if needed
 const { authenticateToken } = require('../middleware/auth');
 const { dbOperation, inMemoryOperations, isDbConnected } = require('../utils/dbHelper');
+const { getStatusesForUser, getDoneKeys, normalizeStatuses, resolveStatuses } = require('../utils/taskStatuses');
+const { isValidRule, spawnNextOccurrence } = require('../utils/recurrence');
+const { ensureCategories, isCategoryRef, checkCategory } = require('../utils/categories');
+const { isGatedStatus, findOpenBlockers, wouldCreateCycle, notifyUnblocked } = require('../utils/dependencies');
+const { notify } = require('../utils/notifications');
+const { emitTaskChange, emitTaskDeleted } = require('../utils/realtime');
+const { baseVersionValidation, isStale, versionFilter, sendConflict } = require('../utils/concurrency');
+const { taskAccessFilter, sameSpaceFilter, assignableUsersFilter, checkWorkspace } = require('../utils/workspaces');
+const { deleteTasks } = require('../utils/taskCleanup');
 
 const router = express.Router();
 
 // Validation middleware
-const taskValidation = [
-  body('title').notEmpty().trim().escape().withMessage('Title is required'),
+// Fields a task can be created or updated with, other than the title
+const taskFieldValidation = [
   body('description').optional().trim().escape(),
-  body('status').optional().isIn(['todo', 'in_progress', 'completed', 'cancelled']).withMessage('Invalid status'),
+  body('status').optional().isString().trim().withMessage('Invalid status'),
   body('priority').optional().isIn(['low', 'medium', 'high']).withMessage('Invalid priority'),
   body('due_date').optional().isISO8601().withMessage('Invalid date format'),
+  body('due_time').optional({ nullable: true, checkFalsy: true }).matches(/^([01]\d|2[0-3]):[0-5]\d$/).withMessage('Due time must be HH:mm'),
   body('project_id').optional({ checkFalsy: true }).trim(), // Allow any string or null
-  body('assigned_to').optional({ checkFalsy: true }).trim() // Allow any string or null
+  body('assigned_to').optional({ nullable: true, checkFalsy: true }).isMongoId().withMessage('Invalid assignee'),
+  body('recurrence').optional({ nullable: true }).custom(isValidRule).withMessage('Invalid recurrence rule'),
+  body('recurrence_start').optional({ nullable: true }).isISO8601().withMessage('Invalid recurrence start date'),
+  body('parent_id').optional({ nullable: true, checkFalsy: true }).isMongoId().withMessage('Invalid parent task'),
+  body('tags').optional().isArray({ max: 20 }).withMessage('Tags must be a list of at most 20 tag ids'),
+  body('tags.*').isMongoId().withMessage('Invalid tag id'),
+  body('dependencies').optional().isArray({ max: 50 }).withMessage('Dependencies must be a list of at most 50 task ids'),
+  body('dependencies.*').isMongoId().withMessage('Invalid dependency id'),
+  body('override_dependencies').optional().isBoolean().withMessage('override_dependencies must be true or false').toBoolean(),
+  body('category').optional({ nullable: true, checkFalsy: true }).custom(isCategoryRef).withMessage('Invalid category'),
+  body('estimate_hours').optional({ nullable: true }).isFloat({ min: 0, max: 10000 }).withMessage('Estimate must be between 0 and 10000 hours').toFloat(),
+  body('reminder_minutes').optional().isInt({ min: 0, max: 40320 }).withMessage('Reminder must be between 0 minutes and 4 weeks').toInt()
+];
+
+const taskValidation = [
+  body('title').notEmpty().trim().escape().withMessage('Title is required'),
+  ...taskFieldValidation,
+  body('workspace_id').optional({ nullable: true, checkFalsy: true }).isMongoId().withMessage('Invalid workspace')
+];
+
+// Updates are partial: queued offline edits only carry the fields that changed. Tasks don't move
+// between workspaces, so workspace_id is only read on create.
+const taskUpdateValidation = [
+  body('title').optional().notEmpty().trim().escape().withMessage('Title cannot be empty'),
+  ...taskFieldValidation,
+  baseVersionValidation
 ];
 
+// Where the task being saved lives: the user who created it and its workspace (null when personal).
+// Status keys and tags are per user, so an edit to a teammate's task is checked against theirs.
+const taskContext = async (req) => {
+  if (!req.taskContext) {
+    const existing = req.params.id && mongoose.isValidObjectId(req.params.id)
+      ? await Task.findById(req.params.id).select('user workspace')
+      : null;
+    req.taskContext = existing
+      ? { owner: String(existing.user), workspace: existing.workspace }
+      : { owner: req.user.userId, workspace: req.workspace ? req.workspace._id : null };
+  }
+  return req.taskContext;
+};
+
+const taskOwner = async (req) => (await taskContext(req)).owner;
+
+// Parents, dependencies and projects must be in the same space as the task they are linked to
+const sameSpace = async (req) => sameSpaceFilter((await taskContext(req)).workspace, req.user.userId);
+
+// Status keys are configurable per user, so they are checked against the owner's status list
+const checkStatus = async (req, res, next) => {
+  if (req.body.status === undefined) return next();
+  try {
+    const owner = isDbConnected() ? (await taskContext(req)).owner : req.user.userId;
+    const statuses = await getStatusesForUser(owner);
+    if (!statuses.some(s => s.key === req.body.status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid status "${req.body.status}". Valid statuses are: ${statuses.map(s => s.key).join(', ')}`
+      });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Tags must belong to the user or the task's owner; duplicates are dropped
+const checkTags = async (req, res, next) => {
+  if (!Array.isArray(req.body.tags) || !isDbConnected()) return next();
+  try {
+    req.body.tags = [...new Set(req.body.tags)];
+    const owned = await Tag.countDocuments({ _id: { $in: req.body.tags }, user: { $in: [req.user.userId, (await taskContext(req)).owner] } });
+    if (owned !== req.body.tags.length) {
+      return res.status(400).json({
+        success: false,
+        message: 'One or more tags do not exist'
+      });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Dependencies must be in the task's own space and can't loop back to the task being saved
+const checkDependencies = async (req, res, next) => {
+  if (!Array.isArray(req.body.dependencies) || !isDbConnected()) return next();
+  try {
+    req.body.dependencies = [...new Set(req.body.dependencies)];
+    const taskId = req.params.id;
+    if (taskId && req.body.dependencies.includes(taskId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'A task cannot depend on itself'
+      });
+    }
+
+    const scope = await sameSpace(req);
+    const owned = await Task.countDocuments({ _id: { $in: req.body.dependencies }, ...scope });
+    if (owned !== req.body.dependencies.length) {
+      return res.status(400).json({
+        success: false,
+        message: 'One or more dependencies do not exist'
+      });
+    }
+
+    if (taskId && await wouldCreateCycle(scope, taskId, req.body.dependencies)) {
+      return res.status(409).json({
+        success: false,
+        message: 'These dependencies would create a circular dependency'
+      });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Subtasks hang off a top-level task in the same space; a task that has subtasks can't become one
+const checkParent = async (req, res, next) => {
+  const { parent_id } = req.body;
+  if (!parent_id || !isDbConnected()) return next();
+  try {
+    if (req.params.id && parent_id === req.params.id) {
+      return res.status(400).json({
+        success: false,
+        message: 'A task cannot be its own subtask'
+      });
+    }
+
+    const parent = await Task.findOne({ _id: parent_id, ...(await sameSpace(req)) }).select('parent project category');
+    if (!parent) {
+      return res.status(404).json({
+        success: false,
+        message: 'Parent task not found'
+      });
+    }
+    if (parent.parent) {
+      return res.status(400).json({
+        success: false,
+        message: 'Subtasks cannot have subtasks of their own'
+      });
+    }
+    if (req.params.id && await Task.exists({ parent: req.params.id })) {
+      return res.status(400).json({
+        success: false,
+        message: 'A task with subtasks cannot become a subtask'
+      });
+    }
+
+    req.parentTask = parent;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// A workspace task can be filed under any of the workspace's projects, a personal one under the user's own
+const checkProject = async (req, res, next) => {
+  const { project_id } = req.body;
+  if (!project_id || !isDbConnected()) return next();
+  try {
+    const project = mongoose.isValidObjectId(project_id)
+      && await Project.exists({ _id: project_id, ...(await sameSpace(req)) });
+    if (!project) {
+      return res.status(404).json({
+        success: false,
+        message: 'Project not found'
+      });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Assignees come from the task's workspace, or for a personal task from the people the user works with
+const checkAssignee = async (req, res, next) => {
+  const { assigned_to } = req.body;
+  if (!assigned_to || !isDbConnected()) return next();
+  try {
+    const filter = await assignableUsersFilter((await taskContext(req)).workspace, req.user);
+    if (!await User.exists({ _id: assigned_to, ...filter })) {
+      return res.status(400).json({
+        success: false,
+        message: 'This task cannot be assigned to that user'
+      });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Flatten populated refs into the row shape the frontend expects
+const formatTask = (task) => {
+  const obj = task.toJSON();
+  if (task.project) {
+    obj.project_name = task.project.name;
+    obj.project_color = task.project.color;
+  }
+  if (task.assigned_to) {
+    obj.assigned_to_name = task.assigned_to.name;
+  }
+  return obj;
+};
+
+// The current server copy of a task, as sent with a 409 conflict
+const loadTaskRow = async (id) => {
+  const task = await Task.findById(id)
+    .populate('project', 'name color')
+    .populate('assigned_to', 'name avatar_url');
+  return task ? formatTask(task) : null;
+};
+
+// Fetch the subtasks of several tasks in one query, grouped by parent id. In a workspace they may have
+// been added by any member, so they are found by parent rather than by owner.
+const findSubtasks = async (parentIds) => {
+  const subtasks = await dbOperation(async () => {
+    return await Task.find({ parent: { $in: parentIds } })
+      .populate('project', 'name color')
+      .populate('assigned_to', 'name avatar_url')
+      .sort({ created_at: 1 });
+  }, []);
+
+  const byParent = {};
+  subtasks.forEach(subtask => {
+    const key = subtask.parent.toString();
+    (byParent[key] = byParent[key] || []).push(formatTask(subtask));
+  });
+  return byParent;
+};
+
+// Build an update document from only the fields present in the request
+const buildTaskUpdate = ({ title, description, status, priority, due_date, due_time, project_id, assigned_to, recurrence, recurrence_start, parent_id, tags, dependencies, category, estimate_hours, reminder_minutes }) => {
+  const update = {};
+  if (title !== undefined) update.title = title;
+  if (description !== undefined) update.description = description;
+  if (status !== undefined) update.status = status;
+  if (priority !== undefined) update.priority = priority;
+  if (due_date !== undefined) update.due_date = due_date;
+  if (due_time !== undefined) update.due_time = due_time || null;
+  if (project_id !== undefined) update.project = project_id || null;
+  if (assigned_to !== undefined) update.assigned_to = assigned_to || null;
+  if (recurrence !== undefined) update.recurrence = recurrence || null;
+  if (recurrence_start !== undefined) update.recurrence_start = recurrence_start || null;
+  if (parent_id !== undefined) update.parent = parent_id || null;
+  if (tags !== undefined) update.tags = tags;
+  if (dependencies !== undefined) update.dependencies = dependencies;
+  if (category !== undefined) update.category = category || null;
+  if (estimate_hours !== undefined) update.estimate_hours = estimate_hours;
+  if (reminder_minutes !== undefined) update.reminder_minutes = reminder_minutes;
+  // A moved deadline or new reminder gets delivered again
+  if (due_date !== undefined || due_time !== undefined || reminder_minutes !== undefined) update.reminder_sent_at = null;
+  if (due_date !== undefined) update.deadline_alerted_on = null;
+  return update;
+};
+
 // Get all tasks for user with filters
-router.get('/', authenticateToken, async (req, res, next) => {
+// Lists top-level tasks with their subtasks embedded; pass parent_id to list one task's subtasks instead.
+// Without workspace_id these are the user's personal tasks; with it, all of the workspace's tasks.
+router.get('/', authenticateToken, checkWorkspace('guest'), async (req, res, next) => {
   try {
     const {
       status,
       priority,
       project_id,
+      parent_id,
+      tag,
+      category,
       search,
       page = 1,
       limit = 20,
@@ -35,11 +306,14 @@ router.get('/', authenticateToken, async (req, res, next) => {
 
     let tasks = [];
     if (isDbConnected()) {
-      const filter = { user: req.user.userId };
+      await ensureCategories(req.user.userId);
+      const filter = { ...sameSpaceFilter(req.workspace ? req.workspace._id : null, req.user.userId), parent: parent_id || null };
 
       if (status) filter.status = status;
       if (priority) filter.priority = priority;
       if (project_id) filter.project = project_id;
+      if (tag) filter.tags = tag;
+      if (category) filter.category = category;
       
       if (search) {
         filter.$or = [
@@ -58,7 +332,7 @@ router.get('/', authenticateToken, async (req, res, next) => {
       tasks = await dbOperation(async () => {
         return await Task.find(filter)
           .populate('project', 'name color')
-          .populate('assigned_to', 'name')
+          .populate('assigned_to', 'name avatar_url')
           .sort(sortOption)
           .skip((page - 1) * limit)
           .limit(parseInt(limit));
@@ -69,15 +343,10 @@ router.get('/', authenticateToken, async (req, res, next) => {
       }, 0);
 
       // Transform for frontend format expectations (flattening)
+      const subtasks = parent_id ? {} : await findSubtasks(tasks.map(t => t._id));
       const formattedTasks = tasks.map(t => {
-        const obj = t.toJSON();
-        if (t.project) {
-          obj.project_name = t.project.name;
-          obj.project_color = t.project.color;
-        }
-        if (t.assigned_to) {
-          obj.assigned_to_name = t.assigned_to.name;
-        }
+        const obj = formatTask(t);
+        if (!parent_id) obj.subtasks = subtasks[t.id] || [];
         return obj;
       });
 
@@ -114,6 +383,81 @@ router.get('/', authenticateToken, async (req, res, next) => {
   }
 });
 
+// Get the ordered status model for the current user
+router.get('/statuses', authenticateToken, async (req, res, next) => {
+  try {
+    const statuses = await getStatusesForUser(req.user.userId);
+    res.json({
+      success: true,
+      data: {
+        statuses
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Replace the status model (reorder, relabel, add or remove custom statuses)
+router.put('/statuses', authenticateToken, async (req, res, next) => {
+  try {
+    const { statuses, error } = normalizeStatuses(req.body.statuses);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error
+      });
+    }
+
+    if (!isDbConnected()) {
+      return res.status(500).json({
+        success: false,
+        message: 'Custom statuses require database connection'
+      });
+    }
+
+    // A custom status can only be dropped once no task is sitting in it
+    const previous = await getStatusesForUser(req.user.userId);
+    const removed = previous.filter(p => !statuses.some(s => s.key === p.key)).map(p => p.key);
+    if (removed.length > 0) {
+      const inUse = await dbOperation(async () => {
+        return await Task.countDocuments({ user: req.user.userId, status: { $in: removed } });
+      }, 0);
+      if (inUse > 0) {
+        return res.status(409).json({
+          success: false,
+          message: `Move the ${inUse} task(s) out of ${removed.join(', ')} before removing it`
+        });
+      }
+    }
+
+    const user = await dbOperation(async () => {
+      return await User.findByIdAndUpdate(
+        req.user.userId,
+        { $set: { task_statuses: statuses } },
+        { new: true }
+      ).select('task_statuses');
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Statuses updated successfully',
+      data: {
+        statuses: resolveStatuses(user)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get single task
 router.get('/:id', authenticateToken, async (req, res, next) => {
   try {
@@ -121,9 +465,9 @@ router.get('/:id', authenticateToken, async (req, res, next) => {
 
     if (isDbConnected()) {
       const task = await dbOperation(async () => {
-        return await Task.findOne({ _id: id, user: req.user.userId })
+        return await Task.findOne({ _id: id, ...(await taskAccessFilter(req.user.userId)) })
           .populate('project', 'name color')
-          .populate('assigned_to', 'name')
+          .populate('assigned_to', 'name avatar_url')
           .populate('user', 'name'); // Creator
       });
 
@@ -145,6 +489,10 @@ router.get('/:id', authenticateToken, async (req, res, next) => {
       if (task.user) {
         taskObj.creator_name = task.user.name;
       }
+      if (!task.parent) {
+        const subtasks = await findSubtasks([task._id]);
+        taskObj.subtasks = subtasks[task.id] || [];
+      }
 
       res.json({
         success: true,
@@ -166,7 +514,7 @@ router.get('/:id', authenticateToken, async (req, res, next) => {
 });
 
 // Create new task
-router.post('/', authenticateToken, taskValidation, async (req, res, next) => {
+router.post('/', authenticateToken, taskValidation, checkWorkspace('member'), checkStatus, checkProject, checkAssignee, checkParent, checkTags, checkDependencies, checkCategory(taskOwner), async (req, res, next) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -183,7 +531,7 @@ router.post('/', authenticateToken, taskValidation, async (req, res, next) => {
       });
     }
 
-    const { title, description, status, priority, due_date, project_id, assigned_to } = req.body;
+    const { title, description, status, priority, due_date, due_time, project_id, assigned_to, recurrence, recurrence_start, parent_id, tags, dependencies, category, estimate_hours, reminder_minutes } = req.body;
 
     if (isDbConnected()) {
       const task = await dbOperation(async () => {
@@ -193,9 +541,22 @@ router.post('/', authenticateToken, taskValidation, async (req, res, next) => {
           status: status || 'todo',
           priority: priority || 'medium',
           due_date,
-          project: project_id || null,
+          due_time: due_time || null,
+          // Subtasks default to their parent's project
+          project: project_id || (req.parentTask ? req.parentTask.project : null),
           user: req.user.userId,
-          assigned_to: assigned_to || null
+          workspace: req.workspace ? req.workspace._id : null,
+          assigned_to: assigned_to || null,
+          assigned_by: assigned_to ? req.user.userId : null,
+          parent: parent_id || null,
+          tags: tags || [],
+          dependencies: dependencies || [],
+          // Subtasks default to their parent's category too
+          category: category || (req.parentTask ? req.parentTask.category : null),
+          recurrence: recurrence || null,
+          recurrence_start: recurrence ? (recurrence_start || due_date) : null,
+          estimate_hours: estimate_hours ?? null,
+          reminder_minutes: reminder_minutes || 0
         });
       });
 
@@ -209,14 +570,16 @@ router.post('/', authenticateToken, taskValidation, async (req, res, next) => {
       const populatedTask = await dbOperation(async () => {
         return await Task.findById(task._id)
           .populate('project', 'name color')
-          .populate('assigned_to', 'name');
+          .populate('assigned_to', 'name avatar_url');
       });
 
-      // Emit Real-time signal
-      if (req.app.get('io')) {
-        req.app.get('io').emit('neural_alert', {
-          message: `TASQ.ONE Alert: New Task Created: "${title}"`,
-          taskTitle: title
+      if (task.assigned_to && String(task.assigned_to) !== req.user.userId) {
+        await notify(req.app.get('io'), task.assigned_to, {
+          type: 'assignment',
+          title: task.title,
+          message: `You've been assigned "${task.title}"`,
+          task: task._id,
+          project: task.project
         });
       }
 
@@ -228,6 +591,7 @@ router.post('/', authenticateToken, taskValidation, async (req, res, next) => {
       if (populatedTask.assigned_to) {
         taskObj.assigned_to_name = populatedTask.assigned_to.name;
       }
+      emitTaskChange(req, 'created', taskObj);
 
       res.status(201).json({
         success: true,
@@ -250,7 +614,7 @@ router.post('/', authenticateToken, taskValidation, async (req, res, next) => {
 });
 
 // Update task
-router.put('/:id', authenticateToken, taskValidation, async (req, res, next) => {
+router.put('/:id', authenticateToken, taskUpdateValidation, checkStatus, checkProject, checkAssignee, checkParent, checkTags, checkDependencies, checkCategory(taskOwner), async (req, res, next) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -268,27 +632,86 @@ router.put('/:id', authenticateToken, taskValidation, async (req, res, next) =>
     }
 
     const { id } = req.params;
-    const { title, description, status, priority, due_date, project_id, assigned_to } = req.body;
 
     if (isDbConnected()) {
+      // Remember the old status so completing a recurring task can spawn its next occurrence
+      const access = await taskAccessFilter(req.user.userId, 'member');
+      const previous = await dbOperation(async () => {
+        return await Task.findOne({ _id: id, ...access }).select('status dependencies assigned_to user project updated_at');
+      });
+
+      const statuses = req.body.status !== undefined ? await getStatusesForUser(previous ? previous.user : req.user.userId) : [];
+      const doneKeys = getDoneKeys(statuses);
+
+      // Someone else saved the task since this edit was made
+      const base = req.body.base_updated_at;
+      if (isStale(previous, base)) {
+        return sendConflict(res, 'task', await loadTaskRow(id));
+      }
+
+      // A parent can't be completed while any of its subtasks is still open
+      if (doneKeys.includes(req.body.status)) {
+        const openSubtasks = await dbOperation(async () => {
+          return await Task.countDocuments({ parent: id, status: { $nin: doneKeys } });
+        }, 0);
+        if (openSubtasks > 0) {
+          return res.status(409).json({
+            success: false,
+            message: `Complete the ${openSubtasks} open subtask(s) before completing this task`
+          });
+        }
+      }
+
+      // Starting or finishing a task waits on its dependencies; admins may push it through anyway
+      const update = buildTaskUpdate(req.body);
+      // Reassigning restarts the clock the digest's "newly assigned" section goes by, and makes the
+      // editor the one who handed the task out
+      if (previous && update.assigned_to !== undefined && String(previous.assigned_to || '') !== String(update.assigned_to || '')) {
+        update.assigned_at = new Date();
+        update.assigned_by = update.assigned_to ? req.user.userId : null;
+      }
+      if (previous && req.body.status !== undefined && req.body.status !== previous.status && isGatedStatus(req.body.status, doneKeys)) {
+        const blockers = await findOpenBlockers(req.body.dependencies || previous.dependencies, doneKeys);
+        if (blockers.length > 0) {
+          if (!req.body.override_dependencies) {
+            return res.status(409).json({
+              success: false,
+              message: `Blocked by ${blockers.length} open dependenc${blockers.length === 1 ? 'y' : 'ies'}: ${blockers.map(b => `"${b.title}"`).join(', ')}`,
+              data: {
+                blockers: blockers.map(b => ({ id: b.id, title: b.title, status: b.status }))
+              }
+            });
+          }
+          if (req.user.role !== 'admin') {
+            return res.status(403).json({
+              success: false,
+              message: 'Only admins can override task dependencies'
+            });
+          }
+          update.$push = {
+            progress_updates: {
+              status: req.body.status,
+              from_status: previous.status,
+              updated_by: req.user.userId,
+              notes: `Dependencies overridden with ${blockers.length} still open`
+            }
+          };
+        }
+      }
+
       const task = await dbOperation(async () => {
         return await Task.findOneAndUpdate(
-          { _id: id, user: req.user.userId },
-          { 
-            title, 
-            description, 
-            status, 
-            priority, 
-            due_date, 
-            project: project_id || null, 
-            assigned_to: assigned_to || null 
-          },
+          { _id: id, ...access, ...versionFilter(previous, base) },
+          update,
           { new: true, runValidators: true }
         )
         .populate('project', 'name color')
-        .populate('assigned_to', 'name');
+        .populate('assigned_to', 'name avatar_url');
       });
 
+      if (!task && previous && base) {
+        return sendConflict(res, 'task', await loadTaskRow(id));
+      }
       if (!task) {
         return res.status(404).json({
           success: false,
@@ -296,12 +719,36 @@ router.put('/:id', authenticateToken, taskValidation, async (req, res, next) =>
         });
       }
 
-      // Emit Real-time signal
-      if (req.app.get('io')) {
-        req.app.get('io').emit('neural_alert', {
-          message: `TASQ.ONE Alert: Task "${title}" has been updated.`,
-          taskTitle: title
-        });
+      let nextTask = null;
+      const completed = previous && doneKeys.includes(task.status) && !doneKeys.includes(previous.status);
+      if (task.recurrence && completed) {
+        nextTask = await dbOperation(async () => await spawnNextOccurrence(task));
+      }
+      if (completed) {
+        await dbOperation(() => notifyUnblocked(req.app.get('io'), task, doneKeys));
+      }
+
+      // Tell the assignee when the owner hands them the task or moves it along
+      const assigneeId = task.assigned_to ? String(task.assigned_to._id || task.assigned_to) : null;
+      if (previous && assigneeId && assigneeId !== req.user.userId) {
+        const label = (key) => (statuses.find(s => s.key === key) || { label: key }).label;
+        if (String(previous.assigned_to || '') !== assigneeId) {
+          await notify(req.app.get('io'), assigneeId, {
+            type: 'assignment',
+            title: task.title,
+            message: `You've been assigned "${task.title}"`,
+            task: task._id,
+            project: task.project && task.project._id
+          });
+        } else if (req.body.status !== undefined && previous.status !== task.status) {
+          await notify(req.app.get('io'), assigneeId, {
+            type: 'status_change',
+            title: task.title,
+            message: `"${task.title}" moved from ${label(previous.status)} to ${label(task.status)}`,
+            task: task._id,
+            project: task.project && task.project._id
+          });
+        }
       }
 
       const taskObj = task.toJSON();
@@ -312,12 +759,15 @@ router.put('/:id', authenticateToken, taskValidation, async (req, res, next) =>
       if (task.assigned_to) {
         taskObj.assigned_to_name = task.assigned_to.name;
       }
+      emitTaskChange(req, 'updated', taskObj, { previous });
+      if (nextTask) emitTaskChange(req, 'created', nextTask);
 
       res.json({
         success: true,
         message: 'Task updated successfully',
         data: {
-          task: taskObj
+          task: taskObj,
+          next_task: nextTask ? nextTask.toJSON() : null
         }
       });
     } else {
@@ -340,7 +790,7 @@ router.delete('/:id', authenticateToken, async (req, res, next) => {
 
     if (isDbConnected()) {
       const task = await dbOperation(async () => {
-        return await Task.findOneAndDelete({ _id: id, user: req.user.userId });
+        return await Task.findOneAndDelete({ _id: id, ...(await taskAccessFilter(req.user.userId, 'member')) });
       });
 
       if (!task) {
@@ -350,6 +800,10 @@ router.delete('/:id', authenticateToken, async (req, res, next) => {
         });
       }
 
+      // Subtasks and comments go with it, its logged time is unlinked and dependents stop waiting on it
+      await dbOperation(() => deleteTasks([task._id]));
+      emitTaskDeleted(req, task);
+
       res.json({
         success: true,
         message: 'Task deleted successfully'
@@ -373,6 +827,7 @@ router.get('/stats/overview', authenticateToken, async (req, res, next) => {
     const userId = req.user.userId;
 
     if (isDbConnected()) {
+      const doneKeys = getDoneKeys(await getStatusesForUser(userId));
       const total_tasks = await dbOperation(async () => {
         return await Task.countDocuments({ user: userId });
       }, 0);
@@ -382,8 +837,12 @@ router.get('/stats/overview', authenticateToken, async (req, res, next) => {
       const in_progress_count = await dbOperation(async () => {
         return await Task.countDocuments({ user: userId, status: 'in_progress' });
       }, 0);
+      const review_count = await dbOperation(async () => {
+        return await Task.countDocuments({ user: userId, status: 'review' });
+      }, 0);
       const completed_count = await dbOperation(async () => {
-        return await Task.countDocuments({ user: userId, status: 'completed' });
+        // Custom done columns count as completed; cancelled work has its own count
+        return await Task.countDocuments({ user: userId, status: { $in: doneKeys.filter(key => key !== 'cancelled') } });
       }, 0);
       const cancelled_count = await dbOperation(async () => {
         return await Task.countDocuments({ user: userId, status: 'cancelled' });
@@ -395,7 +854,7 @@ router.get('/stats/overview', authenticateToken, async (req, res, next) => {
         return await Task.countDocuments({ 
           user: userId, 
           due_date: { $lt: new Date() }, 
-          status: { $ne: 'completed' } 
+          status: { $nin: doneKeys } 
         });
       }, 0);
 
@@ -406,6 +865,7 @@ router.get('/stats/overview', authenticateToken, async (req, res, next) => {
             total_tasks,
             todo_count,
             in_progress_count,
+            review_count,
             completed_count,
             cancelled_count,
             high_priority_count,
@@ -422,6 +882,7 @@ router.get('/stats/overview', authenticateToken, async (req, res, next) => {
             total_tasks: 0,
             todo_count: 0,
             in_progress_count: 0,
+            review_count: 0,
             completed_count: 0,
             cancelled_count: 0,
             high_priority_count: 0,
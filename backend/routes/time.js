@@ -1,18 +1,353 @@
 const express = require('express');
+const { body, query, validationResult } = require('express-validator');
+const TimeEntry = require('../models/TimeEntry');
+const Task = require('../models/Task');
 const { authenticateToken } = require('../middleware/auth');
+const { dbOperation, isDbConnected } = require('../utils/dbHelper');
+const { workspaceIdsFor } = require('../utils/workspaces');
 
 const router = express.Router();
 
-// Time tracking endpoints - to be implemented
-router.get('/', authenticateToken, async (req, res, next) => {
+// Validation middleware
+const entryFields = [
+  body('description').optional().isString().trim().isLength({ max: 500 }).withMessage('Description must be at most 500 characters'),
+  body('task_id').optional({ nullable: true, checkFalsy: true }).isMongoId().withMessage('Invalid task'),
+  body('billable').optional().isBoolean().withMessage('Billable must be true or false').toBoolean()
+];
+
+const entryValidation = [
+  ...entryFields,
+  body('start_time').isISO8601().withMessage('Start time is required'),
+  body('end_time').isISO8601().withMessage('End time is required')
+];
+
+const entryUpdateValidation = [
+  ...entryFields,
+  body('start_time').optional().isISO8601().withMessage('Invalid start time'),
+  body('end_time').optional().isISO8601().withMessage('Invalid end time')
+];
+
+const filterValidation = [
+  query('task_id').optional().isMongoId().withMessage('Invalid task'),
+  query('from').optional().isISO8601().withMessage('Invalid from date'),
+  query('to').optional().isISO8601().withMessage('Invalid to date')
+];
+
+const checkValidation = (req, res, next) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+  next();
+};
+
+const requireDb = (req, res, next) => {
+  if (!isDbConnected()) {
+    return res.status(500).json({
+      success: false,
+      message: 'Time tracking requires database connection'
+    });
+  }
+  next();
+};
+
+// Time can be logged against tasks the user owns or has been assigned, and those in their workspaces
+const checkTask = async (req, res, next) => {
+  const { task_id } = req.body;
+  if (!task_id) return next();
+  try {
+    const userId = req.user.userId;
+    const task = await Task.findOne({
+      _id: task_id,
+      $or: [{ user: userId }, { assigned_to: userId }, { workspace: { $in: await workspaceIdsFor(userId, 'member') } }]
+    })
+      .select('project')
+      .populate('project', 'billable');
+    if (!task) {
+      return res.status(404).json({
+        success: false,
+        message: 'Task not found'
+      });
+    }
+    req.linkedTask = task;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// New entries are billable unless the request says otherwise or their task's project isn't
+const resolveBillable = (req) => {
+  if (req.body.billable !== undefined) return req.body.billable;
+  const project = req.linkedTask && req.linkedTask.project;
+  return project ? project.billable !== false : true;
+};
+
+const secondsBetween = (start, end) => Math.max(0, Math.round((end.getTime() - start.getTime()) / 1000));
+
+// Rename the task reference to the row shape the frontend expects
+const formatEntry = (entry) => {
+  const obj = entry.toJSON();
+  obj.task_id = entry.task ? entry.task.toString() : null;
+  delete obj.task;
+  delete obj.user;
+  return obj;
+};
+
+const findRunning = (userId) => TimeEntry.findOne({ user: userId, end_time: null });
+
+// Get finished time entries for user, newest first
+router.get('/', authenticateToken, filterValidation, checkValidation, async (req, res, next) => {
+  try {
+    if (!isDbConnected()) {
+      return res.json({
+        success: true,
+        data: {
+          entries: []
+        }
+      });
+    }
+
+    const { task_id, from, to } = req.query;
+    const filter = { user: req.user.userId, end_time: { $ne: null } };
+    if (task_id) filter.task = task_id;
+    if (from || to) {
+      filter.start_time = {};
+      if (from) filter.start_time.$gte = new Date(from);
+      if (to) filter.start_time.$lte = new Date(to);
+    }
+
+    const entries = await dbOperation(async () => {
+      return await TimeEntry.find(filter).sort({ start_time: -1 });
+    }, []);
+
+    res.json({
+      success: true,
+      data: {
+        entries: entries.map(formatEntry)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get the running timer, if any
+router.get('/active', authenticateToken, async (req, res, next) => {
+  try {
+    const entry = isDbConnected()
+      ? await dbOperation(() => findRunning(req.user.userId))
+      : null;
+
+    res.json({
+      success: true,
+      data: {
+        entry: entry ? formatEntry(entry) : null
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Start a timer; only one can run at a time
+router.post('/start', authenticateToken, requireDb, entryFields, checkValidation, checkTask, async (req, res, next) => {
   try {
+    const { description, task_id } = req.body;
+
+    const running = await findRunning(req.user.userId);
+    if (running) {
+      return res.status(409).json({
+        success: false,
+        message: 'A timer is already running',
+        data: {
+          entry: formatEntry(running)
+        }
+      });
+    }
+
+    const entry = await dbOperation(async () => {
+      return await TimeEntry.create({
+        user: req.user.userId,
+        task: task_id || null,
+        description: description || '',
+        start_time: new Date(),
+        billable: resolveBillable(req)
+      });
+    });
+
+    if (!entry) {
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to start timer'
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Timer started',
+      data: {
+        entry: formatEntry(entry)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Stop the running timer, from whichever device started it
+router.post('/stop', authenticateToken, requireDb, async (req, res, next) => {
+  try {
+    const running = await findRunning(req.user.userId);
+    if (!running) {
+      return res.status(404).json({
+        success: false,
+        message: 'No timer is running'
+      });
+    }
+
+    const endTime = new Date();
+    running.end_time = endTime;
+    running.duration = secondsBetween(running.start_time, endTime);
+    const entry = await dbOperation(() => running.save());
+
+    if (!entry) {
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to stop timer'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Timer stopped',
+      data: {
+        entry: formatEntry(entry)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Log time manually
+router.post('/', authenticateToken, requireDb, entryValidation, checkValidation, checkTask, async (req, res, next) => {
+  try {
+    const { description, task_id } = req.body;
+    const startTime = new Date(req.body.start_time);
+    const endTime = new Date(req.body.end_time);
+
+    if (endTime <= startTime) {
+      return res.status(400).json({
+        success: false,
+        message: 'End time must be after start time'
+      });
+    }
+
+    const entry = await dbOperation(async () => {
+      return await TimeEntry.create({
+        user: req.user.userId,
+        task: task_id || null,
+        description: description || '',
+        start_time: startTime,
+        end_time: endTime,
+        duration: secondsBetween(startTime, endTime),
+        billable: resolveBillable(req)
+      });
+    });
+
+    if (!entry) {
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to create time entry'
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Time entry created successfully',
+      data: {
+        entry: formatEntry(entry)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update a time entry; the duration follows its start and end times
+router.put('/:id', authenticateToken, requireDb, entryUpdateValidation, checkValidation, checkTask, async (req, res, next) => {
+  try {
+    const entry = await TimeEntry.findOne({ _id: req.params.id, user: req.user.userId });
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        message: 'Time entry not found'
+      });
+    }
+
+    const { description, task_id, start_time, end_time, billable } = req.body;
+    if (description !== undefined) entry.description = description;
+    if (billable !== undefined) entry.billable = billable;
+    if (task_id !== undefined) entry.task = task_id || null;
+    if (start_time !== undefined) entry.start_time = new Date(start_time);
+    if (end_time !== undefined) entry.end_time = new Date(end_time);
+
+    if (entry.end_time) {
+      if (entry.end_time <= entry.start_time) {
+        return res.status(400).json({
+          success: false,
+          message: 'End time must be after start time'
+        });
+      }
+      entry.duration = secondsBetween(entry.start_time, entry.end_time);
+    }
+
+    const saved = await dbOperation(() => entry.save());
+    if (!saved) {
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to update time entry'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Time entry updated successfully',
+      data: {
+        entry: formatEntry(saved)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete a time entry; deleting the running one discards the timer
+router.delete('/:id', authenticateToken, requireDb, async (req, res, next) => {
+  try {
+    const entry = await dbOperation(async () => {
+      return await TimeEntry.findOneAndDelete({ _id: req.params.id, user: req.user.userId });
+    });
+
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        message: 'Time entry not found'
+      });
+    }
+
     res.json({
       success: true,
-      message: 'Time tracking endpoint - to be implemented'
+      message: 'Time entry deleted successfully'
     });
   } catch (error) {
     next(error);
   }
 });
 
-module.exports = router;
\ No newline at end of file
+module.exports = router;
@@ -1,19 +1,34 @@
 const express = require('express');
+const { validationResult } = require('express-validator');
+const mongoose = require('mongoose');
 const router = express.Router();
 const Task = require('../models/Task');
 const User = require('../models/User');
 const { authenticateToken } = require('../middleware/auth');
 const { authorizeRoles } = require('../middleware/roleAuth');
+const { getStatusesForUser, getDoneKeys } = require('../utils/taskStatuses');
+const { spawnNextOccurrence } = require('../utils/recurrence');
+const { notify } = require('../utils/notifications');
+const { emitTaskChange, emitTaskProgress } = require('../utils/realtime');
+const { taskAccessFilter } = require('../utils/workspaces');
+const { isGatedStatus, findOpenBlockers, notifyUnblocked } = require('../utils/dependencies');
+const { baseVersionValidation, isStale, versionFilter, sendConflict } = require('../utils/concurrency');
+
+// The newest progress update with its author, as the task's timeline shows it
+const latestUpdate = async (task) => {
+  await task.populate('progress_updates.updated_by', 'name avatar_url');
+  return task.progress_updates[task.progress_updates.length - 1];
+};
 
 // User route: Get tasks assigned to the current user
 router.get('/my-assigned', authenticateToken, async (req, res) => {
   try {
     const tasks = await Task.find({ 
-      assigned_to: req.user.id 
+      assigned_to: req.user.userId 
     })
-    .populate('assigned_by', 'name email')
-    .populate('assigned_to', 'name email')
-    .sort({ createdAt: -1 });
+    .populate('assigned_by', 'name email avatar_url')
+    .populate('assigned_to', 'name email avatar_url')
+    .sort({ created_at: -1 });
 
     res.status(200).json({
       success: true,
@@ -29,25 +44,61 @@ router.get('/my-assigned', authenticateToken, async (req, res) => {
   }
 });
 
-// User route: Update task status
-router.put('/update-status/:taskId', authenticateToken, async (req, res) => {
+// User route: Get a task's progress updates, oldest first. Open to everyone who can see the task,
+// its assignee and whoever assigned it.
+router.get('/progress/:taskId', authenticateToken, async (req, res) => {
   try {
     const { taskId } = req.params;
-    const { status, notes } = req.body;
+    const access = await taskAccessFilter(req.user.userId);
+    const task = mongoose.isValidObjectId(taskId) && await Task.findOne({
+      _id: taskId,
+      $or: [...access.$or, { assigned_to: req.user.userId }, { assigned_by: req.user.userId }]
+    })
+    .select('progress_updates')
+    .populate('progress_updates.updated_by', 'name avatar_url');
 
-    // Validate status
-    const validStatuses = ['todo', 'in_progress', 'completed', 'cancelled'];
-    if (!validStatuses.includes(status)) {
+    if (!task) {
+      return res.status(404).json({
+        success: false,
+        message: 'Task not found'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        progress_updates: task.progress_updates
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching progress updates:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching progress updates',
+      error: error.message
+    });
+  }
+});
+
+// User route: Update task status
+router.put('/update-status/:taskId', authenticateToken, baseVersionValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
       return res.status(400).json({
         success: false,
-        message: 'Invalid status. Valid statuses are: todo, in_progress, completed, cancelled'
+        message: 'Validation errors',
+        errors: errors.array()
       });
     }
 
+    const { taskId } = req.params;
+    const { status, notes } = req.body;
+
     // Find the task and ensure it's assigned to the current user
-    const task = await Task.findOne({ 
+    let task = await Task.findOne({ 
       _id: taskId, 
-      assigned_to: req.user.id 
+      assigned_to: req.user.userId 
     });
 
     if (!task) {
@@ -57,27 +108,90 @@ router.put('/update-status/:taskId', authenticateToken, async (req, res) => {
       });
     }
 
-    // Update task status
-    const previousStatus = task.status;
-    task.status = status;
-    task.updated_by = req.user.id;
+    // Someone else saved the task since the assignee loaded it
+    const base = req.body.base_updated_at;
+    if (isStale(task, base)) {
+      return sendConflict(res, 'task', task);
+    }
 
-    // Add to progress updates
-    task.progress_updates.push({
-      status: status,
-      updated_by: req.user.id,
-      updated_at: new Date(),
-      notes: notes || ''
-    });
+    // Validate status against the task owner's status model
+    const ownerStatuses = await getStatusesForUser(task.user);
+    const validStatuses = ownerStatuses.map(s => s.key);
+    if (!validStatuses.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid status. Valid statuses are: ${validStatuses.join(', ')}`
+      });
+    }
 
-    await task.save();
+    // A parent can't be completed while any of its subtasks is still open
+    const doneKeys = getDoneKeys(ownerStatuses);
+    if (doneKeys.includes(status) && !doneKeys.includes(task.status)) {
+      const openSubtasks = await Task.countDocuments({ parent: task._id, status: { $nin: doneKeys } });
+      if (openSubtasks > 0) {
+        return res.status(409).json({
+          success: false,
+          message: `Complete the ${openSubtasks} open subtask(s) before completing this task`
+        });
+      }
+    }
+
+    // Starting or finishing a task waits on its dependencies. Admins override them from the task editor.
+    if (status !== task.status && isGatedStatus(status, doneKeys)) {
+      const blockers = await findOpenBlockers(task.dependencies, doneKeys);
+      if (blockers.length > 0) {
+        return res.status(409).json({
+          success: false,
+          message: `Blocked by ${blockers.length} open dependenc${blockers.length === 1 ? 'y' : 'ies'}: ${blockers.map(b => `"${b.title}"`).join(', ')}`,
+          data: {
+            blockers: blockers.map(b => ({ id: b.id, title: b.title, status: b.status }))
+          }
+        });
+      }
+    }
 
-    // Emit real-time update to admin who assigned the task
+    // Update the status and add to progress updates, unless the task changed since it was read
+    const previousStatus = task.status;
+    const updated = await Task.findOneAndUpdate(
+      { _id: task._id, assigned_to: req.user.userId, ...versionFilter(task, base) },
+      {
+        status: status,
+        updated_by: req.user.userId,
+        $push: {
+          progress_updates: {
+            status: status,
+            from_status: previousStatus,
+            updated_by: req.user.userId,
+            updated_at: new Date(),
+            notes: notes || ''
+          }
+        }
+      },
+      { new: true, runValidators: true }
+    );
+    if (!updated) {
+      return sendConflict(res, 'task', await Task.findById(task._id));
+    }
+    task = updated;
+
+    emitTaskChange(req, 'updated', task);
+    emitTaskProgress(req, task, await latestUpdate(task), `Task "${task.title}" status changed from ${previousStatus} to ${status}`);
+
+    // Completing a task queues up the next one in a recurring series and frees its dependents
     const io = req.app.get('io');
-    if (io && task.assigned_by) {
-      io.to(`user_${task.assigned_by}`).emit('taskUpdated', {
+    if (doneKeys.includes(status) && !doneKeys.includes(previousStatus)) {
+      const nextTask = await spawnNextOccurrence(task);
+      if (nextTask) emitTaskChange(req, 'created', nextTask);
+      await notifyUnblocked(io, task, doneKeys);
+    }
+
+    if (task.assigned_by) {
+      await notify(io, task.assigned_by, {
+        type: 'status_change',
+        title: task.title,
         message: `Task "${task.title}" status changed from ${previousStatus} to ${status}`,
-        task: task
+        task: task._id,
+        project: task.project
       });
     }
 
@@ -112,7 +226,7 @@ router.put('/add-notes/:taskId', authenticateToken, async (req, res) => {
     // Find the task and ensure it's assigned to the current user
     const task = await Task.findOne({ 
       _id: taskId, 
-      assigned_to: req.user.id 
+      assigned_to: req.user.userId 
     });
 
     if (!task) {
@@ -125,19 +239,23 @@ router.put('/add-notes/:taskId', authenticateToken, async (req, res) => {
     // Add to progress updates
     task.progress_updates.push({
       status: task.status,
-      updated_by: req.user.id,
+      updated_by: req.user.userId,
       updated_at: new Date(),
       notes: notes
     });
 
     await task.save();
+    emitTaskChange(req, 'updated', task);
+    emitTaskProgress(req, task, await latestUpdate(task), `New progress notes added to task "${task.title}"`);
 
-    // Emit real-time update to admin who assigned the task
     const io = req.app.get('io');
-    if (io && task.assigned_by) {
-      io.to(`user_${task.assigned_by}`).emit('taskProgress', {
+    if (task.assigned_by) {
+      await notify(io, task.assigned_by, {
+        type: 'comment',
+        title: task.title,
         message: `New progress notes added to task "${task.title}"`,
-        task: task
+        task: task._id,
+        project: task.project
       });
     }
 
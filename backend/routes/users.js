@@ -2,6 +2,7 @@ const express = require('express');
 const { authenticateToken } = require('../middleware/auth');
 const User = require('../models/User');
 const { dbOperation, inMemoryOperations, isDbConnected } = require('../utils/dbHelper');
+const { assignableUsersFilter, checkWorkspace } = require('../utils/workspaces');
 
 const router = express.Router();
 
@@ -38,4 +39,31 @@ router.get('/profile', authenticateToken, async (req, res, next) => {
   }
 });
 
+// List the people tasks can be assigned to: a workspace's members with `workspace_id`, otherwise the
+// user and everyone they share a workspace with (every user, for admins)
+router.get('/', authenticateToken, checkWorkspace('guest'), async (req, res, next) => {
+  try {
+    let users;
+    if (isDbConnected()) {
+      const filter = await assignableUsersFilter(req.workspace ? req.workspace._id : null, req.user);
+      users = await User.find(filter)
+        .select('id name email avatar_url')
+        .sort({ name: 1 })
+        .limit(500);
+    } else {
+      const user = inMemoryOperations.findUserById(req.user.userId);
+      users = user ? [{ id: user.id, name: user.name, email: user.email, avatar_url: user.avatar_url }] : [];
+    }
+
+    res.json({
+      success: true,
+      data: {
+        users
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 module.exports = router;
\ No newline at end of file
@@ -0,0 +1,457 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const crypto = require('crypto');
+const { body, validationResult } = require('express-validator');
+const Workspace = require('../models/Workspace');
+const WorkspaceInvitation = require('../models/WorkspaceInvitation');
+const Project = require('../models/Project');
+const Task = require('../models/Task');
+const User = require('../models/User');
+const { authenticateToken } = require('../middleware/auth');
+const { isDbConnected } = require('../utils/dbHelper');
+const { roleRank, getRole, hasRole } = require('../utils/workspaces');
+const { sendWorkspaceInviteEmail } = require('../utils/emailService');
+const { emitWorkspaceChange, emitWorkspaceDeleted, leaveWorkspaceRooms } = require('../utils/realtime');
+const { deleteTasks } = require('../utils/taskCleanup');
+
+const router = express.Router();
+
+const INVITATION_DAYS = 7;
+
+// Validation middleware
+const workspaceValidation = [
+  body('name').isString().trim().notEmpty().withMessage('Workspace name is required')
+    .isLength({ max: 80 }).withMessage('Workspace name must be at most 80 characters').escape()
+];
+
+// The owner role is never handed out here; there is exactly one per workspace
+const roleValidation = body('role').isIn(['admin', 'member', 'guest']).withMessage('Role must be admin, member or guest');
+
+const invitationValidation = [
+  body('email').isEmail().normalizeEmail().withMessage('Valid email is required'),
+  roleValidation.optional()
+];
+
+const checkValidation = (req, res, next) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation errors',
+      errors: errors.array()
+    });
+  }
+  next();
+};
+
+const requireDb = (req, res, next) => {
+  if (!isDbConnected()) {
+    return res.status(500).json({
+      success: false,
+      message: 'Workspaces require database connection'
+    });
+  }
+  next();
+};
+
+// Load the workspace in :id when the user holds at least `minRole` in it. Non-members get a 404,
+// so workspace ids can't be probed; members without the role get a 403.
+const loadWorkspace = (minRole) => async (req, res, next) => {
+  try {
+    const workspace = mongoose.isValidObjectId(req.params.id) ? await Workspace.findById(req.params.id) : null;
+    const role = getRole(workspace, req.user.userId);
+    if (!role) {
+      return res.status(404).json({
+        success: false,
+        message: 'Workspace not found'
+      });
+    }
+    if (!hasRole(workspace, req.user.userId, minRole)) {
+      return res.status(403).json({
+        success: false,
+        message: `Only workspace ${minRole === 'owner' ? 'owners' : `${minRole}s`} can do this`
+      });
+    }
+    req.workspace = workspace;
+    req.workspaceRole = role;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// The workspace with its members' names and avatars, plus the requesting user's own role
+const formatWorkspace = async (workspace, userId) => {
+  await workspace.populate('members.user', 'name email avatar_url');
+  const obj = workspace.toJSON();
+  obj.role = getRole(workspace, userId);
+  return obj;
+};
+
+// Members can only be managed by someone who outranks them, and only into roles below the actor's own
+const canManage = (req, targetRole, newRole = 'guest') => {
+  const rank = roleRank(req.workspaceRole);
+  return roleRank(targetRole) < rank && roleRank(newRole) < rank;
+};
+
+const pendingInvitationFilter = (workspaceId) => ({
+  workspace: workspaceId,
+  accepted_at: null,
+  expires_at: { $gt: new Date() }
+});
+
+// List the workspaces the user belongs to
+router.get('/', authenticateToken, requireDb, async (req, res, next) => {
+  try {
+    const workspaces = await Workspace.find({ 'members.user': req.user.userId }).sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: {
+        workspaces: await Promise.all(workspaces.map(w => formatWorkspace(w, req.user.userId)))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create a workspace owned by the user
+router.post('/', authenticateToken, requireDb, workspaceValidation, checkValidation, async (req, res, next) => {
+  try {
+    const workspace = await Workspace.create({
+      name: req.body.name,
+      owner: req.user.userId,
+      members: [{ user: req.user.userId, role: 'owner' }]
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Workspace created',
+      data: {
+        workspace: await formatWorkspace(workspace, req.user.userId)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Look up an invitation from its emailed link, so the user can see what they are joining
+router.get('/invitations/:token', authenticateToken, requireDb, async (req, res, next) => {
+  try {
+    const invitation = await WorkspaceInvitation.findOne({
+      token: req.params.token,
+      accepted_at: null,
+      expires_at: { $gt: new Date() }
+    })
+      .populate('workspace', 'name')
+      .populate('invited_by', 'name');
+
+    if (!invitation || !invitation.workspace) {
+      return res.status(404).json({
+        success: false,
+        message: 'This invitation is invalid or has expired'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        invitation
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Join the workspace; the invitation must have been sent to the signed-in user's address
+router.post('/invitations/:token/accept', authenticateToken, requireDb, async (req, res, next) => {
+  try {
+    const invitation = await WorkspaceInvitation.findOne({
+      token: req.params.token,
+      accepted_at: null,
+      expires_at: { $gt: new Date() }
+    });
+    const workspace = invitation && await Workspace.findById(invitation.workspace);
+
+    if (!workspace) {
+      return res.status(404).json({
+        success: false,
+        message: 'This invitation is invalid or has expired'
+      });
+    }
+
+    const user = await User.findById(req.user.userId).select('email');
+    if (!user || user.email !== invitation.email) {
+      return res.status(403).json({
+        success: false,
+        message: `This invitation was sent to ${invitation.email}. Sign in with that address to accept it.`
+      });
+    }
+
+    if (!getRole(workspace, req.user.userId)) {
+      workspace.members.push({ user: req.user.userId, role: invitation.role });
+      await workspace.save();
+    }
+    invitation.accepted_at = new Date();
+    await invitation.save();
+
+    const row = await formatWorkspace(workspace, req.user.userId);
+    emitWorkspaceChange(req, row);
+
+    res.json({
+      success: true,
+      message: `You joined ${workspace.name}`,
+      data: {
+        workspace: row
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get one workspace; admins also see its pending invitations
+router.get('/:id', authenticateToken, requireDb, loadWorkspace('guest'), async (req, res, next) => {
+  try {
+    const row = await formatWorkspace(req.workspace, req.user.userId);
+    if (hasRole(req.workspace, req.user.userId, 'admin')) {
+      row.invitations = await WorkspaceInvitation.find(pendingInvitationFilter(req.workspace._id))
+        .populate('invited_by', 'name')
+        .sort({ created_at: -1 });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        workspace: row
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Rename a workspace
+router.put('/:id', authenticateToken, requireDb, loadWorkspace('admin'), workspaceValidation, checkValidation, async (req, res, next) => {
+  try {
+    req.workspace.name = req.body.name;
+    await req.workspace.save();
+
+    const row = await formatWorkspace(req.workspace, req.user.userId);
+    emitWorkspaceChange(req, row);
+
+    res.json({
+      success: true,
+      message: 'Workspace updated',
+      data: {
+        workspace: row
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete a workspace; like deleting a project, its projects and tasks go with it
+router.delete('/:id', authenticateToken, requireDb, loadWorkspace('owner'), async (req, res, next) => {
+  try {
+    const { workspace } = req;
+    await leaveWorkspaceRooms(req, workspace, workspace.members.map(m => m.user));
+    await deleteTasks(await Task.find({ workspace: workspace._id }).distinct('_id'));
+    await Project.deleteMany({ workspace: workspace._id });
+    await WorkspaceInvitation.deleteMany({ workspace: workspace._id });
+    await workspace.deleteOne();
+    emitWorkspaceDeleted(req, workspace);
+
+    res.json({
+      success: true,
+      message: 'Workspace deleted'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Invite someone by email. Inviting an address again replaces its pending invitation with a fresh link.
+router.post('/:id/invitations', authenticateToken, requireDb, loadWorkspace('admin'), invitationValidation, checkValidation, async (req, res, next) => {
+  try {
+    const { workspace } = req;
+    const { email } = req.body;
+    const role = req.body.role || 'member';
+
+    if (!canManage(req, 'guest', role)) {
+      return res.status(403).json({
+        success: false,
+        message: `Only the workspace owner can invite ${role}s`
+      });
+    }
+
+    const existing = await User.findOne({ email }).select('_id');
+    if (existing && getRole(workspace, existing._id)) {
+      return res.status(409).json({
+        success: false,
+        message: `${email} is already a member of this workspace`
+      });
+    }
+
+    // Generate secure token
+    const token = crypto.randomBytes(32).toString('hex');
+    const expires = new Date();
+    expires.setDate(expires.getDate() + INVITATION_DAYS);
+
+    const invitation = await WorkspaceInvitation.findOneAndUpdate(
+      { workspace: workspace._id, email, accepted_at: null },
+      { role, token, invited_by: req.user.userId, expires_at: expires },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    );
+    await invitation.populate('invited_by', 'name');
+
+    const acceptUrl = `${process.env.CLIENT_URL || 'http://localhost:3000'}/join-workspace?invite=${token}`;
+
+    try {
+      await sendWorkspaceInviteEmail({
+        to: email,
+        inviterName: invitation.invited_by.name,
+        workspaceName: workspace.name,
+        role,
+        acceptUrl
+      });
+    } catch (mailError) {
+      console.error('Mailing failed, but the invitation was created:', mailError.message);
+      if (process.env.NODE_ENV === 'development') {
+        return res.status(201).json({
+          success: true,
+          message: 'Email service error, but here is the invitation link (Dev Only).',
+          data: {
+            invitation
+          },
+          demo_invite_url: acceptUrl
+        });
+      }
+      throw new Error('Failed to send the invitation email. Please try again later.');
+    }
+
+    res.status(201).json({
+      success: true,
+      message: `Invitation sent to ${email}`,
+      data: {
+        invitation
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Withdraw a pending invitation; its link stops working
+router.delete('/:id/invitations/:invitationId', authenticateToken, requireDb, loadWorkspace('admin'), async (req, res, next) => {
+  try {
+    const invitation = mongoose.isValidObjectId(req.params.invitationId) && await WorkspaceInvitation.findOneAndDelete({
+      _id: req.params.invitationId,
+      workspace: req.workspace._id,
+      accepted_at: null
+    });
+
+    if (!invitation) {
+      return res.status(404).json({
+        success: false,
+        message: 'Invitation not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Invitation withdrawn'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Change a member's role
+router.put('/:id/members/:userId', authenticateToken, requireDb, loadWorkspace('admin'), roleValidation, checkValidation, async (req, res, next) => {
+  try {
+    const { workspace } = req;
+    const member = workspace.members.find(m => String(m.user) === req.params.userId);
+
+    if (!member) {
+      return res.status(404).json({
+        success: false,
+        message: 'Member not found'
+      });
+    }
+    if (!canManage(req, member.role, req.body.role)) {
+      return res.status(403).json({
+        success: false,
+        message: member.role === 'owner' ? "The owner's role can't be changed" : "You can't give this member that role"
+      });
+    }
+
+    member.role = req.body.role;
+    await workspace.save();
+
+    const row = await formatWorkspace(workspace, req.user.userId);
+    emitWorkspaceChange(req, row);
+
+    res.json({
+      success: true,
+      message: 'Member role updated',
+      data: {
+        workspace: row
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Remove a member, or leave the workspace when :userId is the user's own id. The owner can't leave;
+// they delete the workspace instead. Projects and tasks the member created stay with the workspace.
+router.delete('/:id/members/:userId', authenticateToken, requireDb, loadWorkspace('guest'), async (req, res, next) => {
+  try {
+    const { workspace } = req;
+    const leaving = req.params.userId === req.user.userId;
+    const member = workspace.members.find(m => String(m.user) === req.params.userId);
+
+    if (!member) {
+      return res.status(404).json({
+        success: false,
+        message: 'Member not found'
+      });
+    }
+    if (member.role === 'owner') {
+      return res.status(400).json({
+        success: false,
+        message: leaving ? 'The owner cannot leave the workspace; delete it instead' : 'The owner cannot be removed'
+      });
+    }
+    if (!leaving && !canManage(req, member.role)) {
+      return res.status(403).json({
+        success: false,
+        message: "You can't remove this member"
+      });
+    }
+
+    workspace.members = workspace.members.filter(m => m !== member);
+    await workspace.save();
+    await leaveWorkspaceRooms(req, workspace, [member.user]);
+
+    const row = await formatWorkspace(workspace, req.user.userId);
+    emitWorkspaceChange(req, row, { removed: [req.params.userId] });
+
+    res.json({
+      success: true,
+      message: leaving ? `You left ${workspace.name}` : 'Member removed',
+      data: {
+        workspace: row
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+module.exports = router;
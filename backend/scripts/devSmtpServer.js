@@ -0,0 +1,91 @@
+// A stand-in SMTP server for trying out emails locally without a real mail account
+// It accepts every message, prints the sender, recipients and subject, and saves the raw message as an
+// .eml file (open it in any mail client or browser to see the HTML). Point the backend at it with:
+//
+//   SMTP_HOST=localhost SMTP_PORT=2525   (and no SMTP_USER / SMTP_PASS)
+//
+// then run `npm run mail:dev`. Only the commands nodemailer needs are implemented; it is not for production.
+const net = require('net');
+const fs = require('fs');
+const path = require('path');
+
+const PORT = parseInt(process.env.DEV_SMTP_PORT) || 2525;
+const OUTPUT_DIR = process.env.DEV_SMTP_DIR || path.join(__dirname, '..', 'tmp', 'mail');
+
+fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+
+const headerValue = (message, name) => {
+  const match = new RegExp(`^${name}:\\s*(.*)$`, 'mi').exec(message.split(/\r?\n\r?\n/)[0]);
+  return match ? match[1].trim() : '';
+};
+
+const server = net.createServer((socket) => {
+  let buffer = '';
+  let inData = false;
+  let envelope = { from: '', to: [] };
+  const reply = (line) => socket.write(`${line}\r\n`);
+
+  reply('220 localhost TASQ.ONE dev SMTP');
+
+  socket.on('data', (chunk) => {
+    buffer += chunk.toString('utf8');
+
+    while (buffer.length > 0) {
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end < 0) return;
+        // Undo dot-stuffing
+        const message = buffer.slice(0, end).replace(/^\.\./gm, '.');
+        buffer = buffer.slice(end + 5);
+        inData = false;
+
+        const file = path.join(OUTPUT_DIR, `${new Date().toISOString().replace(/[:.]/g, '-')}.eml`);
+        fs.writeFileSync(file, message);
+        console.log(`📨 ${envelope.from} → ${envelope.to.join(', ')}: ${headerValue(message, 'Subject')}`);
+        console.log(`   saved to ${file}`);
+        envelope = { from: '', to: [] };
+        reply('250 OK: message accepted');
+        continue;
+      }
+
+      const lineEnd = buffer.indexOf('\r\n');
+      if (lineEnd < 0) return;
+      const line = buffer.slice(0, lineEnd);
+      buffer = buffer.slice(lineEnd + 2);
+      const command = line.slice(0, 4).toUpperCase();
+
+      if (command === 'EHLO') {
+        reply('250-localhost');
+        reply('250 8BITMIME');
+      } else if (command === 'HELO') {
+        reply('250 localhost');
+      } else if (command === 'MAIL') {
+        envelope.from = line.replace(/^MAIL FROM:\s*/i, '');
+        reply('250 OK');
+      } else if (command === 'RCPT') {
+        envelope.to.push(line.replace(/^RCPT TO:\s*/i, ''));
+        reply('250 OK');
+      } else if (command === 'DATA') {
+        inData = true;
+        reply('354 End data with <CR><LF>.<CR><LF>');
+      } else if (command === 'RSET') {
+        envelope = { from: '', to: [] };
+        reply('250 OK');
+      } else if (command === 'NOOP') {
+        reply('250 OK');
+      } else if (command === 'QUIT') {
+        reply('221 Bye');
+        socket.end();
+        return;
+      } else {
+        reply('502 Command not implemented');
+      }
+    }
+  });
+
+  socket.on('error', (error) => console.error('Dev SMTP connection error:', error.message));
+});
+
+server.listen(PORT, () => {
+  console.log(`📬 Dev SMTP server listening on port ${PORT}, saving mail to ${OUTPUT_DIR}`);
+});
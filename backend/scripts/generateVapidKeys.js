@@ -0,0 +1,8 @@
+// Prints a VAPID key pair for Web Push; copy the lines into .env (see utils/webPush.js)
+// Keep the keys once browsers have subscribed: a new pair invalidates every existing subscription.
+const { generateVapidKeys } = require('../utils/webPush');
+
+const { publicKey, privateKey } = generateVapidKeys();
+console.log(`VAPID_PUBLIC_KEY=${publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
+console.log('VAPID_SUBJECT=mailto:you@example.com');
@@ -9,10 +9,14 @@ const authRoutes = require('./routes/auth');
 const userRoutes = require('./routes/users');
 const projectRoutes = require('./routes/projects');
 const taskRoutes = require('./routes/tasks');
+const commentRoutes = require('./routes/comments');
 const timeRoutes = require('./routes/time');
 const categoryRoutes = require('./routes/categories');
 const tagRoutes = require('./routes/tags');
+const calendarRoutes = require('./routes/calendar');
 const notificationRoutes = require('./routes/notifications');
+const pushRoutes = require('./routes/push');
+const workspaceRoutes = require('./routes/workspaces');
 const adminTaskRoutes = require('./routes/adminTasks');  // New admin task routes
 const userTaskRoutes = require('./routes/userTasks');    // New user task routes
 
@@ -23,6 +27,8 @@ const app = express();
 const http = require('http');
 const { Server } = require('socket.io');
 const { setDbConnected } = require('./utils/dbHelper');
+const { startReminderScheduler } = require('./utils/reminderScheduler');
+const { attachRealtime } = require('./utils/realtime');
 
 const server = http.createServer(app);
 const io = new Server(server, {
@@ -35,26 +41,8 @@ const io = new Server(server, {
   }
 });
 
-// Neural Socket Connection with user authentication
-io.on('connection', (socket) => {
-  console.log('📡 TASQ.ONE Link Established:', socket.id);
-  
-  // Join user-specific room when user connects
-  socket.on('joinUserRoom', (userId) => {
-    socket.join(`user_${userId}`);
-    console.log(`👤 User ${userId} joined TASQ.ONE room user_${userId}`);
-  });
-
-  // Leave user-specific room when user disconnects
-  socket.on('leaveUserRoom', (userId) => {
-    socket.leave(`user_${userId}`);
-    console.log(`👤 User ${userId} left TASQ.ONE room user_${userId}`);
-  });
-
-  socket.on('disconnect', () => {
-    console.log('🔌 TASQ.ONE Link Severed:', socket.id);
-  });
-});
+// Neural Socket Connection: authenticated sockets in user and project rooms (utils/realtime.js)
+attachRealtime(io);
 
 // Global io object for routes
 app.set('io', io);
@@ -119,7 +107,9 @@ app.get('/', (req, res) => {
       auth: '/api/auth',
       users: '/api/users',
       projects: '/api/projects',
+      workspaces: '/api/workspaces',
       tasks: '/api/tasks',
+      calendar: '/api/calendar',
       adminTasks: '/api/admin/tasks',  // New admin task endpoints
       userTasks: '/api/user/tasks'     // New user task endpoints
     },
@@ -135,6 +125,8 @@ connectDB()
     dbConnected = true;
     setDbConnected(true); // Set connection status
     console.log('✅ Database: Connected');
+    // Reminders and deadline alerts are sent from here, whether or not anyone has the app open
+    startReminderScheduler(io);
   })
   .catch((error) => {
     console.error('❌ Database connection failed:', error.message);
@@ -147,11 +139,15 @@ connectDB()
 app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/projects', projectRoutes);
+app.use('/api/tasks/:taskId/comments', commentRoutes);
 app.use('/api/tasks', taskRoutes);
 app.use('/api/time', timeRoutes);
 app.use('/api/categories', categoryRoutes);
 app.use('/api/tags', tagRoutes);
+app.use('/api/calendar', calendarRoutes);
 app.use('/api/notifications', notificationRoutes);
+app.use('/api/push', pushRoutes);
+app.use('/api/workspaces', workspaceRoutes);
 app.use('/api/admin/tasks', adminTaskRoutes);  // New admin task routes
 app.use('/api/user/tasks', userTaskRoutes);    
 
@@ -0,0 +1,47 @@
+const { isStale, versionFilter, sendConflict } = require('../utils/concurrency');
+
+const saved = { updated_at: new Date('2026-03-01T12:00:00.000Z') };
+
+describe('isStale', () => {
+  it('accepts an edit made on the stored version', () => {
+    expect(isStale(saved, '2026-03-01T12:00:00.000Z')).toBe(false);
+    // The same instant written in another offset is the same version
+    expect(isStale(saved, '2026-03-01T13:00:00+01:00')).toBe(false);
+  });
+
+  it('refuses an edit made on an older or newer copy', () => {
+    expect(isStale(saved, '2026-03-01T11:59:59.999Z')).toBe(true);
+    expect(isStale(saved, '2026-03-01T12:00:00.001Z')).toBe(true);
+  });
+
+  it('lets updates without a base version, or for missing documents, through', () => {
+    expect(isStale(saved, undefined)).toBe(false);
+    expect(isStale(saved, null)).toBe(false);
+    expect(isStale(null, '2026-03-01T12:00:00.000Z')).toBe(false);
+    expect(isStale({}, '2026-03-01T12:00:00.000Z')).toBe(false);
+  });
+});
+
+describe('versionFilter', () => {
+  it('pins the update to the version that was checked', () => {
+    expect(versionFilter(saved, '2026-03-01T12:00:00.000Z')).toEqual({ updated_at: saved.updated_at });
+  });
+
+  it('adds nothing for unconditional updates', () => {
+    expect(versionFilter(saved, undefined)).toEqual({});
+    expect(versionFilter(null, '2026-03-01T12:00:00.000Z')).toEqual({});
+  });
+});
+
+describe('sendConflict', () => {
+  it('answers 409 with the server copy under the entity name', () => {
+    const res = { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis() };
+    sendConflict(res, 'task', { id: 't1' });
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(res.json).toHaveBeenCalledWith({
+      success: false,
+      message: 'This task was changed by someone else since you loaded it',
+      data: { conflict: true, task: { id: 't1' } }
+    });
+  });
+});
@@ -0,0 +1,60 @@
+jest.mock('../models/Task', () => ({ find: jest.fn() }));
+jest.mock('../utils/notifications', () => ({ notify: jest.fn() }));
+
+const Task = require('../models/Task');
+const { isGatedStatus, wouldCreateCycle } = require('../utils/dependencies');
+
+const A = 'a'.repeat(24);
+const B = 'b'.repeat(24);
+const C = 'c'.repeat(24);
+const D = 'd'.repeat(24);
+
+// The tasks in scope that already have dependencies, as Task.find(...).select(...) returns them
+const givenGraph = (edges) => {
+  const tasks = Object.entries(edges).map(([id, dependencies]) => ({ id, dependencies }));
+  Task.find.mockReturnValue({ select: () => Promise.resolve(tasks) });
+};
+
+describe('wouldCreateCycle', () => {
+  it('allows a chain that never returns to the task', async () => {
+    givenGraph({ [B]: [C] });
+    await expect(wouldCreateCycle({}, A, [B])).resolves.toBe(false);
+  });
+
+  it('finds a loop closed through other tasks', async () => {
+    // C depends on B, B on A; making A depend on C closes the loop
+    givenGraph({ [B]: [A], [C]: [B] });
+    await expect(wouldCreateCycle({}, A, [C])).resolves.toBe(true);
+  });
+
+  it('finds a direct two-task loop', async () => {
+    givenGraph({ [B]: [A] });
+    await expect(wouldCreateCycle({}, A, [B])).resolves.toBe(true);
+  });
+
+  it('copes with diamonds and existing loops elsewhere', async () => {
+    givenGraph({ [B]: [D], [C]: [D], [D]: [C] });
+    await expect(wouldCreateCycle({}, A, [B, C])).resolves.toBe(false);
+  });
+
+  it('only reads tasks in the given scope', async () => {
+    givenGraph({});
+    await wouldCreateCycle({ user: 'u1' }, A, [B]);
+    expect(Task.find).toHaveBeenLastCalledWith({ user: 'u1', dependencies: { $ne: [] } });
+  });
+});
+
+describe('isGatedStatus', () => {
+  const doneKeys = ['completed', 'shipped'];
+
+  it('gates starting, review and every done status', () => {
+    expect(isGatedStatus('in_progress', doneKeys)).toBe(true);
+    expect(isGatedStatus('review', doneKeys)).toBe(true);
+    expect(isGatedStatus('shipped', doneKeys)).toBe(true);
+  });
+
+  it('leaves other columns open', () => {
+    expect(isGatedStatus('todo', doneKeys)).toBe(false);
+    expect(isGatedStatus('blocked', doneKeys)).toBe(false);
+  });
+});
@@ -0,0 +1,129 @@
+const { buildCalendar, parseOwnUid } = require('../utils/ical');
+
+const TASK_ID = '64b7f0c2a1b2c3d4e5f60718';
+const PROJECT_ID = '64b7f0c2a1b2c3d4e5f60719';
+
+// Read a feed back the way a calendar client does: unfold continuation lines, then collect each
+// VEVENT's properties with their text values unescaped. Alarm properties are prefixed with ALARM:.
+const unescapeText = (value) => value.replace(/\\([\\;,nN])/g, (match, char) => (char === 'n' || char === 'N' ? '\n' : char));
+
+const parseCalendar = (ics) => {
+  const lines = ics.replace(/\r\n /g, '').split('\r\n').filter(Boolean);
+  const events = [];
+  let event = null;
+  let inAlarm = false;
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    const name = line.slice(0, colon);
+    if (line === 'BEGIN:VEVENT') event = {};
+    else if (line === 'END:VEVENT') events.push(event);
+    else if (line === 'BEGIN:VALARM') inAlarm = true;
+    else if (line === 'END:VALARM') inAlarm = false;
+    else if (event) event[inAlarm ? `ALARM:${name}` : name] = unescapeText(line.slice(colon + 1));
+  }
+  return { lines, events };
+};
+
+const task = (fields) => ({
+  id: TASK_ID,
+  title: 'Ship it',
+  status: 'todo',
+  priority: 'medium',
+  due_date: new Date('2026-03-10T00:00:00Z'),
+  updated_at: new Date('2026-03-01T12:00:00Z'),
+  ...fields
+});
+
+describe('buildCalendar', () => {
+  it('round-trips titles, descriptions and project names through escaping and folding', () => {
+    const title = 'Review Q1; budget, forecast &amp; notes\\drafts';
+    const description = 'Line one\nLine two — with a long tail '.repeat(4);
+    const ics = buildCalendar({
+      name: 'Work',
+      tasks: [task({ title, description, project: { name: 'Ops, EU' } })],
+      projects: [],
+      doneKeys: ['completed']
+    });
+    const { lines, events } = parseCalendar(ics);
+
+    expect(ics.endsWith('\r\n')).toBe(true);
+    expect(ics.split('\r\n').every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(events).toHaveLength(1);
+    expect(events[0].SUMMARY).toBe('Review Q1; budget, forecast & notes\\drafts');
+    expect(events[0].DESCRIPTION).toBe(description);
+    expect(events[0].CATEGORIES).toBe('Ops, EU');
+  });
+
+  it('writes all-day events for tasks without a due time and floating times for the rest', () => {
+    const { events } = parseCalendar(buildCalendar({
+      name: 'Work',
+      tasks: [
+        task({}),
+        task({ id: '64b7f0c2a1b2c3d4e5f6071a', due_time: '23:30', estimate_hours: 1.5 })
+      ],
+      projects: [],
+      doneKeys: ['completed']
+    }));
+
+    expect(events[0]['DTSTART;VALUE=DATE']).toBe('20260310');
+    expect(events[0]['DTEND;VALUE=DATE']).toBe('20260311');
+    // 90 minutes from 23:30 runs into the next day
+    expect(events[1].DTSTART).toBe('20260310T233000');
+    expect(events[1].DTEND).toBe('20260311T010000');
+  });
+
+  it('adds a reminder alarm only to open tasks and marks done ones', () => {
+    const { events } = parseCalendar(buildCalendar({
+      name: 'Work',
+      tasks: [
+        task({ reminder_minutes: 30 }),
+        task({ id: '64b7f0c2a1b2c3d4e5f6071a', status: 'completed', reminder_minutes: 30 })
+      ],
+      projects: [],
+      doneKeys: ['completed']
+    }));
+
+    expect(events[0]['ALARM:TRIGGER']).toBe('-PT30M');
+    expect(events[1]['ALARM:TRIGGER']).toBeUndefined();
+    expect(events[1].SUMMARY).toBe('✓ Ship it');
+  });
+
+  it('leaves out undated tasks and adds dated milestones', () => {
+    const { events } = parseCalendar(buildCalendar({
+      name: 'Work',
+      tasks: [task({ due_date: null })],
+      projects: [{
+        id: PROJECT_ID,
+        name: 'Launch',
+        milestones: [
+          { id: 'm1', text: 'Beta', due_date: new Date('2026-04-01T00:00:00Z'), completed: false },
+          { id: 'm2', text: 'Someday', due_date: null }
+        ]
+      }],
+      doneKeys: []
+    }));
+
+    expect(events).toHaveLength(1);
+    expect(events[0].SUMMARY).toBe('◆ Launch: Beta');
+  });
+});
+
+describe('parseOwnUid', () => {
+  it('recognises the UIDs the feed writes', () => {
+    const { events } = parseCalendar(buildCalendar({
+      name: 'Work',
+      tasks: [task({})],
+      projects: [{ id: PROJECT_ID, name: 'Launch', milestones: [{ id: 'm1', text: 'Beta', due_date: new Date('2026-04-01T00:00:00Z') }] }],
+      doneKeys: []
+    }));
+
+    expect(parseOwnUid(events[0].UID)).toEqual({ kind: 'task', id: TASK_ID });
+    expect(parseOwnUid(events[1].UID)).toEqual({ kind: 'milestone', id: PROJECT_ID });
+  });
+
+  it('ignores UIDs from other calendars', () => {
+    expect(parseOwnUid('task-64b7f0c2a1b2c3d4e5f60718@example.com')).toBeNull();
+    expect(parseOwnUid('1234@google.com')).toBeNull();
+  });
+});
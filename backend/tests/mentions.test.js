@@ -0,0 +1,69 @@
+jest.mock('../models/User', () => ({ find: jest.fn() }));
+jest.mock('../models/Workspace', () => ({ findById: jest.fn() }));
+
+const User = require('../models/User');
+const Workspace = require('../models/Workspace');
+const { parseMentions, resolveMentions } = require('../utils/mentions');
+
+const OWNER = 'a'.repeat(24);
+const ASSIGNEE = 'b'.repeat(24);
+const MEMBER = 'c'.repeat(24);
+const STRANGER = 'd'.repeat(24);
+const WORKSPACE = 'e'.repeat(24);
+
+const users = [
+  { id: OWNER, name: 'Olive Owner', email: 'olive@example.com' },
+  { id: ASSIGNEE, name: 'Adam Assignee', email: 'adam@example.com' },
+  { id: MEMBER, name: 'Mia Member', email: 'mia@example.com' },
+  { id: STRANGER, name: 'Sam Stranger', email: 'sam@example.com' }
+];
+
+// Answer User.find(...).select(...) by applying the query's id list and handle patterns to `users`
+beforeEach(() => {
+  jest.clearAllMocks();
+  User.find.mockImplementation(query => ({
+    select: () => Promise.resolve(users.filter(user =>
+      query._id.$in.map(String).includes(user.id) &&
+      query.$or.some(condition => (condition.email || condition.name).test(condition.email ? user.email : user.name))
+    ))
+  }));
+  Workspace.findById.mockReturnValue({
+    select: () => Promise.resolve({ members: [{ user: OWNER }, { user: MEMBER }] })
+  });
+});
+
+const mentionedIds = async (task, content) => (await resolveMentions(task, content)).map(u => u.id);
+
+describe('parseMentions', () => {
+  it('reads email handles and squashed names, dropping trailing dots', () => {
+    expect(parseMentions('thanks @olive. and @AdamAssignee')).toEqual(['olive', 'adamassignee']);
+  });
+
+  it('ignores email addresses', () => {
+    expect(parseMentions('write to olive@example.com')).toEqual([]);
+  });
+});
+
+describe('resolveMentions', () => {
+  it('finds the owner and assignee of a personal task', async () => {
+    const task = { user: OWNER, assigned_to: ASSIGNEE, assigned_by: OWNER, workspace: null };
+    await expect(mentionedIds(task, '@olive @AdamAssignee')).resolves.toEqual([OWNER, ASSIGNEE]);
+    expect(Workspace.findById).not.toHaveBeenCalled();
+  });
+
+  it('skips users who cannot see a personal task', async () => {
+    const task = { user: OWNER, assigned_to: null, assigned_by: null, workspace: null };
+    await expect(mentionedIds(task, '@sam @mia')).resolves.toEqual([]);
+  });
+
+  it("finds members of the task's workspace but nobody outside it", async () => {
+    const task = { user: OWNER, assigned_to: null, assigned_by: null, workspace: WORKSPACE };
+    await expect(mentionedIds(task, '@mia @sam')).resolves.toEqual([MEMBER]);
+    expect(Workspace.findById).toHaveBeenCalledWith(WORKSPACE);
+  });
+
+  it('does not look anything up without handles', async () => {
+    await expect(resolveMentions({ user: OWNER }, 'no mentions here')).resolves.toEqual([]);
+    expect(User.find).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,94 @@
+const { resolvePreferences, normalizePreferences, deliveryChannels } = require('../utils/notificationPreferences');
+const { zonedDateTime, localTime } = require('../utils/timezone');
+
+const user = (quietHours, timezone = 'Europe/Berlin') => ({
+  timezone,
+  notifications_enabled: true,
+  notification_preferences: { quiet_hours: { enabled: true, ...quietHours } }
+});
+
+// An instant given as the wall-clock time in the user's zone
+const at = (date, time, timezone = 'Europe/Berlin') => zonedDateTime(date, time, timezone);
+
+describe('timezone', () => {
+  it('converts wall-clock times in a zone to instants and back', () => {
+    const instant = at('2026-07-01', '22:15');
+    expect(instant.toISOString()).toBe('2026-07-01T20:15:00.000Z');
+    expect(localTime(instant, 'Europe/Berlin')).toBe('22:15');
+  });
+
+  it('settles times on the day daylight saving time starts', () => {
+    expect(at('2026-03-29', '04:00').toISOString()).toBe('2026-03-29T02:00:00.000Z');
+  });
+});
+
+describe('quiet hours across midnight', () => {
+  const night = user({ start: '22:00', end: '07:00' });
+
+  it.each([
+    ['22:00', true],
+    ['23:59', true],
+    ['00:00', true],
+    ['06:59', true],
+    ['07:00', false],
+    ['12:00', false],
+    ['21:59', false]
+  ])('at %s quiet is %s', (time, quiet) => {
+    const channels = deliveryChannels(night, 'assignment', at('2026-07-01', time));
+    expect(channels.push).toBe(!quiet);
+    expect(channels.email).toBe(!quiet);
+    expect(channels.held).toEqual(quiet ? ['email', 'push'] : []);
+  });
+
+  it('keeps filling the inbox', () => {
+    expect(deliveryChannels(night, 'assignment', at('2026-07-01', '23:00')).in_app).toBe(true);
+  });
+
+  it('holds email and push until the end of the same night', () => {
+    expect(deliveryChannels(night, 'reminder', at('2026-07-01', '23:00')).held_until)
+      .toEqual(at('2026-07-02', '07:00'));
+    expect(deliveryChannels(night, 'reminder', at('2026-07-02', '03:00')).held_until)
+      .toEqual(at('2026-07-02', '07:00'));
+  });
+
+  it("reads the clock in the user's own zone", () => {
+    const tokyo = user({ start: '22:00', end: '07:00' }, 'Asia/Tokyo');
+    // 14:00 UTC is 23:00 in Tokyo
+    expect(deliveryChannels(tokyo, 'assignment', new Date('2026-07-01T14:00:00Z')).push).toBe(false);
+    expect(deliveryChannels(night, 'assignment', new Date('2026-07-01T14:00:00Z')).push).toBe(true);
+  });
+
+  it('has no quiet hours when start and end are equal or they are off', () => {
+    const none = user({ start: '08:00', end: '08:00' });
+    const off = user({ enabled: false, start: '22:00', end: '07:00' });
+    expect(deliveryChannels(none, 'assignment', at('2026-07-01', '08:00')).held).toEqual([]);
+    expect(deliveryChannels(off, 'assignment', at('2026-07-01', '23:00')).push).toBe(true);
+  });
+
+  it('handles quiet hours within a single day', () => {
+    const lunch = user({ start: '12:00', end: '13:00' });
+    expect(deliveryChannels(lunch, 'assignment', at('2026-07-01', '12:30')).push).toBe(false);
+    expect(deliveryChannels(lunch, 'assignment', at('2026-07-01', '23:30')).push).toBe(true);
+    expect(deliveryChannels(lunch, 'assignment', at('2026-07-01', '12:30')).held_until).toEqual(at('2026-07-01', '13:00'));
+  });
+
+  it('only holds the channels the user wants for the event', () => {
+    // Comments don't email by default
+    expect(deliveryChannels(night, 'comment', at('2026-07-01', '23:00')).held).toEqual(['push']);
+  });
+});
+
+describe('preferences', () => {
+  it('fills in the defaults', () => {
+    const preferences = resolvePreferences({});
+    expect(preferences.quiet_hours).toEqual({ enabled: false, start: '22:00', end: '07:00' });
+    expect(preferences.digest).toEqual({ frequency: 'off', time: '08:00', weekday: 1 });
+  });
+
+  it('rejects malformed quiet hours', () => {
+    const current = resolvePreferences({});
+    expect(normalizePreferences({ quiet_hours: { start: '24:00' } }, current).error).toBe('quiet_hours.start must be HH:mm');
+    expect(normalizePreferences({ quiet_hours: { start: '23:00', end: '06:30' } }, current).preferences.quiet_hours)
+      .toEqual({ enabled: false, start: '23:00', end: '06:30' });
+  });
+});
@@ -0,0 +1,72 @@
+const { parseRule, isValidRule, nextOccurrence } = require('../utils/recurrence');
+
+describe('parseRule', () => {
+  it('reads the supported parts', () => {
+    expect(parseRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;COUNT=6')).toEqual({
+      freq: 'WEEKLY',
+      interval: 2,
+      byDay: ['MO', 'FR'],
+      count: 6
+    });
+  });
+
+  it('rejects rules it cannot expand', () => {
+    expect(isValidRule('FREQ=HOURLY')).toBe(false);
+    expect(isValidRule('FREQ=DAILY;BYDAY=MO')).toBe(false);
+    expect(isValidRule('FREQ=MONTHLY;BYMONTHDAY=32')).toBe(false);
+    expect(isValidRule('FREQ=DAILY;COUNT=3;UNTIL=20260101')).toBe(false);
+    expect(isValidRule('FREQ=DAILY;INTERVAL=0')).toBe(false);
+    expect(isValidRule(null)).toBe(false);
+  });
+});
+
+describe('nextOccurrence', () => {
+  it('steps daily and weekly series by their interval', () => {
+    expect(nextOccurrence('FREQ=DAILY;INTERVAL=3', '2026-03-01', '2026-03-01')).toBe('2026-03-04');
+    expect(nextOccurrence('FREQ=WEEKLY', '2026-03-02', '2026-03-02')).toBe('2026-03-09');
+  });
+
+  it('visits each BYDAY weekday in order', () => {
+    const rule = 'FREQ=WEEKLY;BYDAY=MO,WE,FR';
+    expect(nextOccurrence(rule, '2026-03-02', '2026-03-02')).toBe('2026-03-04');
+    expect(nextOccurrence(rule, '2026-03-02', '2026-03-06')).toBe('2026-03-09');
+  });
+
+  it('returns the start date while it is still ahead', () => {
+    expect(nextOccurrence('FREQ=DAILY', '2026-05-10', '2026-05-01')).toBe('2026-05-10');
+  });
+
+  it('skips months too short for the start day', () => {
+    const rule = 'FREQ=MONTHLY';
+    expect(nextOccurrence(rule, '2026-01-31', '2026-01-31')).toBe('2026-03-31');
+    expect(nextOccurrence(rule, '2026-01-31', '2026-03-31')).toBe('2026-05-31');
+  });
+
+  it('rolls BYMONTHDAY=-1 over to the last day of each month', () => {
+    const rule = 'FREQ=MONTHLY;BYMONTHDAY=-1';
+    expect(nextOccurrence(rule, '2026-01-31', '2026-01-31')).toBe('2026-02-28');
+    expect(nextOccurrence(rule, '2028-01-31', '2028-01-31')).toBe('2028-02-29');
+    expect(nextOccurrence(rule, '2026-01-31', '2026-02-28')).toBe('2026-03-31');
+  });
+
+  it('crosses into the next year', () => {
+    expect(nextOccurrence('FREQ=MONTHLY;INTERVAL=2', '2026-11-15', '2026-11-15')).toBe('2027-01-15');
+  });
+
+  it('only lands on February 29 in leap years', () => {
+    expect(nextOccurrence('FREQ=YEARLY', '2024-02-29', '2024-02-29')).toBe('2028-02-29');
+  });
+
+  it('ends the series at COUNT, counting the start date', () => {
+    const rule = 'FREQ=DAILY;COUNT=3';
+    expect(nextOccurrence(rule, '2026-03-01', '2026-03-02')).toBe('2026-03-03');
+    expect(nextOccurrence(rule, '2026-03-01', '2026-03-03')).toBeNull();
+  });
+
+  it('ends the series after UNTIL', () => {
+    const rule = 'FREQ=WEEKLY;UNTIL=20260315';
+    expect(nextOccurrence(rule, '2026-03-01', '2026-03-01')).toBe('2026-03-08');
+    expect(nextOccurrence(rule, '2026-03-01', '2026-03-08')).toBe('2026-03-15');
+    expect(nextOccurrence(rule, '2026-03-01', '2026-03-15')).toBeNull();
+  });
+});
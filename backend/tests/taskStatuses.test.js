@@ -0,0 +1,36 @@
+jest.mock('../models/User', () => ({ findById: jest.fn() }));
+
+const { DEFAULT_STATUSES, getDoneKeys, normalizeStatuses } = require('../utils/taskStatuses');
+
+const withCustom = (...custom) => [...DEFAULT_STATUSES, ...custom];
+
+describe('normalizeStatuses', () => {
+  it('accepts the defaults plus a custom column', () => {
+    const { statuses, error } = normalizeStatuses(withCustom({ key: 'qa', label: ' QA ', color: 'amber', done: false }));
+    expect(error).toBeUndefined();
+    expect(statuses[statuses.length - 1]).toEqual({ key: 'qa', label: 'QA', color: 'amber', done: false });
+  });
+
+  it.each([
+    ['null', null],
+    ['a string', 'qa'],
+    ['a number', 3]
+  ])('rejects %s in the list instead of throwing', (_, entry) => {
+    expect(normalizeStatuses(withCustom(entry))).toEqual({ error: 'Each status must be an object' });
+  });
+
+  it('rejects an empty list', () => {
+    expect(normalizeStatuses([])).toEqual({ error: 'Statuses must be a non-empty array' });
+  });
+
+  it('keeps the built-in done flags', () => {
+    const flipped = DEFAULT_STATUSES.map(s => ({ ...s, done: !s.done }));
+    const { statuses } = normalizeStatuses(flipped);
+    expect(getDoneKeys(statuses)).toEqual(['completed', 'cancelled']);
+  });
+
+  it('refuses to drop a built-in status', () => {
+    const { error } = normalizeStatuses(DEFAULT_STATUSES.filter(s => s.key !== 'review'));
+    expect(error).toBe('Built-in statuses cannot be removed: review');
+  });
+});
@@ -0,0 +1,85 @@
+jest.mock('../models/TimeEntry', () => ({ findOne: jest.fn(), create: jest.fn() }));
+jest.mock('../models/Task', () => ({ findOne: jest.fn() }));
+jest.mock('../middleware/auth', () => ({
+  authenticateToken: (req, res, next) => {
+    req.user = { userId: 'u1', email: 'u1@example.com', role: 'user' };
+    next();
+  }
+}));
+jest.mock('../utils/dbHelper', () => ({
+  isDbConnected: () => true,
+  dbOperation: (operation) => operation()
+}));
+
+const express = require('express');
+const request = require('supertest');
+const TimeEntry = require('../models/TimeEntry');
+const timeRoutes = require('../routes/time');
+
+const app = express();
+app.use(express.json());
+app.use('/api/time', timeRoutes);
+
+// A time entry document as Mongoose would hand it back
+const entryDoc = (fields) => ({
+  ...fields,
+  save: jest.fn(function () { return Promise.resolve(this); }),
+  toJSON() {
+    const { save, toJSON, ...rest } = this;
+    return { ...rest };
+  }
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('POST /api/time/start', () => {
+  it('starts a billable timer when none is running', async () => {
+    TimeEntry.findOne.mockResolvedValue(null);
+    TimeEntry.create.mockImplementation(fields => Promise.resolve(entryDoc(fields)));
+
+    const res = await request(app).post('/api/time/start').send({ description: 'Planning' });
+
+    expect(res.status).toBe(201);
+    expect(TimeEntry.findOne).toHaveBeenCalledWith({ user: 'u1', end_time: null });
+    expect(TimeEntry.create).toHaveBeenCalledWith(expect.objectContaining({ user: 'u1', task: null, description: 'Planning', billable: true }));
+    expect(res.body.data.entry.task_id).toBeNull();
+  });
+
+  it('refuses a second timer with 409 and returns the running one', async () => {
+    TimeEntry.findOne.mockResolvedValue(entryDoc({ id: 'e1', user: 'u1', start_time: new Date(), end_time: null }));
+
+    const res = await request(app).post('/api/time/start').send({});
+
+    expect(res.status).toBe(409);
+    expect(res.body.data.entry.id).toBe('e1');
+    expect(TimeEntry.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects a malformed task id', async () => {
+    const res = await request(app).post('/api/time/start').send({ task_id: 'nope' });
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('POST /api/time/stop', () => {
+  it('stops the running timer and records its duration', async () => {
+    const running = entryDoc({ id: 'e1', user: 'u1', start_time: new Date(Date.now() - 90 * 1000), end_time: null });
+    TimeEntry.findOne.mockResolvedValue(running);
+
+    const res = await request(app).post('/api/time/stop');
+
+    expect(res.status).toBe(200);
+    expect(running.save).toHaveBeenCalled();
+    expect(running.end_time).toBeInstanceOf(Date);
+    expect(running.duration).toBeGreaterThanOrEqual(90);
+    expect(running.duration).toBeLessThan(95);
+  });
+
+  it('answers 404 when no timer is running', async () => {
+    TimeEntry.findOne.mockResolvedValue(null);
+    const res = await request(app).post('/api/time/stop');
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,101 @@
+jest.mock('../models/Workspace', () => ({ find: jest.fn(), findById: jest.fn() }));
+jest.mock('../utils/dbHelper', () => ({ isDbConnected: () => true }));
+
+const Workspace = require('../models/Workspace');
+const { hasRole, projectAccessFilter, checkWorkspace } = require('../utils/workspaces');
+
+const WORKSPACE = 'a'.repeat(24);
+const OWNER = 'b'.repeat(24);
+const ADMIN = 'c'.repeat(24);
+const MEMBER = 'd'.repeat(24);
+const GUEST = 'e'.repeat(24);
+const OUTSIDER = 'f'.repeat(24);
+
+const workspace = {
+  _id: WORKSPACE,
+  name: 'Acme',
+  members: [
+    { user: OWNER, role: 'owner' },
+    { user: ADMIN, role: 'admin' },
+    { user: MEMBER, role: 'member' },
+    { user: GUEST, role: 'guest' }
+  ]
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  Workspace.findById.mockResolvedValue(workspace);
+});
+
+describe('hasRole', () => {
+  it.each([
+    ['the owner', OWNER, 'admin', true],
+    ['an admin', ADMIN, 'admin', true],
+    ['a member', MEMBER, 'admin', false],
+    ['a member', MEMBER, 'member', true],
+    ['a guest', GUEST, 'member', false],
+    ['a guest', GUEST, 'guest', true],
+    ['an outsider', OUTSIDER, 'guest', false]
+  ])('%s may act as %s: %s', (who, userId, minRole, expected) => {
+    expect(hasRole(workspace, userId, minRole)).toBe(expected);
+  });
+});
+
+describe('projectAccessFilter', () => {
+  it('only counts workspaces where the user holds the role', async () => {
+    Workspace.find.mockReturnValue({ select: () => Promise.resolve([{ _id: WORKSPACE }]) });
+    const filter = await projectAccessFilter(ADMIN, 'admin');
+
+    expect(Workspace.find).toHaveBeenCalledWith({
+      members: { $elemMatch: { user: ADMIN, role: { $in: ['admin', 'owner'] } } }
+    });
+    expect(filter).toEqual({
+      $or: [{ user: ADMIN, workspace: null }, { workspace: { $in: [WORKSPACE] } }]
+    });
+  });
+});
+
+describe('checkWorkspace', () => {
+  // Run the middleware for a create in the workspace and report the response it sent, if any
+  const run = async (minRole, userId, workspaceId = WORKSPACE) => {
+    const req = { method: 'POST', body: { workspace_id: workspaceId }, query: {}, user: { userId } };
+    const res = { status: jest.fn(() => res), json: jest.fn(() => res) };
+    const next = jest.fn();
+    await checkWorkspace(minRole)(req, res, next);
+    return { req, res, next };
+  };
+
+  it('lets a member create', async () => {
+    const { req, res, next } = await run('member', MEMBER);
+    expect(next).toHaveBeenCalledWith();
+    expect(res.status).not.toHaveBeenCalled();
+    expect(req.workspace).toBe(workspace);
+  });
+
+  it('refuses a guest with 403', async () => {
+    const { res, next } = await run('member', GUEST);
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: false }));
+  });
+
+  it('hides the workspace from non-members with 404', async () => {
+    const { res, next } = await run('guest', OUTSIDER);
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+
+  it('treats a malformed id as an unknown workspace', async () => {
+    const { res } = await run('guest', MEMBER, 'not-an-id');
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(Workspace.findById).not.toHaveBeenCalled();
+  });
+
+  it('leaves requests without a workspace to the personal space', async () => {
+    const req = { method: 'GET', query: {}, user: { userId: GUEST } };
+    const next = jest.fn();
+    await checkWorkspace('admin')(req, {}, next);
+    expect(next).toHaveBeenCalledWith();
+    expect(req.workspace).toBeUndefined();
+  });
+});
@@ -0,0 +1,102 @@
+const mongoose = require('mongoose');
+const Category = require('../models/Category');
+const Project = require('../models/Project');
+const Task = require('../models/Task');
+const User = require('../models/User');
+const { dbOperation, isDbConnected } = require('./dbHelper');
+
+// Categories are user-defined rows. Every user starts with the two that replaced the old
+// hard-coded Personal/Company enum; after that they are free to rename or delete them.
+const DEFAULT_CATEGORIES = [
+  { name: 'Personal', color: '#0891B2', icon: 'user' },
+  { name: 'Company', color: '#7C3AED', icon: 'briefcase' }
+];
+
+const CATEGORY_ICONS = ['folder', 'briefcase', 'user', 'home', 'heart', 'star', 'book', 'code', 'dollar', 'globe', 'users', 'zap'];
+
+// Point data written before categories existed at the seeded rows. Projects stored the enum as a
+// string ('personal' / 'company'); tasks never stored one and showed Personal only when their
+// project's name said so. The raw collections are used because the old values don't cast to ObjectIds.
+const migrateLegacyCategories = async (userId, personal, company) => {
+  const user = new mongoose.Types.ObjectId(userId);
+
+  await Project.collection.updateMany({ user, category: { $regex: /^personal$/i } }, { $set: { category: personal._id } });
+  await Project.collection.updateMany({ user, category: { $type: 'string' } }, { $set: { category: company._id } });
+
+  const personalProjects = await Project.find({ user, name: /Personal/ }).select('_id');
+  await Task.collection.updateMany(
+    { user, category: null, project: { $in: personalProjects.map(p => p._id) } },
+    { $set: { category: personal._id } }
+  );
+  await Task.collection.updateMany({ user, category: null }, { $set: { category: company._id } });
+};
+
+const seedCategories = async (userId) => {
+  const user = await User.findById(userId).select('categories_seeded');
+  if (!user || user.categories_seeded) return;
+
+  const existing = await Category.find({ user: userId });
+  const [personal, company] = await Promise.all(DEFAULT_CATEGORIES.map(async (defaults) => {
+    const match = existing.find(c => c.name.toLowerCase() === defaults.name.toLowerCase());
+    return match || await Category.create({ ...defaults, user: userId });
+  }));
+
+  await migrateLegacyCategories(userId, personal, company);
+  await User.updateOne({ _id: userId }, { categories_seeded: true });
+};
+
+// Seed and migrate a user's categories once. The app loads tasks, projects and categories in
+// parallel, so concurrent calls for the same user share one run.
+const pending = new Map();
+const ensureCategories = (userId) => {
+  if (!isDbConnected()) return Promise.resolve();
+  if (!pending.has(userId)) {
+    const run = dbOperation(() => seedCategories(userId)).finally(() => pending.delete(userId));
+    pending.set(userId, run);
+  }
+  return pending.get(userId);
+};
+
+// Clients (and offline queues) from before categories existed send the enum value instead of an id
+const LEGACY_NAMES = DEFAULT_CATEGORIES.map(c => c.name.toLowerCase());
+const isLegacyName = (value) => typeof value === 'string' && LEGACY_NAMES.includes(value.toLowerCase());
+
+// express-validator custom check for the `category` field
+const isCategoryRef = (value) => mongoose.isValidObjectId(value) || isLegacyName(value);
+
+// Middleware factory: a category set on a task or project must belong to the user or, when a
+// workspace member edits a teammate's item, to the item's owner. `ownerOf(req)` resolves that owner.
+const checkCategory = (ownerOf = (req) => req.user.userId) => async (req, res, next) => {
+  const { category } = req.body;
+  // Malformed values are left for the route's validation errors to report
+  if (!category || !isDbConnected() || !isCategoryRef(category)) return next();
+  try {
+    const owner = String(await ownerOf(req));
+    if (isLegacyName(category)) {
+      await ensureCategories(owner);
+      const match = await Category.findOne({ user: owner, name: category })
+        .collation({ locale: 'en', strength: 2 });
+      req.body.category = match ? match.id : null;
+      return next();
+    }
+
+    const owned = await Category.exists({ _id: category, user: { $in: [req.user.userId, owner] } });
+    if (!owned) {
+      return res.status(400).json({
+        success: false,
+        message: 'Category does not exist'
+      });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+module.exports = {
+  DEFAULT_CATEGORIES,
+  CATEGORY_ICONS,
+  ensureCategories,
+  isCategoryRef,
+  checkCategory
+};
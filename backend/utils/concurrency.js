@@ -0,0 +1,33 @@
+const { body } = require('express-validator');
+
+// Optimistic concurrency for task and project updates
+// Clients send the updated_at of the copy they edited as `base_updated_at`. When the stored document has
+// changed since, the update is refused with 409 and the server's copy, so the client can show what
+// changed and merge instead of overwriting someone else's edit. Requests without it update unconditionally.
+
+const baseVersionValidation = body('base_updated_at')
+  .optional({ nullable: true })
+  .isISO8601()
+  .withMessage('base_updated_at must be an ISO 8601 timestamp');
+
+// Whether `doc` has moved on from the version the client edited
+const isStale = (doc, base) => !!(base && doc && doc.updated_at && doc.updated_at.getTime() !== new Date(base).getTime());
+
+// Extra filter for the update itself, so a write landing between the check and the update is caught too
+const versionFilter = (doc, base) => (base && doc && doc.updated_at ? { updated_at: doc.updated_at } : {});
+
+const sendConflict = (res, kind, row) => res.status(409).json({
+  success: false,
+  message: `This ${kind} was changed by someone else since you loaded it`,
+  data: {
+    conflict: true,
+    [kind]: row
+  }
+});
+
+module.exports = {
+  baseVersionValidation,
+  isStale,
+  versionFilter,
+  sendConflict
+};
@@ -0,0 +1,59 @@
+const Task = require('../models/Task');
+const { notify } = require('./notifications');
+
+// Task dependencies (the task_dependencies table; Task.dependencies in Mongo)
+// A task with open dependencies can't be started or finished: moving it to in_progress, review or any
+// done status is refused until every task it depends on is done. Custom non-done columns such as
+// "Blocked" stay available. Keep in sync with TaskManager.needsDependencies on the client.
+
+const GATED_STATUSES = ['in_progress', 'review'];
+
+const isGatedStatus = (status, doneKeys) => GATED_STATUSES.includes(status) || doneKeys.includes(status);
+
+const findOpenBlockers = async (dependencyIds, doneKeys) => {
+  if (!dependencyIds || dependencyIds.length === 0) return [];
+  return await Task.find({ _id: { $in: dependencyIds }, status: { $nin: doneKeys } }).select('title status');
+};
+
+// Whether giving `taskId` these dependencies would close a loop through the tasks matching `scope`,
+// i.e. those the user can reach
+const wouldCreateCycle = async (scope, taskId, dependencyIds) => {
+  const tasks = await Task.find({ ...scope, dependencies: { $ne: [] } }).select('dependencies');
+  const graph = new Map(tasks.map(t => [t.id, t.dependencies.map(String)]));
+  graph.set(String(taskId), dependencyIds.map(String));
+
+  const visited = new Set();
+  const reaches = (id) => {
+    if (id === String(taskId)) return true;
+    if (visited.has(id)) return false;
+    visited.add(id);
+    return (graph.get(id) || []).some(reaches);
+  };
+  return dependencyIds.some(id => reaches(String(id)));
+};
+
+// Tell whoever works each dependent task that `task` was its last open blocker
+const notifyUnblocked = async (io, task, doneKeys) => {
+  const dependents = await Task.find({ dependencies: task._id, status: { $nin: doneKeys } })
+    .select('title user assigned_to project dependencies');
+
+  for (const dependent of dependents) {
+    const stillOpen = await Task.countDocuments({ _id: { $in: dependent.dependencies }, status: { $nin: doneKeys } });
+    if (stillOpen > 0) continue;
+    await notify(io, dependent.assigned_to || dependent.user, {
+      type: 'status_change',
+      title: dependent.title,
+      message: `"${dependent.title}" is unblocked; "${task.title}" is done`,
+      task: dependent._id,
+      project: dependent.project
+    });
+  }
+};
+
+module.exports = {
+  GATED_STATUSES,
+  isGatedStatus,
+  findOpenBlockers,
+  wouldCreateCycle,
+  notifyUnblocked
+};
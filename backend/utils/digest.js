@@ -0,0 +1,78 @@
+const Task = require('../models/Task');
+const Project = require('../models/Project');
+const User = require('../models/User');
+const Notification = require('../models/Notification');
+const { resolveStatuses, getDoneKeys } = require('./taskStatuses');
+const { localDate } = require('./timezone');
+const { resolvePreferences } = require('./notificationPreferences');
+
+// The workload summary behind the daily and weekly digest emails
+// A user's workload is what the reminder scheduler would alert them about: tasks assigned to them, and
+// their own tasks nobody else has been given. Whether a task is finished is decided by its owner's
+// status model. Comments and status changes since the last digest are listed too, for the event types
+// the user wants by email, since the digest replaces those emails.
+
+const DUE_SOON_DAYS = 7;
+const MAX_ITEMS = 25; // Per section; the rest are counted rather than listed
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dateOnly = (date) => date.toISOString().slice(0, 10);
+
+const listed = (items) => ({ items: items.slice(0, MAX_ITEMS), more: Math.max(0, items.length - MAX_ITEMS) });
+
+const buildDigest = async (user, { since, now = new Date() }) => {
+  const preferences = resolvePreferences(user);
+  const today = localDate(now, user.timezone || 'UTC');
+  const dueBy = dateOnly(new Date(Date.parse(today) + DUE_SOON_DAYS * DAY_MS));
+
+  const tasks = await Task.find({ $or: [{ assigned_to: user._id }, { user: user._id, assigned_to: null }] })
+    .select('title status due_date due_time user assigned_to assigned_at project')
+    .populate('project', 'name')
+    .sort({ due_date: 1 });
+
+  const ownerIds = [...new Set(tasks.map(t => String(t.user)))];
+  const owners = await User.find({ _id: { $in: ownerIds } }).select('task_statuses');
+  const doneKeysByOwner = new Map(owners.map(o => [o.id, getDoneKeys(resolveStatuses(o))]));
+  const open = tasks.filter(t => !(doneKeysByOwner.get(String(t.user)) || []).includes(t.status));
+
+  const overdue = open.filter(t => t.due_date && dateOnly(t.due_date) < today);
+  const dueSoon = open.filter(t => t.due_date && dateOnly(t.due_date) >= today && dateOnly(t.due_date) < dueBy);
+  const assigned = open.filter(t => t.assigned_to && String(t.user) !== user.id && t.assigned_at > since);
+
+  // Progress of the user's own projects that have any tasks, least finished first
+  const projects = await Project.find({ user: user._id }).select('name');
+  const doneKeys = doneKeysByOwner.get(user.id) || getDoneKeys(resolveStatuses(user));
+  const counts = await Task.aggregate([
+    { $match: { project: { $in: projects.map(p => p._id) }, parent: null } },
+    { $group: { _id: '$project', total: { $sum: 1 }, done: { $sum: { $cond: [{ $in: ['$status', doneKeys] }, 1, 0] } } } }
+  ]);
+  const progress = counts
+    .map(c => {
+      const project = projects.find(p => p._id.equals(c._id));
+      return { name: project ? project.name : 'Project', done: c.done, total: c.total, percent: Math.round((c.done / c.total) * 100) };
+    })
+    .sort((a, b) => a.percent - b.percent);
+
+  const activityTypes = ['comment', 'status_change'].filter(type => preferences.events[type].email);
+  const activity = activityTypes.length === 0 ? [] : await Notification.find({
+    user: user._id,
+    type: { $in: activityTypes },
+    created_at: { $gt: since, $lte: now }
+  }).sort({ created_at: -1 }).limit(MAX_ITEMS);
+
+  return {
+    today,
+    overdue: listed(overdue),
+    dueSoon: listed(dueSoon),
+    assigned: listed(assigned),
+    projects: listed(progress),
+    activity: listed(activity),
+    isEmpty: overdue.length + dueSoon.length + assigned.length + activity.length === 0
+  };
+};
+
+module.exports = {
+  DUE_SOON_DAYS,
+  buildDigest
+};
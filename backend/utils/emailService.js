@@ -1,19 +1,26 @@
 const nodemailer = require('nodemailer');
 
+// An SMTP_HOST without SMTP_USER is taken to be an unauthenticated local server, such as the
+// stand-in in scripts/devSmtpServer.js
 const transporter = nodemailer.createTransport({
-  host: process.env.SMTP_HOST,
-  port: process.env.SMTP_PORT,
+  host: process.env.SMTP_HOST || 'smtp.gmail.com',
+  port: process.env.SMTP_PORT || 587,
   secure: process.env.SMTP_PORT == 465, // true for 465, false for other ports
-  auth: {
-    user: process.env.SMTP_USER,
-    pass: process.env.SMTP_PASS,
-  },
+  ...(process.env.SMTP_USER ? {
+    auth: {
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+    },
+  } : {}),
 });
 
+// Background jobs skip email entirely when no SMTP server is configured
+const isEmailConfigured = () => !!((process.env.SMTP_USER && process.env.SMTP_PASS) || (process.env.SMTP_HOST && !process.env.SMTP_USER));
+
 const sendEmail = async ({ to, subject, html }) => {
   try {
     const info = await transporter.sendMail({
-      from: process.env.SMTP_FROM,
+      from: process.env.SMTP_FROM || '"TASQ.ONE Neural Sync" <notifications@tasq.one>',
       to,
       subject,
       html,
@@ -60,7 +67,122 @@ const sendResetPasswordEmail = async (email, name, resetUrl) => {
   });
 };
 
+// An invitation to a workspace; acceptUrl carries the invitation token, like the reset link above
+const sendWorkspaceInviteEmail = async ({ to, inviterName, workspaceName, role, acceptUrl }) => {
+  const html = `
+    <div style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; color: #1e293b; background-color: #f8fafc; border-radius: 16px;">
+      <div style="text-align: center; margin-bottom: 30px;">
+        <h1 style="color: #0f172a; font-size: 28px; font-weight: 800; text-transform: uppercase; letter-spacing: 2px;">TASK.ONE</h1>
+      </div>
+      <div style="background-color: #ffffff; padding: 40px; border-radius: 20px; box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1);">
+        <h2 style="color: #0f172a; font-size: 22px; font-weight: 700; margin-bottom: 20px;">Join ${workspaceName}</h2>
+        <p style="font-size: 16px; line-height: 1.6; margin-bottom: 25px;">${inviterName} invited you to the <strong>${workspaceName}</strong> workspace on Task.One as ${role === 'admin' ? 'an' : 'a'} ${role}. Sign in or create an account with this email address, then accept the invitation:</p>
+
+        <div style="text-align: center; margin-bottom: 30px;">
+          <a href="${acceptUrl}" style="background-color: #0f172a; color: #ffffff; padding: 16px 32px; border-radius: 12px; text-decoration: none; font-weight: 700; display: inline-block; font-size: 16px; box-shadow: 0 10px 15px -3px rgba(15, 23, 42, 0.2);">Accept Invitation</a>
+        </div>
+
+        <p style="font-size: 14px; color: #64748b; margin-bottom: 0;">If you weren't expecting this, you can ignore this email. This link will expire in 7 days.</p>
+      </div>
+      <div style="text-align: center; margin-top: 30px; font-size: 12px; color: #94a3b8;">
+        &copy; 2026 Task.One. All rights reserved.
+      </div>
+    </div>
+  `;
+
+  return sendEmail({
+    to,
+    subject: `${inviterName} invited you to ${workspaceName} on Task.One`,
+    html,
+  });
+};
+
+// Reminders and deadline alerts about a single task
+const sendTaskAlertEmail = async ({ to, subject, taskTitle, body }) => {
+  const html = `
+    <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; border: 1px solid #e2e8f0; border-radius: 20px;">
+      <h2 style="color: #0f172a; font-weight: 800; letter-spacing: -0.025em; font-size: 24px;">TASQ.ONE Alert</h2>
+      <p style="color: #64748b; font-size: 14px; line-height: 1.5;">Your workspace has detected an urgent operational requirement.</p>
+
+      <div style="background-color: #f8fafc; padding: 20px; border-radius: 12px; margin: 20px 0; border-left: 4px solid #6366f1;">
+        <p style="margin: 0; font-size: 12px; color: #94a3b8; font-weight: 700; text-transform: uppercase; letter-spacing: 0.1em;">Target Unit</p>
+        <p style="margin: 5px 0; font-size: 18px; color: #1e293b; font-weight: 800;">${taskTitle}</p>
+      </div>
+
+      <p style="color: #334155; font-size: 15px;">${body}</p>
+
+      <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #f1f5f9;">
+        <p style="color: #94a3b8; font-size: 11px; text-transform: uppercase; font-weight: 700; letter-spacing: 0.1em;">TASQ.ONE COMMAND CENTER</p>
+      </div>
+    </div>
+  `;
+
+  return sendEmail({ to, subject, html });
+};
+
+// The daily or weekly digest (see utils/digest.js); kept separate from sending so it can be previewed
+const formatDue = (task) => {
+  const day = task.due_date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' });
+  return task.due_time ? `${day}, ${task.due_time}` : day;
+};
+
+const digestSection = (heading, accent, { items, more }, renderItem) => {
+  if (items.length === 0) return '';
+  return `
+      <div style="margin: 28px 0 0;">
+        <p style="margin: 0 0 8px; font-size: 12px; color: ${accent}; font-weight: 800; text-transform: uppercase; letter-spacing: 0.1em;">${heading}</p>
+        ${items.map(item => `<div style="padding: 12px 0; border-bottom: 1px solid #f1f5f9;">${renderItem(item)}</div>`).join('')}
+        ${more > 0 ? `<p style="margin: 10px 0 0; font-size: 13px; color: #94a3b8;">and ${more} more</p>` : ''}
+      </div>`;
+};
+
+const taskLine = (task) => `
+          <p style="margin: 0; font-size: 15px; color: #1e293b; font-weight: 700;">${task.title}</p>
+          <p style="margin: 3px 0 0; font-size: 13px; color: #64748b;">${task.due_date ? `Due ${formatDue(task)}` : 'No due date'}${task.project && task.project.name ? ` &middot; ${task.project.name}` : ''}</p>`;
+
+const renderDigestEmail = ({ name, frequency, dateLabel, digest }) => {
+  const title = frequency === 'weekly' ? 'Weekly Digest' : 'Daily Digest';
+  const since = frequency === 'weekly' ? 'this past week' : 'since yesterday';
+
+  return `
+    <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; border: 1px solid #e2e8f0; border-radius: 20px;">
+      <h2 style="color: #0f172a; font-weight: 800; letter-spacing: -0.025em; font-size: 24px; margin-bottom: 4px;">TASQ.ONE ${title}</h2>
+      <p style="color: #94a3b8; font-size: 12px; font-weight: 700; text-transform: uppercase; letter-spacing: 0.1em; margin-top: 0;">${dateLabel}</p>
+      <p style="color: #64748b; font-size: 14px; line-height: 1.5;">Hi ${name}, here is your workload and what changed ${since}.</p>
+      ${digestSection('Overdue', '#dc2626', digest.overdue, taskLine)}
+      ${digestSection('Due in the next 7 days', '#d97706', digest.dueSoon, taskLine)}
+      ${digestSection('Newly assigned to you', '#059669', digest.assigned, taskLine)}
+      ${digestSection('Project progress', '#6366f1', digest.projects, (project) => `
+          <p style="margin: 0 0 6px; font-size: 15px; color: #1e293b; font-weight: 700;">${project.name}
+            <span style="float: right; font-size: 13px; color: #64748b; font-weight: 600;">${project.done}/${project.total} done</span>
+          </p>
+          <div style="background-color: #e2e8f0; height: 6px; border-radius: 3px; overflow: hidden;">
+            <div style="background-color: #6366f1; height: 6px; width: ${project.percent}%;"></div>
+          </div>`)}
+      ${digestSection('Updates', '#0ea5e9', digest.activity, (notification) => `
+          <p style="margin: 0; font-size: 15px; color: #1e293b; font-weight: 700;">${notification.title}</p>
+          <p style="margin: 3px 0 0; font-size: 13px; color: #64748b; line-height: 1.5;">${notification.message}</p>`)}
+
+      <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #f1f5f9;">
+        <p style="color: #94a3b8; font-size: 12px; line-height: 1.5;">You get this digest instead of separate emails; change how often in your profile's notification settings.</p>
+        <p style="color: #94a3b8; font-size: 11px; text-transform: uppercase; font-weight: 700; letter-spacing: 0.1em;">TASQ.ONE COMMAND CENTER</p>
+      </div>
+    </div>
+  `;
+};
+
+const sendDigestEmail = ({ to, name, frequency, dateLabel, digest }) => sendEmail({
+  to,
+  subject: `Your TASQ.ONE ${frequency === 'weekly' ? 'weekly' : 'daily'} digest for ${dateLabel}`,
+  html: renderDigestEmail({ name, frequency, dateLabel, digest })
+});
+
 module.exports = {
+  isEmailConfigured,
   sendEmail,
-  sendResetPasswordEmail
+  sendResetPasswordEmail,
+  sendWorkspaceInviteEmail,
+  sendTaskAlertEmail,
+  renderDigestEmail,
+  sendDigestEmail
 };
@@ -0,0 +1,139 @@
+// iCalendar (RFC 5545) output for the per-user calendar feed
+// Task due times are wall-clock times in the user's own zone, which the server doesn't know, so timed
+// events are written as floating times and land at the same hour in whatever zone the client uses.
+
+const PRODID = '-//TASQ.ONE//Task Calendar//EN';
+const DEFAULT_EVENT_MINUTES = 60;
+
+// Titles and descriptions are HTML-escaped on the way in (see the route validators)
+const decodeHtml = (value = '') => value
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&#x27;/g, "'")
+  .replace(/&#x2F;/g, '/')
+  .replace(/&#x5C;/g, '\\')
+  .replace(/&#96;/g, '`')
+  .replace(/&amp;/g, '&');
+
+const escapeText = (value) => decodeHtml(value)
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+// Content lines are folded at 75 octets; continuation lines start with a space
+const foldLine = (line) => {
+  const chunks = [];
+  let current = '';
+  let bytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (bytes + size > (chunks.length ? 74 : 75)) {
+      chunks.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+};
+
+const pad = (n) => String(n).padStart(2, '0');
+
+// Dates are stored as UTC midnight of the due day
+const dateValue = (date) => date.toISOString().slice(0, 10).replace(/-/g, '');
+
+const addDays = (date, days) => new Date(date.getTime() + days * 86400000);
+
+const utcStamp = (date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const floatingValue = (date, minutes) => {
+  const day = addDays(date, Math.floor(minutes / 1440));
+  const rest = minutes % 1440;
+  return `${dateValue(day)}T${pad(Math.floor(rest / 60))}${pad(rest % 60)}00`;
+};
+
+const timeToMinutes = (time) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const alarm = (minutes, summary) => [
+  'BEGIN:VALARM',
+  'ACTION:DISPLAY',
+  `TRIGGER:-PT${minutes}M`,
+  `DESCRIPTION:${escapeText(summary)}`,
+  'END:VALARM'
+];
+
+const taskEvent = (task, doneKeys, stamp) => {
+  const done = doneKeys.includes(task.status);
+  const summary = `${done ? '✓ ' : ''}${task.title}`;
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:task-${task.id}@tasq.one`,
+    `DTSTAMP:${stamp}`,
+    `LAST-MODIFIED:${utcStamp(task.updated_at || task.created_at || new Date())}`
+  ];
+
+  if (task.due_time) {
+    const start = timeToMinutes(task.due_time);
+    const length = task.estimate_hours ? Math.max(15, Math.round(task.estimate_hours * 60)) : DEFAULT_EVENT_MINUTES;
+    lines.push(`DTSTART:${floatingValue(task.due_date, start)}`, `DTEND:${floatingValue(task.due_date, start + length)}`);
+  } else {
+    lines.push(`DTSTART;VALUE=DATE:${dateValue(task.due_date)}`, `DTEND;VALUE=DATE:${dateValue(addDays(task.due_date, 1))}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(summary)}`);
+  if (task.description) lines.push(`DESCRIPTION:${escapeText(task.description)}`);
+  if (task.project && task.project.name) lines.push(`CATEGORIES:${escapeText(task.project.name)}`);
+  lines.push(`PRIORITY:${task.priority === 'high' ? 1 : task.priority === 'low' ? 9 : 5}`);
+  if (task.reminder_minutes > 0 && !done) lines.push(...alarm(task.reminder_minutes, task.title));
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+const milestoneEvent = (project, milestone, stamp) => [
+  'BEGIN:VEVENT',
+  `UID:milestone-${project.id}-${milestone.id}@tasq.one`,
+  `DTSTAMP:${stamp}`,
+  `DTSTART;VALUE=DATE:${dateValue(milestone.due_date)}`,
+  `DTEND;VALUE=DATE:${dateValue(addDays(milestone.due_date, 1))}`,
+  `SUMMARY:${escapeText(`${milestone.completed ? '✓ ' : '◆ '}${project.name}: ${milestone.text}`)}`,
+  `CATEGORIES:${escapeText(project.name)}`,
+  'END:VEVENT'
+];
+
+// One VEVENT per dated task and per project milestone
+const buildCalendar = ({ name, tasks, projects, doneKeys }) => {
+  const stamp = utcStamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'X-PUBLISHED-TTL:PT1H',
+    ...tasks.filter(t => t.due_date).flatMap(t => taskEvent(t, doneKeys, stamp)),
+    ...projects.flatMap(p => (p.milestones || [])
+      .filter(m => m.due_date)
+      .flatMap(m => milestoneEvent(p, m, stamp))),
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// UIDs this server puts in its own feed; importing them back would duplicate existing tasks
+const parseOwnUid = (uid) => {
+  const match = /^(task|milestone)-([0-9a-f]{24})(?:-.+)?@tasq\.one$/.exec(uid);
+  return match ? { kind: match[1], id: match[2] } : null;
+};
+
+module.exports = {
+  buildCalendar,
+  parseOwnUid
+};
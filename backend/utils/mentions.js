@@ -0,0 +1,47 @@
+const User = require('../models/User');
+const Workspace = require('../models/Workspace');
+
+// @mentions in comment bodies
+// A handle matches a user's email local part ("@jane.doe") or their name with spaces dropped ("@JaneDoe").
+
+const MENTION_PATTERN = /(^|[^\w@])@([a-zA-Z0-9._-]{2,64})/g;
+const MAX_MENTIONS = 10;
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const parseMentions = (content) => {
+  const handles = new Set();
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    // A trailing dot is punctuation, not part of the handle ("thanks @jane.")
+    handles.add(match[2].replace(/\.+$/, '').toLowerCase());
+    if (handles.size >= MAX_MENTIONS) break;
+  }
+  return [...handles];
+};
+
+// Everyone who can open the task's thread: its owner, assignee and assigner, and its workspace's members
+const taskParticipantIds = async (task) => {
+  const ids = [task.user, task.assigned_to, task.assigned_by].filter(Boolean);
+  if (task.workspace) {
+    const workspace = await Workspace.findById(task.workspace).select('members.user');
+    if (workspace) ids.push(...workspace.members.map(m => m.user));
+  }
+  return ids;
+};
+
+// Resolve handles to users who can see the task; unknown handles and anyone else are ignored
+const resolveMentions = async (task, content) => {
+  const handles = parseMentions(content);
+  if (handles.length === 0) return [];
+
+  const conditions = handles.flatMap(handle => [
+    { email: new RegExp(`^${escapeRegex(handle)}@`, 'i') },
+    { name: new RegExp(`^${handle.split('').map(escapeRegex).join('\\s*')}$`, 'i') }
+  ]);
+  return await User.find({ _id: { $in: await taskParticipantIds(task) }, $or: conditions }).select('name email');
+};
+
+module.exports = {
+  parseMentions,
+  resolveMentions
+};
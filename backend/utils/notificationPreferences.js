@@ -0,0 +1,161 @@
+const { zonedDateTime, localDate, localTime } = require('./timezone');
+
+// What a user hears about, and where. Each event type can go to the in-app inbox, email and push
+// (the browser's system notifications) independently. Quiet hours hold back email and push in the
+// user's own time zone until they end (utils/notifications.js sends them then); the inbox still fills up. With a daily or weekly digest chosen, event emails
+// stop and one digest email summarizing the user's workload goes out instead (utils/digest.js).
+// `system` notifications have no settings and always reach the inbox.
+
+const CHANNELS = ['in_app', 'email', 'push'];
+
+// Keep in sync with NotificationEventType in types.ts
+const EVENT_TYPES = ['reminder', 'deadline', 'assignment', 'comment', 'status_change'];
+
+const DEFAULT_EVENTS = {
+  reminder: { in_app: true, email: true, push: true },
+  deadline: { in_app: true, email: true, push: true },
+  assignment: { in_app: true, email: true, push: true },
+  comment: { in_app: true, email: false, push: true },
+  status_change: { in_app: true, email: false, push: false }
+};
+
+const DEFAULT_QUIET_HOURS = { enabled: false, start: '22:00', end: '07:00' };
+const DIGEST_FREQUENCIES = ['off', 'daily', 'weekly'];
+// `weekday` (0 = Sunday) only applies to the weekly digest
+const DEFAULT_DIGEST = { frequency: 'off', time: '08:00', weekday: 1 };
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Resolve the full preferences for a user document, filling gaps with the defaults
+const resolvePreferences = (user) => {
+  const stored = (user && user.notification_preferences) || {};
+  const events = {};
+  EVENT_TYPES.forEach(type => {
+    const saved = (stored.events && stored.events[type]) || {};
+    events[type] = {};
+    CHANNELS.forEach(channel => {
+      events[type][channel] = typeof saved[channel] === 'boolean' ? saved[channel] : DEFAULT_EVENTS[type][channel];
+    });
+  });
+
+  return {
+    enabled: !user || user.notifications_enabled !== false,
+    events,
+    quiet_hours: { ...DEFAULT_QUIET_HOURS, ...(stored.quiet_hours || {}) },
+    digest: { ...DEFAULT_DIGEST, ...(stored.digest || {}) }
+  };
+};
+
+// Validate a partial update from a client and merge it over the current preferences.
+// Returns { preferences } on success or { error } describing the first problem found.
+const normalizePreferences = (input, current) => {
+  if (!input || typeof input !== 'object') return { error: 'Preferences must be an object' };
+  const preferences = {
+    enabled: current.enabled,
+    events: JSON.parse(JSON.stringify(current.events)),
+    quiet_hours: { ...current.quiet_hours },
+    digest: { ...current.digest }
+  };
+
+  if (input.enabled !== undefined) {
+    if (typeof input.enabled !== 'boolean') return { error: 'enabled must be true or false' };
+    preferences.enabled = input.enabled;
+  }
+
+  if (input.events !== undefined) {
+    if (!input.events || typeof input.events !== 'object') return { error: 'events must be an object' };
+    for (const [type, channels] of Object.entries(input.events)) {
+      if (!EVENT_TYPES.includes(type)) return { error: `Unknown event type "${type}"` };
+      if (!channels || typeof channels !== 'object') return { error: `Channels for "${type}" must be an object` };
+      for (const [channel, on] of Object.entries(channels)) {
+        if (!CHANNELS.includes(channel)) return { error: `Unknown channel "${channel}"` };
+        if (typeof on !== 'boolean') return { error: `${type}.${channel} must be true or false` };
+        preferences.events[type][channel] = on;
+      }
+    }
+  }
+
+  if (input.quiet_hours !== undefined) {
+    const value = input.quiet_hours;
+    if (!value || typeof value !== 'object') return { error: 'quiet_hours must be an object' };
+    if (value.enabled !== undefined) {
+      if (typeof value.enabled !== 'boolean') return { error: 'quiet_hours.enabled must be true or false' };
+      preferences.quiet_hours.enabled = value.enabled;
+    }
+    for (const field of ['start', 'end']) {
+      if (value[field] === undefined) continue;
+      if (!TIME_PATTERN.test(value[field])) return { error: `quiet_hours.${field} must be HH:mm` };
+      preferences.quiet_hours[field] = value[field];
+    }
+  }
+
+  if (input.digest !== undefined) {
+    const value = input.digest;
+    if (!value || typeof value !== 'object') return { error: 'digest must be an object' };
+    if (value.frequency !== undefined) {
+      if (!DIGEST_FREQUENCIES.includes(value.frequency)) return { error: `digest.frequency must be one of ${DIGEST_FREQUENCIES.join(', ')}` };
+      preferences.digest.frequency = value.frequency;
+    }
+    if (value.time !== undefined) {
+      if (!TIME_PATTERN.test(value.time)) return { error: 'digest.time must be HH:mm' };
+      preferences.digest.time = value.time;
+    }
+    if (value.weekday !== undefined) {
+      if (!Number.isInteger(value.weekday) || value.weekday < 0 || value.weekday > 6) return { error: 'digest.weekday must be 0 (Sunday) to 6' };
+      preferences.digest.weekday = value.weekday;
+    }
+  }
+
+  return { preferences };
+};
+
+// Quiet hours may wrap past midnight (22:00–07:00); equal start and end means none
+const inQuietHours = (preferences, timeZone, now = new Date()) => {
+  const { enabled, start, end } = preferences.quiet_hours;
+  if (!enabled || start === end) return false;
+  const time = localTime(now, timeZone || 'UTC');
+  return start < end ? time >= start && time < end : time >= start || time < end;
+};
+
+// The next time quiet hours end after `now`, in the user's zone
+const quietHoursEnd = (preferences, timeZone, now = new Date()) => {
+  const zone = timeZone || 'UTC';
+  const today = localDate(now, zone);
+  const endToday = zonedDateTime(today, preferences.quiet_hours.end, zone);
+  if (endToday > now) return endToday;
+  const tomorrow = new Date(Date.parse(`${today}T00:00:00Z`) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  return zonedDateTime(tomorrow, preferences.quiet_hours.end, zone);
+};
+
+// Which channels a notification of `type` goes out on for this user right now. `held` lists the
+// channels quiet hours are holding back and `held_until` when they end.
+const deliveryChannels = (user, type, now = new Date()) => {
+  const preferences = resolvePreferences(user);
+  if (!EVENT_TYPES.includes(type)) {
+    return { in_app: true, email: false, push: preferences.enabled, held: [], held_until: null };
+  }
+
+  const choice = preferences.events[type];
+  const wanted = {
+    email: preferences.enabled && choice.email && preferences.digest.frequency === 'off',
+    push: preferences.enabled && choice.push
+  };
+  const quiet = inQuietHours(preferences, user && user.timezone, now);
+  const held = quiet ? ['email', 'push'].filter(channel => wanted[channel]) : [];
+  return {
+    in_app: choice.in_app,
+    email: wanted.email && !quiet,
+    push: wanted.push && !quiet,
+    held,
+    held_until: held.length > 0 ? quietHoursEnd(preferences, user && user.timezone, now) : null
+  };
+};
+
+module.exports = {
+  CHANNELS,
+  EVENT_TYPES,
+  DIGEST_FREQUENCIES,
+  resolvePreferences,
+  normalizePreferences,
+  deliveryChannels
+};
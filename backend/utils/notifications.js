@@ -0,0 +1,127 @@
+const Notification = require('../models/Notification');
+const HeldDelivery = require('../models/HeldDelivery');
+const User = require('../models/User');
+const { deliveryChannels } = require('./notificationPreferences');
+const { isEmailConfigured, sendTaskAlertEmail } = require('./emailService');
+const { sendPushToUser } = require('./webPush');
+
+const RECIPIENT_FIELDS = 'name email timezone notifications_enabled notification_preferences';
+
+const pushAlert = (userId, { tag, title, message, notificationId, task, project }) => sendPushToUser(userId, {
+  title,
+  body: message,
+  tag,
+  data: {
+    notificationId,
+    taskId: task ? String(task) : null,
+    projectId: project ? String(project) : null
+  }
+});
+
+const emailAlert = async (recipient, { title, message, email }) => {
+  if (!isEmailConfigured()) return;
+  try {
+    await sendTaskAlertEmail({
+      to: recipient.email,
+      subject: email && email.subject ? email.subject : title,
+      taskTitle: title,
+      body: email && email.body ? email.body : message
+    });
+  } catch (error) {
+    console.error(`Failed to email ${recipient.email} about "${title}":`, error.message);
+  }
+};
+
+// Every alert a user receives goes through notify(), which delivers it on the channels the recipient
+// chose for its type (utils/notificationPreferences.js): stored in their inbox, sent to their open
+// sessions as a `neural_alert` carrying the notification, Web Pushed to their subscribed devices and
+// emailed. The socket payload's `inbox` and `push` flags tell the client whether to list it and whether
+// to raise a system notification itself, which it only does on devices without a push subscription.
+// Email and push held back by quiet hours are stored and sent by releaseHeldDeliveries() once they end.
+// `email` overrides the subject and body of the generic alert email. A failure is logged rather than
+// thrown so it never fails the request or job that triggered it.
+const notify = async (io, userId, { type, title, message, task = null, project = null, comment = null, email = null }) => {
+  try {
+    const recipient = await User.findById(userId).select(RECIPIENT_FIELDS);
+    if (!recipient) return null;
+    const channels = deliveryChannels(recipient, type);
+
+    const notification = new Notification({ user: userId, type, title, message, task, project, comment });
+    if (channels.in_app) await notification.save();
+    if (io && (channels.in_app || channels.push)) {
+      io.to(`user_${userId}`).emit('neural_alert', { ...notification.toJSON(), inbox: channels.in_app, push: channels.push });
+    }
+
+    if (channels.push) {
+      await pushAlert(userId, { tag: notification.id, title, message, notificationId: channels.in_app ? notification.id : null, task, project });
+    }
+    if (channels.email) {
+      await emailAlert(recipient, { title, message, email });
+    }
+
+    if (channels.held.length > 0) {
+      await HeldDelivery.create({
+        user: userId,
+        type,
+        title,
+        message,
+        task,
+        project,
+        notification: channels.in_app ? notification._id : null,
+        email,
+        channels: channels.held,
+        release_at: channels.held_until
+      });
+    }
+
+    return channels.in_app ? notification : null;
+  } catch (error) {
+    console.error(`Failed to notify user ${userId}:`, error.message);
+    return null;
+  }
+};
+
+// Send the email and push held back by quiet hours that have since ended, on whichever of those
+// channels the recipient still wants for the notification's type. Each one is claimed by deleting it,
+// so a second server instance can't send it twice.
+const releaseHeldDeliveries = async (now = new Date()) => {
+  const due = await HeldDelivery.find({ release_at: { $lte: now } }).sort({ release_at: 1 });
+  for (const held of due) {
+    const claimed = await HeldDelivery.deleteOne({ _id: held._id });
+    if (claimed.deletedCount !== 1) continue;
+
+    try {
+      const recipient = await User.findById(held.user).select(RECIPIENT_FIELDS);
+      if (!recipient) continue;
+      const channels = deliveryChannels(recipient, held.type, now);
+      const alert = { title: held.title, message: held.message, email: held.email };
+
+      if (held.channels.includes('push') && channels.push) {
+        await pushAlert(held.user, {
+          ...alert,
+          tag: String(held.notification || held._id),
+          notificationId: held.notification ? String(held.notification) : null,
+          task: held.task,
+          project: held.project
+        });
+      }
+      if (held.channels.includes('email') && channels.email) {
+        await emailAlert(recipient, alert);
+      }
+
+      // The user moved their quiet hours since, so it waits for the new end
+      const stillHeld = held.channels.filter(channel => channels.held.includes(channel));
+      if (stillHeld.length > 0) {
+        const { _id, ...delivery } = held.toObject();
+        await HeldDelivery.create({ ...delivery, channels: stillHeld, release_at: channels.held_until });
+      }
+    } catch (error) {
+      console.error(`Failed to send held notification "${held.title}":`, error.message);
+    }
+  }
+};
+
+module.exports = {
+  notify,
+  releaseHeldDeliveries
+};
@@ -0,0 +1,180 @@
+const jwt = require('jsonwebtoken');
+const mongoose = require('mongoose');
+const Project = require('../models/Project');
+const { projectAccessFilter, findWorkspaceFor } = require('./workspaces');
+
+// Live sync of tasks and projects between open clients over Socket.IO
+// Each socket authenticates with the same JWT as the REST API and is put in its user's room
+// (`user_<id>`); it can also join the room of any project it can see (`project_<id>`) and of a
+// workspace it belongs to (`workspace_<id>`), which hears about everything added there. Every route
+// that changes a task or project broadcasts the saved row as a typed event to the rooms of everyone
+// who can see it:
+//
+//   task:created / task:updated     { task: <row>, actor }
+//   task:deleted                    { id, project_id, actor }   (its subtasks go with it)
+//   project:created / project:updated { project: <row>, actor }
+//   project:deleted                 { id, actor }                (its tasks go with it)
+//   workspace:updated               { workspace: <row>, actor } (to every member, and anyone just removed)
+//   workspace:deleted               { id, actor }
+//   taskProgress                    { task_id, update: <entry>, message, actor } (also to whoever assigned it)
+//
+// The socket that made the request, named by the X-Socket-Id header, is skipped since it has already
+// applied the change. Rows carry updated_at, which clients compare to ignore stale or reordered events.
+
+const userRoom = (id) => `user_${id}`;
+const projectRoom = (id) => `project_${id}`;
+const workspaceRoom = (id) => `workspace_${id}`;
+
+// A ref may be an ObjectId, a populated document or its JSON form
+const refId = (ref) => {
+  if (!ref) return null;
+  if (typeof ref === 'object' && !(ref instanceof mongoose.Types.ObjectId)) return String(ref.id || ref._id);
+  return String(ref);
+};
+
+// Plain JSON, as the REST routes send it (ObjectIds and dates as strings)
+const toRow = (doc) => JSON.parse(JSON.stringify(doc));
+
+const canAccessProject = async (userId, projectId) => {
+  if (!/^[a-f\d]{24}$/i.test(String(projectId))) return false;
+  return !!(await Project.exists({ _id: projectId, ...(await projectAccessFilter(userId)) }));
+};
+
+const broadcast = (req, rooms, event, payload) => {
+  const io = req.app.get('io');
+  const targets = [...new Set(rooms.filter(Boolean))];
+  if (!io || targets.length === 0) return;
+
+  let emitter = io.to(targets);
+  const origin = req.get('X-Socket-Id');
+  if (origin) emitter = emitter.except(origin);
+  emitter.emit(event, { ...payload, actor: req.user ? req.user.userId : null });
+};
+
+// `previous` is the task as it was before an update, so the rooms it was visible in hear that it moved
+const taskRooms = (task, previous) => [task, previous].filter(Boolean).flatMap(t => [
+  t.user && userRoom(refId(t.user)),
+  t.assigned_to && userRoom(refId(t.assigned_to)),
+  t.project && projectRoom(refId(t.project)),
+  t.workspace && workspaceRoom(refId(t.workspace))
+]);
+
+const emitTaskChange = (req, type, task, { previous = null } = {}) => {
+  const row = toRow(task);
+  broadcast(req, taskRooms(row, previous), `task:${type}`, { task: row });
+};
+
+const emitTaskDeleted = (req, task) => {
+  broadcast(req, taskRooms(task), 'task:deleted', { id: refId(task), project_id: refId(task.project) });
+};
+
+// A status change or note the assignee added to a task's progress updates
+const emitTaskProgress = (req, task, update, message) => {
+  const rooms = [...taskRooms(task), task.assigned_by && userRoom(refId(task.assigned_by))];
+  broadcast(req, rooms, 'taskProgress', { task_id: refId(task), update: toRow(update), message });
+};
+
+const projectRooms = (project) => [
+  userRoom(refId(project.user)),
+  projectRoom(refId(project)),
+  project.workspace && workspaceRoom(refId(project.workspace))
+];
+
+const emitProjectChange = (req, type, project) => {
+  const row = toRow(project);
+  broadcast(req, projectRooms(row), `project:${type}`, { project: row });
+};
+
+const emitProjectDeleted = (req, project) => {
+  broadcast(req, projectRooms(project), 'project:deleted', { id: refId(project) });
+};
+
+// `row` is the workspace as the routes send it; `removed` are users who just lost access to it
+const emitWorkspaceChange = (req, row, { removed = [] } = {}) => {
+  const rooms = [...row.members.map(m => refId(m.user)), ...removed].map(userRoom);
+  broadcast(req, rooms, 'workspace:updated', { workspace: row });
+};
+
+const emitWorkspaceDeleted = (req, workspace) => {
+  broadcast(req, workspace.members.map(m => userRoom(refId(m.user))), 'workspace:deleted', { id: refId(workspace) });
+};
+
+// Take users who lost access to a workspace out of its room and the rooms of its projects, so their
+// open sockets stop hearing about it. Called before the workspace's projects are deleted with it.
+const leaveWorkspaceRooms = async (req, workspace, userIds) => {
+  const io = req.app.get('io');
+  if (!io || userIds.length === 0) return;
+  const projects = await Project.find({ workspace: refId(workspace) }).select('_id');
+  const rooms = [workspaceRoom(refId(workspace)), ...projects.map(p => projectRoom(p.id))];
+  io.in(userIds.map(id => userRoom(refId(id)))).socketsLeave(rooms);
+};
+
+// Wire authentication and room membership into the Socket.IO server
+const attachRealtime = (io) => {
+  io.use((socket, next) => {
+    const token = socket.handshake.auth && socket.handshake.auth.token;
+    if (!token) return next(new Error('Access token required'));
+    jwt.verify(token, process.env.JWT_SECRET, (err, decoded) => {
+      if (err) return next(new Error(err.name === 'TokenExpiredError' ? 'Token expired' : 'Invalid token'));
+      socket.data.userId = String(decoded.userId);
+      next();
+    });
+  });
+
+  io.on('connection', (socket) => {
+    const { userId } = socket.data;
+    socket.join(userRoom(userId));
+    console.log(`📡 TASQ.ONE Link Established: ${socket.id} (user ${userId})`);
+
+    // Older clients still ask for their own room; other users' rooms are refused
+    socket.on('joinUserRoom', (id) => {
+      if (String(id) === userId) socket.join(userRoom(userId));
+    });
+
+    socket.on('joinProjectRoom', async (projectId, ack) => {
+      let joined = false;
+      try {
+        joined = await canAccessProject(userId, projectId);
+        if (joined) socket.join(projectRoom(projectId));
+      } catch (error) {
+        console.error(`Failed to join project room ${projectId}:`, error.message);
+      }
+      if (typeof ack === 'function') ack({ joined });
+    });
+
+    socket.on('leaveProjectRoom', (projectId) => {
+      socket.leave(projectRoom(projectId));
+    });
+
+    socket.on('joinWorkspaceRoom', async (workspaceId, ack) => {
+      let joined = false;
+      try {
+        joined = !!(await findWorkspaceFor(workspaceId, userId));
+        if (joined) socket.join(workspaceRoom(workspaceId));
+      } catch (error) {
+        console.error(`Failed to join workspace room ${workspaceId}:`, error.message);
+      }
+      if (typeof ack === 'function') ack({ joined });
+    });
+
+    socket.on('leaveWorkspaceRoom', (workspaceId) => {
+      socket.leave(workspaceRoom(workspaceId));
+    });
+
+    socket.on('disconnect', () => {
+      console.log('🔌 TASQ.ONE Link Severed:', socket.id);
+    });
+  });
+};
+
+module.exports = {
+  attachRealtime,
+  emitTaskChange,
+  emitTaskDeleted,
+  emitTaskProgress,
+  emitProjectChange,
+  emitProjectDeleted,
+  emitWorkspaceChange,
+  emitWorkspaceDeleted,
+  leaveWorkspaceRooms
+};
@@ -0,0 +1,179 @@
+const Task = require('../models/Task');
+
+// Recurring task rules: a subset of RFC 5545 RRULE
+// Supported parts: FREQ (DAILY/WEEKLY/MONTHLY/YEARLY), INTERVAL, BYDAY (weekly), BYMONTHDAY (monthly), COUNT, UNTIL.
+// Occurrences are computed from the series start date (DTSTART), which always counts as the first one.
+// Mirrors utils/recurrence.ts on the frontend, which renders future occurrences without storing them.
+
+const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+const FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const MAX_PERIODS = 5000;
+
+// Dates are handled as UTC midnights so DST shifts never move an occurrence
+const toDate = (value) => {
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+};
+const toDateString = (date) => date.toISOString().split('T')[0];
+const addDays = (date, days) => new Date(date.getTime() + days * 86400000);
+const daysInMonth = (year, month) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+const weekdayOf = (date) => WEEKDAYS[(date.getUTCDay() + 6) % 7];
+
+const parseRule = (value) => {
+  if (typeof value !== 'string') throw new Error('Recurrence must be a string');
+  const fields = {};
+  for (const part of value.replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, val] = part.split('=');
+    if (!key || val === undefined) throw new Error(`Malformed rule part "${part}"`);
+    fields[key.toUpperCase()] = val.toUpperCase();
+  }
+
+  const freq = fields.FREQ;
+  if (!FREQUENCIES.includes(freq)) throw new Error('FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY');
+
+  const rule = { freq, interval: 1 };
+  for (const [key, val] of Object.entries(fields)) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = parseInt(val, 10);
+        if (!(rule.interval >= 1)) throw new Error('INTERVAL must be a positive number');
+        break;
+      case 'COUNT':
+        rule.count = parseInt(val, 10);
+        if (!(rule.count >= 1)) throw new Error('COUNT must be a positive number');
+        break;
+      case 'UNTIL': {
+        const match = val.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+        if (!match) throw new Error(`Invalid UNTIL "${val}"`);
+        rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+        break;
+      }
+      case 'BYDAY':
+        if (freq !== 'WEEKLY') throw new Error('BYDAY is only supported with FREQ=WEEKLY');
+        rule.byDay = val.split(',');
+        if (rule.byDay.some(d => !WEEKDAYS.includes(d))) throw new Error(`Invalid BYDAY "${val}"`);
+        break;
+      case 'BYMONTHDAY':
+        if (freq !== 'MONTHLY') throw new Error('BYMONTHDAY is only supported with FREQ=MONTHLY');
+        rule.byMonthDay = val.split(',').map(d => parseInt(d, 10));
+        if (rule.byMonthDay.some(d => !d || d < -31 || d > 31)) throw new Error(`Invalid BYMONTHDAY "${val}"`);
+        break;
+      default:
+        throw new Error(`${key} is not supported`);
+    }
+  }
+  if (rule.count && rule.until) throw new Error('Use either COUNT or UNTIL, not both');
+  return rule;
+};
+
+const isValidRule = (value) => {
+  try {
+    parseRule(value);
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// Candidate dates for the n-th period (day/week/month/year) of the series, ascending
+const periodDates = (rule, dtstart, period) => {
+  const step = period * rule.interval;
+  switch (rule.freq) {
+    case 'DAILY':
+      return [addDays(dtstart, step)];
+    case 'WEEKLY': {
+      const weekStart = addDays(dtstart, -((dtstart.getUTCDay() + 6) % 7) + step * 7);
+      const days = rule.byDay && rule.byDay.length ? rule.byDay : [weekdayOf(dtstart)];
+      return WEEKDAYS
+        .map((d, i) => days.includes(d) ? addDays(weekStart, i) : null)
+        .filter(Boolean);
+    }
+    case 'MONTHLY': {
+      const monthIndex = dtstart.getUTCMonth() + step;
+      const year = dtstart.getUTCFullYear() + Math.floor(monthIndex / 12);
+      const month = monthIndex % 12;
+      const length = daysInMonth(year, month);
+      const days = rule.byMonthDay && rule.byMonthDay.length ? rule.byMonthDay : [dtstart.getUTCDate()];
+      return days
+        .map(d => d < 0 ? length + d + 1 : d)
+        .filter(d => d >= 1 && d <= length)
+        .sort((a, b) => a - b)
+        .map(d => new Date(Date.UTC(year, month, d)));
+    }
+    case 'YEARLY': {
+      const year = dtstart.getUTCFullYear() + step;
+      const month = dtstart.getUTCMonth();
+      const day = dtstart.getUTCDate();
+      return day <= daysInMonth(year, month) ? [new Date(Date.UTC(year, month, day))] : [];
+    }
+    default:
+      return [];
+  }
+};
+
+// First occurrence strictly after `after` (YYYY-MM-DD), or null once the series has ended
+const nextOccurrence = (value, start, after) => {
+  const rule = parseRule(value);
+  const dtstart = toDate(start);
+  let emitted = 1; // DTSTART itself
+
+  if (start > after) return start;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const date of periodDates(rule, dtstart, period)) {
+      if (date <= dtstart) continue;
+      const dateString = toDateString(date);
+      if (rule.until && dateString > rule.until) return null;
+      if (rule.count && emitted >= rule.count) return null;
+      emitted++;
+      if (dateString > after) return dateString;
+    }
+  }
+  return null;
+};
+
+// Create the next task in a recurring series once the current one is completed.
+// Safe to call more than once: an existing task for the same series and date is reused.
+const spawnNextOccurrence = async (task) => {
+  if (!task.recurrence || !task.due_date) return null;
+
+  const start = toDateString(task.recurrence_start || task.due_date);
+  const nextDate = nextOccurrence(task.recurrence, start, toDateString(task.due_date));
+  if (!nextDate) return null;
+
+  const seriesId = task.series_id || task._id;
+  const dueDate = toDate(nextDate);
+
+  const existing = await Task.findOne({ series_id: seriesId, due_date: dueDate });
+  if (existing) return existing;
+
+  return await Task.create({
+    title: task.title,
+    description: task.description,
+    status: 'todo',
+    priority: task.priority,
+    due_date: dueDate,
+    due_time: task.due_time,
+    project: task.project,
+    tags: task.tags,
+    category: task.category,
+    estimate_hours: task.estimate_hours,
+    reminder_minutes: task.reminder_minutes,
+    user: task.user,
+    workspace: task.workspace,
+    assigned_to: task.assigned_to,
+    assigned_by: task.assigned_by,
+    recurrence: task.recurrence,
+    recurrence_start: task.recurrence_start || task.due_date,
+    series_id: seriesId
+  });
+};
+
+module.exports = {
+  parseRule,
+  isValidRule,
+  nextOccurrence,
+  spawnNextOccurrence
+};
@@ -0,0 +1,170 @@
+const Task = require('../models/Task');
+const User = require('../models/User');
+const { resolveStatuses, getDoneKeys } = require('./taskStatuses');
+const { zonedDateTime, localDate, localTime } = require('./timezone');
+const { isEmailConfigured, sendDigestEmail } = require('./emailService');
+const { notify, releaseHeldDeliveries } = require('./notifications');
+const { resolvePreferences } = require('./notificationPreferences');
+const { buildDigest } = require('./digest');
+
+// Task reminders, upcoming-deadline alerts and digest emails, evaluated on the server every minute
+// A reminder fires once, between `reminder_minutes` before the task is due and the due time itself
+// (09:00 for tasks without a due time). A deadline alert fires once per day while an open task is due
+// within DEADLINE_WINDOW_DAYS. Both go to the assignee, or the owner when the task is unassigned, through
+// notify(), which picks the channels from their notification preferences. Delivery is recorded on the task
+// (and digests on the user) with a conditional update, so a second server instance can't send twice.
+// Email and push that quiet hours held back go out on the first pass after they end.
+
+const TICK_MS = parseInt(process.env.REMINDER_INTERVAL_MS) || 60 * 1000;
+const DEADLINE_WINDOW_DAYS = 4;
+const DEFAULT_DUE_TIME = '09:00';
+const MAX_REMINDER_MINUTES = 28 * 24 * 60; // Matches the tasks route validator
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let running = false;
+
+const dateOnly = (date) => date.toISOString().slice(0, 10);
+
+const daysBetween = (from, to) => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+const formatDay = (date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+// Owners (whose status model decides what's done) and recipients for a batch of tasks
+const loadUsers = async (tasks) => {
+  const ids = [...new Set(tasks.flatMap(t => [String(t.user), t.assigned_to ? String(t.assigned_to) : null]).filter(Boolean))];
+  const users = await User.find({ _id: { $in: ids } }).select('name timezone task_statuses');
+  return new Map(users.map(u => [u.id, { user: u, doneKeys: getDoneKeys(resolveStatuses(u)) }]));
+};
+
+const deliver = (io, recipient, task, { type, message, subject, body }) =>
+  notify(io, recipient.id, { type, title: task.title, message, task: task._id, project: task.project, email: { subject, body } });
+
+const runReminders = async (io, now) => {
+  const tasks = await Task.find({
+    reminder_minutes: { $gt: 0 },
+    reminder_sent_at: null,
+    due_date: { $gte: new Date(now.getTime() - 2 * DAY_MS), $lte: new Date(now.getTime() + MAX_REMINDER_MINUTES * 60000 + 2 * DAY_MS) }
+  }).select('title status due_date due_time reminder_minutes user assigned_to project');
+  if (tasks.length === 0) return;
+
+  const users = await loadUsers(tasks);
+  for (const task of tasks) {
+    const owner = users.get(String(task.user));
+    const recipient = users.get(String(task.assigned_to || task.user));
+    if (!owner || !recipient || owner.doneKeys.includes(task.status)) continue;
+
+    const time = task.due_time || DEFAULT_DUE_TIME;
+    const due = zonedDateTime(dateOnly(task.due_date), time, recipient.user.timezone || 'UTC');
+    const remindAt = new Date(due.getTime() - task.reminder_minutes * 60000);
+    if (now < remindAt || now >= due) continue;
+
+    const claimed = await Task.updateOne({ _id: task._id, reminder_sent_at: null }, { reminder_sent_at: now });
+    if (claimed.modifiedCount !== 1) continue;
+
+    const when = localDate(now, recipient.user.timezone || 'UTC') === dateOnly(task.due_date)
+      ? `today at ${time}`
+      : `on ${formatDay(task.due_date)} at ${time}`;
+    await deliver(io, recipient.user, task, {
+      type: 'reminder',
+      message: `Reminder: "${task.title}" is due ${when}`,
+      subject: `Reminder: ${task.title}`,
+      body: `Hi ${recipient.user.name}, "${task.title}" is due ${when}.`
+    });
+  }
+};
+
+const runDeadlines = async (io, now) => {
+  // Every zone's today lies within a day of UTC's
+  const tasks = await Task.find({
+    due_date: { $gte: new Date(now.getTime() - 2 * DAY_MS), $lte: new Date(now.getTime() + (DEADLINE_WINDOW_DAYS + 2) * DAY_MS) }
+  }).select('title status due_date user assigned_to project deadline_alerted_on');
+  if (tasks.length === 0) return;
+
+  const users = await loadUsers(tasks);
+  for (const task of tasks) {
+    const owner = users.get(String(task.user));
+    const recipient = users.get(String(task.assigned_to || task.user));
+    if (!owner || !recipient || owner.doneKeys.includes(task.status)) continue;
+
+    const today = localDate(now, recipient.user.timezone || 'UTC');
+    const daysUntilDue = daysBetween(today, dateOnly(task.due_date));
+    if (daysUntilDue < 0 || daysUntilDue > DEADLINE_WINDOW_DAYS || task.deadline_alerted_on === today) continue;
+
+    const claimed = await Task.updateOne({ _id: task._id, deadline_alerted_on: { $ne: today } }, { deadline_alerted_on: today });
+    if (claimed.modifiedCount !== 1) continue;
+
+    const dayDisplay = daysUntilDue === 0 ? 'today' : `in ${daysUntilDue} day${daysUntilDue === 1 ? '' : 's'}`;
+    await deliver(io, recipient.user, task, {
+      type: 'deadline',
+      message: `Upcoming Deadline: "${task.title}" is due on ${formatDay(task.due_date)} (${dayDisplay})`,
+      subject: `NEURAL ALERT: ${task.title} Deadline Approaching`,
+      body: `Attention ${recipient.user.name}, the neural engine has detected that "${task.title}" is reaching its target deadline (${dayDisplay}). Immediate execution is recommended to maintain workspace stability.`
+    });
+  }
+};
+
+// Digests go out at the user's chosen local time, every day or on their chosen weekday, covering
+// the time since their previous digest
+const runDigests = async (now) => {
+  if (!isEmailConfigured()) return;
+  const users = await User.find({
+    notifications_enabled: { $ne: false },
+    'notification_preferences.digest.frequency': { $in: ['daily', 'weekly'] }
+  }).select('name email timezone notifications_enabled notification_preferences task_statuses digest_sent_on digest_sent_at');
+
+  for (const user of users) {
+    const { digest } = resolvePreferences(user);
+    if (digest.frequency === 'off') continue;
+    const timeZone = user.timezone || 'UTC';
+    const today = localDate(now, timeZone);
+    if (user.digest_sent_on === today || localTime(now, timeZone) < digest.time) continue;
+    if (digest.frequency === 'weekly' && new Date(`${today}T00:00:00Z`).getUTCDay() !== digest.weekday) continue;
+
+    const claimed = await User.updateOne({ _id: user._id, digest_sent_on: user.digest_sent_on }, { digest_sent_on: today, digest_sent_at: now });
+    if (claimed.modifiedCount !== 1) continue;
+
+    try {
+      const since = user.digest_sent_at || new Date(now.getTime() - (digest.frequency === 'weekly' ? 7 : 1) * DAY_MS);
+      const content = await buildDigest(user, { since, now });
+      if (content.isEmpty) continue;
+      await sendDigestEmail({
+        to: user.email,
+        name: user.name,
+        frequency: digest.frequency,
+        dateLabel: formatDay(new Date(`${today}T00:00:00Z`)),
+        digest: content
+      });
+    } catch (error) {
+      console.error(`Failed to send digest to ${user.email}:`, error.message);
+    }
+  }
+};
+
+// One pass over every check; a pass still running when the next tick comes is left to finish
+const runScheduledAlerts = async (io, now = new Date()) => {
+  if (running) return;
+  running = true;
+  try {
+    await runReminders(io, now);
+    await runDeadlines(io, now);
+    await runDigests(now);
+    await releaseHeldDeliveries(now);
+  } catch (error) {
+    console.error('Reminder scheduler pass failed:', error.message);
+  } finally {
+    running = false;
+  }
+};
+
+const startReminderScheduler = (io) => {
+  runScheduledAlerts(io);
+  const timer = setInterval(() => runScheduledAlerts(io), TICK_MS);
+  timer.unref();
+  return timer;
+};
+
+module.exports = {
+  runScheduledAlerts,
+  startReminderScheduler
+};
@@ -0,0 +1,22 @@
+const Task = require('../models/Task');
+const TimeEntry = require('../models/TimeEntry');
+const Comment = require('../models/Comment');
+
+// Delete tasks along with everything hanging off them. Subtasks and comment threads go with their task;
+// logged time is kept but unlinked, and tasks that depended on them stop waiting. Used for a single
+// task and for every task of a deleted project or workspace. Returns the ids of all deleted tasks.
+const deleteTasks = async (taskIds) => {
+  if (taskIds.length === 0) return [];
+  const subtaskIds = await Task.find({ parent: { $in: taskIds } }).distinct('_id');
+  const ids = [...taskIds, ...subtaskIds];
+
+  await Task.deleteMany({ _id: { $in: ids } });
+  await TimeEntry.updateMany({ task: { $in: ids } }, { task: null });
+  await Task.updateMany({ dependencies: { $in: ids } }, { $pull: { dependencies: { $in: ids } } });
+  await Comment.deleteMany({ task: { $in: ids } });
+  return ids;
+};
+
+module.exports = {
+  deleteTasks
+};
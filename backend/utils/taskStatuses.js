@@ -0,0 +1,80 @@
+const User = require('../models/User');
+const { dbOperation, isDbConnected } = require('./dbHelper');
+
+// Built-in task statuses, in board order. Users can relabel and reorder these
+// and add their own columns (e.g. "Blocked", "QA"); `done` marks a status as finished work.
+const DEFAULT_STATUSES = [
+  { key: 'todo', label: 'To Do', color: 'slate', done: false },
+  { key: 'in_progress', label: 'In Progress', color: 'blue', done: false },
+  { key: 'review', label: 'Review', color: 'purple', done: false },
+  { key: 'completed', label: 'Done', color: 'emerald', done: true },
+  { key: 'cancelled', label: 'Cancelled', color: 'slate', done: true }
+];
+
+const STATUS_COLORS = ['slate', 'blue', 'purple', 'emerald', 'amber', 'red', 'pink', 'cyan', 'orange', 'indigo'];
+const STATUS_KEY_PATTERN = /^[a-z][a-z0-9_]{0,31}$/;
+
+const toPlain = ({ key, label, color, done }) => ({ key, label, color, done: !!done });
+
+// Resolve the ordered status list for a user document (or null for defaults)
+const resolveStatuses = (user) => {
+  if (user && Array.isArray(user.task_statuses) && user.task_statuses.length > 0) {
+    return user.task_statuses.map(toPlain);
+  }
+  return DEFAULT_STATUSES.map(toPlain);
+};
+
+const getStatusesForUser = async (userId) => {
+  if (!isDbConnected()) return resolveStatuses(null);
+  const user = await dbOperation(async () => {
+    return await User.findById(userId).select('task_statuses');
+  });
+  return resolveStatuses(user);
+};
+
+const getDoneKeys = (statuses) => statuses.filter(s => s.done).map(s => s.key);
+
+// Validate and normalise a status list submitted by a client.
+// Returns { statuses } on success or { error } describing the first problem found.
+const normalizeStatuses = (input) => {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { error: 'Statuses must be a non-empty array' };
+  }
+
+  const seen = new Set();
+  const statuses = [];
+  for (const raw of input) {
+    if (!raw || typeof raw !== 'object') return { error: 'Each status must be an object' };
+    const key = typeof raw.key === 'string' ? raw.key.trim() : '';
+    const label = typeof raw.label === 'string' ? raw.label.trim() : '';
+    if (!STATUS_KEY_PATTERN.test(key)) return { error: `Invalid status key "${key}"` };
+    if (!label) return { error: `Status "${key}" needs a label` };
+    if (seen.has(key)) return { error: `Duplicate status key "${key}"` };
+    seen.add(key);
+
+    // Built-in statuses keep their done flag so reminders and stats stay meaningful
+    const builtIn = DEFAULT_STATUSES.find(s => s.key === key);
+    statuses.push({
+      key,
+      label: label.slice(0, 40),
+      color: STATUS_COLORS.includes(raw.color) ? raw.color : (builtIn ? builtIn.color : 'slate'),
+      done: builtIn ? builtIn.done : !!raw.done
+    });
+  }
+
+  const missing = DEFAULT_STATUSES.filter(s => !seen.has(s.key));
+  if (missing.length > 0) {
+    return { error: `Built-in statuses cannot be removed: ${missing.map(s => s.key).join(', ')}` };
+  }
+
+  return { statuses };
+};
+
+module.exports = {
+  DEFAULT_STATUSES,
+  STATUS_COLORS,
+  resolveStatuses,
+  getStatusesForUser,
+  getDoneKeys,
+  normalizeStatuses
+};
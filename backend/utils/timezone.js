@@ -0,0 +1,60 @@
+// Wall-clock times in a user's IANA time zone, using the runtime's Intl data
+// Due dates are calendar days and due times are HH:mm as the user sees them, so anything that runs on
+// the server's clock (the reminder scheduler) converts through the user's zone first.
+
+const isValidTimeZone = (timeZone) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const zoneParts = (instant, timeZone) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(instant);
+  const get = (type) => Number(parts.find(p => p.type === type).value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+};
+
+// Minutes the zone is ahead of UTC at `instant`
+const zoneOffset = (instant, timeZone) => {
+  const p = zoneParts(instant, timeZone);
+  return (Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - instant.getTime()) / 60000;
+};
+
+// The instant at which it is `time` (HH:mm) on `date` (YYYY-MM-DD) in the zone
+const zonedDateTime = (date, time, timeZone) => {
+  const asUtc = Date.parse(`${date}T${time}:00Z`);
+  const first = asUtc - zoneOffset(new Date(asUtc), timeZone) * 60000;
+  // A second pass settles times near a DST change, where the first guess used the wrong offset
+  return new Date(asUtc - zoneOffset(new Date(first), timeZone) * 60000);
+};
+
+// The calendar day (YYYY-MM-DD) it is in the zone at `instant`
+const localDate = (instant, timeZone) => {
+  const p = zoneParts(instant, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+};
+
+// The wall-clock time (HH:mm) it is in the zone at `instant`
+const localTime = (instant, timeZone) => {
+  const p = zoneParts(instant, timeZone);
+  return `${String(p.hour).padStart(2, '0')}:${String(p.minute).padStart(2, '0')}`;
+};
+
+module.exports = {
+  isValidTimeZone,
+  zonedDateTime,
+  localDate,
+  localTime
+};
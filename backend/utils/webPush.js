@@ -0,0 +1,122 @@
+const crypto = require('crypto');
+const PushSubscription = require('../models/PushSubscription');
+
+// Web Push delivery to the browsers a user has subscribed (see Public/sw.js)
+// Messages are signed with the server's VAPID key (RFC 8292) and encrypted for each subscription with
+// aes128gcm (RFC 8291), using only Node's crypto. Generate a key pair once with
+// `npm run vapid:generate` and set VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT; without them
+// push is turned off and the rest of the notification channels carry on as before.
+
+const TTL_SECONDS = 24 * 60 * 60;
+const RECORD_SIZE = 4096;
+
+const b64url = (buffer) => Buffer.from(buffer).toString('base64url');
+
+const isPushConfigured = () => !!(process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY);
+
+const getPublicKey = () => process.env.VAPID_PUBLIC_KEY || null;
+
+// A fresh P-256 key pair in the base64url form the VAPID_* variables take
+const generateVapidKeys = () => {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  return { publicKey: b64url(ecdh.getPublicKey()), privateKey: b64url(ecdh.getPrivateKey()) };
+};
+
+const vapidAuthorization = (endpoint) => {
+  const publicKey = Buffer.from(process.env.VAPID_PUBLIC_KEY, 'base64url');
+  const key = crypto.createPrivateKey({
+    format: 'jwk',
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: process.env.VAPID_PRIVATE_KEY,
+      x: b64url(publicKey.subarray(1, 33)),
+      y: b64url(publicKey.subarray(33, 65))
+    }
+  });
+
+  const header = b64url(JSON.stringify({ typ: 'JWT', alg: 'ES256' }));
+  const claims = b64url(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60,
+    sub: process.env.VAPID_SUBJECT || 'mailto:notifications@tasq.one'
+  }));
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${claims}`), { key, dsaEncoding: 'ieee-p1363' });
+  return `vapid t=${header}.${claims}.${b64url(signature)}, k=${process.env.VAPID_PUBLIC_KEY}`;
+};
+
+const hmac = (key, data) => crypto.createHmac('sha256', key).update(data).digest();
+
+// Single-record aes128gcm body for the subscription's keys
+const encrypt = (payload, { p256dh, auth }) => {
+  const clientPublicKey = Buffer.from(p256dh, 'base64url');
+  const authSecret = Buffer.from(auth, 'base64url');
+
+  const ecdh = crypto.createECDH('prime256v1');
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(clientPublicKey);
+  const salt = crypto.randomBytes(16);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), clientPublicKey, serverPublicKey, Buffer.from([1])]);
+  const ikm = hmac(hmac(authSecret, sharedSecret), keyInfo);
+  const prk = hmac(salt, ikm);
+  const contentKey = hmac(prk, Buffer.from('Content-Encoding: aes128gcm\0\x01')).subarray(0, 16);
+  const nonce = hmac(prk, Buffer.from('Content-Encoding: nonce\0\x01')).subarray(0, 12);
+
+  const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+  // 0x02 marks the last (and only) record
+  const ciphertext = Buffer.concat([cipher.update(Buffer.concat([Buffer.from(payload), Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+  return Buffer.concat([header, serverPublicKey, ciphertext]);
+};
+
+// Send to one subscription; resolves to false when the push service says it no longer exists
+const sendToSubscription = async (subscription, payload) => {
+  const response = await fetch(subscription.endpoint, {
+    method: 'POST',
+    headers: {
+      Authorization: vapidAuthorization(subscription.endpoint),
+      TTL: String(TTL_SECONDS),
+      Urgency: 'normal',
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream'
+    },
+    body: encrypt(JSON.stringify(payload), subscription.keys)
+  });
+
+  if (response.status === 404 || response.status === 410) return false;
+  if (!response.ok) {
+    throw new Error(`Push service responded ${response.status}: ${await response.text()}`);
+  }
+  return true;
+};
+
+// Push to every device the user subscribed; expired subscriptions are removed as they're found
+const sendPushToUser = async (userId, payload) => {
+  if (!isPushConfigured()) return;
+  const subscriptions = await PushSubscription.find({ user: userId });
+
+  await Promise.all(subscriptions.map(async (subscription) => {
+    try {
+      if (await sendToSubscription(subscription, payload)) {
+        await PushSubscription.updateOne({ _id: subscription._id }, { last_used_at: new Date() });
+      } else {
+        await PushSubscription.deleteOne({ _id: subscription._id });
+      }
+    } catch (error) {
+      console.error(`Failed to push to device ${subscription.id}:`, error.message);
+    }
+  }));
+};
+
+module.exports = {
+  isPushConfigured,
+  getPublicKey,
+  generateVapidKeys,
+  sendPushToUser
+};
@@ -0,0 +1,99 @@
+const mongoose = require('mongoose');
+const Workspace = require('../models/Workspace');
+const { isDbConnected } = require('./dbHelper');
+
+// Workspace roles, from least to most trusted:
+//   guest   sees the workspace's projects and tasks and can comment
+//   member  also creates and edits projects and tasks
+//   admin   also deletes projects, renames the workspace and invites, removes and re-roles members below admin
+//   owner   also manages admins and deletes the workspace; there is exactly one
+// Projects outside any workspace stay private to the user who created them.
+const ROLES = ['guest', 'member', 'admin', 'owner'];
+const roleRank = (role) => ROLES.indexOf(role);
+
+const getRole = (workspace, userId) => {
+  const member = workspace && workspace.members.find(m => String(m.user._id || m.user) === String(userId));
+  return member ? member.role : null;
+};
+
+const hasRole = (workspace, userId, minRole) => roleRank(getRole(workspace, userId)) >= roleRank(minRole);
+
+// Ids of the workspaces the user belongs to with at least `minRole`
+const workspaceIdsFor = async (userId, minRole = 'guest') => {
+  const roles = ROLES.slice(roleRank(minRole));
+  const workspaces = await Workspace.find({ members: { $elemMatch: { user: userId, role: { $in: roles } } } }).select('_id');
+  return workspaces.map(w => w._id);
+};
+
+// Projects the user may act on with `minRole`: their personal projects, plus those of their workspaces
+const projectAccessFilter = async (userId, minRole = 'guest') => ({
+  $or: [
+    { user: userId, workspace: null },
+    { workspace: { $in: await workspaceIdsFor(userId, minRole) } }
+  ]
+});
+
+// Tasks follow the same rule; a task's workspace is always its project's
+const taskAccessFilter = projectAccessFilter;
+
+// What a task in `workspace` (null for personal) may link to as its project, parent or dependencies
+const sameSpaceFilter = (workspace, userId) => (workspace ? { workspace } : { user: userId, workspace: null });
+
+// Who a task can be assigned to: the members of its workspace, or for a personal task the user and
+// everyone they share a workspace with. Site admins may hand personal tasks to anyone.
+const assignableUsersFilter = async (workspaceId, user) => {
+  if (workspaceId) {
+    const workspace = await Workspace.findById(workspaceId).select('members.user');
+    return { _id: { $in: workspace ? workspace.members.map(m => m.user) : [] } };
+  }
+  if (user.role === 'admin') return {};
+  const workspaces = await Workspace.find({ 'members.user': user.userId }).select('members.user');
+  return { _id: { $in: [user.userId, ...workspaces.flatMap(w => w.members.map(m => m.user))] } };
+};
+
+// A workspace the user belongs to with at least `minRole`, or null
+const findWorkspaceFor = async (workspaceId, userId, minRole = 'guest') => {
+  if (!mongoose.isValidObjectId(workspaceId)) return null;
+  const workspace = await Workspace.findById(workspaceId);
+  return hasRole(workspace, userId, minRole) ? workspace : null;
+};
+
+// Middleware: resolve `workspace_id` (query on reads, body on create) to a workspace the user holds
+// `minRole` in; without one the request is about the user's personal space
+const checkWorkspace = (minRole) => async (req, res, next) => {
+  const workspaceId = req.method === 'GET' ? req.query.workspace_id : req.body.workspace_id;
+  if (!workspaceId || !isDbConnected()) return next();
+  try {
+    const workspace = await findWorkspaceFor(workspaceId, req.user.userId);
+    if (!workspace) {
+      return res.status(404).json({
+        success: false,
+        message: 'Workspace not found'
+      });
+    }
+    if (!hasRole(workspace, req.user.userId, minRole)) {
+      return res.status(403).json({
+        success: false,
+        message: `Your role in ${workspace.name} doesn't allow this`
+      });
+    }
+    req.workspace = workspace;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+module.exports = {
+  ROLES,
+  roleRank,
+  getRole,
+  hasRole,
+  workspaceIdsFor,
+  projectAccessFilter,
+  taskAccessFilter,
+  sameSpaceFilter,
+  assignableUsersFilter,
+  findWorkspaceFor,
+  checkWorkspace
+};
@@ -0,0 +1,102 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Workspace } from '../types';
+import { InvitationPreview } from '../services/apiTypes';
+import apiService from '../services/apiService';
+import { workspaceFromRow } from '../services/mappers';
+import { Users, X, Loader2 } from 'lucide-react';
+
+interface AcceptInvitationProps {
+  token: string;
+  onAccepted: (workspace: Workspace) => void;
+  onClose: () => void;
+}
+
+// Opened from a `/join-workspace?invite=…` link in an invitation email, once the user is signed in
+const AcceptInvitation: React.FC<AcceptInvitationProps> = ({ token, onAccepted, onClose }) => {
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAccepting, setIsAccepting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiService.getInvitation(token)
+      .then(setInvitation)
+      .catch((err: any) => setError(err.message || 'This invitation could not be found'))
+      .finally(() => setIsLoading(false));
+  }, [token]);
+
+  const accept = async () => {
+    setIsAccepting(true);
+    setError(null);
+    try {
+      onAccepted(workspaceFromRow(await apiService.acceptInvitation(token)));
+    } catch (err: any) {
+      setError(err.message || 'Could not join the workspace');
+      setIsAccepting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 z-50 flex items-center justify-center p-4 backdrop-blur-sm transition-all">
+      <div className="bg-white rounded-2xl w-full max-w-md shadow-2xl animate-fade-in overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <div className="p-2 bg-slate-900/10 rounded-lg text-slate-900">
+              <Users size={20} strokeWidth={2.5} />
+            </div>
+            Workspace invitation
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 p-2 hover:bg-slate-100 rounded-full transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {isLoading ? (
+            <div className="flex justify-center py-6 text-slate-300">
+              <Loader2 size={24} className="animate-spin" />
+            </div>
+          ) : invitation && (
+            <div className="space-y-2">
+              <p className="text-sm text-slate-600 font-medium">
+                {invitation.invited_by?.name ? <span className="font-bold text-slate-800">{invitation.invited_by.name}</span> : 'You were'}
+                {invitation.invited_by?.name ? ' invited you to join ' : ' invited to join '}
+                <span className="font-bold text-slate-800">{invitation.workspace.name}</span> as {invitation.role === 'admin' ? 'an' : 'a'} <span className="font-bold text-slate-800">{invitation.role}</span>.
+              </p>
+              <p className="text-[11px] text-slate-400 font-medium">
+                Sent to {invitation.email} · expires {format(new Date(invitation.expires_at), 'MMM d, yyyy')}
+              </p>
+            </div>
+          )}
+
+          {error && <p className="text-xs font-bold text-red-600">{error}</p>}
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 hover:bg-slate-100 transition-all"
+            >
+              {invitation ? 'Not now' : 'Close'}
+            </button>
+            {invitation && (
+              <button
+                onClick={accept}
+                disabled={isAccepting}
+                className="flex items-center gap-2 px-4 py-2 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-700 transition-all disabled:opacity-40"
+              >
+                {isAccepting && <Loader2 size={12} className="animate-spin" />}
+                Join workspace
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AcceptInvitation;
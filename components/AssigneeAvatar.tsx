@@ -0,0 +1,23 @@
+import React from 'react';
+
+interface AssigneeAvatarProps {
+  name?: string;
+  avatarUrl?: string;
+  size?: 'sm' | 'xs';
+}
+
+// Profile picture of a task's assignee, or their initial on a dark tile when they have none
+const AssigneeAvatar: React.FC<AssigneeAvatarProps> = ({ name, avatarUrl, size = 'sm' }) => {
+  const sizeClass = size === 'xs' ? 'w-5 h-5 rounded-md text-[9px]' : 'w-7 h-7 rounded-lg text-[11px]';
+
+  if (avatarUrl) {
+    return <img src={avatarUrl} alt={name || ''} title={name} className={`${sizeClass} object-cover shrink-0 border border-white shadow-sm`} />;
+  }
+  return (
+    <span title={name} className={`${sizeClass} bg-slate-900 text-white font-black flex items-center justify-center shrink-0 border border-white shadow-sm`}>
+      {(name || '?').charAt(0).toUpperCase()}
+    </span>
+  );
+};
+
+export default AssigneeAvatar;
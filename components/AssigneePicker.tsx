@@ -0,0 +1,80 @@
+import React, { useState, useEffect } from 'react';
+import { UserSummary } from '../types';
+import apiService from '../services/apiService';
+import { userSummaryFromRow } from '../services/mappers';
+import AssigneeAvatar from './AssigneeAvatar';
+import { Check, Search, UserX, Loader2 } from 'lucide-react';
+
+interface AssigneePickerProps {
+  workspaceId?: string | null; // Offer the workspace's members; personal tasks offer the people the user works with
+  value?: UserSummary | null;
+  onChange: (user: UserSummary | null) => void;
+}
+
+const AssigneePicker: React.FC<AssigneePickerProps> = ({ workspaceId, value, onChange }) => {
+  const [users, setUsers] = useState<UserSummary[]>([]);
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsLoading(true);
+    apiService.getUsers(workspaceId)
+      .then(rows => {
+        setUsers(rows.map(userSummaryFromRow));
+        setError(null);
+      })
+      .catch((err: any) => setError(err.message || 'Could not load people'))
+      .finally(() => setIsLoading(false));
+  }, [workspaceId]);
+
+  // The current assignee stays selectable even if they have since left the list
+  const options = value && !users.some(u => u.id === value.id) ? [value, ...users] : users;
+  const search = query.trim().toLowerCase();
+  const matches = search
+    ? options.filter(u => u.name.toLowerCase().includes(search) || u.email.toLowerCase().includes(search))
+    : options;
+
+  const option = (user: UserSummary | null) => {
+    const isSelected = (value?.id || null) === (user?.id || null);
+    return (
+      <button
+        key={user?.id || 'none'}
+        type="button"
+        onClick={() => onChange(user)}
+        className={`px-3 py-2 rounded-xl border-2 text-xs font-bold flex items-center gap-2 transition-all ${isSelected
+          ? 'border-indigo-500 bg-indigo-50 text-indigo-700 shadow-md'
+          : 'border-slate-200 bg-white text-slate-600 hover:border-slate-300'}`}
+      >
+        {user ? <AssigneeAvatar name={user.name} avatarUrl={user.avatarUrl} size="xs" /> : <UserX size={14} />}
+        <span className="truncate max-w-[10rem]">{user ? user.name : 'Unassigned'}</span>
+        {isSelected && <Check size={12} strokeWidth={3} />}
+      </button>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {options.length > 8 && (
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={14} />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Find by name or email..."
+            className="w-full bg-white border-2 border-slate-200 rounded-xl pl-9 pr-3 py-2 text-sm text-slate-700 font-medium outline-none focus:border-indigo-500 transition-all"
+          />
+        </div>
+      )}
+      <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto custom-scrollbar">
+        {option(null)}
+        {matches.map(option)}
+        {isLoading && <Loader2 size={16} className="animate-spin text-slate-300 self-center" />}
+      </div>
+      {error && <p className="text-xs font-bold text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default AssigneePicker;
@@ -1,12 +1,14 @@
 import React, { useState } from 'react';
 import { useGoogleLogin } from '@react-oauth/google';
 import apiService from '../services/apiService';
+import { userFromRow } from '../services/mappers';
 import { User } from '../types';
 import { Mail, Lock, User as UserIcon, ArrowRight, CheckCircle2, Eye, EyeOff, Chrome } from 'lucide-react';
 import Logo from './Logo';
 
 interface AuthProps {
   onLogin: (user: User) => void;
+  notice?: string | null; // Why the user was signed out, e.g. an expired session
 }
 
 interface GoogleUser {
@@ -26,7 +28,7 @@ interface UserData {
   createdAt: string;
 }
 
-const Auth: React.FC<AuthProps> = ({ onLogin }) => {
+const Auth: React.FC<AuthProps> = ({ onLogin, notice }) => {
   const [mode, setMode] = useState<AuthMode>('LOGIN');
   const [loading, setLoading] = useState(false);
   const [resetSent, setResetSent] = useState(false);
@@ -57,14 +59,7 @@ const Auth: React.FC<AuthProps> = ({ onLogin }) => {
       if (mode === 'LOGIN') {
         const response = await apiService.login(email, password);
         if (response.success) {
-          const loggedInUser: User = {
-            id: response.data.user.id.toString(),
-            name: response.data.user.name,
-            email: response.data.user.email,
-            role: response.data.user.role || 'Product Designer',
-            avatarUrl: response.data.user.avatar_url,
-            joinDate: response.data.user.createdAt
-          };
+          const loggedInUser = userFromRow(response.data.user);
           onLogin(loggedInUser);
         }
         return;
@@ -73,14 +68,7 @@ const Auth: React.FC<AuthProps> = ({ onLogin }) => {
       if (mode === 'SIGNUP') {
         const response = await apiService.register(name, email, password);
         if (response.success) {
-          const loggedInUser: User = {
-            id: response.data.user.id.toString(),
-            name: response.data.user.name,
-            email: response.data.user.email,
-            role: response.data.user.role || 'Product Designer',
-            avatarUrl: response.data.user.avatar_url,
-            joinDate: response.data.user.createdAt
-          };
+          const loggedInUser = userFromRow(response.data.user);
           onLogin(loggedInUser);
         }
       }
@@ -130,14 +118,7 @@ const Auth: React.FC<AuthProps> = ({ onLogin }) => {
           // Try Google login endpoint first
           const googleResponse = await apiService.googleLogin(userData.email, userData.name, userData.sub, userData.picture);
           if (googleResponse.success) {
-            const loggedInUser: User = {
-              id: googleResponse.data.user.id.toString(),
-              name: googleResponse.data.user.name,
-              email: googleResponse.data.user.email,
-              role: googleResponse.data.user.role || 'Product Designer',
-              avatarUrl: googleResponse.data.user.avatar_url,
-              joinDate: googleResponse.data.user.createdAt
-            };
+            const loggedInUser = userFromRow(googleResponse.data.user);
             onLogin(loggedInUser);
             return;
           }
@@ -259,6 +240,13 @@ const Auth: React.FC<AuthProps> = ({ onLogin }) => {
 
               <form onSubmit={handleSubmit} className="space-y-5 w-full max-w-sm">
                 
+                {notice && !error && (
+                  <div className="bg-amber-50 border border-amber-100 text-amber-700 px-5 py-4 rounded-2xl flex items-center gap-3">
+                    <div className="w-1.5 h-1.5 bg-amber-500 rounded-full"></div>
+                    <span className="text-sm font-medium">{notice}</span>
+                  </div>
+                )}
+
                 {error && (
                   <div className="bg-red-50 border border-red-100 text-red-600 px-5 py-4 rounded-2xl flex items-center gap-3 animate-shake">
                     <div className="w-1.5 h-1.5 bg-red-500 rounded-full animate-pulse"></div>
@@ -3,14 +3,16 @@ import React, { useState, useRef, useEffect } from 'react';
 import { Task, Project, Message, Priority, Category, TaskStatus } from '../types';
 import { GoogleGenAI } from "@google/genai";
 import { Sparkles, Send, Loader2, Plus, MessageSquare, Lightbulb, Trash2, ArrowRight, CheckCircle2, Bot, User as UserIcon, ListChecks, Zap, Terminal } from 'lucide-react';
+import { StatusModel } from '../utils/statusModel';
 
 interface BrainstormViewProps {
   tasks: Task[];
   projects: Project[];
+  categories: Category[];
   addTask: (task: Task) => void;
 }
 
-const BrainstormView: React.FC<BrainstormViewProps> = ({ tasks, projects, addTask }) => {
+const BrainstormView: React.FC<BrainstormViewProps> = ({ tasks, projects, categories, addTask }) => {
   const [messages, setMessages] = useState<Message[]>([
     {
       id: '1',
@@ -52,7 +54,7 @@ const BrainstormView: React.FC<BrainstormViewProps> = ({ tasks, projects, addTas
       const context = `
         User context:
         Projects: ${projects.map(p => p.name).join(', ')}
-        Unfinished Tasks: ${tasks.filter(t => t.status !== TaskStatus.DONE).map(t => t.title).join(', ')}
+        Unfinished Tasks: ${tasks.filter(t => !StatusModel.isDone(t.status)).map(t => t.title).join(', ')}
       `;
 
       const chat = ai.chats.create({
@@ -101,7 +103,7 @@ const BrainstormView: React.FC<BrainstormViewProps> = ({ tasks, projects, addTas
       title,
       status: TaskStatus.TODO,
       priority: Priority.MEDIUM,
-      category: Category.COMPANY,
+      category: categories[0]?.id,
       dueDate: new Date().toISOString().split('T')[0]
     });
   };
@@ -0,0 +1,230 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Task, Category, Priority, Tag as TaskTag } from '../types';
+import { format, isSameDay, isToday as isTodayDate } from 'date-fns';
+import { Repeat } from 'lucide-react';
+import { StatusModel } from '../utils/statusModel';
+import { Recurrence } from '../utils/recurrence';
+import { layoutDay, minutesToTime, snapMinutes, DAY_MINUTES } from '../utils/calendarLayout';
+
+interface CalendarTimeGridProps {
+  days: Date[];
+  getTasksForDay: (day: Date) => Task[];
+  tags: TaskTag[];
+  categories: Category[];
+  selectedDate: Date;
+  onSelectDay: (day: Date) => void;
+  onSlotClick?: (day: Date, time: string) => void;
+  onMove?: (task: Task, date: string, time?: string) => void; // no time moves the task to the all-day row
+}
+
+const HOUR_HEIGHT = 48;
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+const SCROLL_TO_HOUR = 7;
+
+const blockClasses = (task: Task) => {
+  if (Recurrence.isProjected(task)) return 'bg-white text-slate-400 border-dashed border-slate-300';
+  if (StatusModel.isDone(task.status)) return 'bg-slate-50 text-slate-400 border-slate-200 line-through';
+  if (task.priority === Priority.HIGH) return 'bg-red-50 text-red-700 border-red-200';
+  return 'bg-indigo-50 text-indigo-800 border-indigo-200';
+};
+
+// Hourly columns for one or more days: timed tasks are blocks sized by their estimate, untimed tasks
+// sit in the all-day row. Tasks drag between slots, days and the all-day row in 15-minute steps.
+const CalendarTimeGrid: React.FC<CalendarTimeGridProps> = ({ days, getTasksForDay, tags, categories, selectedDate, onSelectDay, onSlotClick, onMove }) => {
+  const [now, setNow] = useState(new Date());
+  const [dropPreview, setDropPreview] = useState<{ date: string; minutes: number } | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Where in the block the drag started, so the block lands under the cursor rather than below it
+  const grabOffset = useRef(0);
+  const dragged = useRef<Task | null>(null);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = SCROLL_TO_HOUR * HOUR_HEIGHT;
+  }, []);
+
+  const columns = useMemo(() => days.map(day => {
+    const dayTasks = getTasksForDay(day);
+    return {
+      day,
+      date: format(day, 'yyyy-MM-dd'),
+      allDay: dayTasks.filter(t => !t.dueTime),
+      blocks: layoutDay(dayTasks)
+    };
+  }), [days, getTasksForDay]);
+
+  const categoryStyle = (task: Task) => {
+    const category = categories.find(c => c.id === task.category);
+    const isPlain = !Recurrence.isProjected(task) && !StatusModel.isDone(task.status) && task.priority !== Priority.HIGH;
+    return isPlain && category ? { color: category.color, backgroundColor: `${category.color}14`, borderColor: `${category.color}55` } : undefined;
+  };
+
+  const canDrag = (task: Task) => !!onMove && !Recurrence.isProjected(task);
+
+  const handleDragStart = (e: React.DragEvent, task: Task) => {
+    dragged.current = task;
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    grabOffset.current = task.dueTime ? ((e.clientY - rect.top) / HOUR_HEIGHT) * 60 : 0;
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', task.id);
+  };
+
+  const minutesAt = (e: React.DragEvent | React.MouseEvent) => {
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    return snapMinutes(((e.clientY - rect.top) / HOUR_HEIGHT) * 60 - grabOffset.current);
+  };
+
+  const handleSlotDragOver = (e: React.DragEvent, date: string) => {
+    if (!dragged.current) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    const minutes = Math.max(0, Math.min(DAY_MINUTES - 15, minutesAt(e)));
+    if (!dropPreview || dropPreview.date !== date || dropPreview.minutes !== minutes) setDropPreview({ date, minutes });
+  };
+
+  const handleDrop = (e: React.DragEvent, date: string, time?: string) => {
+    e.preventDefault();
+    const task = dragged.current;
+    if (task && onMove && (task.dueDate !== date || (task.dueTime || undefined) !== time)) onMove(task, date, time);
+    handleDragEnd();
+  };
+
+  const handleDragEnd = () => {
+    dragged.current = null;
+    grabOffset.current = 0;
+    setDropPreview(null);
+  };
+
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      {/* Day headers and all-day row */}
+      <div className="flex border-b border-slate-100 bg-slate-50/30">
+        <div className="w-16 shrink-0 flex items-end justify-end pr-2 pb-2 text-[9px] font-bold text-slate-300 uppercase tracking-widest">All day</div>
+        {columns.map(({ day, date, allDay }) => (
+          <div
+            key={date}
+            onDragOver={(e) => { if (dragged.current) { e.preventDefault(); setDropPreview(null); } }}
+            onDrop={(e) => handleDrop(e, date)}
+            className="flex-1 min-w-0 border-l border-slate-100 p-2"
+          >
+            <button onClick={() => onSelectDay(day)} className="w-full flex items-center justify-center gap-2 mb-2">
+              <span className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em]">{format(day, 'EEE')}</span>
+              <span className={`text-[11px] font-bold w-7 h-7 flex items-center justify-center rounded-xl ${
+                isTodayDate(day) ? 'bg-slate-900 text-white' : isSameDay(day, selectedDate) ? 'bg-indigo-600 text-white' : 'text-slate-700'
+              }`}>
+                {format(day, 'd')}
+              </span>
+            </button>
+            <div className="space-y-1 min-h-[28px]">
+              {allDay.map(task => (
+                <div
+                  key={task.id}
+                  draggable={canDrag(task)}
+                  onDragStart={(e) => handleDragStart(e, task)}
+                  onDragEnd={handleDragEnd}
+                  className={`text-[9px] px-2 py-1 rounded-lg truncate font-bold uppercase tracking-tight border flex items-center gap-1 ${blockClasses(task)} ${canDrag(task) ? 'cursor-grab' : ''}`}
+                  style={categoryStyle(task)}
+                >
+                  {task.recurrence && <Repeat size={8} strokeWidth={3} className="shrink-0" />}
+                  <span className="truncate">{task.title}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Hourly grid */}
+      <div ref={scrollRef} className="flex-1 overflow-y-auto custom-scrollbar min-h-[480px] max-h-[720px]">
+        <div className="flex relative" style={{ height: 24 * HOUR_HEIGHT }}>
+          <div className="w-16 shrink-0 relative">
+            {HOURS.map(hour => (
+              <div key={hour} style={{ top: hour * HOUR_HEIGHT }} className="absolute right-2 -translate-y-1/2 text-[9px] font-bold text-slate-300 uppercase tracking-widest">
+                {hour === 0 ? '' : format(new Date(2000, 0, 1, hour), 'ha')}
+              </div>
+            ))}
+          </div>
+
+          {columns.map(({ day, date, blocks }) => (
+            <div
+              key={date}
+              onDragOver={(e) => handleSlotDragOver(e, date)}
+              onDrop={(e) => handleDrop(e, date, minutesToTime(Math.max(0, minutesAt(e))))}
+              onDoubleClick={(e) => onSlotClick && onSlotClick(day, minutesToTime(Math.floor(((e.clientY - e.currentTarget.getBoundingClientRect().top) / HOUR_HEIGHT)) * 60))}
+              className={`flex-1 min-w-0 relative border-l border-slate-100 ${isSameDay(day, selectedDate) ? 'bg-indigo-50/20' : ''}`}
+            >
+              {HOURS.map(hour => (
+                <div key={hour} style={{ top: hour * HOUR_HEIGHT, height: HOUR_HEIGHT }} className="absolute inset-x-0 border-t border-slate-50 pointer-events-none" />
+              ))}
+
+              {dropPreview && dropPreview.date === date && (
+                <div
+                  style={{ top: (dropPreview.minutes / 60) * HOUR_HEIGHT }}
+                  className="absolute inset-x-1 h-0.5 bg-indigo-500 rounded-full pointer-events-none z-20"
+                >
+                  <span className="absolute -top-2.5 left-0 text-[9px] font-bold text-indigo-600 bg-white px-1 rounded">{minutesToTime(dropPreview.minutes)}</span>
+                </div>
+              )}
+
+              {blocks.map(block => {
+                const width = 100 / block.columns;
+                const height = ((block.end - block.start) / 60) * HOUR_HEIGHT;
+                const task = block.task;
+                return (
+                  <div
+                    key={task.id}
+                    draggable={canDrag(task)}
+                    onDragStart={(e) => handleDragStart(e, task)}
+                    onDragEnd={handleDragEnd}
+                    onClick={() => onSelectDay(day)}
+                    title={`${task.title} · ${task.dueTime}`}
+                    style={{
+                      top: (block.start / 60) * HOUR_HEIGHT,
+                      height: Math.max(height - 2, 16),
+                      left: `calc(${block.column * width}% + 2px)`,
+                      width: `calc(${width}% - 4px)`,
+                      ...categoryStyle(task)
+                    }}
+                    className={`absolute rounded-lg border px-2 py-1 overflow-hidden shadow-sm z-10 ${blockClasses(task)} ${canDrag(task) ? 'cursor-grab active:cursor-grabbing' : ''}`}
+                  >
+                    <p className="text-[10px] font-bold leading-tight truncate flex items-center gap-1">
+                      {task.recurrence && <Repeat size={8} strokeWidth={3} className="shrink-0" />}
+                      {task.title}
+                    </p>
+                    {height >= 32 && (
+                      <p className="text-[9px] font-bold opacity-70">
+                        {task.dueTime} – {block.end === DAY_MINUTES ? '24:00' : minutesToTime(block.end)}
+                      </p>
+                    )}
+                    {height >= 48 && task.tags && task.tags.length > 0 && (
+                      <div className="flex gap-1 mt-1">
+                        {task.tags.slice(0, 4).map(tagId => {
+                          const tag = tags.find(t => t.id === tagId);
+                          return tag && <span key={tagId} className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: tag.color }} title={tag.name} />;
+                        })}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+
+              {isTodayDate(day) && (
+                <div style={{ top: (nowMinutes / 60) * HOUR_HEIGHT }} className="absolute inset-x-0 h-0.5 bg-red-500 pointer-events-none z-20">
+                  <div className="absolute -left-1 -top-1 w-2.5 h-2.5 rounded-full bg-red-500" />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarTimeGrid;
@@ -1,15 +1,35 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { Task, Category, Priority, TaskStatus } from '../types';
-import { format, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, addMonths, isToday as isTodayDate } from 'date-fns';
-import { ChevronLeft, ChevronRight, Bell, Calendar as CalendarIcon, Clock, ArrowRight, MoreHorizontal, Plus, Zap, Activity, Globe, X, Flag, Tag, AlignLeft } from 'lucide-react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Task, Category, Priority, TaskStatus, TaskStatusKey, Tag as TaskTag } from '../types';
+import { format, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, addMonths, addDays, startOfWeek, isToday as isTodayDate } from 'date-fns';
+import { ChevronLeft, ChevronRight, Bell, Calendar as CalendarIcon, Clock, ArrowRight, MoreHorizontal, Plus, Zap, Activity, Globe, X, Flag, Tag, AlignLeft, Repeat, Hourglass, Upload, Link2, Copy, Check, RefreshCw } from 'lucide-react';
+import { StatusModel } from '../utils/statusModel';
+import { Recurrence } from '../utils/recurrence';
+import { parseCalendar } from '../utils/ical';
+import apiService from '../services/apiService';
+import { CalendarImportEvent, CalendarImportResult } from '../services/apiTypes';
+import TagChips from './TagChips';
+import CategoryBadge from './CategoryBadge';
+import CalendarTimeGrid from './CalendarTimeGrid';
+
+type CalendarMode = 'MONTH' | 'WEEK' | 'DAY';
+
+const CALENDAR_MODES: { mode: CalendarMode; label: string }[] = [
+  { mode: 'MONTH', label: 'Month' },
+  { mode: 'WEEK', label: 'Week' },
+  { mode: 'DAY', label: 'Day' }
+];
 
 interface CalendarViewProps {
   tasks: Task[];
+  tags: TaskTag[];
+  categories: Category[];
   updateTask?: (id: string, updates: Partial<Task>) => void;
   addTask?: (task: Task) => void;
+  importCalendar?: (events: CalendarImportEvent[]) => Promise<CalendarImportResult>;
 }
 
-const CalendarView: React.FC<CalendarViewProps> = ({ tasks, updateTask, addTask }) => {
+const CalendarView: React.FC<CalendarViewProps> = ({ tasks, tags, categories, updateTask, addTask, importCalendar }) => {
+  const [mode, setMode] = useState<CalendarMode>('MONTH');
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [currentTime, setCurrentTime] = useState(new Date());
@@ -17,7 +37,17 @@ const CalendarView: React.FC<CalendarViewProps> = ({ tasks, updateTask, addTask
   const [newTaskTitle, setNewTaskTitle] = useState('');
   const [newTaskDescription, setNewTaskDescription] = useState('');
   const [newTaskPriority, setNewTaskPriority] = useState<Priority>(Priority.MEDIUM);
-  const [newTaskCategory, setNewTaskCategory] = useState<Category>(Category.COMPANY);
+  const [newTaskCategory, setNewTaskCategory] = useState('');
+  const [newTaskTime, setNewTaskTime] = useState('09:00');
+  const [newTaskEstimate, setNewTaskEstimate] = useState('');
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
+  const [tagFilter, setTagFilter] = useState<string>('ALL');
+  const [isFeedModalOpen, setIsFeedModalOpen] = useState(false);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [feedCopied, setFeedCopied] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [syncNotice, setSyncNotice] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const importInput = useRef<HTMLInputElement>(null);
 
   // Real-time clock
   useEffect(() => {
@@ -40,27 +70,141 @@ const CalendarView: React.FC<CalendarViewProps> = ({ tasks, updateTask, addTask
     return eachDayOfInterval({ start: calendarStart, end: calendarEnd });
   }, [calendarStart, calendarEnd]);
 
-  const nextMonth = () => setCurrentDate(addMonths(currentDate, 1));
-  const prevMonth = () => setCurrentDate(addMonths(currentDate, -1));
+  // Week and day views stay inside the month grid of currentDate, so its projected occurrences cover them
+  const weekDays = useMemo(() => {
+    const start = startOfWeek(currentDate);
+    return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+  }, [currentDate]);
+  const dayView = useMemo(() => [currentDate], [currentDate]);
+
+  const step = (direction: 1 | -1) => {
+    const next = mode === 'MONTH' ? addMonths(currentDate, direction)
+      : addDays(currentDate, mode === 'WEEK' ? 7 * direction : direction);
+    setCurrentDate(next);
+    if (mode !== 'MONTH') setSelectedDate(next);
+  };
+  const nextMonth = () => step(1);
+  const prevMonth = () => step(-1);
+
+  const periodLabel = mode === 'MONTH' ? format(currentDate, 'MMMM yyyy')
+    : mode === 'WEEK' ? `${format(weekDays[0], 'MMM d')} – ${format(weekDays[6], 'MMM d')}`
+    : format(currentDate, 'EEE, MMM d');
+
+  const changeMode = (next: CalendarMode) => {
+    setMode(next);
+    if (next !== 'MONTH') setCurrentDate(selectedDate);
+  };
+
+  const selectDay = (day: Date) => {
+    setSelectedDate(day);
+    if (mode === 'DAY') setCurrentDate(day);
+  };
+
+  const moveTask = (task: Task, date: string, time?: string) => {
+    if (updateTask) updateTask(task.id, { dueDate: date, dueTime: time });
+  };
+
+  const openCreateModal = (day: Date, time = '09:00') => {
+    setSelectedDate(day);
+    setNewTaskTime(time);
+    setNewTaskEstimate('');
+    setNewTaskCategory(categories[0]?.id || '');
+    setIsCreateModalOpen(true);
+  };
+
+  const handleMonthDrop = (e: React.DragEvent, day: Date) => {
+    e.preventDefault();
+    const task = tasks.find(t => t.id === draggedTaskId);
+    const date = format(day, 'yyyy-MM-dd');
+    if (task && task.dueDate !== date) moveTask(task, date, task.dueTime);
+    setDraggedTaskId(null);
+  };
+
+  const showSyncNotice = (message: string, type: 'success' | 'error') => {
+    setSyncNotice({ message, type });
+    setTimeout(() => setSyncNotice(null), 4000);
+  };
+
+  const openFeedModal = async () => {
+    setIsFeedModalOpen(true);
+    setFeedCopied(false);
+    if (feedUrl) return;
+    try {
+      setFeedUrl(await apiService.getCalendarFeed());
+    } catch {
+      setIsFeedModalOpen(false);
+      showSyncNotice('Calendar feed is unavailable offline', 'error');
+    }
+  };
+
+  const resetFeed = async () => {
+    if (!window.confirm('Calendars subscribed to the current link will stop updating. Generate a new link?')) return;
+    try {
+      setFeedUrl(await apiService.resetCalendarFeed());
+      setFeedCopied(false);
+    } catch {
+      showSyncNotice('Could not regenerate the feed link', 'error');
+    }
+  };
+
+  const copyFeedUrl = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    setFeedCopied(true);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !importCalendar) return;
+
+    const events = parseCalendar(await file.text());
+    if (events.length === 0) {
+      showSyncNotice(`No dated events found in ${file.name}`, 'error');
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      const result = await importCalendar(events);
+      showSyncNotice(`Imported ${result.created} new · ${result.updated} updated · ${result.skipped} already here`, 'success');
+    } catch {
+      showSyncNotice(`Import of ${file.name} failed`, 'error');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const goToToday = () => {
     const now = new Date();
     setCurrentDate(now);
     setSelectedDate(now);
   };
 
+  // Upcoming occurrences of recurring tasks across the visible grid; these only exist once the previous one is completed
+  const projectedTasks = useMemo(
+    () => Recurrence.project(tasks, format(calendarStart, 'yyyy-MM-dd'), format(calendarEnd, 'yyyy-MM-dd')),
+    [tasks, currentDate]
+  );
+
+  const activeTagFilter = tags.some(t => t.id === tagFilter) ? tagFilter : 'ALL';
+
   const getTasksForDay = (day: Date) => {
-    return tasks.filter(task => isSameDay(new Date(task.dueDate + 'T00:00:00'), day));
+    return [...tasks, ...projectedTasks].filter(task =>
+      isSameDay(new Date(task.dueDate + 'T00:00:00'), day) &&
+      (activeTagFilter === 'ALL' || !!task.tags?.includes(activeTagFilter))
+    );
   };
 
-  const selectedDayTasks = useMemo(() => getTasksForDay(selectedDate), [selectedDate, tasks]);
+  const selectedDayTasks = useMemo(() => getTasksForDay(selectedDate), [selectedDate, tasks, projectedTasks, activeTagFilter]);
 
   // Neural Stats for the month
   const monthlyStats = useMemo(() => {
     const monthTasks = tasks.filter(t => isSameMonth(new Date(t.dueDate + 'T00:00:00'), currentDate));
-    const completed = monthTasks.filter(t => t.status === TaskStatus.DONE).length;
+    const completed = monthTasks.filter(t => StatusModel.isDone(t.status)).length;
     const total = monthTasks.length;
     const efficiency = total > 0 ? Math.round((completed / total) * 100) : 100;
-    const highPriority = monthTasks.filter(t => t.priority === Priority.HIGH && t.status !== TaskStatus.DONE).length;
+    const highPriority = monthTasks.filter(t => t.priority === Priority.HIGH && !StatusModel.isDone(t.status)).length;
     
     return { total, completed, efficiency, highPriority };
   }, [tasks, currentDate]);
@@ -75,10 +219,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({ tasks, updateTask, addTask
     else if (task.reminderMinutes === 60) newMinutes = 1440;
     else newMinutes = 0;
 
-    updateTask(task.id, { 
-      reminderMinutes: newMinutes,
-      reminderSent: false 
-    });
+    updateTask(task.id, { reminderMinutes: newMinutes });
   };
 
   const handleCreateTask = (e: React.FormEvent) => {
@@ -91,9 +232,10 @@ const CalendarView: React.FC<CalendarViewProps> = ({ tasks, updateTask, addTask
       description: newTaskDescription,
       status: TaskStatus.TODO,
       priority: newTaskPriority,
-      category: newTaskCategory,
+      category: newTaskCategory || undefined,
       dueDate: format(selectedDate, 'yyyy-MM-dd'),
-      dueTime: '09:00',
+      dueTime: newTaskTime || undefined,
+      estimateHours: newTaskEstimate.trim() ? Math.max(0, parseFloat(newTaskEstimate)) : undefined,
       reminderMinutes: 0
     };
 
@@ -101,11 +243,10 @@ const CalendarView: React.FC<CalendarViewProps> = ({ tasks, updateTask, addTask
     setNewTaskTitle('');
     setNewTaskDescription('');
     setNewTaskPriority(Priority.MEDIUM);
-    setNewTaskCategory(Category.COMPANY);
     setIsCreateModalOpen(false);
   };
 
-  const updateTaskStatus = (taskId: string, status: TaskStatus) => {
+  const updateTaskStatus = (taskId: string, status: TaskStatusKey) => {
     if (updateTask) {
       updateTask(taskId, { status });
     }
@@ -146,10 +287,68 @@ const CalendarView: React.FC<CalendarViewProps> = ({ tasks, updateTask, addTask
                         <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Current Period</span>
                         <div className="flex items-center gap-3">
                            <button onClick={prevMonth} className="p-1 hover:bg-slate-100 rounded-lg text-slate-400 transition-all"><ChevronLeft size={16} /></button>
-                           <span className="text-sm font-bold text-slate-900 uppercase tracking-tighter min-w-[120px]">{format(currentDate, 'MMMM yyyy')}</span>
+                           <span className="text-sm font-bold text-slate-900 uppercase tracking-tighter min-w-[120px]">{periodLabel}</span>
                            <button onClick={nextMonth} className="p-1 hover:bg-slate-100 rounded-lg text-slate-400 transition-all"><ChevronRight size={16} /></button>
                         </div>
                     </div>
+                    <div className="h-10 w-px bg-slate-100"></div>
+                    <div className="flex flex-col">
+                        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">View</span>
+                        <div className="flex bg-slate-100 p-1 rounded-xl">
+                          {CALENDAR_MODES.map(({ mode: option, label }) => (
+                            <button
+                              key={option}
+                              onClick={() => changeMode(option)}
+                              className={`px-3 py-1 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-all ${
+                                mode === option ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400 hover:text-slate-700'
+                              }`}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                    </div>
+                    {tags.length > 0 && (
+                      <>
+                        <div className="h-10 w-px bg-slate-100"></div>
+                        <div className="flex flex-col">
+                            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Tag Filter</span>
+                            <select
+                              value={activeTagFilter}
+                              onChange={(e) => setTagFilter(e.target.value)}
+                              className="text-sm font-bold text-slate-900 bg-transparent outline-none cursor-pointer"
+                            >
+                              <option value="ALL">All tags</option>
+                              {tags.map(tag => (
+                                <option key={tag.id} value={tag.id}>{tag.name}</option>
+                              ))}
+                            </select>
+                        </div>
+                      </>
+                    )}
+                    <div className="h-10 w-px bg-slate-100"></div>
+                    <div className="flex flex-col">
+                        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Calendar Sync</span>
+                        <div className="flex gap-2">
+                          <button
+                            onClick={openFeedModal}
+                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl border border-slate-200 text-[10px] font-bold uppercase tracking-widest text-slate-600 hover:bg-slate-50 transition-all"
+                            title="Subscribe from Google Calendar, Outlook or Apple Calendar"
+                          >
+                            <Link2 size={12} strokeWidth={3} /> Subscribe
+                          </button>
+                          {importCalendar && (
+                            <button
+                              onClick={() => importInput.current?.click()}
+                              disabled={isImporting}
+                              className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl border border-slate-200 text-[10px] font-bold uppercase tracking-widest text-slate-600 hover:bg-slate-50 transition-all disabled:opacity-50"
+                            >
+                              <Upload size={12} strokeWidth={3} /> {isImporting ? 'Importing…' : 'Import .ics'}
+                            </button>
+                          )}
+                          <input ref={importInput} type="file" accept=".ics,text/calendar" className="hidden" onChange={handleImportFile} />
+                        </div>
+                    </div>
                 </div>
             </div>
         </div>
@@ -159,6 +358,19 @@ const CalendarView: React.FC<CalendarViewProps> = ({ tasks, updateTask, addTask
         
         {/* Calendar Grid Container */}
         <div className="flex-1 bg-white/70 backdrop-blur-sm rounded-[3rem] shadow-sm border border-slate-200 overflow-hidden flex flex-col min-h-[600px] group/grid">
+          {mode !== 'MONTH' ? (
+            <CalendarTimeGrid
+              days={mode === 'WEEK' ? weekDays : dayView}
+              getTasksForDay={getTasksForDay}
+              tags={tags}
+              categories={categories}
+              selectedDate={selectedDate}
+              onSelectDay={selectDay}
+              onSlotClick={addTask ? openCreateModal : undefined}
+              onMove={updateTask ? moveTask : undefined}
+            />
+          ) : (
+          <>
           {/* Weekday Headers */}
           <div className="grid grid-cols-7 border-b border-slate-100 bg-slate-50/30">
             {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map(day => (
@@ -175,12 +387,14 @@ const CalendarView: React.FC<CalendarViewProps> = ({ tasks, updateTask, addTask
               const isSelected = isSameDay(day, selectedDate);
               const isToday = isTodayDate(day);
               const isCurrentMonth = isSameMonth(day, currentDate);
-              const hasHighPriority = dayTasks.some(t => t.priority === Priority.HIGH && t.status !== TaskStatus.DONE);
+              const hasHighPriority = dayTasks.some(t => t.priority === Priority.HIGH && !StatusModel.isDone(t.status));
 
               return (
                 <div 
                   key={day.toISOString()} 
                   onClick={() => setSelectedDate(day)}
+                  onDragOver={(e) => { if (draggedTaskId) e.preventDefault(); }}
+                  onDrop={(e) => handleMonthDrop(e, day)}
                   className={`relative min-h-[100px] p-3 transition-all cursor-pointer border-b border-r border-slate-50 last:border-r-0 flex flex-col ${
                     !isCurrentMonth ? 'bg-slate-50/20 opacity-40' : 'bg-white'
                   } ${isSelected ? 'bg-slate-50/50 shadow-[inset_0_0_20px_rgba(0,0,0,0.02)]' : 'hover:bg-slate-50/50'}`}
@@ -198,21 +412,34 @@ const CalendarView: React.FC<CalendarViewProps> = ({ tasks, updateTask, addTask
                   </div>
 
                   <div className="space-y-1.5 flex-1 overflow-hidden">
-                    {dayTasks.slice(0, 3).map(task => (
+                    {dayTasks.slice(0, 3).map(task => {
+                      // Regular chips take their category's color; projected, done and high-priority chips keep theirs
+                      const category = categories.find(c => c.id === task.category);
+                      const isPlain = !Recurrence.isProjected(task) && !StatusModel.isDone(task.status) && task.priority !== Priority.HIGH;
+                      return (
                       <div 
                         key={task.id} 
-                        className={`text-[8px] px-2 py-1 rounded-lg truncate font-bold uppercase tracking-tight border transition-all hover:scale-105 active:scale-95 ${
-                          task.status === TaskStatus.DONE ? 'bg-slate-50 text-slate-300 border-slate-100 line-through decoration-slate-200' :
+                        draggable={!!updateTask && !Recurrence.isProjected(task)}
+                        onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; setDraggedTaskId(task.id); }}
+                        onDragEnd={() => setDraggedTaskId(null)}
+                        className={`text-[8px] px-2 py-1 rounded-lg truncate font-bold uppercase tracking-tight border transition-all hover:scale-105 active:scale-95 flex items-center gap-1 ${
+                          Recurrence.isProjected(task) ? 'bg-white text-slate-400 border-dashed border-slate-200' :
+                          StatusModel.isDone(task.status) ? 'bg-slate-50 text-slate-300 border-slate-100 line-through decoration-slate-200' :
                           task.priority === Priority.HIGH 
                             ? 'bg-red-50 text-red-700 border-red-100 shadow-sm' 
-                            : task.category === Category.COMPANY 
-                                ? 'bg-indigo-50 text-indigo-700 border-indigo-100 shadow-sm'
-                                : 'bg-emerald-50 text-emerald-700 border-emerald-100 shadow-sm'
+                            : 'bg-slate-50 text-slate-700 border-slate-100 shadow-sm'
                         }`}
+                        style={isPlain && category ? { color: category.color, backgroundColor: `${category.color}14`, borderColor: `${category.color}33` } : undefined}
                       >
-                        {task.title}
+                        {task.recurrence && <Repeat size={8} strokeWidth={3} className="shrink-0" />}
+                        <span className="truncate">{task.title}</span>
+                        {task.tags?.slice(0, 3).map(tagId => {
+                          const tag = tags.find(t => t.id === tagId);
+                          return tag && <span key={tagId} className="w-1.5 h-1.5 rounded-full shrink-0" style={{ backgroundColor: tag.color }} title={tag.name} />;
+                        })}
                       </div>
-                    ))}
+                      );
+                    })}
                     {dayTasks.length > 3 && (
                       <div className="text-[8px] font-bold text-slate-300 pl-1 uppercase tracking-widest mt-1">
                         + {dayTasks.length - 3} Units
@@ -227,6 +454,8 @@ const CalendarView: React.FC<CalendarViewProps> = ({ tasks, updateTask, addTask
               );
             })}
           </div>
+          </>
+          )}
         </div>
 
         {/* Side Tactical Agenda */}
@@ -255,8 +484,12 @@ const CalendarView: React.FC<CalendarViewProps> = ({ tasks, updateTask, addTask
                       <p className="text-[9px] text-slate-300 mt-2 font-medium">No units scheduled for this temporal coordinate.</p>
                    </div>
                  ) : (
-                   selectedDayTasks.map(task => (
-                     <div key={task.id} className="group/item bg-slate-50 border border-slate-100 rounded-[2rem] p-6 hover:bg-white hover:border-slate-300 hover:shadow-2xl transition-all cursor-pointer relative overflow-hidden">
+                   selectedDayTasks.map(task => {
+                     const projected = Recurrence.isProjected(task);
+                     return (
+                     <div key={task.id} className={`group/item border rounded-[2rem] p-6 transition-all relative overflow-hidden ${
+                       projected ? 'bg-white border-dashed border-slate-200' : 'bg-slate-50 border-slate-100 hover:bg-white hover:border-slate-300 hover:shadow-2xl cursor-pointer'
+                     }`}>
                         <div className="flex justify-between items-start mb-4">
                            <div className="flex gap-2">
                                 <span className={`text-[9px] font-bold uppercase tracking-widest px-2.5 py-1 rounded-full border ${
@@ -264,28 +497,45 @@ const CalendarView: React.FC<CalendarViewProps> = ({ tasks, updateTask, addTask
                                 }`}>
                                     {task.priority}
                                 </span>
-                                <span className="bg-white text-slate-400 text-[9px] font-bold px-2.5 py-1 rounded-full border border-slate-100 shadow-sm uppercase tracking-widest leading-none">
-                                    {task.category}
-                                </span>
+                                <CategoryBadge categoryId={task.category} categories={categories} size="xs" />
                            </div>
+                           {!projected && (
                            <button onClick={(e) => toggleReminder(task, e)} className={`p-2.5 rounded-xl transition-all active:scale-95 ${task.reminderMinutes ? 'bg-indigo-600 text-white shadow-xl shadow-indigo-200' : 'bg-white border border-slate-200 text-slate-300 hover:text-indigo-600'}`}>
                               <Bell size={14} fill={task.reminderMinutes ? "currentColor" : "none"} strokeWidth={3} />
                            </button>
+                           )}
                         </div>
                         <h4 
-                          className={`text-lg font-bold text-slate-900 leading-tight mb-3 transition-opacity cursor-pointer hover:underline ${
-                            task.status === TaskStatus.DONE ? 'opacity-40 line-through' : ''
-                          }`}
-                          onClick={() => updateTaskStatus(task.id, task.status === TaskStatus.DONE ? TaskStatus.TODO : TaskStatus.DONE)}
+                          className={`text-lg font-bold text-slate-900 leading-tight mb-3 transition-opacity ${
+                            projected ? 'opacity-60' : 'cursor-pointer hover:underline'
+                          } ${StatusModel.isDone(task.status) ? 'opacity-40 line-through' : ''}`}
+                          onClick={() => !projected && updateTaskStatus(task.id, StatusModel.isDone(task.status) ? TaskStatus.TODO : TaskStatus.DONE)}
                         >
                            {task.title}
                         </h4>
+                        {task.tags && task.tags.length > 0 && (
+                           <div className="mb-3">
+                              <TagChips tagIds={task.tags} tags={tags} size="xs" />
+                           </div>
+                        )}
                         <div className="flex items-center gap-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
                            <div className="flex items-center gap-1.5">
                               <Clock size={12} strokeWidth={3} />
                               <span>{task.dueTime || 'Anytime'}</span>
                            </div>
-                           {task.status !== TaskStatus.DONE && (
+                           {task.estimateHours ? (
+                              <div className="flex items-center gap-1.5">
+                                 <Hourglass size={12} strokeWidth={3} />
+                                 <span>{task.estimateHours}h</span>
+                              </div>
+                           ) : null}
+                           {task.recurrence && (
+                              <div className="flex items-center gap-1.5">
+                                 <Repeat size={12} strokeWidth={3} />
+                                 <span>{projected ? 'Upcoming' : Recurrence.describe(task.recurrence)}</span>
+                              </div>
+                           )}
+                           {!projected && !StatusModel.isDone(task.status) && (
                               <div className="flex items-center gap-1.5 text-indigo-500">
                                  <Zap size={10} fill="currentColor" />
                                  <span>Active</span>
@@ -293,13 +543,14 @@ const CalendarView: React.FC<CalendarViewProps> = ({ tasks, updateTask, addTask
                            )}
                         </div>
                      </div>
-                   ))
+                     );
+                   })
                  )}
               </div>
 
               <div className="mt-8 pt-8 border-t border-slate-100 relative z-10">
                  <button 
-                   onClick={() => setIsCreateModalOpen(true)}
+                   onClick={() => openCreateModal(selectedDate)}
                    className="w-full h-16 flex items-center justify-center gap-4 bg-slate-900 text-white rounded-[1.5rem] font-bold text-xs uppercase tracking-[0.3em] shadow-2xl shadow-slate-300 hover:bg-black transition-all active:scale-95 group/btn"
                  >
                     <Plus size={20} strokeWidth={4} className="group-hover/btn:rotate-90 transition-transform duration-500" />
@@ -311,6 +562,64 @@ const CalendarView: React.FC<CalendarViewProps> = ({ tasks, updateTask, addTask
 
       </div>
 
+      {syncNotice && (
+        <div className={`fixed bottom-6 right-6 z-50 px-5 py-3 rounded-2xl shadow-2xl text-xs font-bold animate-fade-in ${
+          syncNotice.type === 'success' ? 'bg-slate-900 text-white' : 'bg-red-600 text-white'
+        }`}>
+          {syncNotice.message}
+        </div>
+      )}
+
+      {/* Calendar Feed Modal */}
+      {isFeedModalOpen && (
+        <div className="fixed inset-0 bg-slate-900/40 z-50 flex items-center justify-center p-4 backdrop-blur-sm transition-all">
+          <div className="bg-white rounded-2xl w-full max-w-lg shadow-2xl animate-fade-in overflow-hidden">
+            <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+                <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                   <div className="p-2 bg-slate-900/10 rounded-lg text-slate-900">
+                      <Link2 size={20} strokeWidth={2.5} />
+                   </div>
+                   Calendar Feed
+                </h3>
+                <button 
+                  onClick={() => setIsFeedModalOpen(false)} 
+                  className="text-slate-400 hover:text-slate-600 p-2 hover:bg-slate-100 rounded-full transition-colors"
+                >
+                  <X size={20} />
+                </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-slate-500">
+                Subscribe to this link in Google Calendar, Outlook or Apple Calendar to see your dated tasks, their reminders and your project milestones. Anyone with the link can read the feed.
+              </p>
+              <div className="flex items-center gap-2">
+                <input
+                  readOnly
+                  value={feedUrl || 'Generating link…'}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-xl p-3 text-xs font-mono text-slate-700 outline-none"
+                />
+                <button
+                  onClick={copyFeedUrl}
+                  disabled={!feedUrl}
+                  className="p-3 rounded-xl bg-slate-900 text-white hover:bg-black transition-all disabled:opacity-50"
+                  title="Copy link"
+                >
+                  {feedCopied ? <Check size={16} /> : <Copy size={16} />}
+                </button>
+              </div>
+              <button
+                onClick={resetFeed}
+                disabled={!feedUrl}
+                className="flex items-center gap-2 text-xs font-bold text-slate-400 hover:text-red-600 transition-colors disabled:opacity-50"
+              >
+                <RefreshCw size={12} /> Generate a new link and revoke this one
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Create Task Modal */}
       {isCreateModalOpen && (
         <div className="fixed inset-0 bg-slate-900/40 z-50 flex items-center justify-center p-4 backdrop-blur-sm transition-all">
@@ -366,10 +675,10 @@ const CalendarView: React.FC<CalendarViewProps> = ({ tasks, updateTask, addTask
                         <select 
                           className="w-full appearance-none bg-slate-50 border border-slate-200 rounded-xl p-3.5 pr-8 text-slate-700 font-medium focus:ring-2 focus:ring-slate-900/10 focus:border-slate-900 focus:bg-white outline-none transition-all" 
                           value={newTaskCategory} 
-                          onChange={(e) => setNewTaskCategory(e.target.value as Category)}
+                          onChange={(e) => setNewTaskCategory(e.target.value)}
                         >
-                          <option value={Category.COMPANY}>Company</option>
-                          <option value={Category.PERSONAL}>Personal</option>
+                          {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                          <option value="">Uncategorized</option>
                         </select>
                         <Tag className="absolute right-3.5 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none" size={16} />
                       </div>
@@ -388,6 +697,36 @@ const CalendarView: React.FC<CalendarViewProps> = ({ tasks, updateTask, addTask
                       </div>
                    </div>
                 </div>
+
+                <div className="grid grid-cols-2 gap-5">
+                   <div>
+                      <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5 ml-1">Time</label>
+                      <div className="relative">
+                        <input
+                          type="time"
+                          step={900}
+                          className="w-full bg-slate-50 border border-slate-200 rounded-xl p-3.5 text-slate-700 font-medium focus:ring-2 focus:ring-slate-900/10 focus:border-slate-900 focus:bg-white outline-none transition-all"
+                          value={newTaskTime}
+                          onChange={(e) => setNewTaskTime(e.target.value)}
+                        />
+                      </div>
+                   </div>
+                   <div>
+                      <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5 ml-1">Estimate (hours)</label>
+                      <div className="relative">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.25"
+                          className="w-full bg-slate-50 border border-slate-200 rounded-xl p-3.5 pr-10 text-slate-700 font-medium focus:ring-2 focus:ring-slate-900/10 focus:border-slate-900 focus:bg-white outline-none transition-all placeholder:text-slate-400"
+                          value={newTaskEstimate}
+                          onChange={(e) => setNewTaskEstimate(e.target.value)}
+                          placeholder="1"
+                        />
+                        <Hourglass className="absolute right-3.5 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none" size={16} />
+                      </div>
+                   </div>
+                </div>
               </div>
 
               <div className="p-4 border-t border-slate-100 bg-slate-50/50 flex justify-end gap-3 mt-auto">
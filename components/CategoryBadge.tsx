@@ -0,0 +1,57 @@
+import React from 'react';
+import { Category } from '../types';
+import { Folder, Briefcase, User, Home, Heart, Star, Book, Code, DollarSign, Globe, Users, Zap } from 'lucide-react';
+
+// Icon keys stored on categories; keep in sync with CATEGORY_ICONS in backend/utils/categories.js
+export const CATEGORY_ICONS: Record<string, React.ElementType> = {
+  folder: Folder,
+  briefcase: Briefcase,
+  user: User,
+  home: Home,
+  heart: Heart,
+  star: Star,
+  book: Book,
+  code: Code,
+  dollar: DollarSign,
+  globe: Globe,
+  users: Users,
+  zap: Zap
+};
+
+export const categoryIcon = (icon?: string): React.ElementType => CATEGORY_ICONS[icon || ''] || Folder;
+
+interface CategoryBadgeProps {
+  categoryId?: string;
+  categories: Category[];
+  size?: 'sm' | 'xs';
+}
+
+// Colored pill with the category's icon; tasks without a (surviving) category read as Uncategorized
+const CategoryBadge: React.FC<CategoryBadgeProps> = ({ categoryId, categories, size = 'sm' }) => {
+  const category = categories.find(c => c.id === categoryId);
+  const Icon = categoryIcon(category?.icon);
+  const sizeClass = size === 'xs'
+    ? 'text-[9px] px-2.5 py-1 tracking-widest'
+    : 'text-[10px] px-3 py-1 tracking-[0.1em]';
+
+  if (!category) {
+    return (
+      <span className={`${sizeClass} uppercase font-bold rounded-full border shadow-sm flex items-center gap-1.5 text-slate-400 bg-slate-50 border-slate-200`}>
+        <Folder size={10} />
+        Uncategorized
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={`${sizeClass} uppercase font-bold rounded-full border shadow-sm flex items-center gap-1.5`}
+      style={{ color: category.color, backgroundColor: `${category.color}14`, borderColor: `${category.color}40` }}
+    >
+      <Icon size={10} />
+      {category.name}
+    </span>
+  );
+};
+
+export default CategoryBadge;
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { Category, Task } from '../types';
+import { CategoryPayload } from '../services/apiTypes';
+import { Check, Edit2, Plus, Trash2, X } from 'lucide-react';
+import ColorSwatches, { SWATCH_COLORS } from './ColorSwatches';
+import { CATEGORY_ICONS, categoryIcon } from './CategoryBadge';
+
+interface CategorySettingsProps {
+  categories: Category[];
+  tasks: Task[];
+  createCategory: (payload: CategoryPayload) => Promise<Category>;
+  updateCategory: (id: string, payload: CategoryPayload) => Promise<void>;
+  deleteCategory: (id: string) => Promise<void>;
+}
+
+interface IconPickerProps {
+  value: string;
+  color: string;
+  onChange: (icon: string) => void;
+}
+
+const IconPicker: React.FC<IconPickerProps> = ({ value, color, onChange }) => (
+  <div className="flex flex-wrap items-center gap-1.5">
+    {Object.entries(CATEGORY_ICONS).map(([key, Icon]) => (
+      <button
+        key={key}
+        type="button"
+        onClick={() => onChange(key)}
+        className={`p-1.5 rounded-lg border transition-all ${value === key ? 'shadow-sm' : 'border-transparent text-slate-400 hover:text-slate-700 hover:bg-slate-50'}`}
+        style={value === key ? { color, borderColor: color, backgroundColor: `${color}14` } : undefined}
+        title={key}
+      >
+        <Icon size={14} />
+      </button>
+    ))}
+  </div>
+);
+
+// Create, rename, restyle and delete the user's categories
+const CategorySettings: React.FC<CategorySettingsProps> = ({ categories, tasks, createCategory, updateCategory, deleteCategory }) => {
+  const [newCategory, setNewCategory] = useState({ name: '', color: SWATCH_COLORS[0], icon: 'folder' });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState({ name: '', color: SWATCH_COLORS[0], icon: 'folder' });
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || 'Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newCategory.name.trim()) return;
+    run(async () => {
+      await createCategory({ ...newCategory, name: newCategory.name.trim() });
+      setNewCategory(prev => ({ ...prev, name: '' }));
+    });
+  };
+
+  const startEditing = (category: Category) => {
+    setEditingId(category.id);
+    setDraft({ name: category.name, color: category.color, icon: category.icon });
+    setError(null);
+  };
+
+  const handleSave = (category: Category) => {
+    if (!draft.name.trim()) return;
+    const payload: CategoryPayload = {};
+    if (draft.name.trim() !== category.name) payload.name = draft.name.trim();
+    if (draft.color !== category.color) payload.color = draft.color;
+    if (draft.icon !== category.icon) payload.icon = draft.icon;
+    run(async () => {
+      if (Object.keys(payload).length > 0) await updateCategory(category.id, payload);
+      setEditingId(null);
+    });
+  };
+
+  const handleDelete = (category: Category, usage: number) => {
+    const note = usage > 0 ? ` ${usage} task${usage === 1 ? '' : 's'} will become uncategorized.` : '';
+    if (!window.confirm(`Delete the category "${category.name}"?${note}`)) return;
+    run(() => deleteCategory(category.id));
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleCreate} className="space-y-3">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newCategory.name}
+            maxLength={50}
+            onChange={(e) => setNewCategory(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="New category, e.g. Side Project"
+            className="flex-1 px-4 py-3 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-bold focus:outline-none focus:ring-2 focus:ring-slate-900"
+          />
+          <button
+            type="submit"
+            disabled={!newCategory.name.trim() || isSaving}
+            className="px-4 py-3 bg-slate-900 text-white rounded-2xl text-[10px] font-bold uppercase tracking-widest flex items-center gap-1.5 hover:bg-black disabled:opacity-40 disabled:cursor-not-allowed transition-all"
+          >
+            <Plus size={14} strokeWidth={3} /> Add
+          </button>
+        </div>
+        <ColorSwatches value={newCategory.color} onChange={(color) => setNewCategory(prev => ({ ...prev, color }))} />
+        <IconPicker value={newCategory.icon} color={newCategory.color} onChange={(icon) => setNewCategory(prev => ({ ...prev, icon }))} />
+      </form>
+
+      {error && <p className="text-xs font-bold text-red-600">{error}</p>}
+
+      {categories.length === 0 ? (
+        <p className="text-sm text-slate-400 font-medium">No categories yet. Tasks and projects stay uncategorized until you add one.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 border border-slate-100 rounded-2xl">
+          {categories.map(category => {
+            const usage = tasks.filter(t => t.category === category.id).length;
+            const Icon = categoryIcon(category.icon);
+            return (
+              <li key={category.id} className="px-4 py-3">
+                {editingId === category.id ? (
+                  <div className="space-y-3">
+                    <div className="flex gap-2">
+                      <input
+                        autoFocus
+                        type="text"
+                        value={draft.name}
+                        maxLength={50}
+                        onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') { e.preventDefault(); handleSave(category); }
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        className="flex-1 px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-bold focus:outline-none focus:ring-2 focus:ring-slate-900"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => handleSave(category)}
+                        disabled={!draft.name.trim() || isSaving}
+                        className="p-2 text-emerald-600 hover:bg-emerald-50 rounded-xl transition-colors disabled:opacity-40"
+                        title="Save"
+                      >
+                        <Check size={16} strokeWidth={3} />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setEditingId(null)}
+                        className="p-2 text-slate-400 hover:text-slate-900 rounded-xl transition-colors"
+                        title="Cancel"
+                      >
+                        <X size={16} strokeWidth={3} />
+                      </button>
+                    </div>
+                    <ColorSwatches value={draft.color} onChange={(color) => setDraft(prev => ({ ...prev, color }))} />
+                    <IconPicker value={draft.icon} color={draft.color} onChange={(icon) => setDraft(prev => ({ ...prev, icon }))} />
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <span className="p-1.5 rounded-lg shrink-0" style={{ color: category.color, backgroundColor: `${category.color}14` }}>
+                        <Icon size={14} />
+                      </span>
+                      <span className="text-sm font-bold text-slate-900 truncate">{category.name}</span>
+                      <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest shrink-0">
+                        {usage} task{usage === 1 ? '' : 's'}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => startEditing(category)}
+                        className="p-2 text-slate-400 hover:text-indigo-600 rounded-xl transition-colors"
+                        title="Edit category"
+                      >
+                        <Edit2 size={14} strokeWidth={3} />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(category, usage)}
+                        className="p-2 text-slate-400 hover:text-red-600 rounded-xl transition-colors"
+                        title="Delete category"
+                      >
+                        <Trash2 size={14} strokeWidth={3} />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CategorySettings;
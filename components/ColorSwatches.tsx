@@ -0,0 +1,33 @@
+import React from 'react';
+
+export const SWATCH_COLORS = ['#6366F1', '#0EA5E9', '#10B981', '#F59E0B', '#EF4444', '#EC4899', '#8B5CF6', '#9CA3AF'];
+
+interface ColorSwatchesProps {
+  value: string;
+  onChange: (color: string) => void;
+}
+
+// Preset palette plus a free color picker for hex-colored tags and categories
+const ColorSwatches: React.FC<ColorSwatchesProps> = ({ value, onChange }) => (
+  <div className="flex flex-wrap items-center gap-2">
+    {SWATCH_COLORS.map(color => (
+      <button
+        key={color}
+        type="button"
+        onClick={() => onChange(color)}
+        className={`w-5 h-5 rounded-full transition-all ${value.toUpperCase() === color ? 'ring-2 ring-offset-2 ring-slate-900' : 'hover:scale-110'}`}
+        style={{ backgroundColor: color }}
+        title={color}
+      />
+    ))}
+    <input
+      type="color"
+      value={value}
+      onChange={(e) => onChange(e.target.value.toUpperCase())}
+      className="w-6 h-6 rounded-lg border border-slate-200 cursor-pointer bg-transparent"
+      title="Custom color"
+    />
+  </div>
+);
+
+export default ColorSwatches;
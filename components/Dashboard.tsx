@@ -3,6 +3,7 @@ import { Project, Task, TaskStatus, Priority, User, View } from '../types';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
 import { CheckCircle2, AlertCircle, Clock, Briefcase, Calendar, Zap } from 'lucide-react';
 import { format } from 'date-fns';
+import { StatusModel } from '../utils/statusModel';
 
 interface DashboardProps {
   tasks: Task[];
@@ -14,10 +15,10 @@ interface DashboardProps {
 
 const Dashboard: React.FC<DashboardProps> = ({ tasks, projects, user, onViewChange, onProjectSelect }) => {
   // Stats calculation
-  const completedTasks = tasks.filter(task => task.status === TaskStatus.DONE);
+  const completedTasks = tasks.filter(task => StatusModel.isDone(task.status));
   const inProgressTasks = tasks.filter(task => task.status === TaskStatus.IN_PROGRESS);
   const overdueTasks = tasks.filter(task => 
-    new Date(task.dueDate) < new Date() && task.status !== TaskStatus.DONE
+    new Date(task.dueDate) < new Date() && !StatusModel.isDone(task.status)
   );
 
   // Calculate stats
@@ -35,12 +36,13 @@ const Dashboard: React.FC<DashboardProps> = ({ tasks, projects, user, onViewChan
     { name: 'In Progress', value: inProgressTasks.length, color: '#3b82f6' },
     { name: 'To Do', value: tasks.filter(t => t.status === TaskStatus.TODO).length, color: '#f59e0b' },
     { name: 'Review', value: tasks.filter(t => t.status === TaskStatus.REVIEW).length, color: '#8b5cf6' },
+    { name: 'Other', value: tasks.filter(t => !StatusModel.isBuiltIn(t.status) && !StatusModel.isDone(t.status)).length, color: '#94a3b8' },
   ].filter(item => item.value > 0); // Only show non-zero values
 
   // Project stats
   const activeProjects = projects.filter(project => {
     const projectTasks = tasks.filter(task => task.projectId === project.id);
-    return projectTasks.some(task => task.status !== TaskStatus.DONE);
+    return projectTasks.some(task => !StatusModel.isDone(task.status));
   });
 
   // Recent tasks (most recent due dates)
@@ -211,7 +213,7 @@ const Dashboard: React.FC<DashboardProps> = ({ tasks, projects, user, onViewChan
             {activeProjects.length > 0 ? (
               activeProjects.map(project => {
                 const projectTasks = tasks.filter(task => task.projectId === project.id);
-                const completedProjectTasks = projectTasks.filter(task => task.status === TaskStatus.DONE);
+                const completedProjectTasks = projectTasks.filter(task => StatusModel.isDone(task.status));
                 const progress = projectTasks.length > 0 
                   ? Math.round((completedProjectTasks.length / projectTasks.length) * 100) 
                   : 0;
@@ -278,12 +280,11 @@ const Dashboard: React.FC<DashboardProps> = ({ tasks, projects, user, onViewChan
                   </div>
                   <div className="mt-2">
                     <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                      task.status === TaskStatus.DONE ? 'bg-green-100 text-green-800' :
-                      task.status === TaskStatus.IN_PROGRESS ? 'bg-blue-100 text-blue-800' :
-                      task.status === TaskStatus.REVIEW ? 'bg-purple-100 text-purple-800' :
-                      'bg-yellow-100 text-yellow-800'
+                      StatusModel.isDone(task.status) ? 'bg-green-100 text-green-800' :
+                      task.status === TaskStatus.TODO ? 'bg-yellow-100 text-yellow-800' :
+                      `bg-${StatusModel.get(task.status).color}-100 text-${StatusModel.get(task.status).color}-800`
                     }`}>
-                      {task.status}
+                      {StatusModel.label(task.status)}
                     </span>
                   </div>
                 </div>
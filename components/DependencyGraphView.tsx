@@ -0,0 +1,282 @@
+import React, { useState, useMemo } from 'react';
+import { Task } from '../types';
+import { GitBranch, AlertTriangle, X, Clock } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { StatusModel } from '../utils/statusModel';
+import { DependencyGraph } from '../utils/dependencyGraph';
+
+interface DependencyGraphViewProps {
+  tasks: Task[];           // the project's tasks; dependencies outside them are ignored
+  projectDueDate?: string;
+}
+
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 64;
+const COLUMN_GAP = 72;
+const ROW_GAP = 20;
+const PADDING = 16;
+
+const formatDay = (date: string) => format(parseISO(date), 'MMM d');
+
+const pluralDays = (days: number) => `${Math.abs(days)} day${Math.abs(days) === 1 ? '' : 's'}`;
+
+// Every task reachable from `start` by following `edges`
+const reachable = (start: string, edges: Map<string, string[]>) => {
+  const seen = new Set<string>();
+  const stack = [...(edges.get(start) || [])];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(edges.get(id) || []));
+  }
+  return seen;
+};
+
+// Tasks laid out left to right by how deep their dependency chain runs; the critical path is drawn
+// in indigo and tasks whose slip would push the project past its due date in red
+const DependencyGraphView: React.FC<DependencyGraphViewProps> = ({ tasks, projectDueDate }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const analysis = useMemo(() => DependencyGraph.analyze(tasks, projectDueDate), [tasks, projectDueDate]);
+  const taskById = useMemo(() => new Map(tasks.map(t => [t.id, t])), [tasks]);
+
+  const edges = useMemo(() => {
+    const upstream = new Map<string, string[]>();
+    const downstream = new Map<string, string[]>(tasks.map(t => [t.id, []]));
+    tasks.forEach(t => {
+      const deps = (t.dependencies || []).filter(id => taskById.has(id) && id !== t.id);
+      upstream.set(t.id, deps);
+      deps.forEach(dep => downstream.get(dep)!.push(t.id));
+    });
+    return { upstream, downstream };
+  }, [tasks, taskById]);
+
+  // Tasks in or behind a loop can't be scheduled, so they get a column of their own at the end
+  const layout = useMemo(() => {
+    const columns: string[][] = [];
+    analysis.order.forEach(id => {
+      const depth = analysis.nodes.get(id)!.depth;
+      (columns[depth] = columns[depth] || []).push(id);
+    });
+    if (analysis.unscheduled.length > 0) columns.push(analysis.unscheduled);
+
+    const positions = new Map<string, { x: number; y: number }>();
+    columns.forEach((column, c) => column.forEach((id, r) => positions.set(id, {
+      x: PADDING + c * (NODE_WIDTH + COLUMN_GAP),
+      y: PADDING + r * (NODE_HEIGHT + ROW_GAP)
+    })));
+    const tallest = Math.max(0, ...columns.map(c => c.length));
+    return {
+      positions,
+      width: PADDING * 2 + columns.length * NODE_WIDTH + Math.max(0, columns.length - 1) * COLUMN_GAP,
+      height: PADDING * 2 + tallest * NODE_HEIGHT + Math.max(0, tallest - 1) * ROW_GAP
+    };
+  }, [analysis]);
+
+  const related = useMemo(() => {
+    if (!selectedId) return null;
+    return {
+      upstream: reachable(selectedId, edges.upstream),
+      downstream: reachable(selectedId, edges.downstream)
+    };
+  }, [selectedId, edges]);
+
+  const critical = useMemo(() => new Set(analysis.criticalPath), [analysis]);
+  const criticalEdges = useMemo(() => new Set(
+    analysis.criticalPath.slice(1).map((id, i) => `${analysis.criticalPath[i]}>${id}`)
+  ), [analysis]);
+  const inCycle = useMemo(() => new Set(analysis.cycles.flat()), [analysis]);
+
+  const isDimmed = (id: string) => related !== null && id !== selectedId && !related.upstream.has(id) && !related.downstream.has(id);
+
+  const nodeClasses = (task: Task) => {
+    if (inCycle.has(task.id)) return 'fill-red-50 stroke-red-400';
+    if (StatusModel.isDone(task.status)) return 'fill-slate-50 stroke-slate-200';
+    if (analysis.drivesDueDate.has(task.id)) return 'fill-red-50 stroke-red-500';
+    if (critical.has(task.id)) return 'fill-indigo-50 stroke-indigo-500';
+    return 'fill-white stroke-slate-300';
+  };
+
+  if (tasks.length === 0) return null;
+
+  const selected = selectedId ? taskById.get(selectedId) : undefined;
+  const selectedNode = selectedId ? analysis.nodes.get(selectedId) : undefined;
+  const hasEdges = tasks.some(t => (edges.upstream.get(t.id) || []).length > 0);
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+        <h3 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+          <GitBranch size={24} className="text-slate-400" />
+          Dependency Graph
+        </h3>
+        <div className="flex flex-wrap items-center gap-4 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+          <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded border-2 border-indigo-500 bg-indigo-50" />Critical path</span>
+          <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded border-2 border-red-500 bg-red-50" />Pushes due date</span>
+          {analysis.finish > 0 && (
+            <span className="flex items-center gap-1.5 text-slate-600">
+              <Clock size={12} />
+              Est. finish {formatDay(DependencyGraph.offsetToDate(analysis.finish - 1))}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {analysis.cycles.length > 0 && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700 flex items-start gap-2">
+          <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+          <div>
+            <p className="font-bold">Circular dependencies can't be scheduled:</p>
+            {analysis.cycles.map(cycle => (
+              <p key={cycle.join('>')} className="font-medium">
+                {cycle.map(id => taskById.get(id)?.title).join(' → ')}
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {!hasEdges ? (
+        <p className="text-center py-8 bg-slate-50 rounded-xl border border-dashed border-slate-200 text-slate-400 text-sm italic">
+          No dependencies between this project's tasks yet. Link them from the task editor.
+        </p>
+      ) : (
+        <div className="overflow-x-auto custom-scrollbar rounded-xl border border-slate-100 bg-slate-50/50">
+          <svg width={layout.width} height={layout.height} className="block">
+            <defs>
+              <marker id="dep-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="#94a3b8" />
+              </marker>
+              <marker id="dep-arrow-critical" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="#6366f1" />
+              </marker>
+            </defs>
+
+            {tasks.flatMap(task => (edges.upstream.get(task.id) || []).map(depId => {
+              const from = layout.positions.get(depId)!;
+              const to = layout.positions.get(task.id)!;
+              const x1 = from.x + NODE_WIDTH;
+              const y1 = from.y + NODE_HEIGHT / 2;
+              const x2 = to.x;
+              const y2 = to.y + NODE_HEIGHT / 2;
+              const bend = Math.max(40, Math.abs(x2 - x1) / 2);
+              const isCritical = criticalEdges.has(`${depId}>${task.id}`);
+              const dimmed = isDimmed(depId) || isDimmed(task.id);
+              return (
+                <path
+                  key={`${depId}>${task.id}`}
+                  d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                  fill="none"
+                  stroke={isCritical ? '#6366f1' : '#cbd5e1'}
+                  strokeWidth={isCritical ? 2.5 : 1.5}
+                  opacity={dimmed ? 0.15 : 1}
+                  markerEnd={`url(#${isCritical ? 'dep-arrow-critical' : 'dep-arrow'})`}
+                />
+              );
+            }))}
+
+            {tasks.map(task => {
+              const pos = layout.positions.get(task.id)!;
+              const node = analysis.nodes.get(task.id);
+              const done = StatusModel.isDone(task.status);
+              return (
+                <g
+                  key={task.id}
+                  transform={`translate(${pos.x}, ${pos.y})`}
+                  className="cursor-pointer"
+                  opacity={isDimmed(task.id) ? 0.3 : 1}
+                  onClick={() => setSelectedId(selectedId === task.id ? null : task.id)}
+                >
+                  <rect
+                    width={NODE_WIDTH}
+                    height={NODE_HEIGHT}
+                    rx={12}
+                    strokeWidth={selectedId === task.id ? 3 : 1.5}
+                    className={nodeClasses(task)}
+                  />
+                  <foreignObject x={10} y={8} width={NODE_WIDTH - 20} height={NODE_HEIGHT - 16}>
+                    <div className="h-full flex flex-col justify-between">
+                      <p className={`text-xs font-bold truncate ${done ? 'line-through text-slate-400' : 'text-slate-800'}`}>{task.title}</p>
+                      <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400 truncate">
+                        {node
+                          ? done
+                            ? 'Done'
+                            : `${formatDay(DependencyGraph.offsetToDate(node.earliestStart))} – ${formatDay(DependencyGraph.offsetToDate(node.earliestFinish - 1))}`
+                          : 'In a loop'}
+                        {node && !done && node.slack < 0 && <span className="text-red-500"> · {pluralDays(node.slack)} late</span>}
+                      </p>
+                    </div>
+                  </foreignObject>
+                </g>
+              );
+            })}
+          </svg>
+        </div>
+      )}
+
+      {selected && (
+        <div className="mt-4 p-4 bg-slate-50 rounded-xl border border-slate-200 animate-fade-in">
+          <div className="flex items-start justify-between gap-3 mb-3">
+            <div>
+              <p className="text-sm font-bold text-slate-900">{selected.title}</p>
+              <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                {StatusModel.label(selected.status)}
+                {critical.has(selected.id) && <span className="text-indigo-600"> · Critical path</span>}
+                {analysis.drivesDueDate.has(selected.id) && <span className="text-red-600"> · Pushes project due date</span>}
+              </p>
+            </div>
+            <button onClick={() => setSelectedId(null)} className="text-slate-400 hover:text-slate-600 p-1 hover:bg-slate-100 rounded-full transition-colors">
+              <X size={16} />
+            </button>
+          </div>
+          {selectedNode ? (
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-xs">
+              <div>
+                <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Estimate</p>
+                <p className="font-bold text-slate-700">
+                  {selected.estimateHours !== undefined ? `${selected.estimateHours}h` : 'Not set'} · {pluralDays(selectedNode.duration)}
+                </p>
+              </div>
+              <div>
+                <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Earliest</p>
+                <p className="font-bold text-slate-700">
+                  {selectedNode.duration > 0
+                    ? `${formatDay(DependencyGraph.offsetToDate(selectedNode.earliestStart))} – ${formatDay(DependencyGraph.offsetToDate(selectedNode.earliestFinish - 1))}`
+                    : 'Done'}
+                </p>
+              </div>
+              <div>
+                <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Due</p>
+                <p className="font-bold text-slate-700">{selected.dueDate ? formatDay(selected.dueDate) : 'No date'}</p>
+              </div>
+              <div>
+                <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Slack</p>
+                <p className={`font-bold ${selectedNode.slack < 0 ? 'text-red-600' : 'text-slate-700'}`}>
+                  {selectedNode.slack < 0 ? `${pluralDays(selectedNode.slack)} behind` : pluralDays(selectedNode.slack)}
+                </p>
+              </div>
+              <div>
+                <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Before project slips</p>
+                <p className={`font-bold ${(selectedNode.projectSlack ?? 0) <= 0 && projectDueDate ? 'text-red-600' : 'text-slate-700'}`}>
+                  {selectedNode.projectSlack === undefined
+                    ? 'No project date'
+                    : selectedNode.projectSlack < 0 ? `Already ${pluralDays(selectedNode.projectSlack)} over` : pluralDays(selectedNode.projectSlack)}
+                </p>
+              </div>
+            </div>
+          ) : (
+            <p className="text-xs text-red-600 font-medium">This task is part of, or waits on, a circular dependency and can't be scheduled.</p>
+          )}
+          {related && (
+            <p className="mt-3 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+              Waits on {related.upstream.size} · Blocks {related.downstream.size}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DependencyGraphView;
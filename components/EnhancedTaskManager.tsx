@@ -1,9 +1,11 @@
 // Enhanced Real-time Task Manager
 import React, { useState, useMemo, useEffect, useCallback } from 'react';
-import { Task, TaskStatus, Priority, Category } from '../types';
+import { Task, TaskStatus, Priority, UserSummary } from '../types';
 import { Plus, Trash2, Filter, Calendar, AlertTriangle, Link, Lock, X, Flag, Tag, Check, Bell, Clock, Edit2, Search, MoreHorizontal, ArrowUpDown, ArrowUp, ArrowDown, Save, Target, FileText, Rocket, Briefcase, GitBranch, User, Users, UserCheck } from 'lucide-react';
 import { format, isPast, isToday, isValid } from 'date-fns';
 import { io } from 'socket.io-client';
+import apiService from '../services/apiService';
+import { tasksFromRows, userSummaryFromRow } from '../services/mappers';
 import { TaskManager as TaskUtils } from '../utils/taskManager';
 
 interface EnhancedTaskManagerProps {
@@ -31,8 +33,9 @@ const EnhancedTaskManager: React.FC<EnhancedTaskManagerProps> = ({
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [socket, setSocket] = useState<any>(null);
   const [showAdminPanel, setShowAdminPanel] = useState(false);
-  const [users, setUsers] = useState<any[]>([]);
+  const [users, setUsers] = useState<UserSummary[]>([]);
   const [selectedUserForAssignment, setSelectedUserForAssignment] = useState<string>('');
+  const [selectedTaskForAssignment, setSelectedTaskForAssignment] = useState<string>('');
   
   // Sort State
   type SortOption = 'PRIORITY' | 'DUE_DATE' | 'CREATED';
@@ -47,7 +50,7 @@ const EnhancedTaskManager: React.FC<EnhancedTaskManagerProps> = ({
   const [newTaskTitle, setNewTaskTitle] = useState('');
   const [newTaskDesc, setNewTaskDesc] = useState('');
   const [newTaskPriority, setNewTaskPriority] = useState<Priority>(Priority.MEDIUM);
-  const [newTaskCategory, setNewTaskCategory] = useState<Category>(Category.COMPANY);
+  const [newTaskCategory, setNewTaskCategory] = useState('company');
   const [newTaskDueDate, setNewTaskDueDate] = useState(new Date().toISOString().split('T')[0]);
   const [newTaskDueTime, setNewTaskDueTime] = useState('');
   const [newTaskDependencies, setNewTaskDependencies] = useState<string[]>([]);
@@ -60,6 +63,7 @@ const EnhancedTaskManager: React.FC<EnhancedTaskManagerProps> = ({
     const socketInstance = io({
       path: '/socket.io',
       transports: ['websocket', 'polling'],
+      auth: { token: apiService.getAuthToken() },
       ...(window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1'
         ? { hostname: 'localhost', port: 3001, protocol: 'ws:' }
         : { hostname: window.location.hostname, port: window.location.port || undefined })
@@ -76,12 +80,6 @@ const EnhancedTaskManager: React.FC<EnhancedTaskManagerProps> = ({
       onNotification(data.message);
     });
     
-    // Listen for task updates
-    socketInstance.on('taskUpdated', (data) => {
-      console.log('🔄 Task updated:', data);
-      onNotification(data.message);
-    });
-    
     // Listen for task progress
     socketInstance.on('taskProgress', (data) => {
       console.log('📈 Task progress:', data);
@@ -110,7 +108,7 @@ const EnhancedTaskManager: React.FC<EnhancedTaskManagerProps> = ({
     setNewTaskTitle(task.title);
     setNewTaskDesc(task.description || '');
     setNewTaskPriority(task.priority);
-    setNewTaskCategory(task.category);
+    setNewTaskCategory(task.category || 'company');
     setNewTaskDueDate(task.dueDate);
     setNewTaskDueTime(task.dueTime || '');
     setNewTaskDependencies(task.dependencies || []);
@@ -153,8 +151,7 @@ const EnhancedTaskManager: React.FC<EnhancedTaskManagerProps> = ({
           dueDate: newTaskDueDate,
           dueTime: newTaskDueTime,
           dependencies: newTaskDependencies,
-          reminderMinutes: newTaskReminder > 0 ? newTaskReminder : undefined,
-          reminderSent: false
+          reminderMinutes: newTaskReminder > 0 ? newTaskReminder : undefined
         };
 
         await addTask(newTask);
@@ -190,7 +187,7 @@ const EnhancedTaskManager: React.FC<EnhancedTaskManagerProps> = ({
     setNewTaskTitle('');
     setNewTaskDesc('');
     setNewTaskPriority(Priority.MEDIUM);
-    setNewTaskCategory(Category.COMPANY);
+    setNewTaskCategory('company');
     setNewTaskDueDate(new Date().toISOString().split('T')[0]);
     setNewTaskDueTime('');
     setNewTaskDependencies([]);
@@ -209,15 +206,8 @@ const EnhancedTaskManager: React.FC<EnhancedTaskManagerProps> = ({
   // Fetch users for admin panel
   const fetchUsersForAssignment = useCallback(async () => {
     try {
-      const response = await fetch('/api/users', {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        }
-      });
-      const data = await response.json();
-      if (data.success) {
-        setUsers(data.data);
-      }
+      const rows = await apiService.getUsers();
+      setUsers(rows.map(userSummaryFromRow));
     } catch (error) {
       console.error('Error fetching users:', error);
     }
@@ -226,15 +216,8 @@ const EnhancedTaskManager: React.FC<EnhancedTaskManagerProps> = ({
   // Fetch tasks for assignment
   const fetchTasksForAssignment = useCallback(async () => {
     try {
-      const response = await fetch('/api/tasks', {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        }
-      });
-      const data = await response.json();
-      if (data.success) {
-        setTasksForAssignment(data.data);
-      }
+      const response = await apiService.getTasks();
+      setTasksForAssignment(tasksFromRows(response.data.tasks));
     } catch (error) {
       console.error('Error fetching tasks:', error);
     }
@@ -243,17 +226,8 @@ const EnhancedTaskManager: React.FC<EnhancedTaskManagerProps> = ({
   // Assign task to user
   const assignTaskToUser = async (taskId: string, userId: string) => {
     try {
-      const response = await fetch(`/api/admin/tasks/assign/${taskId}/to/${userId}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        }
-      });
-      const data = await response.json();
-      if (data.success) {
-        onNotification('Task assigned successfully!');
-      }
+      await apiService.assignTask(taskId, userId);
+      onNotification('Task assigned successfully!');
     } catch (error) {
       console.error('Error assigning task:', error);
     }
@@ -321,7 +295,7 @@ const EnhancedTaskManager: React.FC<EnhancedTaskManagerProps> = ({
   }, [tasks, searchQuery, statusFilter, categoryFilter, sortBy, sortOrder]);
 
   const statusOptions = ['ALL', ...Object.values(TaskStatus)];
-  const categoryOptions = ['ALL', ...Object.values(Category)];
+  const categoryOptions = ['ALL', 'personal', 'company'];
 
   return (
     <div className="p-4 md:p-8 h-full flex flex-col max-w-7xl mx-auto w-full">
@@ -402,6 +376,8 @@ const EnhancedTaskManager: React.FC<EnhancedTaskManagerProps> = ({
             <div>
               <label className="block text-sm font-semibold text-indigo-700 mb-2">Select Task</label>
               <select 
+                value={selectedTaskForAssignment}
+                onChange={(e) => setSelectedTaskForAssignment(e.target.value)}
                 className="w-full px-4 py-3 bg-white border-2 border-indigo-200 rounded-xl focus:ring-4 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all"
               >
                 <option value="">Choose a task...</option>
@@ -414,8 +390,8 @@ const EnhancedTaskManager: React.FC<EnhancedTaskManagerProps> = ({
           
           <div className="mt-4 flex justify-end">
             <button 
-              onClick={() => selectedUserForAssignment && assignTaskToUser(tasksForAssignment[0]?.id || '', selectedUserForAssignment)}
-              disabled={!selectedUserForAssignment}
+              onClick={() => assignTaskToUser(selectedTaskForAssignment, selectedUserForAssignment)}
+              disabled={!selectedUserForAssignment || !selectedTaskForAssignment}
               className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-3 rounded-xl disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center"
             >
               <UserCheck className="w-5 h-5 mr-2" />
@@ -557,7 +533,7 @@ const EnhancedTaskManager: React.FC<EnhancedTaskManagerProps> = ({
                     task.category === 'personal' ? 'bg-blue-100 text-blue-800' :
                     'bg-purple-100 text-purple-800'
                   }`}>
-                    {task.category.toUpperCase()}
+                    {(task.category || '').toUpperCase()}
                   </span>
                   
                   <span className={`px-3 py-1 rounded-full text-xs font-bold ${
@@ -721,7 +697,7 @@ const EnhancedTaskManager: React.FC<EnhancedTaskManagerProps> = ({
                               name="domain"
                               value={domain.value}
                               checked={newTaskCategory === domain.value}
-                              onChange={(e) => setNewTaskCategory(e.target.value as Category)}
+                              onChange={(e) => setNewTaskCategory(e.target.value)}
                               className="w-5 h-5 text-purple-600 focus:ring-purple-500"
                               disabled={isSaving}
                             />
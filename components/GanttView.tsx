@@ -0,0 +1,362 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Task, Project } from '../types';
+import { ChartGantt, ChevronDown, ChevronRight, Flag, Crosshair, Eye, EyeOff } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { StatusModel } from '../utils/statusModel';
+import {
+  GanttZoom, GanttSpan, GANTT_DAY_WIDTH, shiftDate, taskSpan, projectSpan, timelineRange, dayOffset, rangeDays, timelineTicks
+} from '../utils/gantt';
+
+interface GanttViewProps {
+  tasks: Task[];
+  projects: Project[];
+  updateTask: (id: string, updates: Partial<Task>) => void;
+  updateProject: (id: string, updates: Partial<Project>) => void;
+}
+
+type GanttRow =
+  | { kind: 'project'; id: string; project?: Project; label: string; span?: GanttSpan; taskCount: number }
+  | { kind: 'task'; id: string; task: Task; span: GanttSpan };
+
+// What is being dragged and by how many whole days so far
+interface DragState {
+  kind: 'task' | 'deadline' | 'milestone';
+  id: string;
+  projectId?: string;
+  originX: number;
+  days: number;
+}
+
+const ROW_HEIGHT = 40;
+const HEADER_HEIGHT = 44;
+const NO_PROJECT = 'unassigned';
+const ZOOMS: GanttZoom[] = ['day', 'week', 'month'];
+
+const todayString = () => format(new Date(), 'yyyy-MM-dd');
+
+// Projects with their milestones and tasks on a shared timeline. Task bars, project deadline flags and
+// milestone diamonds can be dragged along it to reschedule them; arrows follow Task.dependencies.
+const GanttView: React.FC<GanttViewProps> = ({ tasks, projects, updateTask, updateProject }) => {
+  const [zoom, setZoom] = useState<GanttZoom>('week');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [hideCompleted, setHideCompleted] = useState(false);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const dayWidth = GANTT_DAY_WIDTH[zoom];
+  const today = todayString();
+
+  const rows = useMemo(() => {
+    const visible = tasks.filter(t => t.dueDate && !(hideCompleted && StatusModel.isDone(t.status)));
+    const projectIds = new Set(projects.map(p => p.id));
+    const byDue = (a: Task, b: Task) => a.dueDate.localeCompare(b.dueDate);
+    const result: GanttRow[] = [];
+
+    [...projects].sort((a, b) => a.dueDate.localeCompare(b.dueDate)).forEach(project => {
+      const projectTasks = visible.filter(t => t.projectId === project.id).sort(byDue);
+      result.push({ kind: 'project', id: project.id, project, label: project.name, span: projectSpan(project, projectTasks), taskCount: projectTasks.length });
+      if (!collapsed.has(project.id)) {
+        projectTasks.forEach(task => result.push({ kind: 'task', id: task.id, task, span: taskSpan(task) }));
+      }
+    });
+
+    const loose = visible.filter(t => !t.projectId || !projectIds.has(t.projectId)).sort(byDue);
+    if (loose.length > 0) {
+      result.push({ kind: 'project', id: NO_PROJECT, label: 'No project', taskCount: loose.length });
+      if (!collapsed.has(NO_PROJECT)) {
+        loose.forEach(task => result.push({ kind: 'task', id: task.id, task, span: taskSpan(task) }));
+      }
+    }
+    return result;
+  }, [tasks, projects, collapsed, hideCompleted]);
+
+  const range = useMemo(() => timelineRange(
+    rows.flatMap(row => row.span ? [row.span] : []), zoom
+  ), [rows, zoom]);
+  const ticks = useMemo(() => timelineTicks(range, zoom), [range, zoom]);
+  const width = rangeDays(range) * dayWidth;
+  const height = rows.length * ROW_HEIGHT;
+
+  const xOf = (date: string) => dayOffset(range, date) * dayWidth;
+  const dragDays = (kind: DragState['kind'], id: string) => drag && drag.kind === kind && drag.id === id ? drag.days : 0;
+
+  const scrollToToday = () => {
+    const el = scrollRef.current;
+    if (el) el.scrollLeft = Math.max(0, xOf(today) - el.clientWidth / 3);
+  };
+
+  useEffect(scrollToToday, [zoom]);
+
+  // Pointer tracking lives on the window so a drag keeps going when the cursor leaves the bar
+  useEffect(() => {
+    if (!drag) return;
+    const handleMove = (e: PointerEvent) => {
+      const days = Math.round((e.clientX - drag.originX) / dayWidth);
+      if (days !== drag.days) setDrag({ ...drag, days });
+    };
+    const handleUp = () => {
+      if (drag.days !== 0) commitDrag(drag);
+      setDrag(null);
+    };
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [drag, dayWidth]);
+
+  const commitDrag = ({ kind, id, projectId, days }: DragState) => {
+    if (kind === 'task') {
+      const task = tasks.find(t => t.id === id);
+      if (task) updateTask(id, { dueDate: shiftDate(task.dueDate, days) });
+    } else if (kind === 'deadline') {
+      const project = projects.find(p => p.id === id);
+      if (project) updateProject(id, { dueDate: shiftDate(project.dueDate, days) });
+    } else {
+      const project = projects.find(p => p.id === projectId);
+      if (!project) return;
+      const milestones = (project.milestones || [])
+        .map(m => m.id === id ? { ...m, dueDate: shiftDate(m.dueDate, days) } : m)
+        .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
+      updateProject(project.id, { milestones });
+    }
+  };
+
+  const startDrag = (e: React.PointerEvent, kind: DragState['kind'], id: string, projectId?: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDrag({ kind, id, projectId, originX: e.clientX, days: 0 });
+  };
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  // Arrows run from the end of each dependency's bar to the start of the dependent task's bar
+  const arrows = useMemo(() => {
+    const rowIndex = new Map(rows.filter(r => r.kind === 'task').map(r => [r.id, rows.indexOf(r)]));
+    return rows.flatMap((row, index) => {
+      if (row.kind !== 'task') return [];
+      return (row.task.dependencies || []).filter(id => rowIndex.has(id)).map(depId => ({
+        key: `${depId}>${row.id}`,
+        from: { id: depId, index: rowIndex.get(depId)! },
+        to: { id: row.id, index }
+      }));
+    });
+  }, [rows]);
+
+  const rowSpan = (id: string) => {
+    const row = rows.find(r => r.kind === 'task' && r.id === id);
+    return row && row.span;
+  };
+
+  const barClasses = (task: Task) => {
+    if (StatusModel.isDone(task.status)) return 'bg-emerald-400/80 border-emerald-500';
+    if (task.dueDate < today) return 'bg-red-400 border-red-500';
+    return 'bg-indigo-500 border-indigo-600';
+  };
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden bg-slate-50/50">
+      <div className="px-4 md:px-8 py-6 border-b border-slate-200 bg-white flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900 flex items-center gap-3">
+            <ChartGantt size={26} className="text-indigo-500" />
+            Timeline
+          </h1>
+          <p className="text-sm text-slate-500 font-medium mt-1">Drag bars, deadline flags and milestones to reschedule.</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={() => setHideCompleted(!hideCompleted)}
+            className="flex items-center gap-2 px-3 py-2 rounded-xl border border-slate-200 text-xs font-bold uppercase tracking-widest text-slate-600 hover:bg-slate-50 transition-all"
+          >
+            {hideCompleted ? <EyeOff size={14} /> : <Eye size={14} />}
+            {hideCompleted ? 'Completed hidden' : 'Showing completed'}
+          </button>
+          <button
+            onClick={scrollToToday}
+            className="flex items-center gap-2 px-3 py-2 rounded-xl border border-slate-200 text-xs font-bold uppercase tracking-widest text-slate-600 hover:bg-slate-50 transition-all"
+          >
+            <Crosshair size={14} />
+            Today
+          </button>
+          <div className="flex bg-slate-100 rounded-xl p-1">
+            {ZOOMS.map(z => (
+              <button
+                key={z}
+                onClick={() => setZoom(z)}
+                className={`px-4 py-1.5 rounded-lg text-xs font-bold uppercase tracking-widest transition-all ${zoom === z ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {z}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-slate-400 font-bold uppercase tracking-widest text-xs">
+          Nothing scheduled yet
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto custom-scrollbar">
+          <div className={`flex min-h-full ${drag ? 'select-none cursor-grabbing' : ''}`}>
+            {/* Row labels */}
+            <div className="w-64 shrink-0 border-r border-slate-200 bg-white z-10">
+              <div style={{ height: HEADER_HEIGHT }} className="border-b border-slate-200 px-4 flex items-center text-[10px] font-black uppercase tracking-widest text-slate-400">
+                Projects & Tasks
+              </div>
+              {rows.map(row => row.kind === 'project' ? (
+                <button
+                  key={`p-${row.id}`}
+                  style={{ height: ROW_HEIGHT }}
+                  onClick={() => toggleCollapsed(row.id)}
+                  className="w-full px-3 flex items-center gap-2 border-b border-slate-100 bg-slate-50 text-left hover:bg-slate-100 transition-colors"
+                >
+                  {collapsed.has(row.id) ? <ChevronRight size={14} className="text-slate-400 shrink-0" /> : <ChevronDown size={14} className="text-slate-400 shrink-0" />}
+                  <span className="text-sm font-bold text-slate-900 truncate flex-1">{row.label}</span>
+                  <span className="text-[10px] font-bold text-slate-400">{row.taskCount}</span>
+                </button>
+              ) : (
+                <div key={`t-${row.id}`} style={{ height: ROW_HEIGHT }} className="pl-9 pr-3 flex items-center border-b border-slate-100">
+                  <span className={`text-xs font-bold truncate ${StatusModel.isDone(row.task.status) ? 'line-through text-slate-400' : 'text-slate-700'}`}>{row.task.title}</span>
+                </div>
+              ))}
+            </div>
+
+            {/* Timeline */}
+            <div ref={scrollRef} className="flex-1 overflow-x-auto custom-scrollbar">
+              <div style={{ width, minHeight: HEADER_HEIGHT + height }} className="relative">
+                {/* Axis and gridlines */}
+                <div style={{ height: HEADER_HEIGHT }} className="relative border-b border-slate-200 bg-white">
+                  {ticks.map(tick => (
+                    <div
+                      key={tick.date}
+                      style={{ left: xOf(tick.date), width: zoom === 'day' ? dayWidth : undefined }}
+                      className="absolute top-0 h-full flex flex-col justify-end pb-2 px-1"
+                    >
+                      {zoom === 'day' && tick.major && (
+                        <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 whitespace-nowrap">{format(parseISO(tick.date), 'MMM')}</span>
+                      )}
+                      <span className={`text-[10px] font-bold whitespace-nowrap ${tick.date === today ? 'text-red-500' : 'text-slate-400'}`}>{tick.label}</span>
+                    </div>
+                  ))}
+                </div>
+                {ticks.map(tick => (
+                  <div
+                    key={`g-${tick.date}`}
+                    style={{ left: xOf(tick.date), top: HEADER_HEIGHT, height }}
+                    className={`absolute w-px ${tick.major ? 'bg-slate-300' : 'bg-slate-100'}`}
+                  />
+                ))}
+
+                {/* Rows */}
+                {rows.map((row, index) => {
+                  const top = HEADER_HEIGHT + index * ROW_HEIGHT;
+                  if (row.kind === 'project') {
+                    const project = row.project;
+                    const deadline = project ? shiftDate(project.dueDate, dragDays('deadline', project.id)) : undefined;
+                    return (
+                      <div key={`p-${row.id}`} style={{ top, height: ROW_HEIGHT, width }} className="absolute left-0 bg-slate-50/70 border-b border-slate-100">
+                        {row.span && (
+                          <div
+                            style={{ left: xOf(row.span.start), width: (dayOffset(range, row.span.end) - dayOffset(range, row.span.start) + 1) * dayWidth }}
+                            className="absolute top-1/2 -translate-y-1/2 h-2 rounded-full bg-slate-800/80"
+                          />
+                        )}
+                        {project && (project.milestones || []).map(m => {
+                          const date = shiftDate(m.dueDate, dragDays('milestone', m.id));
+                          return (
+                            <div
+                              key={m.id}
+                              title={`${m.text} · ${format(parseISO(date), 'MMM d')}`}
+                              onPointerDown={(e) => startDrag(e, 'milestone', m.id, project.id)}
+                              style={{ left: xOf(date) + dayWidth / 2 - 7 }}
+                              className={`absolute top-1/2 -translate-y-1/2 w-3.5 h-3.5 rotate-45 border-2 cursor-grab shadow-sm ${m.completed ? 'bg-emerald-400 border-emerald-600' : 'bg-amber-400 border-amber-600'}`}
+                            />
+                          );
+                        })}
+                        {project && deadline && (
+                          <div
+                            title={`${project.name} due ${format(parseISO(deadline), 'MMM d, yyyy')}`}
+                            onPointerDown={(e) => startDrag(e, 'deadline', project.id)}
+                            style={{ left: xOf(deadline) + dayWidth / 2 - 9 }}
+                            className="absolute top-1/2 -translate-y-1/2 w-[18px] h-[18px] rounded-md bg-slate-900 text-white flex items-center justify-center cursor-grab shadow"
+                          >
+                            <Flag size={10} fill="currentColor" />
+                          </div>
+                        )}
+                      </div>
+                    );
+                  }
+
+                  const offset = dragDays('task', row.task.id);
+                  const start = shiftDate(row.span.start, offset);
+                  const end = shiftDate(row.span.end, offset);
+                  const barWidth = (dayOffset(range, end) - dayOffset(range, start) + 1) * dayWidth;
+                  return (
+                    <div key={`t-${row.id}`} style={{ top, height: ROW_HEIGHT, width }} className="absolute left-0 border-b border-slate-100">
+                      <div
+                        title={`${row.task.title} · due ${format(parseISO(end), 'MMM d, yyyy')}`}
+                        onPointerDown={(e) => startDrag(e, 'task', row.task.id)}
+                        style={{ left: xOf(start), width: Math.max(barWidth, 6) }}
+                        className={`absolute top-2 bottom-2 rounded-lg border shadow-sm cursor-grab overflow-hidden px-2 flex items-center ${barClasses(row.task)} ${offset !== 0 ? 'ring-2 ring-indigo-300' : ''}`}
+                      >
+                        {barWidth > 80 && <span className="text-[10px] font-bold text-white truncate">{row.task.title}</span>}
+                      </div>
+                    </div>
+                  );
+                })}
+
+                {/* Dependency arrows */}
+                <svg width={width} height={height} style={{ top: HEADER_HEIGHT }} className="absolute left-0 pointer-events-none">
+                  <defs>
+                    <marker id="gantt-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                      <path d="M 0 0 L 10 5 L 0 10 z" fill="#64748b" />
+                    </marker>
+                  </defs>
+                  {arrows.map(arrow => {
+                    const fromSpan = rowSpan(arrow.from.id)!;
+                    const toSpan = rowSpan(arrow.to.id)!;
+                    const x1 = xOf(shiftDate(fromSpan.end, dragDays('task', arrow.from.id))) + dayWidth;
+                    const y1 = arrow.from.index * ROW_HEIGHT + ROW_HEIGHT / 2;
+                    const x2 = xOf(shiftDate(toSpan.start, dragDays('task', arrow.to.id)));
+                    const y2 = arrow.to.index * ROW_HEIGHT + ROW_HEIGHT / 2;
+                    const bend = Math.max(16, Math.abs(x2 - x1) / 2);
+                    // A dependency that finishes after its dependent starts is drawn in red
+                    const late = x1 > x2;
+                    return (
+                      <path
+                        key={arrow.key}
+                        d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                        fill="none"
+                        stroke={late ? '#ef4444' : '#64748b'}
+                        strokeWidth={1.5}
+                        strokeDasharray={late ? '4 3' : undefined}
+                        markerEnd="url(#gantt-arrow)"
+                      />
+                    );
+                  })}
+                </svg>
+
+                {/* Today */}
+                <div
+                  style={{ left: xOf(today) + dayWidth / 2, top: 0, height: HEADER_HEIGHT + height }}
+                  className="absolute w-0.5 bg-red-500/70 pointer-events-none z-20"
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GanttView;
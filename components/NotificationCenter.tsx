@@ -1,43 +1,62 @@
-
 import React, { useState } from 'react';
-import { Bell, X, Check, Clock, AlertTriangle } from 'lucide-react';
-import { format } from 'date-fns';
-
-interface Notification {
-    id: string;
-    title: string;
-    message: string;
-    time: Date;
-    type: 'deadline' | 'reminder' | 'system';
-    read: boolean;
-}
+import { Bell, X, Check, CheckCheck, Clock, AlertTriangle, UserPlus, MessageSquare, ArrowRightLeft } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { AppNotification, NotificationType } from '../types';
 
 interface NotificationCenterProps {
-    notifications: string[];
-    onClear: (index: number) => void;
+    notifications: AppNotification[];
+    unreadCount: number;
+    onOpen: (notification: AppNotification) => void;
+    onMarkRead: (id: string, read: boolean) => void;
+    onMarkAllRead: () => void;
+    onDelete: (id: string) => void;
+    // Pass both to let the parent open the inbox (e.g. from the Sidebar)
+    isOpen?: boolean;
+    onOpenChange?: (open: boolean) => void;
 }
 
-const NotificationCenter: React.FC<NotificationCenterProps> = ({ notifications, onClear }) => {
-    const [isOpen, setIsOpen] = useState(false);
+const TYPE_STYLES: Record<NotificationType, { icon: React.ElementType; className: string }> = {
+    reminder: { icon: Clock, className: 'bg-indigo-50 text-indigo-600' },
+    deadline: { icon: AlertTriangle, className: 'bg-amber-50 text-amber-600' },
+    assignment: { icon: UserPlus, className: 'bg-emerald-50 text-emerald-600' },
+    comment: { icon: MessageSquare, className: 'bg-sky-50 text-sky-600' },
+    status_change: { icon: ArrowRightLeft, className: 'bg-violet-50 text-violet-600' },
+    system: { icon: Bell, className: 'bg-slate-100 text-slate-500' }
+};
+
+const NotificationCenter: React.FC<NotificationCenterProps> = ({
+    notifications, unreadCount, onOpen, onMarkRead, onMarkAllRead, onDelete, isOpen: controlledOpen, onOpenChange
+}) => {
+    const [localOpen, setLocalOpen] = useState(false);
+    const isOpen = controlledOpen ?? localOpen;
+    const setIsOpen = (open: boolean) => {
+        setLocalOpen(open);
+        onOpenChange?.(open);
+    };
+
+    const handleOpen = (notification: AppNotification) => {
+        setIsOpen(false);
+        onOpen(notification);
+    };
 
     return (
         <div className="relative">
-            <button 
+            <button
                 onClick={() => setIsOpen(!isOpen)}
                 className="relative p-2.5 bg-white border border-slate-200 text-slate-600 rounded-xl hover:bg-slate-50 transition-all shadow-sm active:scale-95 group"
             >
-                <Bell size={20} className={notifications.length > 0 ? 'animate-bounce' : ''} />
-                {notifications.length > 0 && (
-                    <span className="absolute -top-1 -right-1 w-5 h-5 bg-red-500 text-white text-[10px] font-black flex items-center justify-center rounded-full border-2 border-white animate-pulse">
-                        {notifications.length}
+                <Bell size={20} className={unreadCount > 0 ? 'animate-bounce' : ''} />
+                {unreadCount > 0 && (
+                    <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 bg-red-500 text-white text-[10px] font-black flex items-center justify-center rounded-full border-2 border-white animate-pulse">
+                        {unreadCount > 99 ? '99+' : unreadCount}
                     </span>
                 )}
             </button>
 
             {isOpen && (
                 <>
-                    <div 
-                        className="fixed inset-0 z-40" 
+                    <div
+                        className="fixed inset-0 z-40"
                         onClick={() => setIsOpen(false)}
                     />
                     <div className="absolute right-0 mt-3 w-80 md:w-96 bg-white border border-slate-200 rounded-[2rem] shadow-2xl z-50 overflow-hidden animate-fade-in-up">
@@ -47,7 +66,7 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ notifications,
                                 Neural Feed
                             </h3>
                             <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest bg-white px-2 py-0.5 rounded-full border border-slate-200">
-                                {notifications.length} Units
+                                {unreadCount} Unread
                             </span>
                         </div>
 
@@ -61,33 +80,56 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ notifications,
                                 </div>
                             ) : (
                                 <div className="p-2 space-y-1">
-                                    {notifications.map((notif, idx) => (
-                                        <div key={idx} className="group flex items-start gap-4 p-4 hover:bg-slate-50 rounded-2xl transition-all relative">
-                                            <div className="p-2 bg-amber-50 text-amber-600 rounded-xl shadow-inner mt-0.5">
-                                                <AlertTriangle size={16} />
-                                            </div>
-                                            <div className="flex-1 pr-6">
-                                                <p className="text-[13px] text-slate-700 font-medium leading-relaxed">{notif}</p>
-                                                <div className="flex items-center gap-2 mt-1.5 text-[9px] font-bold text-slate-400 uppercase tracking-widest">
-                                                    <Clock size={10} />
-                                                    Recent Alert
+                                    {notifications.map(notif => {
+                                        const { icon: Icon, className } = TYPE_STYLES[notif.type];
+                                        return (
+                                            <div
+                                                key={notif.id}
+                                                onClick={() => handleOpen(notif)}
+                                                className={`group flex items-start gap-4 p-4 rounded-2xl transition-all relative cursor-pointer ${notif.read ? 'hover:bg-slate-50' : 'bg-indigo-50/40 hover:bg-indigo-50/70'}`}
+                                            >
+                                                <div className={`p-2 rounded-xl shadow-inner mt-0.5 ${className}`}>
+                                                    <Icon size={16} />
+                                                </div>
+                                                <div className="flex-1 pr-12 min-w-0">
+                                                    <p className={`text-[13px] truncate ${notif.read ? 'text-slate-600 font-medium' : 'text-slate-900 font-bold'}`}>{notif.title}</p>
+                                                    <p className="text-[12px] text-slate-500 leading-relaxed mt-0.5">{notif.message}</p>
+                                                    <div className="flex items-center gap-2 mt-1.5 text-[9px] font-bold text-slate-400 uppercase tracking-widest">
+                                                        {!notif.read && <span className="w-1.5 h-1.5 rounded-full bg-indigo-500"></span>}
+                                                        {formatDistanceToNow(new Date(notif.createdAt), { addSuffix: true })}
+                                                    </div>
+                                                </div>
+                                                <div className="absolute top-4 right-4 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-all">
+                                                    <button
+                                                        onClick={(e) => { e.stopPropagation(); onMarkRead(notif.id, !notif.read); }}
+                                                        title={notif.read ? 'Mark as unread' : 'Mark as read'}
+                                                        className="text-slate-300 hover:text-indigo-600 p-1 rounded-lg hover:bg-white transition-all"
+                                                    >
+                                                        <Check size={14} />
+                                                    </button>
+                                                    <button
+                                                        onClick={(e) => { e.stopPropagation(); onDelete(notif.id); }}
+                                                        title="Delete"
+                                                        className="text-slate-300 hover:text-red-500 p-1 rounded-lg hover:bg-white transition-all"
+                                                    >
+                                                        <X size={14} />
+                                                    </button>
                                                 </div>
                                             </div>
-                                            <button 
-                                                onClick={() => onClear(idx)}
-                                                className="absolute top-4 right-4 text-slate-300 hover:text-red-500 p-1 rounded-lg hover:bg-white transition-all opacity-0 group-hover:opacity-100"
-                                            >
-                                                <X size={14} />
-                                            </button>
-                                        </div>
-                                    ))}
+                                        );
+                                    })}
                                 </div>
                             )}
                         </div>
 
                         <div className="p-4 bg-slate-50 border-t border-slate-100 text-center">
-                            <button className="text-[10px] font-bold text-slate-400 uppercase tracking-widest hover:text-slate-900 transition-colors">
-                                View Intelligence Logs
+                            <button
+                                onClick={onMarkAllRead}
+                                disabled={unreadCount === 0}
+                                className="inline-flex items-center gap-1.5 text-[10px] font-bold text-slate-400 uppercase tracking-widest hover:text-slate-900 transition-colors disabled:opacity-40 disabled:hover:text-slate-400"
+                            >
+                                <CheckCheck size={12} />
+                                Mark All Read
                             </button>
                         </div>
                     </div>
@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import { NotificationPreferences, NotificationEventType, NotificationChannel, DigestFrequency } from '../types';
+import apiService from '../services/apiService';
+import { notificationPreferencesFromRow, notificationPreferencesToPayload } from '../services/mappers';
+import { Loader2 } from 'lucide-react';
+
+const EVENT_LABELS: Record<NotificationEventType, { label: string; hint: string }> = {
+  reminder: { label: 'Reminders', hint: 'Before a task with a reminder is due' },
+  deadline: { label: 'Deadlines', hint: 'Daily while an open task is due within four days' },
+  assignment: { label: 'Assignments', hint: 'When a task is assigned to you' },
+  comment: { label: 'Comments', hint: '@mentions and progress notes' },
+  status_change: { label: 'Status changes', hint: 'Tasks you own or work on moving along or getting unblocked' }
+};
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  inApp: 'Inbox',
+  email: 'Email',
+  push: 'Push'
+};
+
+const DIGEST_OPTIONS: { value: DigestFrequency; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' }
+];
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const Toggle: React.FC<{ checked: boolean; disabled?: boolean; onChange: () => void; label: string }> = ({ checked, disabled, onChange, label }) => (
+  <button
+    type="button"
+    role="switch"
+    aria-checked={checked}
+    aria-label={label}
+    disabled={disabled}
+    onClick={onChange}
+    className={`relative w-10 h-6 rounded-full transition-colors disabled:opacity-40 ${checked ? 'bg-slate-900' : 'bg-slate-200'}`}
+  >
+    <span className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full shadow transition-transform ${checked ? 'translate-x-4' : ''}`} />
+  </button>
+);
+
+// Which events reach the user on which channel, plus quiet hours and the digest email.
+// Every change is saved straight away and rolled back if the server rejects it.
+const NotificationSettings: React.FC = () => {
+  const [prefs, setPrefs] = useState<NotificationPreferences | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    apiService.getNotificationPreferences()
+      .then(row => setPrefs(notificationPreferencesFromRow(row)))
+      .catch((err: any) => setError(err.message || 'Could not load notification settings'));
+  }, []);
+
+  const save = async (changes: Partial<NotificationPreferences>) => {
+    if (!prefs) return;
+    const previous = prefs;
+    setPrefs({ ...prefs, ...changes });
+    setError(null);
+    setIsSaving(true);
+    try {
+      const row = await apiService.updateNotificationPreferences(notificationPreferencesToPayload(changes));
+      setPrefs(notificationPreferencesFromRow(row));
+    } catch (err: any) {
+      setPrefs(previous);
+      setError(err.message || 'Could not save notification settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!prefs) {
+    return error
+      ? <p className="text-xs font-bold text-red-600">{error}</p>
+      : <div className="flex justify-center p-6 text-slate-300"><Loader2 size={20} className="animate-spin" /></div>;
+  }
+
+  const toggleChannel = (type: NotificationEventType, channel: NotificationChannel) => {
+    save({ events: { ...prefs.events, [type]: { ...prefs.events[type], [channel]: !prefs.events[type][channel] } } });
+  };
+
+  const timeInput = (value: string, disabled: boolean, onChange: (value: string) => void) => (
+    <input
+      type="time"
+      value={value}
+      disabled={disabled}
+      onChange={(e) => e.target.value && onChange(e.target.value)}
+      className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-bold focus:outline-none focus:ring-2 focus:ring-slate-900 disabled:opacity-40"
+    />
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-sm font-black text-slate-900">Email & push notifications</p>
+          <p className="text-xs text-slate-400 font-medium">Turn off to keep everything in the inbox only</p>
+        </div>
+        <Toggle checked={prefs.enabled} disabled={isSaving} onChange={() => save({ enabled: !prefs.enabled })} label="Email and push notifications" />
+      </div>
+
+      <div className="border border-slate-100 rounded-2xl overflow-hidden">
+        <div className="grid grid-cols-[1fr_repeat(3,4rem)] items-center px-4 py-2 bg-slate-50 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+          <span>Event</span>
+          {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map(channel => (
+            <span key={channel} className="text-center">{CHANNEL_LABELS[channel]}</span>
+          ))}
+        </div>
+        {(Object.keys(EVENT_LABELS) as NotificationEventType[]).map(type => (
+          <div key={type} className="grid grid-cols-[1fr_repeat(3,4rem)] items-center px-4 py-3 border-t border-slate-100">
+            <div>
+              <p className="text-sm font-bold text-slate-700">{EVENT_LABELS[type].label}</p>
+              <p className="text-[11px] text-slate-400 font-medium">{EVENT_LABELS[type].hint}</p>
+            </div>
+            {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map(channel => (
+              <div key={channel} className="flex justify-center">
+                <Toggle
+                  checked={prefs.events[type][channel]}
+                  disabled={isSaving || (channel !== 'inApp' && !prefs.enabled)}
+                  onChange={() => toggleChannel(type, channel)}
+                  label={`${EVENT_LABELS[type].label} by ${CHANNEL_LABELS[channel]}`}
+                />
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <p className="text-sm font-black text-slate-900">Quiet hours</p>
+          <p className="text-xs text-slate-400 font-medium">Email and push wait until this window ends; the inbox still fills up</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {timeInput(prefs.quietHours.start, isSaving || !prefs.quietHours.enabled, (start) => save({ quietHours: { ...prefs.quietHours, start } }))}
+          <span className="text-xs font-bold text-slate-400">to</span>
+          {timeInput(prefs.quietHours.end, isSaving || !prefs.quietHours.enabled, (end) => save({ quietHours: { ...prefs.quietHours, end } }))}
+          <Toggle
+            checked={prefs.quietHours.enabled}
+            disabled={isSaving}
+            onChange={() => save({ quietHours: { ...prefs.quietHours, enabled: !prefs.quietHours.enabled } })}
+            label="Quiet hours"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <p className="text-sm font-black text-slate-900">Digest</p>
+          <p className="text-xs text-slate-400 font-medium">Overdue and upcoming work, new assignments and project progress in one email, instead of one per event</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {prefs.digest.frequency === 'weekly' && (
+            <select
+              value={prefs.digest.weekday}
+              disabled={isSaving}
+              onChange={(e) => save({ digest: { ...prefs.digest, weekday: Number(e.target.value) } })}
+              className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-bold focus:outline-none focus:ring-2 focus:ring-slate-900 disabled:opacity-40"
+            >
+              {WEEKDAYS.map((day, i) => <option key={day} value={i}>{day}</option>)}
+            </select>
+          )}
+          {timeInput(prefs.digest.time, isSaving || prefs.digest.frequency === 'off', (time) => save({ digest: { ...prefs.digest, time } }))}
+          <div className="flex bg-slate-100 rounded-xl p-1">
+            {DIGEST_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                type="button"
+                disabled={isSaving || !prefs.enabled}
+                onClick={() => save({ digest: { ...prefs.digest, frequency: option.value } })}
+                className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-40 ${prefs.digest.frequency === option.value ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400 hover:text-slate-700'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {error && <p className="text-xs font-bold text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default NotificationSettings;
@@ -1,11 +1,15 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { Project, Category, Task, TaskStatus, Priority, ProjectMilestone } from '../types';
-import { Briefcase, User, Plus, Calendar, ArrowLeft, Trash2, Edit2, X, FolderPlus, Tag, AlignLeft, Save, Flag, CheckSquare, ClipboardList, Check, Trophy, Search, Clock } from 'lucide-react';
+import { Project, Category, Task, TaskStatus, TaskStatusKey, Priority, ProjectMilestone } from '../types';
+import { Briefcase, Plus, Calendar, ArrowLeft, Trash2, Edit2, X, FolderPlus, Tag, AlignLeft, Save, Flag, CheckSquare, ClipboardList, Check, Trophy, Search, Clock } from 'lucide-react';
 import { format, isPast, isToday } from 'date-fns';
+import { StatusModel } from '../utils/statusModel';
+import CategoryBadge, { categoryIcon } from './CategoryBadge';
+import DependencyGraphView from './DependencyGraphView';
 
 interface ProjectManagerProps {
   projects: Project[];
+  categories: Category[];
   addProject: (project: Project) => void;
   updateProject: (id: string, updates: Partial<Project>) => void;
   removeProject: (id: string) => void;
@@ -13,12 +17,16 @@ interface ProjectManagerProps {
   addTask: (task: Task) => void;
   updateTask: (id: string, updates: Partial<Task>) => void;
   removeTask: (id: string) => void;
-  updateTaskStatus: (id: string, status: TaskStatus) => void;
+  updateTaskStatus: (id: string, status: TaskStatusKey) => void;
   initialSelectedId?: string | null;
+  // Workspace guests only read; deleting a project takes a workspace admin
+  canEdit?: boolean;
+  canDelete?: boolean;
 }
 
 const ProjectManager: React.FC<ProjectManagerProps> = ({ 
   projects, 
+  categories,
   addProject, 
   updateProject, 
   removeProject, 
@@ -27,7 +35,9 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
   updateTask,
   removeTask,
   updateTaskStatus,
-  initialSelectedId
+  initialSelectedId,
+  canEdit = true,
+  canDelete = true
 }) => {
   // Views: 'LIST' | 'DETAIL'
   const [selectedProjectId, setSelectedProjectId] = useState<string | null>(initialSelectedId || null);
@@ -53,7 +63,7 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
   // Form State for Project
   const [formName, setFormName] = useState('');
   const [formDesc, setFormDesc] = useState('');
-  const [formCategory, setFormCategory] = useState<Category>(Category.COMPANY);
+  const [formCategory, setFormCategory] = useState('');
   const [formPriority, setFormPriority] = useState<Priority>(Priority.MEDIUM);
   const [formDueDate, setFormDueDate] = useState('');
 
@@ -85,7 +95,7 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
 
   const progress = useMemo(() => {
     if (projectTasks.length === 0) return selectedProject?.progress || 0;
-    const completed = projectTasks.filter(t => t.status === TaskStatus.DONE).length;
+    const completed = projectTasks.filter(t => StatusModel.isDone(t.status)).length;
     return Math.round((completed / projectTasks.length) * 100);
   }, [projectTasks, selectedProject]);
 
@@ -93,7 +103,7 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
   const openCreateModal = () => {
     setFormName('');
     setFormDesc('');
-    setFormCategory(Category.COMPANY);
+    setFormCategory(categories[0]?.id || '');
     setFormPriority(Priority.MEDIUM);
     setFormDueDate('');
     setIsCreateModalOpen(true);
@@ -103,7 +113,7 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
     if (!selectedProject) return;
     setFormName(selectedProject.name);
     setFormDesc(selectedProject.description);
-    setFormCategory(selectedProject.category);
+    setFormCategory(selectedProject.category || '');
     setFormPriority(selectedProject.priority);
     setFormDueDate(selectedProject.dueDate);
     setIsEditModalOpen(true);
@@ -117,7 +127,7 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
       id: Date.now().toString(),
       name: formName,
       description: formDesc,
-      category: formCategory,
+      category: formCategory || undefined,
       priority: formPriority,
       dueDate: formDueDate || new Date().toISOString().split('T')[0],
       progress: 0,
@@ -135,7 +145,7 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
     updateProject(selectedProject.id, {
       name: formName,
       description: formDesc,
-      category: formCategory,
+      category: formCategory || undefined,
       priority: formPriority,
       dueDate: formDueDate
     });
@@ -251,7 +261,7 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
 
   if (selectedProject) {
     const overdueMilestones = (selectedProject.milestones || []).filter(m => !m.completed && isPast(new Date(m.dueDate)) && !isToday(new Date(m.dueDate))).length;
-    const pendingTasks = projectTasks.filter(t => t.status !== TaskStatus.DONE).length;
+    const pendingTasks = projectTasks.filter(t => !StatusModel.isDone(t.status)).length;
 
     return (
       <div className="flex-1 overflow-y-auto bg-slate-50/50 custom-scrollbar">
@@ -284,28 +294,29 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
                       <p className="text-xs font-black text-slate-700 uppercase">{pendingTasks} Active Units</p>
                    </div>
                 </div>
-                <button 
-                  onClick={openEditModal}
-                  className="p-2.5 bg-slate-50 text-slate-600 hover:bg-white hover:shadow-md border border-slate-200 rounded-xl transition-all active:scale-95"
-                >
-                  <Edit2 size={18} />
-                </button>
-                <button 
-                  onClick={handleDeleteProject}
-                  className="p-2.5 bg-red-50 text-red-600 hover:bg-white hover:shadow-md border border-red-100 rounded-xl transition-all active:scale-95"
-                >
-                  <Trash2 size={18} />
-                </button>
+                {canEdit && (
+                  <button 
+                    onClick={openEditModal}
+                    className="p-2.5 bg-slate-50 text-slate-600 hover:bg-white hover:shadow-md border border-slate-200 rounded-xl transition-all active:scale-95"
+                  >
+                    <Edit2 size={18} />
+                  </button>
+                )}
+                {canDelete && (
+                  <button 
+                    onClick={handleDeleteProject}
+                    className="p-2.5 bg-red-50 text-red-600 hover:bg-white hover:shadow-md border border-red-100 rounded-xl transition-all active:scale-95"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                )}
               </div>
             </div>
 
             <div className="flex flex-col lg:flex-row gap-8 items-end">
               <div className="flex-1 min-w-0">
                  <div className="flex flex-wrap items-center gap-3 mb-4">
-                    <span className={`px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest border flex items-center gap-1.5 ${selectedProject.category === Category.COMPANY ? 'bg-indigo-50 text-indigo-700 border-indigo-100' : 'bg-emerald-50 text-emerald-700 border-emerald-100'}`}>
-                      {selectedProject.category === Category.COMPANY ? <Briefcase size={12} /> : <User size={12} />}
-                      {selectedProject.category}
-                    </span>
+                    <CategoryBadge categoryId={selectedProject.category} categories={categories} />
                     <span className={`px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest border flex items-center gap-1.5 ${getPriorityColor(selectedProject.priority)}`}>
                       <Flag size={12} fill="currentColor" />
                       {selectedProject.priority} Priority
@@ -336,7 +347,7 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
                         <div className="grid grid-cols-2 gap-4">
                            <div className="p-3 bg-white/5 rounded-2xl border border-white/5">
                               <p className="text-[10px] font-bold text-slate-400 uppercase tracking-tighter mb-1">Finalized</p>
-                              <p className="text-lg font-bold">{projectTasks.filter(t => t.status === TaskStatus.DONE).length}</p>
+                              <p className="text-lg font-bold">{projectTasks.filter(t => StatusModel.isDone(t.status)).length}</p>
                            </div>
                            <div className="p-3 bg-white/5 rounded-2xl border border-white/5">
                               <p className="text-[10px] font-bold text-slate-400 uppercase tracking-tighter mb-1">In Queue</p>
@@ -374,6 +385,7 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
                         <div key={milestone.id} className={`group flex items-start gap-3 p-3.5 rounded-xl border transition-all ${milestone.completed ? 'bg-slate-50 border-slate-100' : overdue ? 'bg-red-50 border-red-100 shadow-sm' : 'bg-white border-slate-200 hover:border-slate-300 shadow-sm'}`}>
                           <button 
                             onClick={() => toggleMilestone(milestone.id)}
+                            disabled={!canEdit}
                             className={`w-5 h-5 mt-0.5 rounded-full border flex items-center justify-center transition-all shrink-0 ${milestone.completed ? 'bg-emerald-500 border-emerald-500 text-white' : 'bg-white border-slate-300 hover:border-slate-900'}`}
                           >
                              {milestone.completed && <Check size={12} strokeWidth={3} />}
@@ -390,41 +402,45 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
                                 {overdue && <span className="text-[10px] font-black uppercase text-red-600 bg-red-100 px-1 rounded animate-pulse">Overdue</span>}
                              </div>
                           </div>
-                          <button 
-                            onClick={() => deleteMilestone(milestone.id)}
-                            className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all p-1"
-                          >
-                             <Trash2 size={16} />
-                          </button>
+                          {canEdit && (
+                            <button 
+                              onClick={() => deleteMilestone(milestone.id)}
+                              className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all p-1"
+                            >
+                               <Trash2 size={16} />
+                            </button>
+                          )}
                         </div>
                       );
                    })}
                 </div>
 
-                <form onSubmit={handleAddMilestone} className="space-y-2 mt-auto pt-4 border-t border-slate-100">
-                   <div className="flex gap-2">
-                      <input 
-                        type="text" 
-                        placeholder="Milestone title..."
-                        className="flex-1 bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm font-medium text-slate-800 placeholder:text-slate-400 outline-none focus:ring-2 focus:ring-slate-900/10 focus:border-slate-400 transition-all"
-                        value={newMilestoneText}
-                        onChange={(e) => setNewMilestoneText(e.target.value)}
-                      />
-                      <input 
-                        type="date" 
-                        className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm font-medium text-slate-800 outline-none focus:ring-2 focus:ring-slate-900/10 focus:border-slate-400 transition-all w-36"
-                        value={newMilestoneDate}
-                        onChange={(e) => setNewMilestoneDate(e.target.value)}
-                      />
-                   </div>
-                   <button 
-                      type="submit"
-                      disabled={!newMilestoneText.trim() || !newMilestoneDate}
-                      className="w-full bg-slate-900 text-white py-2 rounded-xl text-xs font-bold hover:bg-black transition-all disabled:opacity-50 flex items-center justify-center gap-2 shadow-sm"
-                   >
-                      <Plus size={14} strokeWidth={3} /> Add Milestone
-                   </button>
-                </form>
+                {canEdit && (
+                  <form onSubmit={handleAddMilestone} className="space-y-2 mt-auto pt-4 border-t border-slate-100">
+                     <div className="flex gap-2">
+                        <input 
+                          type="text" 
+                          placeholder="Milestone title..."
+                          className="flex-1 bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm font-medium text-slate-800 placeholder:text-slate-400 outline-none focus:ring-2 focus:ring-slate-900/10 focus:border-slate-400 transition-all"
+                          value={newMilestoneText}
+                          onChange={(e) => setNewMilestoneText(e.target.value)}
+                        />
+                        <input 
+                          type="date" 
+                          className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm font-medium text-slate-800 outline-none focus:ring-2 focus:ring-slate-900/10 focus:border-slate-400 transition-all w-36"
+                          value={newMilestoneDate}
+                          onChange={(e) => setNewMilestoneDate(e.target.value)}
+                        />
+                     </div>
+                     <button 
+                        type="submit"
+                        disabled={!newMilestoneText.trim() || !newMilestoneDate}
+                        className="w-full bg-slate-900 text-white py-2 rounded-xl text-xs font-bold hover:bg-black transition-all disabled:opacity-50 flex items-center justify-center gap-2 shadow-sm"
+                     >
+                        <Plus size={14} strokeWidth={3} /> Add Milestone
+                     </button>
+                  </form>
+                )}
             </div>
 
             <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-6 flex flex-col">
@@ -447,6 +463,7 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
                       <div key={criterion.id} className={`group flex items-center gap-3 p-3.5 rounded-xl border transition-all ${criterion.completed ? 'bg-slate-50 border-slate-100' : 'bg-white border-slate-200 hover:border-slate-300 shadow-sm'}`}>
                          <button 
                            onClick={() => toggleCriterion(criterion.id)}
+                           disabled={!canEdit}
                            className={`w-5 h-5 rounded border flex items-center justify-center transition-all shrink-0 ${criterion.completed ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-300 hover:border-indigo-500'}`}
                          >
                             {criterion.completed && <Check size={12} strokeWidth={3} />}
@@ -454,35 +471,41 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
                          <span className={`flex-1 text-sm font-bold transition-colors ${criterion.completed ? 'text-slate-400 line-through' : 'text-slate-800'}`}>
                             {criterion.text}
                          </span>
-                         <button 
-                           onClick={() => deleteCriterion(criterion.id)}
-                           className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all p-1"
-                         >
-                            <Trash2 size={16} />
-                         </button>
+                         {canEdit && (
+                           <button 
+                             onClick={() => deleteCriterion(criterion.id)}
+                             className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all p-1"
+                           >
+                              <Trash2 size={16} />
+                           </button>
+                         )}
                       </div>
                    ))}
                 </div>
 
-                <form onSubmit={handleAddCriterion} className="relative group mt-auto pt-4 border-t border-slate-100">
-                   <input 
-                      type="text" 
-                      placeholder="Add a requirement..."
-                      className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2.5 text-sm font-medium text-slate-800 placeholder:text-slate-400 outline-none focus:ring-2 focus:ring-slate-900/10 focus:border-slate-400 transition-all pr-12"
-                      value={newCriterion}
-                      onChange={(e) => setNewCriterion(e.target.value)}
-                   />
-                   <button 
-                      type="submit"
-                      disabled={!newCriterion.trim()}
-                      className="absolute right-2 top-[calc(1rem+4px+50%)] -translate-y-1/2 bg-white p-1 rounded-lg text-slate-400 hover:text-indigo-600 disabled:opacity-0 transition-all shadow-sm border border-slate-100"
-                   >
-                      <Plus size={18} />
-                   </button>
-                </form>
+                {canEdit && (
+                  <form onSubmit={handleAddCriterion} className="relative group mt-auto pt-4 border-t border-slate-100">
+                     <input 
+                        type="text" 
+                        placeholder="Add a requirement..."
+                        className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2.5 text-sm font-medium text-slate-800 placeholder:text-slate-400 outline-none focus:ring-2 focus:ring-slate-900/10 focus:border-slate-400 transition-all pr-12"
+                        value={newCriterion}
+                        onChange={(e) => setNewCriterion(e.target.value)}
+                     />
+                     <button 
+                        type="submit"
+                        disabled={!newCriterion.trim()}
+                        className="absolute right-2 top-[calc(1rem+4px+50%)] -translate-y-1/2 bg-white p-1 rounded-lg text-slate-400 hover:text-indigo-600 disabled:opacity-0 transition-all shadow-sm border border-slate-100"
+                     >
+                        <Plus size={18} />
+                     </button>
+                  </form>
+                )}
             </div>
           </div>
 
+          <DependencyGraphView tasks={projectTasks} projectDueDate={selectedProject.dueDate} />
+
           <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-6">
             <div className="flex items-center justify-between mb-6">
               <h3 className="text-xl font-bold text-slate-900 flex items-center gap-2">
@@ -492,28 +515,30 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
               </h3>
             </div>
 
-            <div className="mb-6 relative group">
-              <div className="absolute inset-0 bg-slate-50 rounded-xl border border-slate-200 transition-all group-focus-within:bg-white group-focus-within:ring-2 group-focus-within:ring-slate-900/10 group-focus-within:border-slate-400 pointer-events-none" />
-              <form onSubmit={handleAddTaskToProject} className="relative flex items-center p-2">
-                <div className="w-10 h-10 flex items-center justify-center text-slate-400">
-                  <Plus size={20} />
-                </div>
-                <input 
-                  type="text" 
-                  placeholder="Quick add a task to this project..."
-                  className="flex-1 bg-transparent border-none outline-none text-slate-800 placeholder:text-slate-400 font-bold h-10 px-2"
-                  value={newTaskTitle}
-                  onChange={(e) => setNewTaskTitle(e.target.value)}
-                />
-                <button 
-                  type="submit"
-                  disabled={!newTaskTitle}
-                  className="bg-slate-900 text-white px-6 py-2 rounded-lg text-xs font-bold uppercase tracking-widest hover:bg-black transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-md"
-                >
-                  Add Task
-                </button>
-              </form>
-            </div>
+            {canEdit && (
+              <div className="mb-6 relative group">
+                <div className="absolute inset-0 bg-slate-50 rounded-xl border border-slate-200 transition-all group-focus-within:bg-white group-focus-within:ring-2 group-focus-within:ring-slate-900/10 group-focus-within:border-slate-400 pointer-events-none" />
+                <form onSubmit={handleAddTaskToProject} className="relative flex items-center p-2">
+                  <div className="w-10 h-10 flex items-center justify-center text-slate-400">
+                    <Plus size={20} />
+                  </div>
+                  <input 
+                    type="text" 
+                    placeholder="Quick add a task to this project..."
+                    className="flex-1 bg-transparent border-none outline-none text-slate-800 placeholder:text-slate-400 font-bold h-10 px-2"
+                    value={newTaskTitle}
+                    onChange={(e) => setNewTaskTitle(e.target.value)}
+                  />
+                  <button 
+                    type="submit"
+                    disabled={!newTaskTitle}
+                    className="bg-slate-900 text-white px-6 py-2 rounded-lg text-xs font-bold uppercase tracking-widest hover:bg-black transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-md"
+                  >
+                    Add Task
+                  </button>
+                </form>
+              </div>
+            )}
 
             <div className="space-y-3">
               {projectTasks.length === 0 ? (
@@ -525,22 +550,23 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
                 projectTasks.map(task => (
                   <div key={task.id} className="group flex items-start gap-4 p-4 bg-white border border-slate-200 rounded-xl shadow-sm hover:shadow-md hover:border-slate-300 transition-all">
                     <button 
-                      onClick={() => updateTaskStatus(task.id, task.status === TaskStatus.DONE ? TaskStatus.TODO : TaskStatus.DONE)}
+                      onClick={() => updateTaskStatus(task.id, StatusModel.isDone(task.status) ? TaskStatus.TODO : TaskStatus.DONE)}
+                      disabled={!canEdit}
                       className={`mt-1 shrink-0 w-5 h-5 rounded border flex items-center justify-center transition-all ${
-                        task.status === TaskStatus.DONE 
+                        StatusModel.isDone(task.status) 
                           ? 'bg-emerald-500 border-emerald-500 text-white' 
                           : 'border-slate-300 hover:border-emerald-500 text-transparent hover:text-emerald-100'
                       }`}
                     >
-                        <Check size={12} strokeWidth={3} fill="currentColor" className={task.status !== TaskStatus.DONE ? 'opacity-0' : ''} />
+                        <Check size={12} strokeWidth={3} fill="currentColor" className={!StatusModel.isDone(task.status) ? 'opacity-0' : ''} />
                     </button>
                     
                     <div className="flex-1 min-w-0">
                         <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 mb-1">
-                          <p className={`text-base font-bold transition-all ${task.status === TaskStatus.DONE ? 'line-through text-slate-400 decoration-slate-300' : 'text-slate-800'}`}>
+                          <p className={`text-base font-bold transition-all ${StatusModel.isDone(task.status) ? 'line-through text-slate-400 decoration-slate-300' : 'text-slate-800'}`}>
                               {task.title}
                           </p>
-                          {task.status === TaskStatus.DONE && (
+                          {StatusModel.isDone(task.status) && (
                               <span className="text-[10px] font-bold uppercase tracking-widest text-emerald-600 bg-emerald-50 px-2 py-0.5 rounded border border-emerald-100 self-start md:self-auto">Completed</span>
                           )}
                         </div>
@@ -556,13 +582,15 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
                         </div>
                     </div>
 
-                    <button 
-                      onClick={() => removeTask(task.id)}
-                      className="p-2 text-slate-300 hover:text-red-500 rounded-lg hover:bg-red-50 opacity-0 group-hover:opacity-100 transition-all self-center"
-                      title="Remove Task"
-                    >
-                        <Trash2 size={18} />
-                    </button>
+                    {canEdit && (
+                      <button 
+                        onClick={() => removeTask(task.id)}
+                        className="p-2 text-slate-300 hover:text-red-500 rounded-lg hover:bg-red-50 opacity-0 group-hover:opacity-100 transition-all self-center"
+                        title="Remove Task"
+                      >
+                          <Trash2 size={18} />
+                      </button>
+                    )}
                   </div>
                 ))
               )}
@@ -594,9 +622,9 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
                      <div>
                         <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5 ml-1">Category</label>
                         <div className="relative">
-                          <select className="w-full appearance-none bg-slate-50 border border-slate-200 rounded-xl p-3.5 pr-8 text-slate-700 font-medium focus:ring-2 focus:ring-slate-900/10 focus:border-slate-900 focus:bg-white outline-none transition-all" value={formCategory} onChange={(e) => setFormCategory(e.target.value as Category)}>
-                            <option value={Category.COMPANY}>Company</option>
-                            <option value={Category.PERSONAL}>Personal</option>
+                          <select className="w-full appearance-none bg-slate-50 border border-slate-200 rounded-xl p-3.5 pr-8 text-slate-700 font-medium focus:ring-2 focus:ring-slate-900/10 focus:border-slate-900 focus:bg-white outline-none transition-all" value={formCategory} onChange={(e) => setFormCategory(e.target.value)}>
+                            {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                            <option value="">Uncategorized</option>
                           </select>
                           <Tag className="absolute right-3.5 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none" size={16} />
                         </div>
@@ -648,13 +676,15 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
           <h2 className="text-2xl md:text-3xl font-black text-slate-900">Projects</h2>
           <p className="text-slate-500 text-sm md:text-base font-medium">Oversee company and personal initiatives.</p>
         </div>
-        <button 
-          onClick={openCreateModal}
-          className="w-full md:w-auto bg-slate-900 hover:bg-black text-white px-6 py-2.5 rounded-xl flex items-center justify-center gap-2 shadow-lg shadow-slate-200 transition-all active:scale-95"
-        >
-          <Plus size={20} strokeWidth={3} />
-          New Project
-        </button>
+        {canEdit && (
+          <button 
+            onClick={openCreateModal}
+            className="w-full md:w-auto bg-slate-900 hover:bg-black text-white px-6 py-2.5 rounded-xl flex items-center justify-center gap-2 shadow-lg shadow-slate-200 transition-all active:scale-95"
+          >
+            <Plus size={20} strokeWidth={3} />
+            New Project
+          </button>
+        )}
       </div>
 
       {/* Search Bar */}
@@ -672,8 +702,10 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {filteredProjects.map((project) => {
            const pTasks = tasks.filter(t => t.projectId === project.id);
-           const pCompleted = pTasks.filter(t => t.status === TaskStatus.DONE).length;
+           const pCompleted = pTasks.filter(t => StatusModel.isDone(t.status)).length;
            const pProgress = pTasks.length > 0 ? Math.round((pCompleted / pTasks.length) * 100) : (project.progress || 0);
+           const pCategory = categories.find(c => c.id === project.category);
+           const CategoryIcon = categoryIcon(pCategory?.icon);
 
            return (
             <div 
@@ -682,8 +714,12 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
               className="bg-white rounded-2xl border border-slate-200 shadow-sm hover:shadow-xl hover:border-slate-400 transition-all p-6 flex flex-col cursor-pointer group relative overflow-hidden active:scale-[0.98]"
             >
               <div className="flex justify-between items-start mb-4">
-                <div className={`p-3 rounded-xl ${project.category === Category.COMPANY ? 'bg-indigo-100 text-indigo-600' : 'bg-emerald-100 text-emerald-600'}`}>
-                  {project.category === Category.COMPANY ? <Briefcase size={24} /> : <User size={24} />}
+                <div
+                  className="p-3 rounded-xl bg-slate-100 text-slate-500"
+                  style={pCategory ? { color: pCategory.color, backgroundColor: `${pCategory.color}1A` } : undefined}
+                  title={pCategory?.name || 'Uncategorized'}
+                >
+                  <CategoryIcon size={24} />
                 </div>
                 <div className="text-right">
                    <div className={`text-[10px] font-black uppercase tracking-wider mb-1 px-2.5 py-1 rounded-full border inline-block ${getPriorityColor(project.priority)}`}>
@@ -756,9 +792,9 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
                    <div>
                       <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5 ml-1">Category</label>
                       <div className="relative">
-                        <select className="w-full appearance-none bg-slate-50 border border-slate-200 rounded-xl p-3.5 pr-8 text-slate-700 font-medium focus:ring-2 focus:ring-slate-900/10 focus:border-slate-900 focus:bg-white outline-none transition-all" value={formCategory} onChange={(e) => setFormCategory(e.target.value as Category)}>
-                          <option value={Category.COMPANY}>Company</option>
-                          <option value={Category.PERSONAL}>Personal</option>
+                        <select className="w-full appearance-none bg-slate-50 border border-slate-200 rounded-xl p-3.5 pr-8 text-slate-700 font-medium focus:ring-2 focus:ring-slate-900/10 focus:border-slate-900 focus:bg-white outline-none transition-all" value={formCategory} onChange={(e) => setFormCategory(e.target.value)}>
+                          {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                          <option value="">Uncategorized</option>
                         </select>
                         <Tag className="absolute right-3.5 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none" size={16} />
                       </div>
@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { PushDevice } from '../types';
+import apiService from '../services/apiService';
+import pushService from '../services/pushService';
+import { pushDeviceFromRow } from '../services/mappers';
+import { Loader2, Smartphone, Trash2, BellRing } from 'lucide-react';
+
+// Browsers that receive push notifications for this account. This browser can be added here, and any
+// device can be revoked; a revoked browser also drops its subscription the next time it signs in.
+const PushDevices: React.FC = () => {
+  const [enabled, setEnabled] = useState<boolean | null>(null);
+  const [devices, setDevices] = useState<PushDevice[]>([]);
+  const [currentEndpoint, setCurrentEndpoint] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    const [config, rows, subscription] = await Promise.all([
+      apiService.getPushConfig(),
+      apiService.getPushSubscriptions(),
+      pushService.getSubscription()
+    ]);
+    setEnabled(config.enabled);
+    setDevices(rows.map(pushDeviceFromRow));
+    setCurrentEndpoint(subscription ? subscription.endpoint : null);
+  };
+
+  useEffect(() => {
+    load().catch((err: any) => {
+      setEnabled(false);
+      setError(err.message || 'Could not load your devices');
+    });
+  }, []);
+
+  const enableHere = async () => {
+    setBusyId('this');
+    setError(null);
+    try {
+      const row = await pushService.subscribe();
+      setCurrentEndpoint(row.endpoint);
+      setDevices(prev => [pushDeviceFromRow(row), ...prev.filter(d => d.id !== row.id)]);
+    } catch (err: any) {
+      setError(err.message || 'Could not turn on push notifications');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const revoke = async (device: PushDevice) => {
+    setBusyId(device.id);
+    setError(null);
+    try {
+      if (device.endpoint === currentEndpoint) {
+        await pushService.unsubscribe(device.id);
+        setCurrentEndpoint(null);
+      } else {
+        await apiService.deletePushSubscription(device.id);
+      }
+      setDevices(prev => prev.filter(d => d.id !== device.id));
+    } catch (err: any) {
+      setError(err.message || 'Could not remove the device');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (enabled === null) {
+    return <div className="flex justify-center p-6 text-slate-300"><Loader2 size={20} className="animate-spin" /></div>;
+  }
+
+  const thisDeviceListed = !!currentEndpoint && devices.some(d => d.endpoint === currentEndpoint);
+
+  return (
+    <div className="space-y-4">
+      {!enabled ? (
+        <p className="text-xs text-slate-400 font-medium">Push notifications are not set up on this server.</p>
+      ) : !pushService.isSupported() ? (
+        <p className="text-xs text-slate-400 font-medium">This browser does not support push notifications.</p>
+      ) : !thisDeviceListed && (
+        <div className="flex flex-wrap items-center justify-between gap-4 p-4 bg-slate-50 rounded-2xl border border-slate-100">
+          <div>
+            <p className="text-sm font-black text-slate-900">Push on this device</p>
+            <p className="text-xs text-slate-400 font-medium">Get alerts here even when TASQ.ONE isn't open</p>
+          </div>
+          <button
+            type="button"
+            onClick={enableHere}
+            disabled={busyId !== null}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-700 transition-all disabled:opacity-40"
+          >
+            {busyId === 'this' ? <Loader2 size={14} className="animate-spin" /> : <BellRing size={14} />}
+            Enable
+          </button>
+        </div>
+      )}
+
+      {devices.length > 0 ? (
+        <div className="border border-slate-100 rounded-2xl overflow-hidden">
+          {devices.map((device, i) => (
+            <div key={device.id} className={`flex items-center gap-4 px-4 py-3 ${i > 0 ? 'border-t border-slate-100' : ''}`}>
+              <Smartphone size={18} className="text-slate-400 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-bold text-slate-700 truncate flex items-center gap-2">
+                  {device.name}
+                  {device.endpoint === currentEndpoint && (
+                    <span className="px-2 py-0.5 bg-emerald-50 text-emerald-600 rounded-md text-[9px] font-black uppercase tracking-widest">This device</span>
+                  )}
+                </p>
+                <p className="text-[11px] text-slate-400 font-medium">
+                  Added {format(new Date(device.createdAt), 'MMM d, yyyy')}
+                  {device.lastUsedAt && ` · last notified ${formatDistanceToNow(new Date(device.lastUsedAt), { addSuffix: true })}`}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => revoke(device)}
+                disabled={busyId !== null}
+                aria-label={`Remove ${device.name}`}
+                className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-xl transition-all disabled:opacity-40"
+              >
+                {busyId === device.id ? <Loader2 size={16} className="animate-spin" /> : <Trash2 size={16} />}
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : enabled && (
+        <p className="text-xs text-slate-400 font-medium">No devices receive push notifications yet.</p>
+      )}
+
+      {error && <p className="text-xs font-bold text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default PushDevices;
@@ -1,7 +1,7 @@
 
 import React, { useState } from 'react';
-import { View } from '../types';
-import { LayoutDashboard, FolderKanban, CheckSquare, Calendar, BarChart3, X, User as UserIcon, LogOut, AlertTriangle } from 'lucide-react';
+import { View, Workspace } from '../types';
+import { LayoutDashboard, FolderKanban, CheckSquare, Calendar, ChartGantt, BarChart3, Timer, X, User as UserIcon, LogOut, AlertTriangle, Bell, ChevronDown, Check, Plus, Settings, Loader2 } from 'lucide-react';
 import Logo from './Logo';
 
 interface SidebarProps {
@@ -10,10 +10,21 @@ interface SidebarProps {
   isOpen: boolean;
   onClose: () => void;
   onLogout: () => void;
+  unreadNotifications: number;
+  onOpenNotifications: () => void;
+  workspaces: Workspace[];
+  activeWorkspace: Workspace | null; // null is the personal space
+  onSelectWorkspace: (id: string | null) => void;
+  onCreateWorkspace: (name: string) => Promise<void>;
+  onManageWorkspace: () => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, isOpen, onClose, onLogout }) => {
+const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, isOpen, onClose, onLogout, unreadNotifications, onOpenNotifications, workspaces, activeWorkspace, onSelectWorkspace, onCreateWorkspace, onManageWorkspace }) => {
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
+  const [showWorkspaces, setShowWorkspaces] = useState(false);
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+  const [isCreatingWorkspace, setIsCreatingWorkspace] = useState(false);
+  const [workspaceError, setWorkspaceError] = useState<string | null>(null);
   
   const navItems = [
     { view: 'DASHBOARD', label: 'Overview', icon: LayoutDashboard },
@@ -21,6 +32,8 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, isOpen,
     { view: 'PROJECTS', label: 'Projects', icon: FolderKanban },
     { view: 'WORKFLOW', label: 'Workflow', icon: BarChart3 },
     { view: 'CALENDAR', label: 'Schedule', icon: Calendar },
+    { view: 'TIMELINE', label: 'Timeline', icon: ChartGantt },
+    { view: 'TIME', label: 'Time Tracker', icon: Timer },
   ] as const;
 
   const handleNavClick = (view: View) => {
@@ -41,6 +54,29 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, isOpen,
     setShowLogoutConfirm(false);
   };
 
+  const selectWorkspace = (id: string | null) => {
+    setShowWorkspaces(false);
+    onSelectWorkspace(id);
+    onClose();
+  };
+
+  const createWorkspace = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newWorkspaceName.trim();
+    if (!name) return;
+    setIsCreatingWorkspace(true);
+    setWorkspaceError(null);
+    try {
+      await onCreateWorkspace(name);
+      setNewWorkspaceName('');
+      setShowWorkspaces(false);
+    } catch (err: any) {
+      setWorkspaceError(err.message || 'Could not create the workspace');
+    } finally {
+      setIsCreatingWorkspace(false);
+    }
+  };
+
   return (
     <>
       {/* Mobile Overlay */}
@@ -78,11 +114,75 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, isOpen,
           </button>
         </div>
         
+        {/* Workspace Switcher */}
+        <div className="relative px-4 z-10">
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setShowWorkspaces(prev => !prev)}
+              aria-expanded={showWorkspaces}
+              className="flex-1 min-w-0 flex items-center gap-3 px-3 py-2.5 rounded-2xl bg-slate-50 border border-slate-100 hover:border-slate-200 transition-all duration-200 text-left"
+            >
+              <div className={`w-8 h-8 rounded-xl flex items-center justify-center text-xs font-black shrink-0 ${activeWorkspace ? 'bg-indigo-600 text-white' : 'bg-slate-200 text-slate-500'}`}>
+                {activeWorkspace ? activeWorkspace.name.charAt(0).toUpperCase() : <UserIcon size={15} />}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-[10px] font-bold uppercase tracking-[0.15em] text-slate-400">Workspace</p>
+                <p className="text-sm font-bold text-slate-900 truncate">{activeWorkspace ? activeWorkspace.name : 'Personal'}</p>
+              </div>
+              <ChevronDown size={16} className={`shrink-0 text-slate-400 transition-transform duration-200 ${showWorkspaces ? 'rotate-180' : ''}`} />
+            </button>
+            {activeWorkspace && (
+              <button
+                onClick={() => { onManageWorkspace(); onClose(); }}
+                aria-label="Workspace settings"
+                className="p-3 rounded-2xl text-slate-400 hover:text-slate-900 hover:bg-slate-50 transition-all duration-200"
+              >
+                <Settings size={18} />
+              </button>
+            )}
+          </div>
+
+          {showWorkspaces && (
+            <div className="absolute left-4 right-4 top-full mt-2 bg-white rounded-2xl border border-slate-100 shadow-xl p-2 animate-fade-in">
+              {[null, ...workspaces].map(workspace => {
+                const isActive = (workspace?.id || null) === (activeWorkspace?.id || null);
+                return (
+                  <button
+                    key={workspace?.id || 'personal'}
+                    onClick={() => selectWorkspace(workspace?.id || null)}
+                    className={`w-full flex items-center gap-3 px-3 py-2 rounded-xl text-left text-sm font-semibold transition-all duration-200 ${isActive ? 'bg-slate-50 text-slate-900' : 'text-slate-500 hover:text-slate-900 hover:bg-slate-50'}`}
+                  >
+                    <span className="flex-1 truncate">{workspace ? workspace.name : 'Personal'}</span>
+                    {workspace && <span className="text-[9px] font-black uppercase tracking-widest text-slate-300">{workspace.role}</span>}
+                    {isActive && <Check size={14} className="shrink-0 text-indigo-500" />}
+                  </button>
+                );
+              })}
+
+              <form onSubmit={createWorkspace} className="flex items-center gap-1 mt-2 pt-2 border-t border-slate-100">
+                <input
+                  value={newWorkspaceName}
+                  onChange={e => setNewWorkspaceName(e.target.value)}
+                  placeholder="New workspace"
+                  maxLength={80}
+                  className="flex-1 min-w-0 px-3 py-2 bg-slate-50 rounded-xl text-sm font-medium text-slate-700 placeholder-slate-400 outline-none focus:ring-2 focus:ring-indigo-500/20"
+                />
+                <button
+                  type="submit"
+                  disabled={!newWorkspaceName.trim() || isCreatingWorkspace}
+                  aria-label="Create workspace"
+                  className="p-2 rounded-xl bg-slate-900 text-white hover:bg-slate-700 transition-all duration-200 disabled:opacity-40"
+                >
+                  {isCreatingWorkspace ? <Loader2 size={16} className="animate-spin" /> : <Plus size={16} />}
+                </button>
+              </form>
+              {workspaceError && <p className="px-3 pt-2 text-xs font-bold text-red-600">{workspaceError}</p>}
+            </div>
+          )}
+        </div>
+
         {/* Navigation */}
         <nav className="relative flex-1 px-4 py-6 space-y-1.5 overflow-y-auto custom-scrollbar">
-          <div className="px-4 mb-4">
-            <p className="text-[11px] font-bold uppercase tracking-[0.15em] text-slate-400">Main Workspace</p>
-          </div>
           {navItems.map((item) => {
             const isActive = currentView === item.view;
             return (
@@ -109,6 +209,19 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView, isOpen,
         {/* Bottom Actions Section */}
         <div className="relative p-6 space-y-2">
            <div className="h-px bg-slate-100 mb-6 mx-2" />
+
+           <button
+             onClick={() => { onOpenNotifications(); onClose(); }}
+             className="w-full flex items-center gap-3.5 px-4 py-3 rounded-xl text-slate-500 hover:text-slate-900 hover:bg-slate-50 transition-all duration-200 font-semibold text-sm"
+           >
+             <Bell size={19} className="shrink-0 text-slate-400" />
+             <span className="flex-1 text-left">Notifications</span>
+             {unreadNotifications > 0 && (
+               <span className="min-w-5 h-5 px-1.5 bg-red-500 text-white text-[10px] font-black flex items-center justify-center rounded-full">
+                 {unreadNotifications > 99 ? '99+' : unreadNotifications}
+               </span>
+             )}
+           </button>
            
            <button
              onClick={() => handleNavClick('PROFILE')}
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Task, TaskStatus, TaskStatusKey } from '../types';
+import { Check, ChevronDown, ChevronRight, ListChecks, Plus, X } from 'lucide-react';
+import { StatusModel } from '../utils/statusModel';
+import { TaskManager as TaskUtils } from '../utils/taskManager';
+
+interface SubtaskChecklistProps {
+  parent: Task;
+  tasks: Task[];
+  addTask: (task: Task) => void;
+  updateTaskStatus: (id: string, status: TaskStatusKey) => void;
+  removeTask: (id: string) => void;
+  defaultOpen?: boolean;
+  readOnly?: boolean; // Lists the subtasks without ticking, adding or deleting them
+}
+
+const SubtaskChecklist: React.FC<SubtaskChecklistProps> = ({ parent, tasks, addTask, updateTaskStatus, removeTask, defaultOpen = false, readOnly = false }) => {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+  const [newTitle, setNewTitle] = useState('');
+
+  const subtasks = TaskUtils.subtasksOf(tasks, parent.id);
+  const { done, total, percent } = TaskUtils.subtaskProgress(tasks, parent.id);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTitle.trim()) return;
+
+    // Subtasks inherit the parent's scheduling so they sort and filter alongside it
+    addTask({
+      id: Date.now().toString(),
+      title: newTitle.trim(),
+      status: TaskStatus.TODO,
+      priority: parent.priority,
+      category: parent.category,
+      dueDate: parent.dueDate,
+      projectId: parent.projectId,
+      parentId: parent.id
+    });
+    setNewTitle('');
+  };
+
+  if (readOnly && total === 0) return null;
+
+  return (
+    <div className="mt-4">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-3 text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-slate-900 transition-colors"
+      >
+        {isOpen ? <ChevronDown size={12} strokeWidth={3} /> : <ChevronRight size={12} strokeWidth={3} />}
+        <ListChecks size={12} strokeWidth={3} />
+        <span>{total > 0 ? `${done}/${total} Subtasks` : 'Add Subtasks'}</span>
+        {total > 0 && (
+          <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full transition-all duration-500 ${percent === 100 ? 'bg-emerald-500' : 'bg-indigo-500'}`}
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-1.5 pl-6">
+          {subtasks.map(subtask => {
+            const isDone = StatusModel.isDone(subtask.status);
+            return (
+              <div key={subtask.id} className="group/subtask flex items-center gap-3 py-1">
+                <button
+                  type="button"
+                  onClick={() => updateTaskStatus(subtask.id, isDone ? TaskStatus.TODO : TaskStatus.DONE)}
+                  disabled={readOnly}
+                  className={`shrink-0 w-4 h-4 rounded-md border-2 flex items-center justify-center transition-all ${
+                    isDone ? 'bg-emerald-500 border-emerald-500 text-white' : readOnly ? 'border-slate-200 cursor-not-allowed' : 'border-slate-300 hover:border-emerald-500'
+                  }`}
+                >
+                  {isDone && <Check size={10} strokeWidth={4} />}
+                </button>
+                <span className={`flex-1 text-sm font-medium truncate ${isDone ? 'line-through text-slate-300' : 'text-slate-700'}`}>
+                  {subtask.title}
+                </span>
+                {!readOnly && (
+                  <button
+                    type="button"
+                    onClick={() => removeTask(subtask.id)}
+                    className="p-1 text-slate-300 hover:text-red-500 opacity-0 group-hover/subtask:opacity-100 transition-all"
+                    title="Delete Subtask"
+                  >
+                    <X size={12} strokeWidth={3} />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+
+          {!readOnly && (
+            <form onSubmit={handleAdd} className="flex items-center gap-3 pt-1">
+              <Plus size={14} strokeWidth={3} className="shrink-0 text-slate-300" />
+              <input
+                type="text"
+                value={newTitle}
+                onChange={(e) => setNewTitle(e.target.value)}
+                placeholder="Add a subtask..."
+                className="flex-1 bg-transparent text-sm font-medium text-slate-700 placeholder:text-slate-300 outline-none border-b border-transparent focus:border-slate-200 py-1 transition-colors"
+              />
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SubtaskChecklist;
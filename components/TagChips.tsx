@@ -0,0 +1,47 @@
+import React from 'react';
+import { Tag } from '../types';
+
+interface TagChipsProps {
+  tagIds?: string[];
+  tags: Tag[];
+  max?: number;
+  size?: 'sm' | 'xs';
+}
+
+// Colored chips for a task's tags; ids of deleted tags are skipped
+const TagChips: React.FC<TagChipsProps> = ({ tagIds, tags, max, size = 'sm' }) => {
+  if (!tagIds || tagIds.length === 0) return null;
+
+  const resolved = tagIds
+    .map(id => tags.find(t => t.id === id))
+    .filter((tag): tag is Tag => !!tag);
+  if (resolved.length === 0) return null;
+
+  const visible = max ? resolved.slice(0, max) : resolved;
+  const hidden = resolved.length - visible.length;
+  const chipClass = size === 'xs'
+    ? 'text-[8px] px-1.5 py-0.5'
+    : 'text-[9px] px-2 py-0.5';
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {visible.map(tag => (
+        <span
+          key={tag.id}
+          className={`${chipClass} font-bold rounded-full border uppercase tracking-widest flex items-center gap-1`}
+          style={{ color: tag.color, backgroundColor: `${tag.color}1A`, borderColor: `${tag.color}40` }}
+        >
+          <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: tag.color }} />
+          {tag.name}
+        </span>
+      ))}
+      {hidden > 0 && (
+        <span className={`${chipClass} font-bold rounded-full bg-slate-100 text-slate-500 uppercase tracking-widest`}>
+          +{hidden}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default TagChips;
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { Tag, Task } from '../types';
+import { TagPayload } from '../services/apiTypes';
+import { Check, Edit2, Plus, Trash2, X } from 'lucide-react';
+import ColorSwatches, { SWATCH_COLORS } from './ColorSwatches';
+
+interface TagSettingsProps {
+  tags: Tag[];
+  tasks: Task[];
+  createTag: (payload: TagPayload) => Promise<Tag>;
+  updateTag: (id: string, payload: TagPayload) => Promise<void>;
+  deleteTag: (id: string) => Promise<void>;
+}
+
+// Create, rename, recolor and delete the user's tags
+const TagSettings: React.FC<TagSettingsProps> = ({ tags, tasks, createTag, updateTag, deleteTag }) => {
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState(SWATCH_COLORS[0]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState({ name: '', color: SWATCH_COLORS[0] });
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || 'Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    run(async () => {
+      await createTag({ name: newName.trim(), color: newColor });
+      setNewName('');
+    });
+  };
+
+  const startEditing = (tag: Tag) => {
+    setEditingId(tag.id);
+    setDraft({ name: tag.name, color: tag.color });
+    setError(null);
+  };
+
+  const handleSave = (tag: Tag) => {
+    if (!draft.name.trim()) return;
+    const payload: TagPayload = {};
+    if (draft.name.trim() !== tag.name) payload.name = draft.name.trim();
+    if (draft.color !== tag.color) payload.color = draft.color;
+    run(async () => {
+      if (Object.keys(payload).length > 0) await updateTag(tag.id, payload);
+      setEditingId(null);
+    });
+  };
+
+  const handleDelete = (tag: Tag, usage: number) => {
+    const note = usage > 0 ? ` It will be removed from ${usage} task${usage === 1 ? '' : 's'}.` : '';
+    if (!window.confirm(`Delete the tag "${tag.name}"?${note}`)) return;
+    run(() => deleteTag(tag.id));
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleCreate} className="space-y-3">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newName}
+            maxLength={50}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New tag, e.g. Client"
+            className="flex-1 px-4 py-3 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-bold focus:outline-none focus:ring-2 focus:ring-slate-900"
+          />
+          <button
+            type="submit"
+            disabled={!newName.trim() || isSaving}
+            className="px-4 py-3 bg-slate-900 text-white rounded-2xl text-[10px] font-bold uppercase tracking-widest flex items-center gap-1.5 hover:bg-black disabled:opacity-40 disabled:cursor-not-allowed transition-all"
+          >
+            <Plus size={14} strokeWidth={3} /> Add
+          </button>
+        </div>
+        <ColorSwatches value={newColor} onChange={setNewColor} />
+      </form>
+
+      {error && <p className="text-xs font-bold text-red-600">{error}</p>}
+
+      {tags.length === 0 ? (
+        <p className="text-sm text-slate-400 font-medium">No tags yet. Tags let you group tasks across projects and categories.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 border border-slate-100 rounded-2xl">
+          {tags.map(tag => {
+            const usage = tasks.filter(t => t.tags?.includes(tag.id)).length;
+            return (
+              <li key={tag.id} className="px-4 py-3">
+                {editingId === tag.id ? (
+                  <div className="space-y-3">
+                    <div className="flex gap-2">
+                      <input
+                        autoFocus
+                        type="text"
+                        value={draft.name}
+                        maxLength={50}
+                        onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') { e.preventDefault(); handleSave(tag); }
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        className="flex-1 px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-bold focus:outline-none focus:ring-2 focus:ring-slate-900"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => handleSave(tag)}
+                        disabled={!draft.name.trim() || isSaving}
+                        className="p-2 text-emerald-600 hover:bg-emerald-50 rounded-xl transition-colors disabled:opacity-40"
+                        title="Save"
+                      >
+                        <Check size={16} strokeWidth={3} />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setEditingId(null)}
+                        className="p-2 text-slate-400 hover:text-slate-900 rounded-xl transition-colors"
+                        title="Cancel"
+                      >
+                        <X size={16} strokeWidth={3} />
+                      </button>
+                    </div>
+                    <ColorSwatches value={draft.color} onChange={(color) => setDraft(prev => ({ ...prev, color }))} />
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: tag.color }} />
+                      <span className="text-sm font-bold text-slate-900 truncate">{tag.name}</span>
+                      <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest shrink-0">
+                        {usage} task{usage === 1 ? '' : 's'}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => startEditing(tag)}
+                        className="p-2 text-slate-400 hover:text-indigo-600 rounded-xl transition-colors"
+                        title="Edit tag"
+                      >
+                        <Edit2 size={14} strokeWidth={3} />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(tag, usage)}
+                        className="p-2 text-slate-400 hover:text-red-600 rounded-xl transition-colors"
+                        title="Delete tag"
+                      >
+                        <Trash2 size={14} strokeWidth={3} />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TagSettings;
@@ -0,0 +1,269 @@
+import React, { useState, useEffect } from 'react';
+import { TaskComment } from '../types';
+import { MessageSquare, CornerDownRight, Edit2, Trash2, Send, X, Loader2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import apiService from '../services/apiService';
+import { commentFromRow } from '../services/mappers';
+import { Markdown } from '../utils/markdown';
+import { TaskManager as TaskUtils } from '../utils/taskManager';
+
+interface TaskCommentsProps {
+  taskId: string;
+  currentUserId?: string;
+}
+
+interface ComposerProps {
+  initialValue?: string;
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (content: string) => Promise<void>;
+  onCancel?: () => void;
+}
+
+// Write/preview editor shared by new comments, replies and edits
+const CommentComposer: React.FC<ComposerProps> = ({ initialValue = '', placeholder, submitLabel, onSubmit, onCancel }) => {
+  const [content, setContent] = useState(initialValue);
+  const [isPreview, setIsPreview] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async () => {
+    if (!content.trim() || isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+      await onSubmit(content.trim());
+      setContent('');
+      setIsPreview(false);
+    } catch {
+      // The panel shows the error; keep the draft so nothing is lost
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white border-2 border-slate-200 rounded-2xl overflow-hidden focus-within:border-indigo-500 transition-all">
+      {isPreview ? (
+        <div
+          className="px-4 py-3 min-h-[80px] text-sm text-slate-700 space-y-2"
+          dangerouslySetInnerHTML={{ __html: Markdown.toHtml(content) || '<p class="text-slate-300">Nothing to preview</p>' }}
+        />
+      ) : (
+        <textarea
+          className="w-full px-4 py-3 min-h-[80px] text-sm text-slate-700 font-medium outline-none resize-none placeholder:text-slate-400"
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault();
+              submit();
+            }
+          }}
+          placeholder={placeholder}
+        />
+      )}
+      <div className="flex items-center justify-between gap-3 px-3 py-2 border-t border-slate-100 bg-slate-50/50">
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => setIsPreview(false)}
+            className={`px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-all ${!isPreview ? 'bg-white text-slate-900 shadow-sm border border-slate-200' : 'text-slate-400 hover:text-slate-700'}`}
+          >
+            Write
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsPreview(true)}
+            className={`px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-all ${isPreview ? 'bg-white text-slate-900 shadow-sm border border-slate-200' : 'text-slate-400 hover:text-slate-700'}`}
+          >
+            Preview
+          </button>
+          <span className="hidden sm:inline ml-2 text-[10px] font-medium text-slate-400">Markdown supported · @name to mention</span>
+        </div>
+        <div className="flex items-center gap-2">
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="p-1.5 text-slate-400 hover:text-slate-700 rounded-lg transition-colors"
+              title="Cancel"
+            >
+              <X size={14} strokeWidth={3} />
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={submit}
+            disabled={!content.trim() || isSubmitting}
+            className="px-3 py-1.5 bg-slate-900 text-white rounded-lg text-[10px] font-bold uppercase tracking-widest flex items-center gap-1.5 hover:bg-black disabled:opacity-40 disabled:cursor-not-allowed transition-all"
+          >
+            {isSubmitting ? <Loader2 size={12} className="animate-spin" /> : <Send size={12} strokeWidth={3} />}
+            {submitLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const TaskComments: React.FC<TaskCommentsProps> = ({ taskId, currentUserId }) => {
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const isSynced = !TaskUtils.isTempId(taskId);
+
+  useEffect(() => {
+    if (!isSynced) return;
+    let cancelled = false;
+    setIsLoading(true);
+    apiService.getTaskComments(taskId)
+      .then(response => {
+        if (!cancelled) setComments(response.data.comments.map(commentFromRow));
+      })
+      .catch(err => {
+        if (!cancelled) setError(err.message || 'Failed to load comments');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [taskId, isSynced]);
+
+  // Surface the failure inline and rethrow so the composer keeps the draft
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setError(null);
+      await action();
+    } catch (err: any) {
+      setError(err.message || 'Something went wrong');
+      throw err;
+    }
+  };
+
+  const addComment = (content: string, parentId?: string) => run(async () => {
+    const response = await apiService.addTaskComment(taskId, { content, parent_id: parentId || null });
+    setComments(prev => [...prev, commentFromRow(response.data.comment)]);
+    setReplyingTo(null);
+  });
+
+  const editComment = (commentId: string, content: string) => run(async () => {
+    const response = await apiService.updateTaskComment(taskId, commentId, content);
+    const updated = commentFromRow(response.data.comment);
+    setComments(prev => prev.map(c => c.id === commentId ? updated : c));
+    setEditingId(null);
+  });
+
+  const deleteComment = (commentId: string) => run(async () => {
+    await apiService.deleteTaskComment(taskId, commentId);
+    setComments(prev => prev.filter(c => c.id !== commentId && c.parentId !== commentId));
+  }).catch(() => undefined);
+
+  if (!isSynced) {
+    return (
+      <p className="text-sm text-slate-400 font-medium">Comments become available once this task has synced.</p>
+    );
+  }
+
+  const threads = comments.filter(c => !c.parentId);
+
+  const renderComment = (comment: TaskComment, isReply: boolean) => (
+    <div key={comment.id} className={`flex gap-3 ${isReply ? 'ml-10' : ''}`}>
+      {comment.authorAvatarUrl ? (
+        <img src={comment.authorAvatarUrl} alt={comment.authorName} className="w-8 h-8 rounded-xl object-cover shrink-0" />
+      ) : (
+        <div className="w-8 h-8 rounded-xl bg-slate-900 text-white text-xs font-bold flex items-center justify-center shrink-0">
+          {comment.authorName.charAt(0).toUpperCase()}
+        </div>
+      )}
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2 mb-1">
+          <span className="text-sm font-bold text-slate-900">{comment.authorName}</span>
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+            {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+            {comment.edited && ' · edited'}
+          </span>
+        </div>
+
+        {editingId === comment.id ? (
+          <CommentComposer
+            initialValue={comment.content}
+            placeholder="Edit your comment..."
+            submitLabel="Save"
+            onSubmit={(content) => editComment(comment.id, content)}
+            onCancel={() => setEditingId(null)}
+          />
+        ) : (
+          <div
+            className="text-sm text-slate-700 leading-relaxed space-y-2 break-words"
+            dangerouslySetInnerHTML={{ __html: Markdown.toHtml(comment.content) }}
+          />
+        )}
+
+        {editingId !== comment.id && (
+          <div className="flex items-center gap-3 mt-1.5 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+            {!isReply && (
+              <button type="button" onClick={() => setReplyingTo(comment.id)} className="flex items-center gap-1 hover:text-indigo-600 transition-colors">
+                <CornerDownRight size={10} strokeWidth={3} /> Reply
+              </button>
+            )}
+            {comment.userId === currentUserId && (
+              <>
+                <button type="button" onClick={() => setEditingId(comment.id)} className="flex items-center gap-1 hover:text-indigo-600 transition-colors">
+                  <Edit2 size={10} strokeWidth={3} /> Edit
+                </button>
+                <button type="button" onClick={() => deleteComment(comment.id)} className="flex items-center gap-1 hover:text-red-600 transition-colors">
+                  <Trash2 size={10} strokeWidth={3} /> Delete
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-xs font-bold text-red-600">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-slate-400 font-medium">
+          <Loader2 size={14} className="animate-spin" /> Loading comments...
+        </div>
+      ) : threads.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-slate-400 font-medium">
+          <MessageSquare size={14} /> No comments yet. Start the conversation below.
+        </div>
+      ) : (
+        <div className="space-y-5">
+          {threads.map(thread => (
+            <div key={thread.id} className="space-y-3">
+              {renderComment(thread, false)}
+              {comments.filter(c => c.parentId === thread.id).map(reply => renderComment(reply, true))}
+              {replyingTo === thread.id && (
+                <div className="ml-10">
+                  <CommentComposer
+                    placeholder={`Reply to ${thread.authorName}...`}
+                    submitLabel="Reply"
+                    onSubmit={(content) => addComment(content, thread.id)}
+                    onCancel={() => setReplyingTo(null)}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <CommentComposer
+        placeholder="Leave a comment..."
+        submitLabel="Comment"
+        onSubmit={(content) => addComment(content)}
+      />
+    </div>
+  );
+};
+
+export default TaskComments;
@@ -0,0 +1,153 @@
+import React, { useState, useEffect } from 'react';
+import { format, isValid, parseISO } from 'date-fns';
+import { Task, TaskConflict, StatusDefinition, Category, Tag, Project } from '../types';
+import { Recurrence } from '../utils/recurrence';
+import { GitMerge, Check } from 'lucide-react';
+
+interface TaskConflictPanelProps {
+  conflict: TaskConflict;
+  tasks: Task[];
+  statuses: StatusDefinition[];
+  categories: Category[];
+  tags: Tag[];
+  projects?: Project[];
+  onResolve: (keep: Partial<Task>) => void;
+}
+
+type Side = 'mine' | 'theirs';
+
+const FIELD_LABELS: Partial<Record<keyof Task, string>> = {
+  title: 'Title',
+  description: 'Description',
+  status: 'Status',
+  priority: 'Priority',
+  dueDate: 'Due date',
+  dueTime: 'Due time',
+  projectId: 'Project',
+  assigneeId: 'Assignee',
+  category: 'Category',
+  tags: 'Tags',
+  dependencies: 'Depends on',
+  estimateHours: 'Estimate',
+  reminderMinutes: 'Reminder',
+  recurrence: 'Repeat',
+  recurrenceStart: 'Series start',
+  parentId: 'Parent task'
+};
+
+const formatDate = (value: string) => {
+  const date = parseISO(value);
+  return isValid(date) ? format(date, 'MMM d, yyyy') : value;
+};
+
+// Shown in the task editor when a save was refused because someone else changed the task first.
+// Each field this user edited is listed with both versions side by side; the chosen ones are saved
+// on top of the server copy, and every field they didn't touch keeps the other person's value.
+const TaskConflictPanel: React.FC<TaskConflictPanelProps> = ({ conflict, tasks, statuses, categories, tags, projects = [], onResolve }) => {
+  const [choice, setChoice] = useState<Partial<Record<keyof Task, Side>>>({});
+
+  useEffect(() => {
+    setChoice(Object.fromEntries(conflict.fields.map(field => [field, 'mine'])));
+  }, [conflict]);
+
+  const display = (field: keyof Task, task: Task): string => {
+    const value = task[field];
+    if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+      return field === 'dueTime' ? 'Any time' : 'None';
+    }
+    switch (field) {
+      case 'status':
+        return statuses.find(s => s.key === value)?.label || String(value);
+      case 'dueDate':
+      case 'recurrenceStart':
+        return formatDate(String(value));
+      case 'category':
+        return categories.find(c => c.id === value)?.name || 'Unknown category';
+      case 'projectId':
+        return projects.find(p => p.id === value)?.name || 'Another project';
+      case 'assigneeId':
+        return task.assignee || 'Someone';
+      case 'parentId':
+        return tasks.find(t => t.id === value)?.title || 'Another task';
+      case 'tags':
+        return (value as string[]).map(id => tags.find(t => t.id === id)?.name || 'Deleted tag').join(', ');
+      case 'dependencies':
+        return (value as string[]).map(id => tasks.find(t => t.id === id)?.title || 'Deleted task').join(', ');
+      case 'estimateHours':
+        return `${value} h`;
+      case 'reminderMinutes':
+        return Number(value) > 0 ? `${value} min before` : 'None';
+      case 'recurrence':
+        return Recurrence.describe(String(value));
+      default:
+        return String(value);
+    }
+  };
+
+  const keep = (side: Side | 'selected') => {
+    const fields = conflict.fields.filter(field => side === 'selected' ? choice[field] === 'mine' : side === 'mine');
+    // The assignee's name and picture travel with their id
+    const kept = fields.includes('assigneeId') ? [...fields, 'assignee', 'assigneeAvatarUrl', 'assignedById'] as (keyof Task)[] : fields;
+    onResolve(Object.fromEntries(kept.map(field => [field, conflict.mine[field]])) as Partial<Task>);
+  };
+
+  const option = (field: keyof Task, side: Side) => {
+    const selected = choice[field] === side;
+    return (
+      <button
+        type="button"
+        onClick={() => setChoice(prev => ({ ...prev, [field]: side }))}
+        className={`flex-1 min-w-0 text-left p-3 rounded-xl border-2 transition-all ${selected ? 'border-amber-500 bg-white shadow-sm' : 'border-transparent bg-amber-100/50 hover:bg-white/70'}`}
+      >
+        <span className="flex items-center justify-between text-[9px] font-black uppercase tracking-widest text-amber-700 mb-1">
+          {side === 'mine' ? 'Your edit' : 'Their version'}
+          {selected && <Check size={12} strokeWidth={3} />}
+        </span>
+        <span className="block text-sm font-bold text-slate-700 break-words line-clamp-3">{display(field, conflict[side])}</span>
+      </button>
+    );
+  };
+
+  return (
+    <div className="p-5 bg-amber-50 border border-amber-200 rounded-3xl space-y-4">
+      <div className="flex items-start gap-3">
+        <div className="p-2 bg-amber-500 text-white rounded-xl shrink-0"><GitMerge size={16} strokeWidth={3} /></div>
+        <div>
+          <p className="text-sm font-black text-slate-900">Someone else changed this task before your edit was saved</p>
+          <p className="text-xs text-amber-800 font-medium">Pick which version of each field to keep. Everything else already shows their latest changes.</p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {conflict.fields.map(field => (
+          <div key={field}>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1.5 ml-1">{FIELD_LABELS[field] || field}</p>
+            <div className="flex gap-2">
+              {option(field, 'mine')}
+              {option(field, 'theirs')}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <button
+          type="button"
+          onClick={() => keep('theirs')}
+          className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-amber-800 hover:bg-amber-100 transition-all"
+        >
+          Discard my edit
+        </button>
+        <button
+          type="button"
+          onClick={() => keep('selected')}
+          className="px-4 py-2 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-700 transition-all"
+        >
+          Save selection
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TaskConflictPanel;
@@ -1,21 +1,69 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { Task, TaskStatus, Priority, Category } from '../types';
+import { Task, TaskStatus, TaskStatusKey, StatusDefinition, Priority, Category, Tag as TaskTag, TaskConflict, Project, UserSummary, ProgressUpdate } from '../types';
+import { TagPayload } from '../services/apiTypes';
 // Added Save to the list of imports from lucide-react
-import { Plus, Trash2, Filter, Calendar, AlertTriangle, Link, Lock, X, Flag, Tag, Check, Bell, Clock, Edit2, Search, MoreHorizontal, ArrowUpDown, ArrowUp, ArrowDown, Save, Target, FileText, Rocket } from 'lucide-react';
+import { Plus, Trash2, Filter, Calendar, AlertTriangle, Link, Lock, X, Flag, Check, Bell, Clock, Edit2, Search, MoreHorizontal, ArrowUpDown, ArrowUp, ArrowDown, Save, Target, FileText, Rocket, Repeat, Tags, Hourglass, UserCheck, Send, Activity } from 'lucide-react';
 import { format, isPast, isToday, isValid } from 'date-fns';
+import { StatusModel } from '../utils/statusModel';
+import { Recurrence, RECURRENCE_PRESETS } from '../utils/recurrence';
+import { TaskManager as TaskUtils } from '../utils/taskManager';
+import { DependencyGraph } from '../utils/dependencyGraph';
+import SubtaskChecklist from './SubtaskChecklist';
+import TaskComments from './TaskComments';
+import TagChips from './TagChips';
+import TagSettings from './TagSettings';
+import CategoryBadge, { categoryIcon } from './CategoryBadge';
+import TaskConflictPanel from './TaskConflictPanel';
+import AssigneePicker from './AssigneePicker';
+import AssigneeAvatar from './AssigneeAvatar';
+import TaskProgressTimeline from './TaskProgressTimeline';
 
 interface TaskManagerProps {
   tasks: Task[];
+  statuses: StatusDefinition[];
+  tags: TaskTag[];
+  categories: Category[];
+  createTag: (payload: TagPayload) => Promise<TaskTag>;
+  updateTag: (id: string, payload: TagPayload) => Promise<void>;
+  deleteTag: (id: string) => Promise<void>;
   addTask: (task: Task) => void;
-  updateTaskStatus: (id: string, status: TaskStatus) => void;
+  updateTaskStatus: (id: string, status: TaskStatusKey) => void;
   removeTask: (id: string) => void;
   updateTask?: (id: string, updates: Partial<Task>) => void;
+  currentUserId?: string;
+  // Task to open in the editor on arrival, e.g. from a notification
+  focusTaskId?: string | null;
+  onFocusHandled?: () => void;
+  // An edit the server refused because the task changed meanwhile; resolved in the task's editor
+  conflict?: TaskConflict | null;
+  onResolveConflict?: (keep: Partial<Task>) => void;
+  projects?: Project[];
+  workspaceId?: string | null;
+  // False for a guest of the workspace, who can read and discuss its tasks but not change them
+  canEdit?: boolean;
+  // Tasks assigned to or by the user across owners and workspaces, for the assignment views
+  assignedToMe?: Task[];
+  assignedByMe?: Task[];
+  // Newest progress update received live, and the handler for a task saved by posting one
+  progressUpdate?: ProgressUpdate | null;
+  onProgressPosted?: (task: Task) => void;
 }
 
-const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskStatus, removeTask, updateTask }) => {
+type Scope = 'ALL' | 'TO_ME' | 'BY_ME';
+
+const SCOPES: { key: Scope; label: string; icon: React.ElementType }[] = [
+  { key: 'ALL', label: 'All tasks', icon: Filter },
+  { key: 'TO_ME', label: 'Assigned to me', icon: UserCheck },
+  { key: 'BY_ME', label: 'Assigned by me', icon: Send }
+];
+
+const TaskManager: React.FC<TaskManagerProps> = ({ tasks, statuses, tags, categories, createTag, updateTag, deleteTag, addTask, updateTaskStatus, removeTask, updateTask, currentUserId, focusTaskId, onFocusHandled, conflict, onResolveConflict, projects, workspaceId, canEdit = true, assignedToMe = [], assignedByMe = [], progressUpdate, onProgressPosted }) => {
+  const [scope, setScope] = useState<Scope>('ALL');
   const [statusFilter, setStatusFilter] = useState<string>('ALL');
   const [categoryFilter, setCategoryFilter] = useState<string>('ALL');
+  const [tagFilter, setTagFilter] = useState<string>('ALL');
+  const [isTagSettingsOpen, setIsTagSettingsOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [isModalOpen, setIsModalOpen] = useState(false);
   
@@ -26,16 +74,81 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
   
   // Edit State
   const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
+  // A task from someone else's space, opened from an assignment view to follow its progress
+  const [progressTaskId, setProgressTaskId] = useState<string | null>(null);
   
   // Form State
   const [newTaskTitle, setNewTaskTitle] = useState('');
   const [newTaskDesc, setNewTaskDesc] = useState('');
   const [newTaskPriority, setNewTaskPriority] = useState<Priority>(Priority.MEDIUM);
-  const [newTaskCategory, setNewTaskCategory] = useState<Category>(Category.COMPANY);
+  const [newTaskCategory, setNewTaskCategory] = useState('');
   const [newTaskDueDate, setNewTaskDueDate] = useState(new Date().toISOString().split('T')[0]);
   const [newTaskDueTime, setNewTaskDueTime] = useState('');
   const [newTaskDependencies, setNewTaskDependencies] = useState<string[]>([]);
+  const [newTaskEstimate, setNewTaskEstimate] = useState('');
   const [newTaskReminder, setNewTaskReminder] = useState<number>(0);
+  const [newTaskTags, setNewTaskTags] = useState<string[]>([]);
+  const [newTaskAssignee, setNewTaskAssignee] = useState<UserSummary | null>(null);
+
+  // Repeat State: the base rule (frequency/interval/days) and how the series ends are edited separately
+  const [repeatBase, setRepeatBase] = useState('');
+  const [repeatCustom, setRepeatCustom] = useState(false);
+  const [repeatEnd, setRepeatEnd] = useState<'NEVER' | 'UNTIL' | 'COUNT'>('NEVER');
+  const [repeatUntil, setRepeatUntil] = useState('');
+  const [repeatCount, setRepeatCount] = useState(10);
+
+  const recurrenceRule = useMemo(() => {
+    if (!repeatBase.trim()) return '';
+    const parts = [repeatBase.trim()];
+    if (repeatEnd === 'UNTIL' && repeatUntil) parts.push(`UNTIL=${repeatUntil.replace(/-/g, '')}`);
+    if (repeatEnd === 'COUNT') parts.push(`COUNT=${repeatCount}`);
+    return parts.join(';');
+  }, [repeatBase, repeatEnd, repeatUntil, repeatCount]);
+
+  const recurrenceError = useMemo(() => {
+    if (!recurrenceRule) return null;
+    try {
+      Recurrence.parse(recurrenceRule);
+      return null;
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }, [recurrenceRule]);
+
+  // Only an existing task can close a loop; nothing depends on a task that hasn't been created yet
+  const dependencyCycle = useMemo(() => {
+    if (!editingTaskId) return null;
+    const cycle = DependencyGraph.findCycle(tasks, editingTaskId, newTaskDependencies);
+    if (!cycle) return null;
+    return `Circular dependency: ${cycle.map(id => tasks.find(t => t.id === id)?.title || 'this task').join(' → ')}`;
+  }, [tasks, editingTaskId, newTaskDependencies]);
+
+  const loadRecurrence = (value?: string) => {
+    setRepeatEnd('NEVER');
+    setRepeatUntil('');
+    setRepeatCount(10);
+    if (!value) {
+      setRepeatBase('');
+      setRepeatCustom(false);
+      return;
+    }
+    try {
+      const { count, until, ...rule } = Recurrence.parse(value);
+      const base = Recurrence.format(rule);
+      setRepeatBase(base);
+      setRepeatCustom(!RECURRENCE_PRESETS.some(preset => preset.rule === base));
+      if (until) {
+        setRepeatEnd('UNTIL');
+        setRepeatUntil(until);
+      } else if (count) {
+        setRepeatEnd('COUNT');
+        setRepeatCount(count);
+      }
+    } catch {
+      setRepeatBase(value);
+      setRepeatCustom(true);
+    }
+  };
 
   const openAddModal = () => {
     resetForm();
@@ -47,29 +160,54 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
     setNewTaskTitle(task.title);
     setNewTaskDesc(task.description || '');
     setNewTaskPriority(task.priority);
-    setNewTaskCategory(task.category);
+    setNewTaskCategory(task.category || '');
     setNewTaskDueDate(task.dueDate);
     setNewTaskDueTime(task.dueTime || '');
     setNewTaskDependencies(task.dependencies || []);
+    setNewTaskEstimate(task.estimateHours !== undefined ? String(task.estimateHours) : '');
     setNewTaskReminder(task.reminderMinutes || 0);
+    setNewTaskTags(task.tags || []);
+    setNewTaskAssignee(task.assigneeId ? { id: task.assigneeId, name: task.assignee || 'Unknown', email: '', avatarUrl: task.assigneeAvatarUrl } : null);
+    loadRecurrence(task.recurrence);
     setIsModalOpen(true);
   };
 
   const handleSaveTask = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newTaskTitle) return;
+    if (!canEdit || !newTaskTitle || recurrenceError || dependencyCycle) return;
+
+    // Drop tags deleted while the modal was open
+    const selectedTags = newTaskTags.filter(id => tags.some(t => t.id === id));
+    const estimateHours = newTaskEstimate.trim() ? Math.max(0, parseFloat(newTaskEstimate)) : undefined;
+    const assignee: Partial<Task> = {
+      assigneeId: newTaskAssignee?.id,
+      assignee: newTaskAssignee?.name,
+      assigneeAvatarUrl: newTaskAssignee?.avatarUrl
+    };
 
     if (editingTaskId && updateTask) {
       // Update Existing
+      // A changed rule restarts the series from the new due date; otherwise keep the original anchor
+      const original = tasks.find(t => t.id === editingTaskId);
+      const recurrenceStart = recurrenceRule && recurrenceRule === original?.recurrence
+        ? original.recurrenceStart || original.dueDate
+        : recurrenceRule ? newTaskDueDate : undefined;
       updateTask(editingTaskId, {
         title: newTaskTitle,
         description: newTaskDesc,
         priority: newTaskPriority,
-        category: newTaskCategory,
+        category: newTaskCategory || undefined,
         dueDate: newTaskDueDate,
         dueTime: newTaskDueTime,
         dependencies: newTaskDependencies,
-        reminderMinutes: newTaskReminder > 0 ? newTaskReminder : undefined
+        estimateHours,
+        reminderMinutes: newTaskReminder > 0 ? newTaskReminder : undefined,
+        recurrence: recurrenceRule || undefined,
+        recurrenceStart,
+        tags: selectedTags,
+        ...assignee,
+        // Whoever changes the assignee is the one who handed the task out
+        ...(newTaskAssignee?.id !== original?.assigneeId ? { assignedById: newTaskAssignee ? currentUserId : undefined } : {})
       });
     } else {
       // Create New
@@ -78,13 +216,18 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
         title: newTaskTitle,
         description: newTaskDesc,
         priority: newTaskPriority,
-        category: newTaskCategory,
+        category: newTaskCategory || undefined,
         status: TaskStatus.TODO,
         dueDate: newTaskDueDate,
         dueTime: newTaskDueTime,
         dependencies: newTaskDependencies,
+        estimateHours,
         reminderMinutes: newTaskReminder > 0 ? newTaskReminder : undefined,
-        reminderSent: false
+        recurrence: recurrenceRule || undefined,
+        recurrenceStart: recurrenceRule ? newTaskDueDate : undefined,
+        tags: selectedTags,
+        ...assignee,
+        assignedById: newTaskAssignee ? currentUserId : undefined
       };
       addTask(newTask);
     }
@@ -98,11 +241,15 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
     setNewTaskTitle('');
     setNewTaskDesc('');
     setNewTaskPriority(Priority.MEDIUM);
-    setNewTaskCategory(Category.COMPANY);
+    setNewTaskCategory(categories[0]?.id || '');
     setNewTaskDueDate(new Date().toISOString().split('T')[0]);
     setNewTaskDueTime('');
     setNewTaskDependencies([]);
+    setNewTaskEstimate('');
     setNewTaskReminder(0);
+    setNewTaskTags([]);
+    setNewTaskAssignee(null);
+    loadRecurrence();
   };
 
   const toggleDependency = (taskId: string) => {
@@ -113,13 +260,41 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
     );
   };
 
+  const toggleTag = (tagId: string) => {
+    setNewTaskTags(prev =>
+      prev.includes(tagId)
+        ? prev.filter(id => id !== tagId)
+        : [...prev, tagId]
+    );
+  };
+
+  // A filter on a tag or category that has since been deleted falls back to showing everything
+  const activeTagFilter = tags.some(t => t.id === tagFilter) ? tagFilter : 'ALL';
+  const activeCategoryFilter = categories.some(c => c.id === categoryFilter) ? categoryFilter : 'ALL';
+
+  // The assignment views combine our own tasks with those the server lists from other owners and
+  // workspaces; where we hold a task ourselves, our copy is the fresher one
+  const scopedTasks = useMemo(() => {
+    if (scope === 'ALL') return tasks;
+    const matches = (task: Task) => scope === 'TO_ME'
+      ? task.assigneeId === currentUserId
+      : !!task.assigneeId && task.assignedById === currentUserId;
+    const listed = scope === 'TO_ME' ? assignedToMe : assignedByMe;
+    return [...tasks.filter(matches), ...listed.filter(task => !tasks.some(t => t.id === task.id))];
+  }, [scope, tasks, assignedToMe, assignedByMe, currentUserId]);
+
   // Filter and Sort Logic
   const processedTasks = useMemo(() => {
     // 1. Filter
-    const filtered = tasks.filter(task => {
-      // Search
-      const matchesSearch = task.title.toLowerCase().includes(searchQuery.toLowerCase()) || 
-                            (task.description?.toLowerCase().includes(searchQuery.toLowerCase()));
+    const query = searchQuery.toLowerCase();
+    const filtered = scopedTasks.filter(task => {
+      // Subtasks are listed under their parent
+      if (task.parentId && scopedTasks.some(t => t.id === task.parentId)) return false;
+
+      // Search (a match on a subtask surfaces its parent)
+      const matchesSearch = task.title.toLowerCase().includes(query) || 
+                            (task.description?.toLowerCase().includes(query)) ||
+                            TaskUtils.subtasksOf(tasks, task.id).some(st => st.title.toLowerCase().includes(query));
       if (!matchesSearch) return false;
 
       // Status Filter
@@ -127,9 +302,13 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
       if (!matchesStatus) return false;
 
       // Category Filter
-      const matchesCategory = categoryFilter === 'ALL' || task.category === categoryFilter;
+      const matchesCategory = activeCategoryFilter === 'ALL' || task.category === activeCategoryFilter;
       if (!matchesCategory) return false;
 
+      // Tag Filter
+      const matchesTag = activeTagFilter === 'ALL' || !!task.tags?.includes(activeTagFilter);
+      if (!matchesTag) return false;
+
       return true;
     });
 
@@ -152,10 +331,9 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
       }
       return sortOrder === 'ASC' ? diff : -diff;
     });
-  }, [tasks, searchQuery, statusFilter, categoryFilter, sortBy, sortOrder]);
+  }, [tasks, scopedTasks, searchQuery, statusFilter, activeCategoryFilter, activeTagFilter, sortBy, sortOrder]);
 
-  const statusOptions = ['ALL', ...Object.values(TaskStatus)];
-  const categoryOptions = ['ALL', ...Object.values(Category)];
+  const statusOptions = ['ALL', ...statuses.map(s => s.key)];
 
   const getPriorityColor = (p: Priority) => {
     switch (p) {
@@ -187,7 +365,7 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
   };
 
   const getDateStatusColor = (task: Task) => {
-    if (task.status === TaskStatus.DONE) return 'text-slate-400';
+    if (StatusModel.isDone(task.status)) return 'text-slate-400';
     try {
       const date = new Date(task.dueDate + 'T00:00:00');
       if (isPast(date) && !isToday(date)) return 'text-red-600 font-semibold';
@@ -199,12 +377,7 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
   };
 
   const getDependencyStatus = (task: Task) => {
-    if (!task.dependencies || task.dependencies.length === 0) return { isBlocked: false, blockingTasks: [] };
-    
-    const blockingTasks = task.dependencies
-      .map(id => tasks.find(t => t.id === id))
-      .filter(t => t && t.status !== TaskStatus.DONE) as Task[];
-      
+    const blockingTasks = TaskUtils.blockingTasks(tasks, task);
     return {
       isBlocked: blockingTasks.length > 0,
       blockingTasks
@@ -219,6 +392,31 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
     return `${minutes}m before`;
   };
 
+  // Waits for the task to be loaded, so a link followed straight after sign-in still lands
+  useEffect(() => {
+    if (!focusTaskId) return;
+    const task = tasks.find(t => t.id === focusTaskId);
+    if (!task) return;
+    openEditModal(task);
+    onFocusHandled?.();
+  }, [focusTaskId, tasks]);
+
+  // A conflict opens its task's editor, unless another task is being edited
+  useEffect(() => {
+    if (!conflict || isModalOpen) return;
+    openEditModal(tasks.find(t => t.id === conflict.taskId) || conflict.mine);
+  }, [conflict?.taskId]);
+
+  const activeConflict = conflict && conflict.taskId === editingTaskId ? conflict : null;
+  const editingTask = editingTaskId ? tasks.find(t => t.id === editingTaskId) : undefined;
+  const progressTask = progressTaskId ? scopedTasks.find(t => t.id === progressTaskId) : undefined;
+
+  const resolveConflict = (keep: Partial<Task>) => {
+    if (!activeConflict) return;
+    onResolveConflict?.(keep);
+    openEditModal({ ...activeConflict.theirs, ...keep });
+  };
+
   const [currentTime, setCurrentTime] = useState(new Date());
 
   useEffect(() => {
@@ -229,9 +427,9 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
   // Neural Stats
   const stats = useMemo(() => {
     const total = tasks.length;
-    const completed = tasks.filter(t => t.status === TaskStatus.DONE).length;
-    const overdue = tasks.filter(t => t.status !== TaskStatus.DONE && isPast(new Date(t.dueDate + 'T00:00:00')) && !isToday(new Date(t.dueDate + 'T00:00:00'))).length;
-    const highPriority = tasks.filter(t => t.status !== TaskStatus.DONE && t.priority === Priority.HIGH).length;
+    const completed = tasks.filter(t => StatusModel.isDone(t.status)).length;
+    const overdue = tasks.filter(t => !StatusModel.isDone(t.status) && isPast(new Date(t.dueDate + 'T00:00:00')) && !isToday(new Date(t.dueDate + 'T00:00:00'))).length;
+    const highPriority = tasks.filter(t => !StatusModel.isDone(t.status) && t.priority === Priority.HIGH).length;
     const efficiency = total > 0 ? Math.round((completed / total) * 100) : 100;
 
     return { total, completed, overdue, highPriority, efficiency };
@@ -274,13 +472,15 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
               </div>
            </div>
 
-           <button 
-              onClick={openAddModal}
-              className="bg-slate-900 hover:bg-black text-white px-8 py-4 rounded-2xl flex items-center justify-center gap-2 transition-all shadow-2xl shadow-slate-900/20 active:scale-95 font-bold uppercase tracking-widest text-xs"
-           >
-              <Plus size={18} strokeWidth={4} />
-              Deploy Task
-           </button>
+           {canEdit && (
+              <button 
+                 onClick={openAddModal}
+                 className="bg-slate-900 hover:bg-black text-white px-8 py-4 rounded-2xl flex items-center justify-center gap-2 transition-all shadow-2xl shadow-slate-900/20 active:scale-95 font-bold uppercase tracking-widest text-xs"
+              >
+                 <Plus size={18} strokeWidth={4} />
+                 Deploy Task
+              </button>
+           )}
         </div>
       </div>
 
@@ -327,6 +527,26 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
          
          {/* Advanced Filters Panel */}
          <div className="flex flex-col gap-4 p-5 bg-slate-50 rounded-3xl border border-slate-200 shadow-inner">
+            <div className="flex items-center gap-3">
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest w-16 shrink-0">View</span>
+                <div className="flex gap-2 overflow-x-auto scrollbar-hide">
+                    {SCOPES.map(({ key, label, icon: Icon }) => (
+                        <button
+                            key={key}
+                            onClick={() => setScope(key)}
+                            className={`px-4 py-2 rounded-xl text-xs font-bold whitespace-nowrap transition-all border flex items-center gap-2 ${
+                            scope === key
+                                ? 'bg-slate-900 text-white border-slate-900 shadow-lg shadow-slate-900/10'
+                                : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-100 hover:border-slate-300'
+                            }`}
+                        >
+                            <Icon size={12} />
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
             <div className="flex flex-col md:flex-row md:items-center gap-6">
                 <div className="flex items-center gap-3 shrink-0">
                     <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest w-16">Status</span>
@@ -341,7 +561,7 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
                                     : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-100 hover:border-slate-300'
                                 }`}
                             >
-                                {opt}
+                                {opt === 'ALL' ? opt : StatusModel.label(opt)}
                             </button>
                         ))}
                     </div>
@@ -352,28 +572,75 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
                 <div className="flex items-center gap-3 shrink-0">
                     <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest w-16">Category</span>
                     <div className="flex gap-2 overflow-x-auto scrollbar-hide">
-                        {categoryOptions.map((opt) => {
-                            const isActive = categoryFilter === opt;
-                            let colorClasses = isActive 
-                                ? 'bg-slate-900 text-white border-slate-900 shadow-lg shadow-slate-900/10' 
-                                : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-100 hover:border-slate-300';
-                            
-                            if (isActive && opt === Category.COMPANY) colorClasses = 'bg-purple-600 text-white border-purple-600 shadow-lg shadow-purple-600/10';
-                            if (isActive && opt === Category.PERSONAL) colorClasses = 'bg-cyan-600 text-white border-cyan-600 shadow-lg shadow-cyan-600/10';
+                        <button
+                            onClick={() => setCategoryFilter('ALL')}
+                            className={`px-4 py-2 rounded-xl text-xs font-bold whitespace-nowrap transition-all border ${
+                            activeCategoryFilter === 'ALL'
+                                ? 'bg-slate-900 text-white border-slate-900 shadow-lg shadow-slate-900/10'
+                                : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-100 hover:border-slate-300'
+                            }`}
+                        >
+                            ALL
+                        </button>
+                        {categories.map((category) => {
+                            const isActive = activeCategoryFilter === category.id;
+                            const Icon = categoryIcon(category.icon);
 
                             return (
                                 <button
-                                    key={opt}
-                                    onClick={() => setCategoryFilter(opt)}
-                                    className={`px-4 py-2 rounded-xl text-xs font-bold whitespace-nowrap transition-all border ${colorClasses}`}
+                                    key={category.id}
+                                    onClick={() => setCategoryFilter(category.id)}
+                                    className={`px-4 py-2 rounded-xl text-xs font-bold whitespace-nowrap transition-all border flex items-center gap-2 ${
+                                    isActive ? 'text-white shadow-lg' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-100 hover:border-slate-300'
+                                    }`}
+                                    style={isActive ? { backgroundColor: category.color, borderColor: category.color } : undefined}
                                 >
-                                    {opt}
+                                    <Icon size={12} />
+                                    {category.name}
                                 </button>
                             );
                         })}
                     </div>
                 </div>
             </div>
+
+            <div className="flex items-center gap-3">
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest w-16 shrink-0">Tags</span>
+                <div className="flex gap-2 overflow-x-auto scrollbar-hide">
+                    <button
+                        onClick={() => setTagFilter('ALL')}
+                        className={`px-4 py-2 rounded-xl text-xs font-bold whitespace-nowrap transition-all border ${
+                        activeTagFilter === 'ALL'
+                            ? 'bg-slate-900 text-white border-slate-900 shadow-lg shadow-slate-900/10'
+                            : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-100 hover:border-slate-300'
+                        }`}
+                    >
+                        ALL
+                    </button>
+                    {tags.map(tag => {
+                        const isActive = activeTagFilter === tag.id;
+                        return (
+                            <button
+                                key={tag.id}
+                                onClick={() => setTagFilter(tag.id)}
+                                className={`px-4 py-2 rounded-xl text-xs font-bold whitespace-nowrap transition-all border flex items-center gap-2 ${
+                                isActive ? 'text-white shadow-lg' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-100 hover:border-slate-300'
+                                }`}
+                                style={isActive ? { backgroundColor: tag.color, borderColor: tag.color } : undefined}
+                            >
+                                {!isActive && <span className="w-2 h-2 rounded-full" style={{ backgroundColor: tag.color }} />}
+                                {tag.name}
+                            </button>
+                        );
+                    })}
+                </div>
+                <button
+                    onClick={() => setIsTagSettingsOpen(true)}
+                    className="ml-auto shrink-0 px-4 py-2 rounded-xl text-xs font-bold whitespace-nowrap transition-all border border-dashed border-slate-300 text-slate-500 hover:text-slate-900 hover:border-slate-400 flex items-center gap-2"
+                >
+                    <Tags size={14} /> Manage tags
+                </button>
+            </div>
          </div>
       </div>
 
@@ -390,33 +657,49 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
         ) : (
           processedTasks.map(task => {
             const dateColorClass = getDateStatusColor(task);
-            const isOverdue = task.status !== TaskStatus.DONE && isPast(new Date(task.dueDate + 'T00:00:00')) && !isToday(new Date(task.dueDate + 'T00:00:00'));
+            const isOverdue = !StatusModel.isDone(task.status) && isPast(new Date(task.dueDate + 'T00:00:00')) && !isToday(new Date(task.dueDate + 'T00:00:00'));
             const { isBlocked, blockingTasks } = getDependencyStatus(task);
+            const hasOpenSubtasks = !StatusModel.isDone(task.status) && TaskUtils.hasOpenSubtasks(tasks, task.id);
+            const cannotComplete = hasOpenSubtasks || (isBlocked && !StatusModel.isDone(task.status));
+            // Listed by an assignment view from someone else's space; only its owner's members can edit it
+            const isForeign = !tasks.some(t => t.id === task.id);
+            const isLocked = isForeign || !canEdit;
             
             return (
             <div key={task.id} className={`group bg-white p-6 rounded-[2rem] border border-slate-200 border-l-[8px] ${getPriorityBorder(task.priority)} shadow-sm hover:shadow-xl hover:border-slate-300 transition-all duration-300 relative overflow-hidden`}>
                <div className="flex items-start gap-5 relative z-10">
                   {/* Status Checkbox */}
                   <button 
-                    onClick={() => updateTaskStatus(task.id, task.status === TaskStatus.DONE ? TaskStatus.TODO : TaskStatus.DONE)}
+                    onClick={() => updateTaskStatus(task.id, StatusModel.isDone(task.status) ? TaskStatus.TODO : TaskStatus.DONE)}
+                    disabled={cannotComplete || isLocked}
+                    title={isForeign ? 'Shared with you through its assignment' : !canEdit ? 'Guests can\'t change tasks' : hasOpenSubtasks ? 'Complete all subtasks first' : cannotComplete ? 'Complete its dependencies first' : undefined}
                     className={`mt-1.5 shrink-0 w-6 h-6 rounded-lg border-2 flex items-center justify-center transition-all ${
-                         task.status === TaskStatus.DONE 
+                         StatusModel.isDone(task.status) 
                            ? 'bg-emerald-500 border-emerald-500 text-white' 
-                           : 'border-slate-300 hover:border-emerald-500 text-transparent hover:text-emerald-100'
+                           : cannotComplete || isLocked
+                             ? 'border-slate-200 bg-slate-50 text-transparent cursor-not-allowed'
+                             : 'border-slate-300 hover:border-emerald-500 text-transparent hover:text-emerald-100'
                        }`}
                   >
-                     <Check size={14} strokeWidth={4} fill="currentColor" className={task.status !== TaskStatus.DONE ? 'opacity-0 scale-75' : 'scale-100 opacity-100'} />
+                     <Check size={14} strokeWidth={4} fill="currentColor" className={!StatusModel.isDone(task.status) ? 'opacity-0 scale-75' : 'scale-100 opacity-100'} />
                   </button>
 
                   <div className="flex-1 min-w-0 pt-0.5">
                      {/* Title & Description */}
                      <div className="mb-4">
-                        <h4 className={`text-lg font-bold text-slate-900 leading-tight tracking-tight ${task.status === TaskStatus.DONE ? 'line-through text-slate-300 decoration-slate-200' : ''}`}>
+                        <h4 className={`text-lg font-bold text-slate-900 leading-tight tracking-tight ${StatusModel.isDone(task.status) ? 'line-through text-slate-300 decoration-slate-200' : ''}`}>
                            {task.title}
                         </h4>
                         {task.description && <p className="text-sm text-slate-500 mt-2 line-clamp-2 leading-relaxed font-medium">{task.description}</p>}
                      </div>
 
+                     {/* Tags */}
+                     {task.tags && task.tags.length > 0 && (
+                        <div className="mb-3">
+                           <TagChips tagIds={task.tags} tags={tags} />
+                        </div>
+                     )}
+
                      {/* Distinct Priority & Info Badges */}
                      <div className="flex flex-wrap items-center gap-3">
                         {/* High Contrast Priority Badge */}
@@ -426,9 +709,17 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
                         </span>
                         
                         {/* Category Badge */}
-                        <span className={`px-3 py-1 text-[10px] uppercase tracking-[0.1em] font-bold rounded-full border shadow-sm ${task.category === Category.COMPANY ? 'text-purple-700 bg-purple-50 border-purple-200' : 'text-cyan-700 bg-cyan-50 border-cyan-200'}`}>
-                           {task.category}
-                        </span>
+                        <CategoryBadge categoryId={task.category} categories={categories} />
+
+                        {task.assigneeId && (
+                           <span
+                              className="flex items-center gap-1.5 text-[10px] font-bold uppercase text-slate-600 bg-slate-50 pl-1 pr-3 py-0.5 rounded-full border border-slate-200"
+                              title={task.assignedByName ? `Assigned by ${task.assignedByName}` : undefined}
+                           >
+                                 <AssigneeAvatar name={task.assignee} avatarUrl={task.assigneeAvatarUrl} size="xs" />
+                                 {task.assigneeId === currentUserId ? 'You' : task.assignee || 'Assigned'}
+                           </span>
+                        )}
 
                         {task.reminderMinutes && (
                            <span className="flex items-center gap-1.5 text-[10px] font-bold uppercase text-indigo-600 bg-indigo-50 px-3 py-1 rounded-full border border-indigo-100" title={`Reminder set: ${getReminderLabel(task.reminderMinutes)}`}>
@@ -436,6 +727,12 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
                            </span>
                         )}
                         
+                        {task.recurrence && (
+                           <span className="flex items-center gap-1.5 text-[10px] font-bold uppercase text-indigo-600 bg-indigo-50 px-3 py-1 rounded-full border border-indigo-100">
+                                 <Repeat size={10} /> {Recurrence.describe(task.recurrence)}
+                           </span>
+                        )}
+
                         {isOverdue && (
                            <span className="flex items-center gap-1.5 text-[10px] font-bold uppercase text-red-600 bg-red-50 px-3 py-1 rounded-full border border-red-200 animate-pulse">
                                  <AlertTriangle size={10} /> Overdue
@@ -461,6 +758,18 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
                            </div>
                         )}
                      </div>
+
+                     {/* Subtask Checklist */}
+                     {!task.parentId && !isForeign && (
+                        <SubtaskChecklist
+                           parent={task}
+                           tasks={tasks}
+                           addTask={addTask}
+                           updateTaskStatus={updateTaskStatus}
+                           removeTask={removeTask}
+                           readOnly={!canEdit}
+                        />
+                     )}
                   </div>
 
                   {/* Actions & Meta Info */}
@@ -471,22 +780,35 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
                      </div>
                      
                      {/* Floating Action Buttons */}
-                     <div className="flex items-center gap-2 opacity-100 md:opacity-0 group-hover:opacity-100 transition-all transform translate-y-1 group-hover:translate-y-0">
-                        <button 
-                           onClick={() => openEditModal(task)}
+                     {isForeign && (
+                        <button
+                           onClick={() => setProgressTaskId(task.id)}
                            className="p-2.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 bg-slate-50 rounded-xl transition-all border border-transparent hover:border-indigo-100 shadow-sm"
-                           title="Edit Task"
+                           title="Progress"
                         >
-                           <Edit2 size={16} strokeWidth={3} />
+                           <Activity size={16} strokeWidth={3} />
                         </button>
-                        <button 
-                           onClick={() => removeTask(task.id)}
-                           className="p-2.5 text-slate-400 hover:text-red-600 hover:bg-red-50 bg-slate-50 rounded-xl transition-all border border-transparent hover:border-red-100 shadow-sm"
-                           title="Delete Task"
-                        >
-                           <Trash2 size={16} strokeWidth={3} />
-                        </button>
-                     </div>
+                     )}
+                     {!isForeign && (
+                        <div className="flex items-center gap-2 opacity-100 md:opacity-0 group-hover:opacity-100 transition-all transform translate-y-1 group-hover:translate-y-0">
+                           <button 
+                              onClick={() => openEditModal(task)}
+                              className="p-2.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 bg-slate-50 rounded-xl transition-all border border-transparent hover:border-indigo-100 shadow-sm"
+                              title={canEdit ? 'Edit Task' : 'View Task'}
+                           >
+                              {canEdit ? <Edit2 size={16} strokeWidth={3} /> : <FileText size={16} strokeWidth={3} />}
+                           </button>
+                           {canEdit && (
+                              <button 
+                                 onClick={() => removeTask(task.id)}
+                                 className="p-2.5 text-slate-400 hover:text-red-600 hover:bg-red-50 bg-slate-50 rounded-xl transition-all border border-transparent hover:border-red-100 shadow-sm"
+                                 title="Delete Task"
+                              >
+                                 <Trash2 size={16} strokeWidth={3} />
+                              </button>
+                           )}
+                        </div>
+                     )}
                   </div>
                </div>
             </div>
@@ -506,7 +828,7 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
                 <div className={`p-3 rounded-2xl ${editingTaskId ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-100' : 'bg-slate-900 text-white shadow-lg shadow-slate-200'}`}>
                     {editingTaskId ? <Edit2 size={24} strokeWidth={3} /> : <Plus size={24} strokeWidth={3} />}
                 </div>
-                {editingTaskId ? 'Edit Objective' : 'New Objective'}
+                {!canEdit ? 'Objective Details' : editingTaskId ? 'Edit Objective' : 'New Objective'}
                 </h3>
                 <button 
                 onClick={() => { setIsModalOpen(false); resetForm(); }}
@@ -518,6 +840,18 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
 
             <form onSubmit={handleSaveTask} className="flex flex-col flex-1 overflow-hidden">
                 <div className="p-8 pb-6 overflow-y-auto space-y-6 custom-scrollbar">
+                    {activeConflict && (
+                        <TaskConflictPanel
+                            conflict={activeConflict}
+                            tasks={tasks}
+                            statuses={statuses}
+                            categories={categories}
+                            tags={tags}
+                            projects={projects}
+                            onResolve={resolveConflict}
+                        />
+                    )}
+
                     {/* Header Section */}
                     <div className="text-center mb-2">
                         <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-gradient-to-br from-indigo-500 to-purple-600 shadow-lg shadow-indigo-500/20 mb-4">
@@ -575,21 +909,77 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
                             <div className="w-2 h-2 rounded-full bg-green-500"></div>
                             <label className="text-xs font-bold text-slate-600 uppercase tracking-widest">Domain</label>
                         </div>
-                        <div className="grid grid-cols-2 gap-3">
-                            {Object.values(Category).map((category) => (
-                                <button
-                                    key={category}
-                                    type="button"
-                                    onClick={() => setNewTaskCategory(category)}
-                                    className={`p-4 rounded-2xl border-2 transition-all text-center font-bold flex items-center justify-center gap-2 ${newTaskCategory === category 
-                                        ? 'border-green-500 bg-green-50 text-green-700 shadow-md' 
-                                        : 'border-slate-200 bg-white text-slate-600 hover:border-slate-300 hover:bg-slate-50'}`}
-                                >
-                                    <Tag size={16} />
-                                    {category}
-                                </button>
-                            ))}
+                        {categories.length === 0 ? (
+                            <p className="text-sm text-slate-400 font-medium">No categories yet. Add some from your profile.</p>
+                        ) : (
+                            <div className="grid grid-cols-2 gap-3">
+                                {categories.map((category) => {
+                                    const Icon = categoryIcon(category.icon);
+                                    const isSelected = newTaskCategory === category.id;
+                                    return (
+                                        <button
+                                            key={category.id}
+                                            type="button"
+                                            onClick={() => setNewTaskCategory(isSelected ? '' : category.id)}
+                                            className={`p-4 rounded-2xl border-2 transition-all text-center font-bold flex items-center justify-center gap-2 ${isSelected
+                                                ? 'shadow-md'
+                                                : 'border-slate-200 bg-white text-slate-600 hover:border-slate-300 hover:bg-slate-50'}`}
+                                            style={isSelected ? { color: category.color, borderColor: category.color, backgroundColor: `${category.color}14` } : undefined}
+                                        >
+                                            <Icon size={16} />
+                                            <span className="truncate">{category.name}</span>
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Tag Selection */}
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between mb-1">
+                            <div className="flex items-center gap-2">
+                                <div className="w-2 h-2 rounded-full bg-fuchsia-500"></div>
+                                <label className="text-xs font-bold text-slate-600 uppercase tracking-widest">Tags</label>
+                            </div>
+                            <button
+                                type="button"
+                                onClick={() => setIsTagSettingsOpen(true)}
+                                className="text-[10px] font-bold text-slate-400 hover:text-indigo-600 uppercase tracking-widest transition-colors"
+                            >
+                                Manage
+                            </button>
                         </div>
+                        {tags.length === 0 ? (
+                            <p className="text-sm text-slate-400 font-medium">No tags yet. Use Manage to create some.</p>
+                        ) : (
+                            <div className="flex flex-wrap gap-2">
+                                {tags.map(tag => {
+                                    const isSelected = newTaskTags.includes(tag.id);
+                                    return (
+                                        <button
+                                            key={tag.id}
+                                            type="button"
+                                            onClick={() => toggleTag(tag.id)}
+                                            className={`px-3 py-2 rounded-xl border-2 text-xs font-bold flex items-center gap-2 transition-all ${isSelected ? 'shadow-md' : 'border-slate-200 bg-white text-slate-600 hover:border-slate-300'}`}
+                                            style={isSelected ? { color: tag.color, borderColor: tag.color, backgroundColor: `${tag.color}1A` } : undefined}
+                                        >
+                                            {isSelected ? <Check size={12} strokeWidth={3} /> : <span className="w-2 h-2 rounded-full" style={{ backgroundColor: tag.color }} />}
+                                            {tag.name}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Assignee Selection */}
+                    <div className="space-y-2">
+                        <div className="flex items-center gap-2 mb-1">
+                            <div className="w-2 h-2 rounded-full bg-sky-500"></div>
+                            <label className="text-xs font-bold text-slate-600 uppercase tracking-widest">Assignee</label>
+                        </div>
+                        <AssigneePicker workspaceId={workspaceId} value={newTaskAssignee} onChange={setNewTaskAssignee} />
                     </div>
 
                     {/* Timeline Section */}
@@ -629,6 +1019,23 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
                                 </div>
                             </div>
                             
+                            {/* Estimate */}
+                            <div className="space-y-3">
+                                <div className="text-xs font-bold text-slate-700 flex items-center gap-2">
+                                    <Hourglass size={16} className="text-cyan-500" />
+                                    Estimate (hours)
+                                </div>
+                                <input 
+                                    type="number"
+                                    min={0}
+                                    step={0.5}
+                                    className="w-full bg-white border-2 border-slate-200 rounded-2xl px-5 py-4 text-slate-700 font-bold focus:ring-4 focus:ring-cyan-500/20 focus:border-cyan-500 outline-none transition-all shadow-sm hover:shadow-md"
+                                    value={newTaskEstimate}
+                                    onChange={(e) => setNewTaskEstimate(e.target.value)}
+                                    placeholder="Used for the project's critical path"
+                                />
+                            </div>
+
                             {/* Proactive Alert */}
                             <div className="space-y-3">
                                 <div className="text-xs font-bold text-slate-700 flex items-center gap-2">
@@ -649,6 +1056,92 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
                                     <Bell className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none" size={20} />
                                 </div>
                             </div>
+
+                            {/* Repeat */}
+                            <div className="space-y-3">
+                                <div className="text-xs font-bold text-slate-700 flex items-center gap-2">
+                                    <Repeat size={16} className="text-indigo-500" />
+                                    Repeat
+                                </div>
+                                <div className="relative">
+                                    <select 
+                                        className="w-full appearance-none bg-white border-2 border-slate-200 rounded-2xl px-5 py-4 pr-12 text-slate-700 font-bold focus:ring-4 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all shadow-sm hover:shadow-md"
+                                        value={repeatCustom ? 'CUSTOM' : repeatBase}
+                                        onChange={(e) => {
+                                            if (e.target.value === 'CUSTOM') {
+                                                setRepeatCustom(true);
+                                                if (!repeatBase) setRepeatBase('FREQ=WEEKLY');
+                                            } else {
+                                                setRepeatCustom(false);
+                                                setRepeatBase(e.target.value);
+                                            }
+                                        }}
+                                    >
+                                        <option value="">Does Not Repeat</option>
+                                        {RECURRENCE_PRESETS.map(preset => (
+                                            <option key={preset.rule} value={preset.rule}>{preset.label}</option>
+                                        ))}
+                                        <option value="CUSTOM">Custom Rule...</option>
+                                    </select>
+                                    <Repeat className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none" size={20} />
+                                </div>
+
+                                {repeatCustom && (
+                                    <input 
+                                        type="text"
+                                        className="w-full bg-white border-2 border-slate-200 rounded-2xl px-5 py-4 text-slate-700 font-mono text-sm focus:ring-4 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all shadow-sm hover:shadow-md"
+                                        value={repeatBase}
+                                        onChange={(e) => setRepeatBase(e.target.value)}
+                                        placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+                                    />
+                                )}
+
+                                {repeatBase && (
+                                    <div className="flex flex-col sm:flex-row gap-3">
+                                        <select 
+                                            className="sm:w-48 appearance-none bg-white border-2 border-slate-200 rounded-2xl px-5 py-3 text-slate-700 font-bold text-sm focus:ring-4 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all shadow-sm"
+                                            value={repeatEnd}
+                                            onChange={(e) => setRepeatEnd(e.target.value as 'NEVER' | 'UNTIL' | 'COUNT')}
+                                        >
+                                            <option value="NEVER">Never Ends</option>
+                                            <option value="UNTIL">Ends On Date</option>
+                                            <option value="COUNT">Ends After</option>
+                                        </select>
+                                        {repeatEnd === 'UNTIL' && (
+                                            <input 
+                                                type="date"
+                                                required
+                                                min={newTaskDueDate}
+                                                className="flex-1 bg-white border-2 border-slate-200 rounded-2xl px-5 py-3 text-slate-700 font-bold text-sm focus:ring-4 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all shadow-sm"
+                                                value={repeatUntil}
+                                                onChange={(e) => setRepeatUntil(e.target.value)}
+                                            />
+                                        )}
+                                        {repeatEnd === 'COUNT' && (
+                                            <div className="flex-1 flex items-center gap-3">
+                                                <input 
+                                                    type="number"
+                                                    min={1}
+                                                    className="w-24 bg-white border-2 border-slate-200 rounded-2xl px-4 py-3 text-slate-700 font-bold text-sm focus:ring-4 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all shadow-sm"
+                                                    value={repeatCount}
+                                                    onChange={(e) => setRepeatCount(Math.max(1, parseInt(e.target.value) || 1))}
+                                                />
+                                                <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">Occurrences</span>
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
+                                {recurrenceRule && (
+                                    recurrenceError ? (
+                                        <p className="text-xs font-bold text-red-600 flex items-center gap-2">
+                                            <AlertTriangle size={14} /> {recurrenceError}
+                                        </p>
+                                    ) : (
+                                        <p className="text-xs font-medium text-slate-500">{Recurrence.describe(recurrenceRule)}, starting {newTaskDueDate}</p>
+                                    )
+                                )}
+                            </div>
                         </div>
                     </div>
 
@@ -663,12 +1156,34 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
                             className="w-full bg-white border-2 border-slate-200 rounded-2xl px-5 py-4 text-slate-700 font-medium focus:ring-4 focus:ring-purple-500/20 focus:border-purple-500 focus:bg-white outline-none transition-all resize-none min-h-[120px] placeholder:text-slate-400 shadow-sm hover:shadow-md"
                             value={newTaskDesc}
                             onChange={(e) => setNewTaskDesc(e.target.value)}
-                            placeholder="Add sub-tasks, notes, or technical requirements..."
+                            placeholder="Add notes or technical requirements; track steps as subtasks on the task card..."
                             />
                             <FileText className="absolute right-4 bottom-4 text-slate-400" size={20} />
                         </div>
                     </div>
 
+                    {/* Discussion Thread */}
+                    {editingTaskId && (
+                        <div className="space-y-3">
+                            <div className="flex items-center gap-2 mb-1">
+                                <div className="w-2 h-2 rounded-full bg-pink-500"></div>
+                                <label className="text-xs font-bold text-slate-600 uppercase tracking-widest">Discussion</label>
+                            </div>
+                            <TaskComments taskId={editingTaskId} currentUserId={currentUserId} />
+                        </div>
+                    )}
+
+                    {/* Progress Timeline */}
+                    {editingTask?.assigneeId && (
+                        <div className="space-y-3">
+                            <div className="flex items-center gap-2 mb-1">
+                                <div className="w-2 h-2 rounded-full bg-sky-500"></div>
+                                <label className="text-xs font-bold text-slate-600 uppercase tracking-widest">Progress</label>
+                            </div>
+                            <TaskProgressTimeline task={editingTask} statuses={statuses} currentUserId={currentUserId} liveUpdate={progressUpdate} onPosted={onProgressPosted} />
+                        </div>
+                    )}
+
                     {/* Dependency Selection */}
                     <div className="space-y-3">
                         <div className="flex items-center justify-between mb-1">
@@ -689,10 +1204,16 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
                                         <p className="text-slate-400 text-sm font-medium">No other tasks available for dependency linking</p>
                                     </div>
                                 ) : (
-                                    tasks.filter(t => t.id !== editingTaskId).map(t => (
-                                        <label key={t.id} className={`flex items-center gap-4 p-4 rounded-2xl cursor-pointer transition-all border-2 mb-2 last:mb-0 ${newTaskDependencies.includes(t.id) 
-                                            ? 'bg-indigo-50 border-indigo-200 shadow-sm' 
-                                            : 'border-transparent hover:bg-white hover:border-slate-200 hover:shadow-sm'}`}>
+                                    tasks.filter(t => t.id !== editingTaskId).map(t => {
+                                        // Already-linked tasks stay clickable so a loop can be undone
+                                        const closesLoop = !!editingTaskId && !newTaskDependencies.includes(t.id)
+                                            && DependencyGraph.wouldCreateCycle(tasks, editingTaskId, t.id);
+                                        return (
+                                        <label key={t.id} title={closesLoop ? 'Depends on this task already' : undefined} className={`flex items-center gap-4 p-4 rounded-2xl transition-all border-2 mb-2 last:mb-0 ${closesLoop
+                                            ? 'opacity-50 cursor-not-allowed border-transparent'
+                                            : newTaskDependencies.includes(t.id) 
+                                            ? 'bg-indigo-50 border-indigo-200 shadow-sm cursor-pointer' 
+                                            : 'border-transparent hover:bg-white hover:border-slate-200 hover:shadow-sm cursor-pointer'}`}>
                                             <div className={`w-7 h-7 rounded-xl border-2 flex items-center justify-center transition-all shrink-0 ${newTaskDependencies.includes(t.id) 
                                                 ? 'bg-indigo-600 border-indigo-600 text-white shadow-md' 
                                                 : 'border-slate-300 bg-white group-hover:border-indigo-300'}`}>
@@ -702,23 +1223,31 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
                                                 type="checkbox" 
                                                 className="hidden"
                                                 checked={newTaskDependencies.includes(t.id)}
+                                                disabled={closesLoop}
                                                 onChange={() => toggleDependency(t.id)}
                                             />
                                             <div className="flex-1 min-w-0">
                                                 <div className={`font-bold truncate ${newTaskDependencies.includes(t.id) ? 'text-indigo-800' : 'text-slate-700'}`}>{t.title}</div>
                                                 <div className="text-xs text-slate-500 mt-1 flex items-center gap-2">
-                                                    <span className={`inline-block w-2 h-2 rounded-full ${t.status === TaskStatus.DONE ? 'bg-green-500' : t.status === TaskStatus.IN_PROGRESS ? 'bg-blue-500' : 'bg-slate-300'}`}></span>
-                                                    {t.status.replace('_', ' ').toLowerCase()}
+                                                    <span className={`inline-block w-2 h-2 rounded-full ${StatusModel.isDone(t.status) ? 'bg-green-500' : t.status === TaskStatus.IN_PROGRESS ? 'bg-blue-500' : 'bg-slate-300'}`}></span>
+                                                    {StatusModel.label(t.status).toLowerCase()}
+                                                    {closesLoop && <span className="text-amber-600 font-bold">· would create a loop</span>}
                                                 </div>
                                             </div>
                                             <div className="text-xs font-bold text-slate-400">
-                                                {t.category}
+                                                {categories.find(c => c.id === t.category)?.name}
                                             </div>
                                         </label>
-                                    ))
+                                        );
+                                    })
                                 )}
                             </div>
                         </div>
+                        {dependencyCycle && (
+                            <p className="text-xs font-bold text-red-600 flex items-center gap-2">
+                                <AlertTriangle size={14} /> {dependencyCycle}
+                            </p>
+                        )}
                     </div>
                 </div>
 
@@ -730,26 +1259,92 @@ const TaskManager: React.FC<TaskManagerProps> = ({ tasks, addTask, updateTaskSta
                         className="px-7 py-3.5 text-slate-600 font-bold hover:bg-slate-100 hover:text-slate-800 rounded-2xl transition-all text-sm uppercase tracking-wider border border-slate-200 hover:border-slate-300 flex items-center gap-2"
                     >
                         <X size={18} />
-                        Cancel
+                        {canEdit ? 'Cancel' : 'Close'}
                     </button>
-                    <button 
-                        type="submit" 
-                        className="px-8 py-3.5 bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-bold rounded-2xl hover:from-indigo-700 hover:to-purple-700 shadow-xl shadow-indigo-500/20 active:scale-95 transition-all text-sm uppercase tracking-wider flex items-center gap-2 min-w-[180px] justify-center"
+                    {canEdit && (
+                      <button 
+                          type="submit" 
+                          disabled={!!recurrenceError || !!dependencyCycle || !!activeConflict}
+                          className="disabled:opacity-50 disabled:cursor-not-allowed px-8 py-3.5 bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-bold rounded-2xl hover:from-indigo-700 hover:to-purple-700 shadow-xl shadow-indigo-500/20 active:scale-95 transition-all text-sm uppercase tracking-wider flex items-center gap-2 min-w-[180px] justify-center"
+                      >
+                          {editingTaskId ? (
+                              <>
+                                  <Save size={18} strokeWidth={3} />
+                                  Save Changes
+                              </>
+                          ) : (
+                              <>
+                                  <Rocket size={18} strokeWidth={3} />
+                                  Launch Task
+                              </>
+                          )}
+                      </button>
+                    )}
+                </div>
+            </form>
+            </div>
+        </div>
+      )}
+
+      {/* Progress Modal for tasks outside our own space */}
+      {progressTask && (
+        <div className="fixed inset-0 bg-slate-900/60 z-50 flex items-center justify-center p-4 backdrop-blur-md transition-all">
+            <div className="bg-white rounded-[2.5rem] w-full max-w-xl shadow-2xl animate-fade-in overflow-hidden flex flex-col max-h-[90vh] border border-slate-200">
+                <div className="px-8 py-6 border-b border-slate-100 flex justify-between items-center gap-4 bg-slate-50/30">
+                    <h3 className="text-xl font-bold text-slate-900 flex items-center gap-4 min-w-0">
+                        <div className="p-3 rounded-2xl bg-slate-900 text-white shadow-lg shadow-slate-200 shrink-0">
+                            <Activity size={24} strokeWidth={3} />
+                        </div>
+                        <span className="truncate">{progressTask.title}</span>
+                    </h3>
+                    <button
+                        onClick={() => setProgressTaskId(null)}
+                        className="text-slate-400 hover:text-slate-900 p-2 hover:bg-slate-100 rounded-full transition-all"
                     >
-                        {editingTaskId ? (
-                            <>
-                                <Save size={18} strokeWidth={3} />
-                                Save Changes
-                            </>
-                        ) : (
-                            <>
-                                <Rocket size={18} strokeWidth={3} />
-                                Launch Task
-                            </>
+                        <X size={24} strokeWidth={3} />
+                    </button>
+                </div>
+                <div className="p-8 overflow-y-auto custom-scrollbar space-y-6">
+                    <div className="flex flex-wrap items-center gap-3">
+                        <span className="px-3 py-1 text-[10px] uppercase tracking-[0.1em] font-bold rounded-full border border-slate-200 bg-slate-50 text-slate-600">
+                            {StatusModel.label(progressTask.status)}
+                        </span>
+                        <span className={`flex items-center gap-2 text-xs font-bold uppercase tracking-tight ${getDateStatusColor(progressTask)}`}>
+                            <Calendar size={14} className="opacity-75" />
+                            {formatDateDisplay(progressTask.dueDate, progressTask.dueTime)}
+                        </span>
+                        {progressTask.assignedByName && (
+                            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Assigned by {progressTask.assignedByName}</span>
                         )}
+                    </div>
+                    {progressTask.description && <p className="text-sm text-slate-500 leading-relaxed font-medium whitespace-pre-wrap">{progressTask.description}</p>}
+                    <TaskProgressTimeline task={progressTask} statuses={statuses} currentUserId={currentUserId} liveUpdate={progressUpdate} onPosted={onProgressPosted} />
+                </div>
+            </div>
+        </div>
+      )}
+
+      {/* Tag Management Modal */}
+      {isTagSettingsOpen && (
+        <div className="fixed inset-0 bg-slate-900/60 z-[60] flex items-center justify-center p-4 backdrop-blur-md transition-all">
+            <div className="bg-white rounded-[2.5rem] w-full max-w-md shadow-2xl animate-fade-in overflow-hidden flex flex-col max-h-[80vh] border border-slate-200">
+                <div className="px-8 py-6 border-b border-slate-100 flex justify-between items-center bg-slate-50/30">
+                    <h3 className="text-xl font-bold text-slate-900 flex items-center gap-4">
+                        <div className="p-3 rounded-2xl bg-slate-900 text-white shadow-lg shadow-slate-200">
+                            <Tags size={24} strokeWidth={3} />
+                        </div>
+                        Tags
+                    </h3>
+                    <button
+                        onClick={() => setIsTagSettingsOpen(false)}
+                        className="text-slate-400 hover:text-slate-900 p-2 hover:bg-slate-100 rounded-full transition-all"
+                    >
+                        <X size={24} strokeWidth={3} />
                     </button>
                 </div>
-            </form>
+                <div className="p-8 overflow-y-auto custom-scrollbar">
+                    <TagSettings tags={tags} tasks={tasks} createTag={createTag} updateTag={updateTag} deleteTag={deleteTag} />
+                </div>
             </div>
         </div>
       )}
@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import { Task, ProgressUpdate, StatusDefinition } from '../types';
+import { Activity, ArrowRight, Send, Loader2 } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import apiService from '../services/apiService';
+import { progressUpdateFromRow, taskFromRow } from '../services/mappers';
+import { StatusModel } from '../utils/statusModel';
+import { TaskManager as TaskUtils } from '../utils/taskManager';
+import AssigneeAvatar from './AssigneeAvatar';
+
+interface TaskProgressTimelineProps {
+  task: Task;
+  statuses: StatusDefinition[];
+  currentUserId?: string;
+  // Newest update received over the socket, for any task; merged in when it is this one's
+  liveUpdate?: ProgressUpdate | null;
+  // The task as saved after this user posted an update
+  onPosted?: (task: Task) => void;
+}
+
+// History of an assigned task's status changes and notes, oldest first. Its assignee can add to it:
+// notes alone, or a move to another status with optional notes.
+const TaskProgressTimeline: React.FC<TaskProgressTimelineProps> = ({ task, statuses, currentUserId, liveUpdate, onPosted }) => {
+  const [updates, setUpdates] = useState<ProgressUpdate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notes, setNotes] = useState('');
+  const [nextStatus, setNextStatus] = useState('');
+  const [isPosting, setIsPosting] = useState(false);
+
+  const isSynced = !TaskUtils.isTempId(task.id);
+  const isAssignee = !!currentUserId && task.assigneeId === currentUserId;
+
+  useEffect(() => {
+    if (!isSynced) return;
+    let cancelled = false;
+    setIsLoading(true);
+    apiService.getTaskProgress(task.id)
+      .then(rows => {
+        if (!cancelled) setUpdates(rows.map(row => progressUpdateFromRow(task.id, row)));
+      })
+      .catch(err => {
+        if (!cancelled) setError(err.message || 'Failed to load progress updates');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [task.id, isSynced]);
+
+  const append = (update: ProgressUpdate) => {
+    setUpdates(prev => prev.some(u => u.id === update.id) ? prev : [...prev, update]);
+  };
+
+  useEffect(() => {
+    if (liveUpdate && liveUpdate.taskId === task.id) append(liveUpdate);
+  }, [liveUpdate]);
+
+  const post = async () => {
+    const moving = !!nextStatus && nextStatus !== task.status;
+    if ((!moving && !notes.trim()) || isPosting) return;
+    setIsPosting(true);
+    setError(null);
+    try {
+      const row = moving
+        ? await apiService.updateAssignedTaskStatus(task.id, nextStatus, notes.trim() || undefined, task.updatedAt)
+        : await apiService.addTaskNotes(task.id, notes.trim());
+      const latest = row.progress_updates?.[row.progress_updates.length - 1];
+      if (latest) append(progressUpdateFromRow(task.id, latest));
+      onPosted?.(taskFromRow(row));
+      setNotes('');
+      setNextStatus('');
+    } catch (err: any) {
+      setError(err.message || 'Could not post the update');
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  if (!isSynced) {
+    return (
+      <p className="text-sm text-slate-400 font-medium">Progress updates become available once this task has synced.</p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-xs font-bold text-red-600">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-slate-400 font-medium">
+          <Loader2 size={14} className="animate-spin" /> Loading progress...
+        </div>
+      ) : updates.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-slate-400 font-medium">
+          <Activity size={14} /> No progress updates yet.
+        </div>
+      ) : (
+        <ol className="relative border-l-2 border-slate-100 ml-3 space-y-5">
+          {updates.map(update => {
+            const moved = !!update.fromStatus && !!update.status && update.fromStatus !== update.status;
+            return (
+              <li key={update.id} className="relative pl-6">
+                <span className="absolute -left-[15px] top-0">
+                  <AssigneeAvatar name={update.authorName} avatarUrl={update.authorAvatarUrl} />
+                </span>
+                <div className="flex flex-wrap items-center gap-2 mb-1">
+                  <span className="text-sm font-bold text-slate-900">
+                    {update.authorId === currentUserId ? 'You' : update.authorName || 'Someone'}
+                  </span>
+                  <span
+                    className="text-[10px] font-bold text-slate-400 uppercase tracking-widest"
+                    title={format(new Date(update.createdAt), 'PPpp')}
+                  >
+                    {formatDistanceToNow(new Date(update.createdAt), { addSuffix: true })}
+                  </span>
+                </div>
+                {moved && (
+                  <p className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-slate-500 mb-1">
+                    {StatusModel.label(update.fromStatus!)}
+                    <ArrowRight size={10} strokeWidth={3} />
+                    <span className="text-indigo-600">{StatusModel.label(update.status!)}</span>
+                  </p>
+                )}
+                {update.notes && (
+                  <p className="text-sm text-slate-700 leading-relaxed whitespace-pre-wrap break-words">{update.notes}</p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {isAssignee && (
+        <div className="bg-white border-2 border-slate-200 rounded-2xl overflow-hidden focus-within:border-indigo-500 transition-all">
+          <textarea
+            className="w-full px-4 py-3 min-h-[70px] text-sm text-slate-700 font-medium outline-none resize-none placeholder:text-slate-400"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Share how this is going..."
+          />
+          <div className="flex items-center justify-between gap-3 px-3 py-2 border-t border-slate-100 bg-slate-50/50">
+            <select
+              value={nextStatus}
+              onChange={(e) => setNextStatus(e.target.value)}
+              className="px-2.5 py-1 bg-white border border-slate-200 rounded-lg text-[10px] font-bold uppercase tracking-widest text-slate-600 outline-none"
+            >
+              <option value="">Keep status</option>
+              {statuses.filter(s => s.key !== task.status).map(s => (
+                <option key={s.key} value={s.key}>Move to {s.label}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={post}
+              disabled={(!notes.trim() && !nextStatus) || isPosting}
+              className="px-3 py-1.5 bg-slate-900 text-white rounded-lg text-[10px] font-bold uppercase tracking-widest flex items-center gap-1.5 hover:bg-black disabled:opacity-40 disabled:cursor-not-allowed transition-all"
+            >
+              {isPosting ? <Loader2 size={12} className="animate-spin" /> : <Send size={12} strokeWidth={3} />}
+              Post update
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskProgressTimeline;
@@ -1,27 +1,40 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { Task, TimeEntry } from '../types';
-import { Play, Square, Clock, Calendar as CalendarIcon, History, Plus, BarChart3, Timer, Briefcase } from 'lucide-react';
-import { format, endOfWeek, endOfMonth, isWithinInterval, eachDayOfInterval, isSameDay, isToday, isYesterday } from 'date-fns';
-import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, CartesianGrid } from 'recharts';
+import { Task, Project, TimeEntry, ActiveTimer } from '../types';
+import { Play, Square, Clock, Calendar as CalendarIcon, History, Plus, BarChart3, Timer, Briefcase, Edit2, Trash2, Check, X, DollarSign } from 'lucide-react';
+import { format, endOfWeek, endOfMonth, isWithinInterval, isToday, isYesterday } from 'date-fns';
+import { StatusModel } from '../utils/statusModel';
+import TimesheetReport from './TimesheetReport';
 
 interface TimeTrackingProps {
   tasks: Task[];
+  projects: Project[];
+  preparedFor: string;
+  updateProject: (id: string, updates: Partial<Project>) => void;
   timeEntries: TimeEntry[];
-  activeTimer: { startTime: number; description: string; taskId?: string } | null;
-  startTimer: (description: string, taskId?: string) => void;
-  stopTimer: () => void;
-  addManualEntry: (entry: Omit<TimeEntry, 'id'>) => void;
+  activeTimer: ActiveTimer | null;
+  startTimer: (description: string, taskId?: string) => Promise<void>;
+  stopTimer: () => Promise<void>;
+  addManualEntry: (entry: Omit<TimeEntry, 'id' | 'billable'> & { billable?: boolean }) => Promise<void>;
+  updateEntry: (id: string, updates: Partial<TimeEntry>) => Promise<void>;
+  deleteEntry: (id: string) => Promise<void>;
 }
 
 const TimeTracking: React.FC<TimeTrackingProps> = ({ 
   tasks, 
+  projects,
+  preparedFor,
+  updateProject,
   timeEntries, 
   activeTimer, 
   startTimer, 
   stopTimer,
-  addManualEntry 
+  addManualEntry,
+  updateEntry,
+  deleteEntry
 }) => {
+  const [tab, setTab] = useState<'tracker' | 'report'>('tracker');
+
   // Timer State
   const [elapsed, setElapsed] = useState(0);
   const [timerDesc, setTimerDesc] = useState('');
@@ -33,6 +46,28 @@ const TimeTracking: React.FC<TimeTrackingProps> = ({
   const [manualMinutes, setManualMinutes] = useState('');
   const [manualDesc, setManualDesc] = useState('');
   const [manualTaskId, setManualTaskId] = useState('');
+  // Undefined until toggled, so the server applies the task's project default
+  const [manualBillable, setManualBillable] = useState<boolean | undefined>(undefined);
+
+  // History editing
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftDesc, setDraftDesc] = useState('');
+
+  // Every change goes straight to the server; failures are shown above the history
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || 'Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
 
   // Update elapsed time for active timer
   useEffect(() => {
@@ -63,11 +98,15 @@ const TimeTracking: React.FC<TimeTrackingProps> = ({
   const handleStart = () => {
     if (!timerDesc && !selectedTaskId) return;
     const desc = timerDesc || tasks.find(t => t.id === selectedTaskId)?.title || 'Untitled Task';
-    startTimer(desc, selectedTaskId || undefined);
-    setTimerDesc('');
-    setSelectedTaskId('');
+    run(async () => {
+      await startTimer(desc, selectedTaskId || undefined);
+      setTimerDesc('');
+      setSelectedTaskId('');
+    });
   };
 
+  const handleStop = () => run(stopTimer);
+
   const handleManualSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     const h = parseInt(manualHours) || 0;
@@ -82,47 +121,54 @@ const TimeTracking: React.FC<TimeTrackingProps> = ({
     const startTimeIso = new Date(dateObj.getFullYear(), dateObj.getMonth(), dateObj.getDate(), 9, 0, 0).toISOString();
     const endTimeIso = new Date(new Date(startTimeIso).getTime() + totalSeconds * 1000).toISOString();
 
-    addManualEntry({
-      taskId: manualTaskId || undefined,
-      description: desc,
-      startTime: startTimeIso,
-      endTime: endTimeIso,
-      duration: totalSeconds,
-      date: manualDate
+    run(async () => {
+      await addManualEntry({
+        taskId: manualTaskId || undefined,
+        description: desc,
+        startTime: startTimeIso,
+        endTime: endTimeIso,
+        duration: totalSeconds,
+        date: manualDate,
+        billable: manualBillable
+      });
+
+      setManualHours('');
+      setManualMinutes('');
+      setManualDesc('');
+      setManualTaskId('');
+      setManualBillable(undefined);
     });
+  };
+
+  const startEditing = (entry: TimeEntry) => {
+    setEditingId(entry.id);
+    setDraftDesc(entry.description);
+    setError(null);
+  };
+
+  const handleSaveDescription = (entry: TimeEntry) => {
+    const description = draftDesc.trim();
+    if (!description) return;
+    run(async () => {
+      if (description !== entry.description) await updateEntry(entry.id, { description });
+      setEditingId(null);
+    });
+  };
+
+  const toggleBillable = (entry: TimeEntry) => run(() => updateEntry(entry.id, { billable: !entry.billable }));
+
+  // Shows the project default until the user picks a side
+  const manualTaskProject = projects.find(p => p.id === tasks.find(t => t.id === manualTaskId)?.projectId);
+  const manualIsBillable = manualBillable ?? (manualTaskProject ? manualTaskProject.billable !== false : true);
 
-    setManualHours('');
-    setManualMinutes('');
-    setManualDesc('');
-    setManualTaskId('');
+  const handleDelete = (entry: TimeEntry) => {
+    if (!window.confirm(`Delete "${entry.description}" (${formatDuration(entry.duration)})?`)) return;
+    run(() => deleteEntry(entry.id));
   };
 
   // --- Statistics & Chart Data ---
   const now = new Date();
   
-  const weeklyChartData = useMemo(() => {
-    // Manually calculate start of week (Monday start)
-    const start = new Date(now);
-    const day = start.getDay();
-    const diff = start.getDate() - day + (day === 0 ? -6 : 1);
-    start.setDate(diff);
-    start.setHours(0, 0, 0, 0);
-
-    const end = endOfWeek(now, { weekStartsOn: 1 });
-    const days = eachDayOfInterval({ start, end });
-
-    return days.map(day => {
-      const dayEntries = timeEntries.filter(e => isSameDay(new Date(e.date + 'T00:00:00'), day));
-      const totalSeconds = dayEntries.reduce((acc, curr) => acc + curr.duration, 0);
-      return {
-        day: format(day, 'EEE'), // Mon, Tue...
-        fullDate: format(day, 'MMM d'),
-        hours: parseFloat((totalSeconds / 3600).toFixed(1)),
-        isToday: isSameDay(day, now)
-      };
-    });
-  }, [timeEntries, now]);
-
   const weeklyTotalSeconds = timeEntries
     .filter(e => isWithinInterval(new Date(e.date + 'T00:00:00'), { 
         // Manually calculate start of week
@@ -138,6 +184,10 @@ const TimeTracking: React.FC<TimeTrackingProps> = ({
     }))
     .reduce((acc, curr) => acc + curr.duration, 0);
 
+  const todayTotalSeconds = timeEntries
+    .filter(e => isToday(new Date(e.date + 'T00:00:00')))
+    .reduce((acc, curr) => acc + curr.duration, 0);
+
   const monthlyTotalSeconds = timeEntries
     .filter(e => isWithinInterval(new Date(e.date + 'T00:00:00'), { 
         start: new Date(now.getFullYear(), now.getMonth(), 1), // manual startOfMonth 
@@ -178,14 +228,42 @@ const TimeTracking: React.FC<TimeTrackingProps> = ({
   return (
     <div className="p-4 md:p-8 space-y-6 md:space-y-8 max-w-7xl mx-auto">
       {/* Header */}
-      <div>
-        <h2 className="text-2xl md:text-3xl font-bold text-slate-900 flex items-center gap-3">
-          <Timer size={32} className="text-black" />
-          Time Tracker
-        </h2>
-        <p className="text-slate-500 mt-1">Manage your productivity and track billable hours.</p>
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl md:text-3xl font-bold text-slate-900 flex items-center gap-3">
+            <Timer size={32} className="text-black" />
+            Time Tracker
+          </h2>
+          <p className="text-slate-500 mt-1">Manage your productivity and track billable hours.</p>
+        </div>
+        <div className="flex gap-1 bg-white border border-slate-200 rounded-xl p-1 self-start md:self-auto">
+          <button
+            type="button"
+            onClick={() => setTab('tracker')}
+            className={`px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 transition-all ${tab === 'tracker' ? 'bg-slate-900 text-white' : 'text-slate-500 hover:text-slate-900'}`}
+          >
+            <Clock size={16} /> Tracker
+          </button>
+          <button
+            type="button"
+            onClick={() => setTab('report')}
+            className={`px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 transition-all ${tab === 'report' ? 'bg-slate-900 text-white' : 'text-slate-500 hover:text-slate-900'}`}
+          >
+            <BarChart3 size={16} /> Timesheet
+          </button>
+        </div>
       </div>
 
+      {tab === 'report' ? (
+        <TimesheetReport
+          tasks={tasks}
+          projects={projects}
+          timeEntries={timeEntries}
+          preparedFor={preparedFor}
+          updateProject={updateProject}
+        />
+      ) : (
+      <>
       {/* Top Section: Timer & Stats */}
       <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
         
@@ -214,7 +292,8 @@ const TimeTracking: React.FC<TimeTrackingProps> = ({
           <div className="relative z-10 mt-8">
              {activeTimer ? (
                <button 
-                 onClick={stopTimer}
+                 onClick={handleStop}
+                 disabled={isSaving}
                  className="w-full bg-red-50 hover:bg-red-100 border border-red-200 text-red-600 h-14 rounded-xl font-bold text-lg flex items-center justify-center gap-3 transition-all active:scale-[0.98]"
                >
                  <Square fill="currentColor" size={20} /> Stop Session
@@ -238,7 +317,7 @@ const TimeTracking: React.FC<TimeTrackingProps> = ({
                         onChange={(e) => setSelectedTaskId(e.target.value)}
                       >
                          <option value="">No Task</option>
-                         {tasks.filter(t => t.status !== 'Done').map(t => (
+                         {tasks.filter(t => !StatusModel.isDone(t.status)).map(t => (
                            <option key={t.id} value={t.id}>{t.title}</option>
                          ))}
                       </select>
@@ -247,7 +326,7 @@ const TimeTracking: React.FC<TimeTrackingProps> = ({
                  </div>
                  <button 
                     onClick={handleStart}
-                    disabled={!timerDesc && !selectedTaskId}
+                    disabled={(!timerDesc && !selectedTaskId) || isSaving}
                     className="w-full md:w-auto px-8 h-14 bg-black hover:bg-slate-800 disabled:bg-slate-200 disabled:text-slate-400 disabled:cursor-not-allowed text-white rounded-xl font-bold text-lg flex items-center justify-center gap-2 transition-all shadow-lg shadow-slate-900/10 active:scale-[0.98]"
                  >
                     <Play fill="currentColor" size={20} /> Start
@@ -257,57 +336,26 @@ const TimeTracking: React.FC<TimeTrackingProps> = ({
           </div>
         </div>
 
-        {/* Right: Stats & Weekly Chart */}
-        <div className="space-y-6 flex flex-col">
-           {/* Stats Cards */}
-           <div className="grid grid-cols-2 gap-4">
-              <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
-                 <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">This Week</p>
-                 {formatStatHours(weeklyTotalSeconds)}
+        {/* Right: Stats */}
+        <div className="space-y-4 flex flex-col">
+           {[
+             { label: 'Today', seconds: todayTotalSeconds },
+             { label: 'This Week', seconds: weeklyTotalSeconds },
+             { label: 'This Month', seconds: monthlyTotalSeconds }
+           ].map(stat => (
+              <div key={stat.label} className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+                 <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{stat.label}</p>
+                 {formatStatHours(stat.seconds)}
               </div>
-              <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
-                 <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">This Month</p>
-                 {formatStatHours(monthlyTotalSeconds)}
-              </div>
-           </div>
-
-           {/* Chart */}
-           <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm flex flex-col">
-              <div className="flex items-center justify-between mb-4">
-                 <h3 className="font-bold text-slate-900 flex items-center gap-2">
-                    <BarChart3 size={18} className="text-slate-400" />
-                    Weekly Activity
-                 </h3>
-              </div>
-              <div className="w-full h-[200px]">
-                 <ResponsiveContainer width="100%" height="100%">
-                    <BarChart data={weeklyChartData} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
-                       <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-                       <XAxis 
-                          dataKey="day" 
-                          axisLine={false} 
-                          tickLine={false} 
-                          tick={{ fill: '#94a3b8', fontSize: 12 }} 
-                          dy={10}
-                       />
-                       <YAxis 
-                          axisLine={false} 
-                          tickLine={false} 
-                          tick={{ fill: '#94a3b8', fontSize: 12 }}
-                       />
-                       <Tooltip 
-                          cursor={{ fill: '#f8fafc' }}
-                          contentStyle={{ borderRadius: '8px', border: '1px solid #e2e8f0', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
-                       />
-                       <Bar dataKey="hours" radius={[4, 4, 0, 0]}>
-                          {weeklyChartData.map((entry, index) => (
-                             <Cell key={`cell-${index}`} fill={entry.isToday ? '#111827' : '#cbd5e1'} />
-                          ))}
-                       </Bar>
-                    </BarChart>
-                 </ResponsiveContainer>
-              </div>
-           </div>
+           ))}
+           <button
+              type="button"
+              onClick={() => setTab('report')}
+              className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm text-left hover:border-slate-300 hover:shadow-md transition-all flex items-center gap-3"
+           >
+              <BarChart3 size={18} className="text-slate-400" />
+              <span className="font-bold text-slate-900 text-sm">Activity, rates &amp; exports</span>
+           </button>
         </div>
       </div>
 
@@ -380,9 +428,20 @@ const TimeTracking: React.FC<TimeTrackingProps> = ({
                      </div>
                   </div>
 
+                  <label className="flex items-center gap-2 ml-1 text-sm font-medium text-slate-600 cursor-pointer">
+                     <input
+                        type="checkbox"
+                        checked={manualIsBillable}
+                        onChange={(e) => setManualBillable(e.target.checked)}
+                        className="w-4 h-4 rounded accent-black"
+                     />
+                     Billable
+                  </label>
+
                   <button 
                      type="submit"
-                     className="w-full bg-black hover:bg-slate-800 text-white font-bold py-3.5 rounded-xl shadow-lg shadow-slate-200 transition-all flex items-center justify-center gap-2"
+                     disabled={isSaving}
+                     className="w-full disabled:opacity-40 bg-black hover:bg-slate-800 text-white font-bold py-3.5 rounded-xl shadow-lg shadow-slate-200 transition-all flex items-center justify-center gap-2"
                   >
                      <Plus size={18} /> Add Entry
                   </button>
@@ -401,6 +460,7 @@ const TimeTracking: React.FC<TimeTrackingProps> = ({
                </div>
                
                <div className="max-h-[600px] overflow-y-auto p-6 space-y-8">
+                  {error && <p className="text-xs font-bold text-red-600">{error}</p>}
                   {Object.keys(groupedHistory).length === 0 ? (
                      <div className="text-center py-12 text-slate-400 flex flex-col items-center">
                         <Clock size={48} className="mb-4 opacity-20" />
@@ -426,22 +486,87 @@ const TimeTracking: React.FC<TimeTrackingProps> = ({
                                        <Clock size={20} />
                                     </div>
                                     <div className="flex-1 min-w-0">
-                                       <p className="font-bold text-slate-900 truncate">{entry.description}</p>
+                                       {editingId === entry.id ? (
+                                          <div className="flex items-center gap-1">
+                                             <input
+                                                autoFocus
+                                                type="text"
+                                                value={draftDesc}
+                                                maxLength={500}
+                                                onChange={(e) => setDraftDesc(e.target.value)}
+                                                onKeyDown={(e) => {
+                                                   if (e.key === 'Enter') { e.preventDefault(); handleSaveDescription(entry); }
+                                                   if (e.key === 'Escape') setEditingId(null);
+                                                }}
+                                                className="flex-1 min-w-0 bg-white border border-slate-200 rounded-lg px-3 py-1.5 text-sm font-bold outline-none focus:ring-2 focus:ring-black/5 focus:border-black"
+                                             />
+                                             <button
+                                                type="button"
+                                                onClick={() => handleSaveDescription(entry)}
+                                                disabled={!draftDesc.trim() || isSaving}
+                                                className="p-1.5 text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors disabled:opacity-40"
+                                                title="Save"
+                                             >
+                                                <Check size={14} strokeWidth={3} />
+                                             </button>
+                                             <button
+                                                type="button"
+                                                onClick={() => setEditingId(null)}
+                                                className="p-1.5 text-slate-400 hover:text-slate-900 rounded-lg transition-colors"
+                                                title="Cancel"
+                                             >
+                                                <X size={14} strokeWidth={3} />
+                                             </button>
+                                          </div>
+                                       ) : (
+                                          <p className="font-bold text-slate-900 truncate">{entry.description}</p>
+                                       )}
                                        <div className="flex items-center gap-2 text-xs text-slate-500 mt-1">
                                           <span>{format(new Date(entry.startTime), 'h:mm a')} - {format(new Date(entry.endTime), 'h:mm a')}</span>
                                           {entry.taskId && (
                                              <>
                                                 <span>•</span>
-                                                <span className="bg-blue-50 text-blue-600 px-1.5 py-0.5 rounded border border-blue-100 flex items-center gap-1">
-                                                   <Briefcase size={10} /> Linked
+                                                <span className="bg-blue-50 text-blue-600 px-1.5 py-0.5 rounded border border-blue-100 flex items-center gap-1 truncate">
+                                                   <Briefcase size={10} /> {tasks.find(t => t.id === entry.taskId)?.title || 'Linked'}
                                                 </span>
                                              </>
                                           )}
+                                          <span>•</span>
+                                          <button
+                                             type="button"
+                                             onClick={() => toggleBillable(entry)}
+                                             disabled={isSaving}
+                                             className={`px-1.5 py-0.5 rounded border flex items-center gap-0.5 transition-colors ${entry.billable ? 'bg-emerald-50 text-emerald-700 border-emerald-100' : 'bg-slate-100 text-slate-400 border-slate-200'}`}
+                                             title="Toggle billable"
+                                          >
+                                             <DollarSign size={10} /> {entry.billable ? 'Billable' : 'Non-billable'}
+                                          </button>
                                        </div>
                                     </div>
                                     <div className="font-mono font-bold text-slate-900 text-lg">
                                        {formatDuration(entry.duration)}
                                     </div>
+                                    {editingId !== entry.id && (
+                                       <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                          <button
+                                             type="button"
+                                             onClick={() => startEditing(entry)}
+                                             className="p-2 text-slate-400 hover:text-indigo-600 rounded-lg transition-colors"
+                                             title="Edit description"
+                                          >
+                                             <Edit2 size={14} />
+                                          </button>
+                                          <button
+                                             type="button"
+                                             onClick={() => handleDelete(entry)}
+                                             disabled={isSaving}
+                                             className="p-2 text-slate-400 hover:text-red-600 rounded-lg transition-colors"
+                                             title="Delete entry"
+                                          >
+                                             <Trash2 size={14} />
+                                          </button>
+                                       </div>
+                                    )}
                                  </div>
                               ))}
                            </div>
@@ -453,6 +578,8 @@ const TimeTracking: React.FC<TimeTrackingProps> = ({
          </div>
 
       </div>
+      </>
+      )}
     </div>
   );
 };
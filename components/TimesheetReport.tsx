@@ -0,0 +1,361 @@
+import React, { useState, useMemo } from 'react';
+import { Task, Project, TimeEntry } from '../types';
+import { BarChart3, Download, Printer, DollarSign, Clock, Receipt } from 'lucide-react';
+import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth, subWeeks, subMonths, parseISO } from 'date-fns';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, CartesianGrid } from 'recharts';
+import {
+  RoundingMode, TimesheetGrouping, BillableFilter, ROUNDING_INCREMENTS,
+  buildTimesheet, groupTimesheet, timesheetTotals, dailyHours, formatHours, formatAmount, timesheetToCsv, timesheetToHtml
+} from '../utils/timesheet';
+
+interface TimesheetReportProps {
+  tasks: Task[];
+  projects: Project[];
+  timeEntries: TimeEntry[];
+  preparedFor: string;
+  updateProject: (id: string, updates: Partial<Project>) => void;
+}
+
+type RangePreset = 'this-week' | 'last-week' | 'this-month' | 'last-month' | 'custom';
+
+const RANGE_PRESETS: { key: RangePreset; label: string }[] = [
+  { key: 'this-week', label: 'This Week' },
+  { key: 'last-week', label: 'Last Week' },
+  { key: 'this-month', label: 'This Month' },
+  { key: 'last-month', label: 'Last Month' },
+  { key: 'custom', label: 'Custom' }
+];
+
+const GROUPINGS: { key: TimesheetGrouping; label: string }[] = [
+  { key: 'project', label: 'Project' },
+  { key: 'task', label: 'Task' },
+  { key: 'day', label: 'Day' },
+  { key: 'week', label: 'Week' }
+];
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const presetRange = (preset: Exclude<RangePreset, 'custom'>) => {
+  const now = new Date();
+  switch (preset) {
+    case 'this-week':
+      return { from: startOfWeek(now, { weekStartsOn: 1 }), to: endOfWeek(now, { weekStartsOn: 1 }) };
+    case 'last-week': {
+      const lastWeek = subWeeks(now, 1);
+      return { from: startOfWeek(lastWeek, { weekStartsOn: 1 }), to: endOfWeek(lastWeek, { weekStartsOn: 1 }) };
+    }
+    case 'this-month':
+      return { from: startOfMonth(now), to: endOfMonth(now) };
+    case 'last-month': {
+      const lastMonth = subMonths(now, 1);
+      return { from: startOfMonth(lastMonth), to: endOfMonth(lastMonth) };
+    }
+  }
+};
+
+const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const selectClass = "bg-slate-50 border border-slate-200 rounded-xl px-3 py-2.5 text-sm font-medium text-slate-700 outline-none focus:ring-2 focus:ring-black/5 focus:border-black transition-all";
+
+// Billable timesheet for a date range: totals, a daily activity chart, a grouped summary,
+// per-project rates, and CSV / printable exports
+const TimesheetReport: React.FC<TimesheetReportProps> = ({ tasks, projects, timeEntries, preparedFor, updateProject }) => {
+  const [preset, setPreset] = useState<RangePreset>('this-week');
+  const [from, setFrom] = useState(() => toDateString(presetRange('this-week').from));
+  const [to, setTo] = useState(() => toDateString(presetRange('this-week').to));
+  const [increment, setIncrement] = useState(0);
+  const [roundingMode, setRoundingMode] = useState<RoundingMode>('up');
+  const [billableFilter, setBillableFilter] = useState<BillableFilter>('all');
+  const [grouping, setGrouping] = useState<TimesheetGrouping>('project');
+  const [error, setError] = useState<string | null>(null);
+
+  const isValidRange = !!from && !!to && from <= to;
+
+  const options = useMemo(() => ({
+    from,
+    to,
+    rounding: { increment, mode: roundingMode },
+    billable: billableFilter
+  }), [from, to, increment, roundingMode, billableFilter]);
+
+  const lines = useMemo(
+    () => isValidRange ? buildTimesheet(timeEntries, tasks, projects, options) : [],
+    [timeEntries, tasks, projects, options, isValidRange]
+  );
+  const groups = useMemo(() => groupTimesheet(lines, grouping), [lines, grouping]);
+  const totals = useMemo(() => timesheetTotals(lines), [lines]);
+  const chartData = useMemo(() => isValidRange ? dailyHours(lines, from, to) : [], [lines, from, to, isValidRange]);
+  const today = toDateString(new Date());
+
+  const selectPreset = (key: RangePreset) => {
+    setPreset(key);
+    if (key === 'custom') return;
+    const range = presetRange(key);
+    setFrom(toDateString(range.from));
+    setTo(toDateString(range.to));
+  };
+
+  const handleCsvExport = () => {
+    downloadFile(`timesheet_${from}_${to}.csv`, timesheetToCsv(lines), 'text/csv;charset=utf-8');
+  };
+
+  const handlePrint = () => {
+    setError(null);
+    const win = window.open('', '_blank');
+    if (!win) {
+      setError('Allow pop-ups for this site to print the timesheet');
+      return;
+    }
+    win.document.write(timesheetToHtml(lines, options, grouping, preparedFor));
+    win.document.close();
+    win.focus();
+    win.print();
+  };
+
+  const handleRateChange = (project: Project, value: string) => {
+    const rate = parseFloat(value);
+    const hourlyRate = Number.isFinite(rate) && rate >= 0 ? rate : 0;
+    if (hourlyRate !== (project.hourlyRate || 0)) updateProject(project.id, { hourlyRate });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Controls */}
+      <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-5 space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {RANGE_PRESETS.map(p => (
+            <button
+              key={p.key}
+              type="button"
+              onClick={() => selectPreset(p.key)}
+              className={`px-3.5 py-2 rounded-xl text-xs font-bold uppercase tracking-wider transition-all ${preset === p.key ? 'bg-slate-900 text-white' : 'bg-slate-50 text-slate-500 hover:text-slate-900 hover:bg-slate-100'}`}
+            >
+              {p.label}
+            </button>
+          ))}
+          {preset === 'custom' && (
+            <div className="flex items-center gap-2">
+              <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={selectClass} />
+              <span className="text-slate-400 text-sm">to</span>
+              <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={selectClass} />
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1.5 ml-1">Rounding</label>
+            <div className="flex gap-2">
+              <select value={increment} onChange={(e) => setIncrement(Number(e.target.value))} className={selectClass}>
+                {ROUNDING_INCREMENTS.map(i => <option key={i} value={i}>{i === 0 ? 'Exact' : `${i} min`}</option>)}
+              </select>
+              {increment > 0 && (
+                <select value={roundingMode} onChange={(e) => setRoundingMode(e.target.value as RoundingMode)} className={selectClass}>
+                  <option value="up">Round up</option>
+                  <option value="nearest">Round to nearest</option>
+                  <option value="down">Round down</option>
+                </select>
+              )}
+            </div>
+          </div>
+          <div>
+            <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1.5 ml-1">Entries</label>
+            <select value={billableFilter} onChange={(e) => setBillableFilter(e.target.value as BillableFilter)} className={selectClass}>
+              <option value="all">All time</option>
+              <option value="billable">Billable only</option>
+              <option value="non-billable">Non-billable only</option>
+            </select>
+          </div>
+          <div className="flex gap-2 ml-auto">
+            <button
+              type="button"
+              onClick={handleCsvExport}
+              disabled={lines.length === 0}
+              className="px-4 py-2.5 bg-white border border-slate-200 text-slate-700 rounded-xl text-sm font-bold flex items-center gap-2 hover:bg-slate-50 disabled:opacity-40 disabled:cursor-not-allowed transition-all"
+            >
+              <Download size={16} /> CSV
+            </button>
+            <button
+              type="button"
+              onClick={handlePrint}
+              disabled={lines.length === 0}
+              className="px-4 py-2.5 bg-black text-white rounded-xl text-sm font-bold flex items-center gap-2 hover:bg-slate-800 disabled:opacity-40 disabled:cursor-not-allowed transition-all"
+            >
+              <Printer size={16} /> Print / PDF
+            </button>
+          </div>
+        </div>
+
+        {!isValidRange && <p className="text-xs font-bold text-red-600">The start date must be on or before the end date.</p>}
+        {error && <p className="text-xs font-bold text-red-600">{error}</p>}
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+          <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1.5"><Clock size={12} /> Total Hours</p>
+          <span className="text-2xl font-bold text-slate-900">{formatHours(totals.seconds)}</span>
+        </div>
+        <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+          <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1.5"><Receipt size={12} /> Billable Hours</p>
+          <span className="text-2xl font-bold text-slate-900">{formatHours(totals.billableSeconds)}</span>
+        </div>
+        <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+          <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-1.5"><DollarSign size={12} /> Amount</p>
+          <span className="text-2xl font-bold text-slate-900">{formatAmount(totals.amount)}</span>
+        </div>
+      </div>
+
+      {/* Daily activity */}
+      <div className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-bold text-slate-900 flex items-center gap-2">
+            <BarChart3 size={18} className="text-slate-400" />
+            Daily Activity
+          </h3>
+        </div>
+        <div className="w-full h-[220px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis
+                dataKey={chartData.length > 7 ? 'label' : 'day'}
+                axisLine={false}
+                tickLine={false}
+                tick={{ fill: '#94a3b8', fontSize: 12 }}
+                dy={10}
+              />
+              <YAxis
+                axisLine={false}
+                tickLine={false}
+                tick={{ fill: '#94a3b8', fontSize: 12 }}
+              />
+              <Tooltip
+                cursor={{ fill: '#f8fafc' }}
+                contentStyle={{ borderRadius: '8px', border: '1px solid #e2e8f0', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+              />
+              <Bar dataKey="hours" radius={[4, 4, 0, 0]}>
+                {chartData.map((entry, index) => (
+                  <Cell key={`cell-${index}`} fill={entry.date === today ? '#111827' : '#cbd5e1'} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Grouped summary */}
+        <div className="lg:col-span-2 bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+          <div className="p-5 border-b border-slate-100 flex flex-wrap justify-between items-center gap-3 bg-slate-50/50">
+            <h3 className="font-bold text-slate-900">Summary</h3>
+            <div className="flex gap-1 bg-white border border-slate-200 rounded-xl p-1">
+              {GROUPINGS.map(g => (
+                <button
+                  key={g.key}
+                  type="button"
+                  onClick={() => setGrouping(g.key)}
+                  className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${grouping === g.key ? 'bg-slate-900 text-white' : 'text-slate-500 hover:text-slate-900'}`}
+                >
+                  {g.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {groups.length === 0 ? (
+            <div className="text-center py-12 text-slate-400 flex flex-col items-center">
+              <Clock size={40} className="mb-3 opacity-20" />
+              <p>No time logged in this range.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-[10px] font-bold text-slate-400 uppercase tracking-wider text-left">
+                    <th className="px-5 py-3">{GROUPINGS.find(g => g.key === grouping)?.label}</th>
+                    <th className="px-5 py-3 text-right">Entries</th>
+                    <th className="px-5 py-3 text-right">Hours</th>
+                    <th className="px-5 py-3 text-right">Billable</th>
+                    <th className="px-5 py-3 text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {groups.map(group => (
+                    <tr key={group.key} className="hover:bg-slate-50/50">
+                      <td className="px-5 py-3 font-bold text-slate-900">{group.label}</td>
+                      <td className="px-5 py-3 text-right text-slate-500">{group.entryCount}</td>
+                      <td className="px-5 py-3 text-right font-mono font-bold text-slate-900">{formatHours(group.seconds)}</td>
+                      <td className="px-5 py-3 text-right font-mono text-slate-500">{formatHours(group.billableSeconds)}</td>
+                      <td className="px-5 py-3 text-right font-mono font-bold text-slate-900">{formatAmount(group.amount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="border-t-2 border-slate-900 font-bold text-slate-900">
+                    <td className="px-5 py-3">Total</td>
+                    <td className="px-5 py-3 text-right">{lines.length}</td>
+                    <td className="px-5 py-3 text-right font-mono">{formatHours(totals.seconds)}</td>
+                    <td className="px-5 py-3 text-right font-mono">{formatHours(totals.billableSeconds)}</td>
+                    <td className="px-5 py-3 text-right font-mono">{formatAmount(totals.amount)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Project rates */}
+        <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+          <div className="p-5 border-b border-slate-100 bg-slate-50/50">
+            <h3 className="font-bold text-slate-900">Project Rates</h3>
+            <p className="text-xs text-slate-500 mt-1">Hourly rate, and whether new time on the project is billable.</p>
+          </div>
+          {projects.length === 0 ? (
+            <p className="p-5 text-sm text-slate-400">No projects yet.</p>
+          ) : (
+            <ul className="divide-y divide-slate-100 max-h-[400px] overflow-y-auto">
+              {projects.map(project => (
+                <li key={project.id} className="px-5 py-3 flex items-center gap-3">
+                  <span className="flex-1 min-w-0 text-sm font-bold text-slate-900 truncate">{project.name}</span>
+                  <input
+                    // Re-mount when the saved rate changes so the field shows the stored value
+                    key={`${project.id}-${project.hourlyRate || 0}`}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    defaultValue={project.hourlyRate || 0}
+                    onBlur={(e) => handleRateChange(project, e.target.value)}
+                    className="w-24 bg-slate-50 border border-slate-200 rounded-lg px-2.5 py-1.5 text-sm font-mono text-right outline-none focus:ring-2 focus:ring-black/5 focus:border-black"
+                    title="Hourly rate"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => updateProject(project.id, { billable: project.billable === false })}
+                    className={`px-2.5 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-wider border transition-all ${project.billable !== false ? 'bg-emerald-50 text-emerald-700 border-emerald-200' : 'bg-slate-50 text-slate-400 border-slate-200'}`}
+                    title="Default for new time entries"
+                  >
+                    {project.billable !== false ? 'Billable' : 'Non-billable'}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <p className="text-xs text-slate-400">
+        {isValidRange && `${format(parseISO(from), 'MMM d, yyyy')} – ${format(parseISO(to), 'MMM d, yyyy')}. `}
+        Time is attributed to a project through the task it was logged against; unlinked time is listed under "No project".
+      </p>
+    </div>
+  );
+};
+
+export default TimesheetReport;
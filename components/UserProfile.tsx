@@ -1,13 +1,22 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { User, Task, TaskStatus, Project } from '../types';
+import { User, Task, TaskStatus, Project, Category } from '../types';
 import { Mail, Briefcase, LogOut, Shield, Bell, Edit3, MapPin, Link as LinkIcon, CheckCircle2, Clock, Activity, Save, X, Check, Loader2, User as UserIcon, Calendar, Award, TrendingUp, Zap, Crown, Settings, Camera, Upload, Eye, EyeOff, Key, Fingerprint, Wifi, Cloud, Database, BarChart3, Target, Star, Globe, Hash, CalendarClock, Monitor, Smartphone, Cpu, Laptop } from 'lucide-react';
 import { format, parseISO, isSameDay, subDays, startOfDay } from 'date-fns';
 import apiService from '../services/apiService';
+import { StatusModel } from '../utils/statusModel';
+import { CategoryPayload } from '../services/apiTypes';
+import CategorySettings from './CategorySettings';
+import NotificationSettings from './NotificationSettings';
+import PushDevices from './PushDevices';
 
 interface UserProfileProps {
   user: User;
   tasks: Task[];
   projects: Project[];
+  categories: Category[];
+  createCategory: (payload: CategoryPayload) => Promise<Category>;
+  updateCategory: (id: string, payload: CategoryPayload) => Promise<void>;
+  deleteCategory: (id: string) => Promise<void>;
   onLogout: () => void;
   onUpdateUser: (updates: Partial<User>) => void;
 }
@@ -24,10 +33,6 @@ interface ProfileFormData {
 interface SecuritySettings {
   twoFactorEnabled: boolean;
   biometricEnabled: boolean;
-  notificationsEnabled: boolean;
-  emailNotifications: boolean;
-  smsNotifications: boolean;
-  pushNotifications: boolean;
 }
 
 interface SubscriptionPlan {
@@ -42,7 +47,7 @@ interface SubscriptionPlan {
   };
 }
 
-const UserProfile: React.FC<UserProfileProps> = ({ user, tasks, projects, onLogout, onUpdateUser }) => {
+const UserProfile: React.FC<UserProfileProps> = ({ user, tasks, projects, categories, createCategory, updateCategory, deleteCategory, onLogout, onUpdateUser }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [toast, setToast] = useState<{message: string, type: 'success' | 'error' | 'info'} | null>(null);
@@ -58,11 +63,7 @@ const UserProfile: React.FC<UserProfileProps> = ({ user, tasks, projects, onLogo
   // Security settings
   const [securitySettings, setSecuritySettings] = useState<SecuritySettings>({
     twoFactorEnabled: true,
-    biometricEnabled: true,
-    notificationsEnabled: true,
-    emailNotifications: true,
-    smsNotifications: false,
-    pushNotifications: true
+    biometricEnabled: true
   });
   
   // Subscription data
@@ -96,7 +97,7 @@ const UserProfile: React.FC<UserProfileProps> = ({ user, tasks, projects, onLogo
 
   // Real-time Analytics Calculations
   const analytics = useMemo(() => {
-    const completedTasksList = tasks.filter(t => t.status === TaskStatus.DONE);
+    const completedTasksList = tasks.filter(t => StatusModel.isDone(t.status));
     const completed = completedTasksList.length;
     const pending = tasks.length - completed;
     const rate = tasks.length > 0 ? Math.round((completed / tasks.length) * 100) : 0;
@@ -147,11 +148,7 @@ const UserProfile: React.FC<UserProfileProps> = ({ user, tasks, projects, onLogo
         
         setSecuritySettings({
           twoFactorEnabled: !!u.twoFactorEnabled,
-          biometricEnabled: !!u.twoFactorEnabled,
-          notificationsEnabled: !!u.notificationsEnabled,
-          emailNotifications: !!u.notificationsEnabled,
-          smsNotifications: false,
-          pushNotifications: !!u.notificationsEnabled
+          biometricEnabled: !!u.twoFactorEnabled
         });
 
         // Trigger real-time location detection if location is empty or default
@@ -489,6 +486,39 @@ const UserProfile: React.FC<UserProfileProps> = ({ user, tasks, projects, onLogo
                    )}
                 </div>
               </div>
+
+              {/* Notifications */}
+              <div className="bg-white rounded-[2.5rem] border border-slate-200 shadow-sm p-10">
+                <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-8 flex items-center gap-3">
+                  <Bell size={18} className="text-amber-500" />
+                  Notifications
+                </h3>
+                <NotificationSettings />
+              </div>
+
+              {/* Push devices */}
+              <div className="bg-white rounded-[2.5rem] border border-slate-200 shadow-sm p-10">
+                <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-8 flex items-center gap-3">
+                  <Smartphone size={18} className="text-sky-500" />
+                  Devices
+                </h3>
+                <PushDevices />
+              </div>
+
+              {/* Categories */}
+              <div className="bg-white rounded-[2.5rem] border border-slate-200 shadow-sm p-10">
+                <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-8 flex items-center gap-3">
+                  <Hash size={18} className="text-emerald-500" />
+                  Categories
+                </h3>
+                <CategorySettings
+                  categories={categories}
+                  tasks={tasks}
+                  createCategory={createCategory}
+                  updateCategory={updateCategory}
+                  deleteCategory={deleteCategory}
+                />
+              </div>
            </div>
         </div>
       </div>
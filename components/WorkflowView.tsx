@@ -1,17 +1,52 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { Task, TaskStatus, Priority, Category } from '../types';
-import { KanbanSquare, Lock, Calendar, AlertCircle, CheckCircle2, Circle, Clock, MoreHorizontal, Activity, Zap } from 'lucide-react';
+import { Task, TaskStatus, TaskStatusKey, StatusDefinition, StatusColor, Priority, Category, Tag } from '../types';
+import { KanbanSquare, Lock, Calendar, AlertCircle, CheckCircle2, Circle, Clock, MoreHorizontal, Activity, Zap, Plus, X, ListChecks, Tags, ShieldAlert } from 'lucide-react';
 import { format, isPast, isToday } from 'date-fns';
+import { StatusModel, STATUS_COLORS } from '../utils/statusModel';
+import { TaskManager as TaskUtils } from '../utils/taskManager';
+import TagChips from './TagChips';
+import CategoryBadge from './CategoryBadge';
+import AssigneeAvatar from './AssigneeAvatar';
 
 interface WorkflowViewProps {
   tasks: Task[];
-  updateTaskStatus: (id: string, status: TaskStatus) => void;
+  statuses: StatusDefinition[];
+  tags: Tag[];
+  categories: Category[];
+  updateTaskStatus: (id: string, status: TaskStatusKey, overrideDependencies?: boolean) => void;
+  updateStatuses: (statuses: StatusDefinition[]) => Promise<void>;
+  canOverrideDependencies?: boolean;
+  canMoveTasks?: boolean; // False for a workspace guest, whose cards stay put
 }
 
-const WorkflowView: React.FC<WorkflowViewProps> = ({ tasks, updateTaskStatus }) => {
+// A drop that the task's open dependencies would block, held until the user confirms or cancels it
+interface BlockedMove {
+  task: Task;
+  status: StatusDefinition;
+  blockers: Task[];
+}
+
+const WorkflowView: React.FC<WorkflowViewProps> = ({ tasks, statuses, tags, categories, updateTaskStatus, updateStatuses, canOverrideDependencies = false, canMoveTasks = true }) => {
   const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
   const [currentTime, setCurrentTime] = useState(new Date());
+  const [isAddingColumn, setIsAddingColumn] = useState(false);
+  const [newColumn, setNewColumn] = useState<{ label: string; color: StatusColor; done: boolean }>({ label: '', color: 'amber', done: false });
+  const [columnError, setColumnError] = useState<string | null>(null);
+  const [dropError, setDropError] = useState<string | null>(null);
+  const [blockedMove, setBlockedMove] = useState<BlockedMove | null>(null);
+  const [tagFilter, setTagFilter] = useState<string>('ALL');
+
+  const activeTagFilter = tags.some(t => t.id === tagFilter) ? tagFilter : 'ALL';
+
+  // Subtasks are tracked on their parent's card rather than as cards of their own
+  const boardTasks = useMemo(
+    () => tasks.filter(t =>
+      (!t.parentId || !tasks.some(p => p.id === t.parentId)) &&
+      (activeTagFilter === 'ALL' || !!t.tags?.includes(activeTagFilter))
+    ),
+    [tasks, activeTagFilter]
+  );
 
   useEffect(() => {
     const timer = setInterval(() => setCurrentTime(new Date()), 1000);
@@ -20,6 +55,7 @@ const WorkflowView: React.FC<WorkflowViewProps> = ({ tasks, updateTaskStatus })
 
   const handleDragStart = (e: React.DragEvent, taskId: string) => {
     setDraggedTaskId(taskId);
+    setDropError(null);
     e.dataTransfer.effectAllowed = "move";
   };
 
@@ -28,31 +64,70 @@ const WorkflowView: React.FC<WorkflowViewProps> = ({ tasks, updateTaskStatus })
     e.dataTransfer.dropEffect = "move";
   };
 
-  const handleDrop = (e: React.DragEvent, status: TaskStatus) => {
+  const handleDrop = (e: React.DragEvent, status: TaskStatusKey) => {
     e.preventDefault();
     if (draggedTaskId) {
-      updateTaskStatus(draggedTaskId, status);
+      const task = tasks.find(t => t.id === draggedTaskId);
+      const blockers = task ? getBlockingTasks(task) : [];
+      if (task && StatusModel.isDone(status) && !StatusModel.isDone(task.status) && TaskUtils.hasOpenSubtasks(tasks, task.id)) {
+        setDropError(`"${task.title}" still has open subtasks`);
+      } else if (task && task.status !== status && blockers.length > 0 && TaskUtils.needsDependencies(status)) {
+        setBlockedMove({ task, status: StatusModel.get(status), blockers });
+      } else {
+        updateTaskStatus(draggedTaskId, status);
+      }
       setDraggedTaskId(null);
     }
   };
 
-  const getBlockingTasks = (task: Task) => {
-    if (!task.dependencies || task.dependencies.length === 0) return [];
-    return task.dependencies
-      .map(depId => tasks.find(t => t.id === depId))
-      .filter(t => t && t.status !== TaskStatus.DONE) as Task[];
+  const getBlockingTasks = (task: Task) => TaskUtils.blockingTasks(tasks, task);
+
+  const overrideBlockedMove = () => {
+    if (!blockedMove) return;
+    updateTaskStatus(blockedMove.task.id, blockedMove.status.key, true);
+    setBlockedMove(null);
+  };
+
+  const getStatusConfig = (status: StatusDefinition) => {
+    const c = status.color;
+    const icon = status.key === TaskStatus.IN_PROGRESS ? Clock
+      : status.key === TaskStatus.REVIEW ? AlertCircle
+      : status.done ? CheckCircle2
+      : Circle;
+    return { color: `text-${c}-500`, bg: `bg-${c}-50/50`, border: `border-${c}-100`, icon, glow: `bg-${c}-500/10` };
+  };
+
+  const handleAddColumn = async () => {
+    const label = newColumn.label.trim();
+    if (!label) return;
+    const key = StatusModel.keyFromLabel(label);
+    if (statuses.some(s => s.key === key)) {
+      setColumnError(`A "${label}" column already exists`);
+      return;
+    }
+
+    // New columns slot in before the first done column so finished work stays on the right
+    const firstDone = statuses.findIndex(s => s.done);
+    const insertAt = newColumn.done || firstDone === -1 ? statuses.length : firstDone;
+    const next = [...statuses];
+    next.splice(insertAt, 0, { key, label, color: newColumn.color, done: newColumn.done });
+
+    try {
+      await updateStatuses(next);
+      setIsAddingColumn(false);
+      setNewColumn({ label: '', color: 'amber', done: false });
+      setColumnError(null);
+    } catch (error: any) {
+      setColumnError(error.message || 'Failed to add column');
+    }
   };
 
-  const getStatusConfig = (status: TaskStatus) => {
-    switch (status) {
-      case TaskStatus.TODO:
-        return { color: 'text-slate-500', bg: 'bg-slate-50', border: 'border-slate-200', icon: Circle, glow: 'bg-slate-500/10' };
-      case TaskStatus.IN_PROGRESS:
-        return { color: 'text-blue-500', bg: 'bg-blue-50/50', border: 'border-blue-100', icon: Clock, glow: 'bg-blue-500/10' };
-      case TaskStatus.REVIEW:
-        return { color: 'text-purple-500', bg: 'bg-purple-50/50', border: 'border-purple-100', icon: AlertCircle, glow: 'bg-purple-500/10' };
-      case TaskStatus.DONE:
-        return { color: 'text-emerald-500', bg: 'bg-emerald-50/50', border: 'border-emerald-100', icon: CheckCircle2, glow: 'bg-emerald-500/10' };
+  const handleRemoveColumn = async (key: TaskStatusKey) => {
+    try {
+      await updateStatuses(statuses.filter(s => s.key !== key));
+      setColumnError(null);
+    } catch (error: any) {
+      setColumnError(error.message || 'Failed to remove column');
     }
   };
 
@@ -65,12 +140,12 @@ const WorkflowView: React.FC<WorkflowViewProps> = ({ tasks, updateTaskStatus })
   };
 
   const workflowStats = useMemo(() => {
-    const total = tasks.length;
-    const active = tasks.filter(t => t.status !== TaskStatus.DONE).length;
+    const total = boardTasks.length;
+    const active = boardTasks.filter(t => !StatusModel.isDone(t.status)).length;
     const completed = total - active;
     const efficiency = total > 0 ? Math.round((completed / total) * 100) : 100;
     return { total, active, completed, efficiency };
-  }, [tasks]);
+  }, [boardTasks]);
 
   return (
     <div className="p-4 md:p-8 h-full flex flex-col bg-slate-50/30">
@@ -110,22 +185,59 @@ const WorkflowView: React.FC<WorkflowViewProps> = ({ tasks, updateTaskStatus })
         </div>
       </div>
 
+      {tags.length > 0 && (
+        <div className="mb-6 flex items-center gap-3 overflow-x-auto scrollbar-hide">
+            <span className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest shrink-0">
+                <Tags size={12} strokeWidth={3} /> Tag
+            </span>
+            <button
+                onClick={() => setTagFilter('ALL')}
+                className={`px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest border transition-all ${activeTagFilter === 'ALL' ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-500 border-slate-200 hover:border-slate-400'}`}
+            >
+                All
+            </button>
+            {tags.map(tag => {
+                const isActive = activeTagFilter === tag.id;
+                return (
+                    <button
+                        key={tag.id}
+                        onClick={() => setTagFilter(isActive ? 'ALL' : tag.id)}
+                        className={`px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest border whitespace-nowrap flex items-center gap-1.5 transition-all ${isActive ? 'text-white' : 'bg-white text-slate-500 border-slate-200 hover:border-slate-400'}`}
+                        style={isActive ? { backgroundColor: tag.color, borderColor: tag.color } : undefined}
+                    >
+                        {!isActive && <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: tag.color }} />}
+                        {tag.name}
+                    </button>
+                );
+            })}
+        </div>
+      )}
+
+      {dropError && (
+        <div className="mb-6 flex items-center justify-between gap-4 px-6 py-4 bg-amber-50 border border-amber-200 rounded-2xl text-amber-800 text-xs font-bold uppercase tracking-widest">
+            <span className="flex items-center gap-2"><Lock size={14} strokeWidth={3} /> {dropError}: complete them first</span>
+            <button onClick={() => setDropError(null)} className="p-1 hover:text-amber-950 transition-colors">
+                <X size={14} strokeWidth={3} />
+            </button>
+        </div>
+      )}
+
       <div className="flex-1 overflow-x-auto overflow-y-hidden pb-4">
         <div className="flex h-full gap-8 min-w-max pb-4">
-            {Object.values(TaskStatus).map(status => {
-            const statusTasks = tasks.filter(t => t.status === status);
+            {statuses.map(status => {
+            const statusTasks = boardTasks.filter(t => t.status === status.key);
             const isDropZone = draggedTaskId !== null;
             const config = getStatusConfig(status);
             const StatusIcon = config.icon;
 
             return (
                 <div 
-                    key={status} 
+                    key={status.key} 
                     className={`w-96 flex flex-col rounded-[2.5rem] transition-all duration-500 ${config.bg} border ${config.border} p-1 ${
                         isDropZone ? 'ring-4 ring-slate-900/5 bg-white/60 backdrop-blur-md' : 'shadow-sm'
                     }`}
                     onDragOver={handleDragOver}
-                    onDrop={(e) => handleDrop(e, status)}
+                    onDrop={(e) => handleDrop(e, status.key)}
                 >
                     {/* Column Header */}
                     <div className="p-6 flex items-center justify-between sticky top-0 bg-inherit rounded-t-[2.5rem] z-10">
@@ -133,11 +245,22 @@ const WorkflowView: React.FC<WorkflowViewProps> = ({ tasks, updateTaskStatus })
                             <div className={`p-2 rounded-xl bg-white shadow-sm border ${config.border} ${config.color}`}>
                                 <StatusIcon size={18} strokeWidth={3} />
                             </div>
-                            <h3 className="font-bold text-slate-900 text-sm uppercase tracking-widest">{status.replace('_', ' ')}</h3>
+                            <h3 className="font-bold text-slate-900 text-sm uppercase tracking-widest">{status.label}</h3>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <span className="bg-slate-900 text-white text-[10px] font-bold px-3 py-1 rounded-full shadow-lg shadow-slate-200">
+                                {statusTasks.length}
+                            </span>
+                            {!StatusModel.isBuiltIn(status.key) && statusTasks.length === 0 && (
+                                <button
+                                    onClick={() => handleRemoveColumn(status.key)}
+                                    className="p-1 text-slate-300 hover:text-red-500 transition-colors"
+                                    title="Remove column"
+                                >
+                                    <X size={14} strokeWidth={3} />
+                                </button>
+                            )}
                         </div>
-                        <span className="bg-slate-900 text-white text-[10px] font-bold px-3 py-1 rounded-full shadow-lg shadow-slate-200">
-                            {statusTasks.length}
-                        </span>
                     </div>
 
                     {/* Task List */}
@@ -145,15 +268,16 @@ const WorkflowView: React.FC<WorkflowViewProps> = ({ tasks, updateTaskStatus })
                         {statusTasks.map(task => {
                             const blockingTasks = getBlockingTasks(task);
                             const isBlocked = blockingTasks.length > 0;
-                            const isOverdue = task.status !== TaskStatus.DONE && isPast(new Date(task.dueDate)) && !isToday(new Date(task.dueDate));
-                            const isHighPriority = task.priority === Priority.HIGH && task.status !== TaskStatus.DONE;
+                            const isOverdue = !StatusModel.isDone(task.status) && isPast(new Date(task.dueDate)) && !isToday(new Date(task.dueDate));
+                            const isHighPriority = task.priority === Priority.HIGH && !StatusModel.isDone(task.status);
+                            const subtaskProgress = TaskUtils.subtaskProgress(tasks, task.id);
 
                             return (
                             <div 
                                 key={task.id} 
-                                draggable
-                                onDragStart={(e) => handleDragStart(e, task.id)}
-                                className={`group p-6 rounded-[2rem] border cursor-grab active:cursor-grabbing transition-all duration-300 relative ${
+                                draggable={canMoveTasks}
+                                onDragStart={canMoveTasks ? (e) => handleDragStart(e, task.id) : undefined}
+                                className={`group p-6 rounded-[2rem] border ${canMoveTasks ? 'cursor-grab active:cursor-grabbing' : ''} transition-all duration-300 relative ${
                                     draggedTaskId === task.id ? 'opacity-30 scale-95' : 'opacity-100 hover:shadow-2xl hover:border-slate-400 hover:-translate-y-1'
                                 } ${
                                     isBlocked 
@@ -170,9 +294,7 @@ const WorkflowView: React.FC<WorkflowViewProps> = ({ tasks, updateTaskStatus })
                                 {/* Header Row */}
                                 <div className="flex justify-between items-start mb-4">
                                     <div className="flex flex-wrap gap-2">
-                                        <span className={`text-[9px] font-bold px-2 py-0.5 rounded-full border uppercase tracking-widest ${task.category === Category.COMPANY ? 'bg-indigo-50 text-indigo-700 border-indigo-100' : 'bg-emerald-50 text-emerald-700 border-emerald-100'}`}>
-                                            {task.category}
-                                        </span>
+                                        <CategoryBadge categoryId={task.category} categories={categories} size="xs" />
                                         {getPriorityBadge(task.priority)}
                                     </div>
                                     <button className="text-slate-300 hover:text-slate-900 transition-colors p-1">
@@ -181,7 +303,7 @@ const WorkflowView: React.FC<WorkflowViewProps> = ({ tasks, updateTaskStatus })
                                 </div>
 
                                 {/* Title */}
-                                <h4 className={`text-lg font-bold text-slate-900 leading-tight mb-2 ${task.status === TaskStatus.DONE ? 'line-through text-slate-300' : ''}`}>
+                                <h4 className={`text-lg font-bold text-slate-900 leading-tight mb-2 ${StatusModel.isDone(task.status) ? 'line-through text-slate-300' : ''}`}>
                                     {task.title}
                                 </h4>
                                 
@@ -191,6 +313,26 @@ const WorkflowView: React.FC<WorkflowViewProps> = ({ tasks, updateTaskStatus })
                                     </p>
                                 )}
 
+                                {task.tags && task.tags.length > 0 && (
+                                    <div className="mb-4">
+                                        <TagChips tagIds={task.tags} tags={tags} max={3} />
+                                    </div>
+                                )}
+
+                                {/* Subtask Rollup */}
+                                {subtaskProgress.total > 0 && (
+                                    <div className="mb-4 flex items-center gap-3 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                                        <ListChecks size={12} strokeWidth={3} />
+                                        <span>{subtaskProgress.done}/{subtaskProgress.total}</span>
+                                        <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                                            <div
+                                                className={`h-full rounded-full transition-all duration-500 ${subtaskProgress.percent === 100 ? 'bg-emerald-500' : 'bg-indigo-500'}`}
+                                                style={{ width: `${subtaskProgress.percent}%` }}
+                                            />
+                                        </div>
+                                    </div>
+                                )}
+
                                 {/* Bottom Row */}
                                 <div className="flex items-center justify-between pt-4 border-t border-slate-50">
                                     <div className={`flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest ${isOverdue ? 'text-red-500' : 'text-slate-400'}`}>
@@ -217,11 +359,14 @@ const WorkflowView: React.FC<WorkflowViewProps> = ({ tasks, updateTaskStatus })
                                                 </div>
                                             </div>
                                         )}
-                                        {task.status === TaskStatus.DONE && (
+                                        {StatusModel.isDone(task.status) && (
                                             <div className="w-6 h-6 rounded-full bg-emerald-500 text-white flex items-center justify-center shadow-lg shadow-emerald-500/20">
                                                 <CheckCircle2 size={14} strokeWidth={3} />
                                             </div>
                                         )}
+                                        {task.assigneeId && (
+                                            <AssigneeAvatar name={task.assignee} avatarUrl={task.assigneeAvatarUrl} />
+                                        )}
                                     </div>
                                 </div>
                             </div>
@@ -239,8 +384,115 @@ const WorkflowView: React.FC<WorkflowViewProps> = ({ tasks, updateTaskStatus })
                 </div>
             );
             })}
+
+            {/* Custom Column */}
+            <div className="w-80 flex flex-col">
+                {isAddingColumn ? (
+                    <div className="p-6 rounded-[2.5rem] bg-white border border-slate-200 shadow-sm space-y-4">
+                        <input
+                            autoFocus
+                            type="text"
+                            value={newColumn.label}
+                            onChange={(e) => setNewColumn(prev => ({ ...prev, label: e.target.value }))}
+                            onKeyDown={(e) => e.key === 'Enter' && handleAddColumn()}
+                            placeholder="Column name, e.g. Blocked"
+                            className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-bold focus:outline-none focus:ring-2 focus:ring-slate-900"
+                        />
+                        <div className="flex flex-wrap gap-2">
+                            {STATUS_COLORS.map(color => (
+                                <button
+                                    key={color}
+                                    onClick={() => setNewColumn(prev => ({ ...prev, color }))}
+                                    className={`w-6 h-6 rounded-full bg-${color}-500 ${newColumn.color === color ? 'ring-2 ring-offset-2 ring-slate-900' : ''}`}
+                                    title={color}
+                                />
+                            ))}
+                        </div>
+                        <label className="flex items-center gap-2 text-[10px] font-bold text-slate-500 uppercase tracking-widest cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={newColumn.done}
+                                onChange={(e) => setNewColumn(prev => ({ ...prev, done: e.target.checked }))}
+                            />
+                            Counts as done
+                        </label>
+                        {columnError && <p className="text-xs font-bold text-red-500">{columnError}</p>}
+                        <div className="flex gap-2">
+                            <button
+                                onClick={handleAddColumn}
+                                className="flex-1 py-3 bg-slate-900 text-white rounded-2xl text-[10px] font-bold uppercase tracking-widest hover:bg-slate-800 transition-colors"
+                            >
+                                Add Column
+                            </button>
+                            <button
+                                onClick={() => { setIsAddingColumn(false); setColumnError(null); }}
+                                className="px-4 py-3 text-slate-400 hover:text-slate-900 text-[10px] font-bold uppercase tracking-widest"
+                            >
+                                Cancel
+                            </button>
+                        </div>
+                    </div>
+                ) : (
+                    <>
+                        <button
+                            onClick={() => setIsAddingColumn(true)}
+                            className="h-40 flex flex-col items-center justify-center gap-2 border-2 border-dashed border-slate-200 rounded-[2.5rem] text-slate-400 hover:text-slate-900 hover:border-slate-400 transition-all"
+                        >
+                            <Plus size={24} strokeWidth={3} />
+                            <span className="text-[10px] font-bold uppercase tracking-widest">Add Column</span>
+                        </button>
+                        {columnError && <p className="mt-3 px-2 text-xs font-bold text-red-500">{columnError}</p>}
+                    </>
+                )}
+            </div>
         </div>
       </div>
+
+      {blockedMove && (
+        <div className="fixed inset-0 bg-slate-900/40 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+          <div className="bg-white rounded-[2rem] w-full max-w-md shadow-2xl animate-fade-in overflow-hidden">
+            <div className="p-8">
+              <div className="flex items-center gap-3 mb-4">
+                <div className="p-2.5 bg-amber-50 rounded-xl text-amber-600">
+                  <Lock size={20} strokeWidth={2.5} />
+                </div>
+                <h3 className="text-lg font-bold text-slate-900">Task is blocked</h3>
+              </div>
+              <p className="text-sm text-slate-600 font-medium mb-4">
+                "{blockedMove.task.title}" can't move to {blockedMove.status.label} until {blockedMove.blockers.length === 1 ? 'this task is' : 'these tasks are'} done:
+              </p>
+              <ul className="space-y-2 mb-2">
+                {blockedMove.blockers.map(blocker => (
+                  <li key={blocker.id} className="flex items-center justify-between gap-3 px-4 py-3 bg-slate-50 border border-slate-100 rounded-xl">
+                    <span className="text-sm font-bold text-slate-800 truncate">{blocker.title}</span>
+                    <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400 shrink-0">{StatusModel.label(blocker.status)}</span>
+                  </li>
+                ))}
+              </ul>
+              {canOverrideDependencies && (
+                <p className="text-xs text-slate-400 font-medium mt-4">As an admin you can move it anyway; the override is recorded on the task.</p>
+              )}
+            </div>
+            <div className="px-8 py-5 bg-slate-50 border-t border-slate-100 flex justify-end gap-3">
+              <button
+                onClick={() => setBlockedMove(null)}
+                className="px-5 py-2.5 text-slate-600 font-bold text-xs uppercase tracking-widest rounded-xl border border-slate-200 hover:bg-white transition-all"
+              >
+                {canOverrideDependencies ? 'Cancel' : 'OK'}
+              </button>
+              {canOverrideDependencies && (
+                <button
+                  onClick={overrideBlockedMove}
+                  className="px-5 py-2.5 bg-amber-500 text-white font-bold text-xs uppercase tracking-widest rounded-xl hover:bg-amber-600 shadow-lg shadow-amber-500/20 transition-all flex items-center gap-2"
+                >
+                  <ShieldAlert size={14} />
+                  Override and move
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -3,6 +3,7 @@ import { Task, Project, TaskStatus, Priority } from '../types';
 import { GoogleGenAI } from "@google/genai";
 import { Sparkles, Bot, Zap, Target, CheckCircle2, ArrowRight, MessageSquare, Loader2, RefreshCw, Star, ShieldCheck, TrendingUp } from 'lucide-react';
 import { format, isToday, isPast } from 'date-fns';
+import { StatusModel } from '../utils/statusModel';
 
 interface WorkspaceIntelligenceProps {
   tasks: Task[];
@@ -17,7 +18,7 @@ const WorkspaceIntelligence: React.FC<WorkspaceIntelligenceProps> = ({ tasks, pr
   const [chatLoading, setChatLoading] = useState(false);
   const [chatHistory, setChatHistory] = useState<{role: 'user' | 'model', text: string}[]>([]);
 
-  const pendingTasks = useMemo(() => tasks.filter(t => t.status !== TaskStatus.DONE), [tasks]);
+  const pendingTasks = useMemo(() => tasks.filter(t => !StatusModel.isDone(t.status)), [tasks]);
   const highPriorityTasks = useMemo(() => pendingTasks.filter(t => t.priority === Priority.HIGH), [pendingTasks]);
   const todayTasks = useMemo(() => pendingTasks.filter(t => isToday(new Date(t.dueDate + 'T00:00:00'))), [pendingTasks]);
 
@@ -79,8 +80,8 @@ const WorkspaceIntelligence: React.FC<WorkspaceIntelligenceProps> = ({ tasks, pr
   const projectHealth = useMemo(() => {
     return projects.map(p => {
       const pTasks = tasks.filter(t => t.projectId === p.id);
-      const completed = pTasks.filter(t => t.status === TaskStatus.DONE).length;
-      const overdue = pTasks.filter(t => t.status !== TaskStatus.DONE && isPast(new Date(t.dueDate + 'T00:00:00')) && !isToday(new Date(t.dueDate + 'T00:00:00'))).length;
+      const completed = pTasks.filter(t => StatusModel.isDone(t.status)).length;
+      const overdue = pTasks.filter(t => !StatusModel.isDone(t.status) && isPast(new Date(t.dueDate + 'T00:00:00')) && !isToday(new Date(t.dueDate + 'T00:00:00'))).length;
       return { 
         name: p.name, 
         progress: p.progress, 
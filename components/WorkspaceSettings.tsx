@@ -0,0 +1,319 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Workspace, WorkspaceMember, WorkspaceRole } from '../types';
+import apiService from '../services/apiService';
+import { workspaceFromRow } from '../services/mappers';
+import { Users, X, Loader2, Trash2, Mail, Check, Copy, LogOut, Pencil } from 'lucide-react';
+
+interface WorkspaceSettingsProps {
+  workspace: Workspace;
+  currentUserId: string;
+  onSaved: (workspace: Workspace) => void;
+  onRemoved: (id: string) => void; // The user left or deleted the workspace
+  onClose: () => void;
+}
+
+type AssignableRole = Exclude<WorkspaceRole, 'owner'>;
+
+// Least to most trusted, as in backend/utils/workspaces.js
+const ROLES: WorkspaceRole[] = ['guest', 'member', 'admin', 'owner'];
+const ROLE_HINTS: Record<AssignableRole, string> = {
+  admin: 'Manages members and projects',
+  member: 'Creates and edits projects and tasks',
+  guest: 'Views and comments'
+};
+
+const rank = (role: WorkspaceRole) => ROLES.indexOf(role);
+
+// Members, roles and invitations of the open workspace. What is offered follows the server's rules:
+// people can only manage members ranked below them, and only into roles below their own.
+const WorkspaceSettings: React.FC<WorkspaceSettingsProps> = ({ workspace, currentUserId, onSaved, onRemoved, onClose }) => {
+  const [detail, setDetail] = useState<Workspace>(workspace);
+  const [name, setName] = useState(workspace.name);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<AssignableRole>('member');
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [confirmRemoval, setConfirmRemoval] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const myRank = rank(detail.role);
+  const isAdmin = myRank >= rank('admin');
+  const isOwner = detail.role === 'owner';
+  const assignable = (['admin', 'member', 'guest'] as AssignableRole[]).filter(role => rank(role) < myRank);
+  const canManage = (member: WorkspaceMember) => member.userId !== currentUserId && rank(member.role) < myRank;
+
+  useEffect(() => {
+    apiService.getWorkspace(workspace.id)
+      .then(row => setDetail(workspaceFromRow(row)))
+      .catch((err: any) => setError(err.message || 'Could not load the workspace'));
+  }, [workspace.id]);
+
+  // Runs a request with a busy marker; rows the server returns replace the local copy
+  const run = async (key: string, action: () => Promise<Workspace | void>) => {
+    setBusy(key);
+    setError(null);
+    try {
+      const updated = await action();
+      if (updated) {
+        setDetail(prev => ({ ...updated, invitations: prev.invitations }));
+        onSaved(updated);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Something went wrong');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const rename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || name.trim() === detail.name) {
+      setIsRenaming(false);
+      return;
+    }
+    run('rename', async () => {
+      const updated = workspaceFromRow(await apiService.renameWorkspace(detail.id, name.trim()));
+      setIsRenaming(false);
+      return updated;
+    });
+  };
+
+  const changeRole = (member: WorkspaceMember, role: AssignableRole) => run(member.userId, async () => (
+    workspaceFromRow(await apiService.updateWorkspaceMember(detail.id, member.userId, role))
+  ));
+
+  const removeMember = (member: WorkspaceMember) => run(member.userId, async () => (
+    workspaceFromRow(await apiService.removeWorkspaceMember(detail.id, member.userId))
+  ));
+
+  const invite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteEmail.trim()) return;
+    run('invite', async () => {
+      const response = await apiService.inviteToWorkspace(detail.id, inviteEmail.trim(), inviteRole);
+      const row = workspaceFromRow(await apiService.getWorkspace(detail.id));
+      setDetail(row);
+      setInviteEmail('');
+      setNotice(response.message || 'Invitation sent');
+      setInviteLink(response.demo_invite_url || null);
+      setLinkCopied(false);
+    });
+  };
+
+  const cancelInvitation = (id: string) => run(id, async () => {
+    await apiService.cancelWorkspaceInvitation(detail.id, id);
+    setDetail(prev => ({ ...prev, invitations: prev.invitations?.filter(i => i.id !== id) }));
+  });
+
+  const copyInviteLink = async () => {
+    if (!inviteLink) return;
+    await navigator.clipboard.writeText(inviteLink);
+    setLinkCopied(true);
+  };
+
+  // The owner deletes the workspace; everyone else leaves it
+  const removeSelf = () => run('self', async () => {
+    if (isOwner) {
+      await apiService.deleteWorkspace(detail.id);
+    } else {
+      await apiService.removeWorkspaceMember(detail.id, currentUserId);
+    }
+    onRemoved(detail.id);
+  });
+
+  const roleSelect = (value: WorkspaceRole, onChange: (role: AssignableRole) => void, disabled = false) => (
+    <select
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value as AssignableRole)}
+      className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold capitalize focus:outline-none focus:ring-2 focus:ring-slate-900 disabled:opacity-40"
+    >
+      {assignable.map(role => <option key={role} value={role} title={ROLE_HINTS[role]}>{role}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/40 z-50 flex items-center justify-center p-4 backdrop-blur-sm transition-all">
+      <div className="bg-white rounded-2xl w-full max-w-xl max-h-[90vh] shadow-2xl animate-fade-in overflow-hidden flex flex-col">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center gap-4 bg-slate-50/50">
+          {isRenaming ? (
+            <form onSubmit={rename} className="flex-1 flex items-center gap-2">
+              <input
+                autoFocus
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={80}
+                className="flex-1 min-w-0 bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm font-bold text-slate-800 outline-none focus:ring-2 focus:ring-slate-900"
+              />
+              <button type="submit" disabled={busy !== null} aria-label="Save name" className="p-2 rounded-xl bg-slate-900 text-white hover:bg-black transition-all disabled:opacity-50">
+                {busy === 'rename' ? <Loader2 size={16} className="animate-spin" /> : <Check size={16} />}
+              </button>
+            </form>
+          ) : (
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2 min-w-0">
+              <div className="p-2 bg-slate-900/10 rounded-lg text-slate-900 shrink-0">
+                <Users size={20} strokeWidth={2.5} />
+              </div>
+              <span className="truncate">{detail.name}</span>
+              {isAdmin && (
+                <button onClick={() => setIsRenaming(true)} aria-label="Rename workspace" className="p-1.5 text-slate-300 hover:text-slate-600 rounded-lg transition-colors">
+                  <Pencil size={14} />
+                </button>
+              )}
+            </h3>
+          )}
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 p-2 hover:bg-slate-100 rounded-full transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto custom-scrollbar">
+          <div>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Members</p>
+            <div className="border border-slate-100 rounded-2xl overflow-hidden">
+              {detail.members.map((member, i) => (
+                <div key={member.userId} className={`flex items-center gap-3 px-4 py-3 ${i > 0 ? 'border-t border-slate-100' : ''}`}>
+                  {member.avatarUrl ? (
+                    <img src={member.avatarUrl} alt="" className="w-9 h-9 rounded-xl object-cover shrink-0" />
+                  ) : (
+                    <div className="w-9 h-9 rounded-xl bg-slate-900 text-white flex items-center justify-center text-xs font-black shrink-0">
+                      {member.name.charAt(0).toUpperCase()}
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-bold text-slate-700 truncate flex items-center gap-2">
+                      {member.name}
+                      {member.userId === currentUserId && (
+                        <span className="px-2 py-0.5 bg-indigo-50 text-indigo-600 rounded-md text-[9px] font-black uppercase tracking-widest">You</span>
+                      )}
+                    </p>
+                    <p className="text-[11px] text-slate-400 font-medium truncate">{member.email}</p>
+                  </div>
+                  {canManage(member) ? (
+                    <>
+                      {roleSelect(member.role, (role) => changeRole(member, role), busy !== null)}
+                      <button
+                        onClick={() => removeMember(member)}
+                        disabled={busy !== null}
+                        aria-label={`Remove ${member.name}`}
+                        className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-xl transition-all disabled:opacity-40"
+                      >
+                        {busy === member.userId ? <Loader2 size={16} className="animate-spin" /> : <Trash2 size={16} />}
+                      </button>
+                    </>
+                  ) : (
+                    <span className="px-3 py-2 text-[10px] font-black uppercase tracking-widest text-slate-400">{member.role}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {isAdmin && (
+            <div>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Invite by email</p>
+              <form onSubmit={invite} className="flex items-center gap-2">
+                <input
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="teammate@company.com"
+                  className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm text-slate-700 outline-none focus:ring-2 focus:ring-slate-900"
+                />
+                {roleSelect(inviteRole, setInviteRole, busy !== null)}
+                <button
+                  type="submit"
+                  disabled={busy !== null || !inviteEmail.trim()}
+                  className="flex items-center gap-2 px-4 py-2 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-700 transition-all disabled:opacity-40"
+                >
+                  {busy === 'invite' ? <Loader2 size={14} className="animate-spin" /> : <Mail size={14} />}
+                  Invite
+                </button>
+              </form>
+              <p className="text-[11px] text-slate-400 font-medium mt-2">{ROLE_HINTS[inviteRole]}. Invitations expire after 7 days.</p>
+              {notice && <p className="text-xs font-bold text-emerald-600 mt-2">{notice}</p>}
+              {inviteLink && (
+                <div className="flex items-center gap-2 mt-2">
+                  <input
+                    readOnly
+                    value={inviteLink}
+                    onFocus={(e) => e.target.select()}
+                    className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-xl p-3 text-xs font-mono text-slate-700 outline-none"
+                  />
+                  <button onClick={copyInviteLink} className="p-3 rounded-xl bg-slate-900 text-white hover:bg-black transition-all" title="Copy link">
+                    {linkCopied ? <Check size={16} /> : <Copy size={16} />}
+                  </button>
+                </div>
+              )}
+
+              {detail.invitations && detail.invitations.length > 0 && (
+                <div className="border border-slate-100 rounded-2xl overflow-hidden mt-4">
+                  {detail.invitations.map((invitation, i) => (
+                    <div key={invitation.id} className={`flex items-center gap-3 px-4 py-3 ${i > 0 ? 'border-t border-slate-100' : ''}`}>
+                      <Mail size={16} className="text-slate-300 shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-bold text-slate-700 truncate">{invitation.email}</p>
+                        <p className="text-[11px] text-slate-400 font-medium">
+                          {invitation.role} · {invitation.invitedBy ? `invited by ${invitation.invitedBy} · ` : ''}expires {format(new Date(invitation.expiresAt), 'MMM d')}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => cancelInvitation(invitation.id)}
+                        disabled={busy !== null}
+                        aria-label={`Withdraw invitation to ${invitation.email}`}
+                        className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-xl transition-all disabled:opacity-40"
+                      >
+                        {busy === invitation.id ? <Loader2 size={16} className="animate-spin" /> : <X size={16} />}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-xs font-bold text-red-600">{error}</p>}
+
+          <div className="pt-4 border-t border-slate-100">
+            {confirmRemoval ? (
+              <div className="flex flex-wrap items-center justify-between gap-3 p-4 bg-red-50 rounded-2xl">
+                <p className="text-xs font-bold text-red-700">
+                  {isOwner ? 'Delete this workspace with all of its projects and tasks?' : `Leave ${detail.name}? You'll need a new invitation to rejoin.`}
+                </p>
+                <div className="flex gap-2">
+                  <button onClick={() => setConfirmRemoval(false)} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 hover:bg-white transition-all">
+                    Cancel
+                  </button>
+                  <button
+                    onClick={removeSelf}
+                    disabled={busy !== null}
+                    className="flex items-center gap-2 px-3 py-2 bg-red-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-red-700 transition-all disabled:opacity-40"
+                  >
+                    {busy === 'self' && <Loader2 size={12} className="animate-spin" />}
+                    {isOwner ? 'Delete' : 'Leave'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => setConfirmRemoval(true)}
+                className="flex items-center gap-2 text-xs font-bold text-slate-400 hover:text-red-600 transition-colors"
+              >
+                {isOwner ? <><Trash2 size={12} /> Delete workspace</> : <><LogOut size={12} /> Leave workspace</>}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkspaceSettings;
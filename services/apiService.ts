@@ -1,15 +1,52 @@
 // API Service for tasq.one
+import { Schema } from './validation';
+import {
+  authResponse, userResponse, userListResponse, messageResponse,
+  taskListResponse, taskResponse, assignedTaskListResponse, assignedTaskResponse, progressListResponse, taskUpdateResponse, taskStatsResponse, statusListResponse,
+  projectListResponse, projectResponse, projectStatsResponse,
+  commentListResponse, commentResponse,
+  timeEntryListResponse, timeEntryResponse, activeTimerResponse, tagListResponse, tagResponse, categoryListResponse, categoryResponse,
+  calendarFeedResponse, calendarImportResponse, notificationListResponse, notificationReadResponse, unreadCountResponse, notificationPreferencesResponse,
+  pushConfigResponse, pushSubscriptionListResponse, pushSubscriptionResponse,
+  workspaceListResponse, workspaceResponse, invitationPreviewResponse, invitationResponse,
+  TaskPayload, TaskFilters, ProjectPayload, ProfileUpdatePayload, TimeEntryFilters, TimeEntryPayload, CommentPayload, TagPayload, CategoryPayload,
+  TimeEntryRow, TagRow, CategoryRow, CalendarImportEvent, NotificationPreferencesPayload, PushSubscriptionPayload
+} from './apiTypes';
+import { StatusDefinition, WorkspaceRole } from '../types';
+
 const API_BASE_URL = (import.meta as any).env?.VITE_API_URL || '/api';  // Use environment variable or default to relative path
 
+// Thrown when the server could not be reached at all (offline, DNS, refused connection)
+export class NetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+// Thrown when the server answered with a non-2xx status
+export class ApiError extends Error {
+  status: number;
+  data: any;
+
+  constructor(message: string, status: number, data?: any) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+  }
+}
+
 class ApiService {
   private token: string | null;
+  private socketId: string | null = null;
 
   constructor() {
     this.token = localStorage.getItem('authToken');
   }
 
   // Set authentication token
-  setAuthToken(token) {
+  setAuthToken(token: string | null) {
     this.token = token;
     if (token) {
       localStorage.setItem('authToken', token);
@@ -18,16 +55,26 @@ class ApiService {
     }
   }
 
+  getAuthToken() {
+    return this.token;
+  }
+
+  // The live-sync socket of this tab; the server leaves it out when broadcasting the changes we make
+  setSocketId(id: string | null) {
+    this.socketId = id;
+  }
+
   // Get authentication headers
-  getAuthHeaders() {
+  getAuthHeaders(): Record<string, string> {
     return {
       'Content-Type': 'application/json',
-      'Authorization': `Bearer ${this.token}`
+      'Authorization': `Bearer ${this.token}`,
+      ...(this.socketId ? { 'X-Socket-Id': this.socketId } : {})
     };
   }
 
-  // Generic API request method
-  async request(endpoint, options: any = {}) {
+  // Generic API request method; the response body is validated against `schema`
+  async request<T>(endpoint: string, schema: Schema<T>, options: RequestInit = {}): Promise<T> {
     const url = `${API_BASE_URL}${endpoint}`;
     const config = {
       headers: this.getAuthHeaders(),
@@ -45,18 +92,18 @@ class ApiService {
 
       if (!response.ok) {
         console.error('❌ API Error Response:', data);
-        throw new Error(data.message || `API request failed with status ${response.status}`);
+        throw new ApiError(data.message || `API request failed with status ${response.status}`, response.status, data);
       }
 
       console.log('✅ API Success:', data);
-      return data;
+      return schema(data);
     } catch (error) {
       console.error('💥 API Error:', error);
       
       // If it's a network error or connection refused, provide helpful message
       if (error instanceof TypeError && error.message.includes('fetch')) {
         console.error('🔌 Network error - backend might not be running');
-        throw new Error('Unable to connect to server. Please make sure the backend is running on port 3001.');
+        throw new NetworkError('Unable to connect to server. Please make sure the backend is running on port 3001.');
       }
       
       // Handle specific API errors
@@ -68,9 +115,17 @@ class ApiService {
     }
   }
 
+  private query(params: object) {
+    const entries = Object.entries(params)
+      .filter(([, value]) => value !== undefined && value !== null && value !== '')
+      .map(([key, value]) => [key, String(value)]);
+    const queryParams = new URLSearchParams(entries).toString();
+    return queryParams ? `?${queryParams}` : '';
+  }
+
   // Authentication endpoints
-  async login(email, password) {
-    const response = await this.request('/auth/login', {
+  async login(email: string, password: string) {
+    const response = await this.request('/auth/login', authResponse, {
       method: 'POST',
       body: JSON.stringify({ email, password })
     });
@@ -82,8 +137,8 @@ class ApiService {
     return response;
   }
 
-  async register(name, email, password) {
-    const response = await this.request('/auth/register', {
+  async register(name: string, email: string, password: string) {
+    const response = await this.request('/auth/register', authResponse, {
       method: 'POST',
       body: JSON.stringify({ name, email, password })
     });
@@ -95,8 +150,8 @@ class ApiService {
     return response;
   }
 
-  async googleLogin(email, name, googleId, picture) {
-    const response = await this.request('/auth/google', {
+  async googleLogin(email: string, name: string, googleId: string, picture?: string) {
+    const response = await this.request('/auth/google', authResponse, {
       method: 'POST',
       body: JSON.stringify({ email, name, googleId, picture })
     });
@@ -109,147 +164,448 @@ class ApiService {
   }
 
   async getProfile() {
-    return await this.request('/auth/profile');
+    return await this.request('/auth/profile', userResponse);
+  }
+
+  async updateProfile(userData: ProfileUpdatePayload) {
+    return await this.request('/auth/profile', userResponse, {
+      method: 'PUT',
+      body: JSON.stringify(userData)
+    });
   }
 
   async forgotPassword(email: string) {
-    return await this.request('/auth/forgot-password', {
+    return await this.request('/auth/forgot-password', messageResponse, {
       method: 'POST',
       body: JSON.stringify({ email })
     });
   }
 
   async resetPassword(token: string, password: string) {
-    return await this.request('/auth/reset-password', {
+    return await this.request('/auth/reset-password', messageResponse, {
       method: 'POST',
       body: JSON.stringify({ token, password })
     });
   }
 
-  async getUserProfile(userId) {
-    return await this.request(`/users/${userId}/profile`);
+  // User endpoints
+  async getUserProfile() {
+    return await this.request('/users/profile', userResponse);
   }
 
-  async getUserAnalytics(userId) {
-    return await this.request(`/users/${userId}/analytics`);
+  // People tasks can be assigned to: a workspace's members, or those the user works with
+  async getUsers(workspaceId?: string | null) {
+    const response = await this.request(`/users${this.query({ workspace_id: workspaceId })}`, userListResponse);
+    return response.data.users;
   }
 
-  async getUserSecuritySettings(userId) {
-    return await this.request(`/users/${userId}/security`);
+  // Task endpoints
+  async getTasks(filters: TaskFilters = {}) {
+    return await this.request(`/tasks${this.query(filters)}`, taskListResponse);
   }
 
-  async updateUserProfile(userId, profileData) {
-    return await this.request(`/users/${userId}/profile`, {
-      method: 'PUT',
-      body: JSON.stringify(profileData)
+  // The list is paged (20 a page unless asked otherwise), so walk every page for the full set
+  async getAllTasks(filters: Omit<TaskFilters, 'page' | 'limit'> = {}) {
+    const limit = 100;
+    const first = await this.getTasks({ ...filters, page: 1, limit });
+    const totalPages = first.data.pagination?.totalPages ?? 1;
+    const rest = await Promise.all(
+      Array.from({ length: Math.max(0, totalPages - 1) }, (_, i) => this.getTasks({ ...filters, page: i + 2, limit }))
+    );
+    return { ...first, data: { ...first.data, tasks: [first, ...rest].flatMap(page => page.data.tasks) } };
+  }
+
+  async getTask(id: string) {
+    return await this.request(`/tasks/${id}`, taskResponse);
+  }
+
+  async createTask(taskData: TaskPayload) {
+    return await this.request('/tasks', taskResponse, {
+      method: 'POST',
+      body: JSON.stringify(taskData)
     });
   }
 
-  async updateUserSecuritySettings(userId, securityData) {
-    return await this.request(`/users/${userId}/security`, {
+  async updateTask(id: string, taskData: TaskPayload) {
+    return await this.request(`/tasks/${id}`, taskUpdateResponse, {
       method: 'PUT',
-      body: JSON.stringify(securityData)
+      body: JSON.stringify(taskData)
     });
   }
 
-  async updateProfile(userData) {
-    return await this.request('/auth/profile', {
+  async deleteTask(id: string) {
+    return await this.request(`/tasks/${id}`, messageResponse, {
+      method: 'DELETE'
+    });
+  }
+
+  // Assignment endpoints; these list tasks across owners and workspaces
+  async getMyAssignedTasks() {
+    const response = await this.request('/user/tasks/my-assigned', assignedTaskListResponse);
+    return response.data;
+  }
+
+  async getTasksAssignedByMe() {
+    const response = await this.request('/admin/tasks/assigned-by-me', assignedTaskListResponse);
+    return response.data;
+  }
+
+  // Admins only: hand any task to any user
+  async assignTask(taskId: string, userId: string) {
+    const response = await this.request(`/admin/tasks/assign/${taskId}/to/${userId}`, assignedTaskResponse, {
+      method: 'POST'
+    });
+    return response.data;
+  }
+
+  // Progress updates: only the assignee can post them, through these routes rather than a task update
+  async getTaskProgress(taskId: string) {
+    const response = await this.request(`/user/tasks/progress/${taskId}`, progressListResponse);
+    return response.data.progress_updates;
+  }
+
+  // `baseUpdatedAt` is the version of the task the assignee was looking at; a newer one is refused with 409
+  async updateAssignedTaskStatus(taskId: string, status: string, notes?: string, baseUpdatedAt?: string) {
+    const response = await this.request(`/user/tasks/update-status/${taskId}`, assignedTaskResponse, {
       method: 'PUT',
-      body: JSON.stringify(userData)
+      body: JSON.stringify({ status, notes, base_updated_at: baseUpdatedAt })
     });
+    return response.data;
   }
 
-  // Task endpoints
-  async getTasks(filters = {}) {
-    const queryParams = new URLSearchParams(filters).toString();
-    const endpoint = `/tasks${queryParams ? `?${queryParams}` : ''}`;
-    return await this.request(endpoint);
+  async addTaskNotes(taskId: string, notes: string) {
+    const response = await this.request(`/user/tasks/add-notes/${taskId}`, assignedTaskResponse, {
+      method: 'PUT',
+      body: JSON.stringify({ notes })
+    });
+    return response.data;
   }
 
-  async getTask(id) {
-    return await this.request(`/tasks/${id}`);
+  // Comment endpoints
+  async getTaskComments(taskId: string) {
+    return await this.request(`/tasks/${taskId}/comments`, commentListResponse);
   }
 
-  async createTask(taskData) {
-    return await this.request('/tasks', {
+  async addTaskComment(taskId: string, comment: CommentPayload) {
+    return await this.request(`/tasks/${taskId}/comments`, commentResponse, {
       method: 'POST',
-      body: JSON.stringify(taskData)
+      body: JSON.stringify(comment)
     });
   }
 
-  async updateTask(id, taskData) {
-    return await this.request(`/tasks/${id}`, {
+  async updateTaskComment(taskId: string, commentId: string, content: string) {
+    return await this.request(`/tasks/${taskId}/comments/${commentId}`, commentResponse, {
       method: 'PUT',
-      body: JSON.stringify(taskData)
+      body: JSON.stringify({ content })
     });
   }
 
-  async deleteTask(id) {
-    return await this.request(`/tasks/${id}`, {
+  async deleteTaskComment(taskId: string, commentId: string) {
+    return await this.request(`/tasks/${taskId}/comments/${commentId}`, messageResponse, {
       method: 'DELETE'
     });
   }
 
   async getTaskStats() {
-    return await this.request('/tasks/stats/overview');
+    return await this.request('/tasks/stats/overview', taskStatsResponse);
+  }
+
+  // Status model endpoints
+  async getTaskStatuses() {
+    return await this.request('/tasks/statuses', statusListResponse);
+  }
+
+  async updateTaskStatuses(statuses: StatusDefinition[]) {
+    return await this.request('/tasks/statuses', statusListResponse, {
+      method: 'PUT',
+      body: JSON.stringify({ statuses })
+    });
   }
 
   // Project endpoints
-  async getProjects() {
-    return await this.request('/projects');
+  // A workspace's projects, or the user's personal ones without an id
+  async getProjects(workspaceId?: string | null) {
+    return await this.request(`/projects${this.query({ workspace_id: workspaceId })}`, projectListResponse);
   }
 
-  async getProject(id) {
-    return await this.request(`/projects/${id}`);
+  async getProject(id: string) {
+    return await this.request(`/projects/${id}`, projectResponse);
   }
 
-  async createProject(projectData) {
-    return await this.request('/projects', {
+  async createProject(projectData: ProjectPayload) {
+    return await this.request('/projects', projectResponse, {
       method: 'POST',
       body: JSON.stringify(projectData)
     });
   }
 
-  async updateProject(id, projectData) {
-    return await this.request(`/projects/${id}`, {
+  async updateProject(id: string, projectData: ProjectPayload) {
+    return await this.request(`/projects/${id}`, projectResponse, {
       method: 'PUT',
       body: JSON.stringify(projectData)
     });
   }
 
-  async deleteProject(id) {
-    return await this.request(`/projects/${id}`, {
+  async deleteProject(id: string) {
+    return await this.request(`/projects/${id}`, messageResponse, {
       method: 'DELETE'
     });
   }
 
-  async getProjectStats(id) {
-    return await this.request(`/projects/${id}/stats`);
+  async getProjectStats(id: string) {
+    return await this.request(`/projects/${id}/stats`, projectStatsResponse);
   }
 
   // Time tracking endpoints
-  async getTimeEntries(filters = {}) {
-    const queryParams = new URLSearchParams(filters).toString();
-    const endpoint = `/time${queryParams ? `?${queryParams}` : ''}`;
-    return await this.request(endpoint);
+  async getTimeEntries(filters: TimeEntryFilters = {}): Promise<TimeEntryRow[]> {
+    const response = await this.request(`/time${this.query(filters)}`, timeEntryListResponse);
+    return response.data.entries;
+  }
+
+  async getActiveTimer(): Promise<TimeEntryRow | undefined> {
+    const response = await this.request('/time/active', activeTimerResponse);
+    return response.data.entry;
+  }
+
+  async startTimer(timer: Pick<TimeEntryPayload, 'description' | 'task_id'>) {
+    return await this.request('/time/start', timeEntryResponse, {
+      method: 'POST',
+      body: JSON.stringify(timer)
+    });
+  }
+
+  async stopTimer() {
+    return await this.request('/time/stop', timeEntryResponse, {
+      method: 'POST'
+    });
+  }
+
+  async createTimeEntry(entry: TimeEntryPayload) {
+    return await this.request('/time', timeEntryResponse, {
+      method: 'POST',
+      body: JSON.stringify(entry)
+    });
+  }
+
+  async updateTimeEntry(id: string, entry: TimeEntryPayload) {
+    return await this.request(`/time/${id}`, timeEntryResponse, {
+      method: 'PUT',
+      body: JSON.stringify(entry)
+    });
+  }
+
+  async deleteTimeEntry(id: string) {
+    return await this.request(`/time/${id}`, messageResponse, {
+      method: 'DELETE'
+    });
   }
 
   // Categories endpoints
-  async getCategories() {
-    return await this.request('/categories');
+  async getCategories(): Promise<CategoryRow[]> {
+    const response = await this.request('/categories', categoryListResponse);
+    return response.data.categories;
+  }
+
+  async createCategory(category: CategoryPayload) {
+    return await this.request('/categories', categoryResponse, {
+      method: 'POST',
+      body: JSON.stringify(category)
+    });
+  }
+
+  async updateCategory(id: string, category: CategoryPayload) {
+    return await this.request(`/categories/${id}`, categoryResponse, {
+      method: 'PUT',
+      body: JSON.stringify(category)
+    });
+  }
+
+  async deleteCategory(id: string) {
+    return await this.request(`/categories/${id}`, messageResponse, {
+      method: 'DELETE'
+    });
   }
 
   // Tags endpoints
-  async getTags() {
-    return await this.request('/tags');
+  async getTags(): Promise<TagRow[]> {
+    const response = await this.request('/tags', tagListResponse);
+    return response.data.tags;
+  }
+
+  async createTag(tag: TagPayload) {
+    return await this.request('/tags', tagResponse, {
+      method: 'POST',
+      body: JSON.stringify(tag)
+    });
+  }
+
+  async updateTag(id: string, tag: TagPayload) {
+    return await this.request(`/tags/${id}`, tagResponse, {
+      method: 'PUT',
+      body: JSON.stringify(tag)
+    });
+  }
+
+  async deleteTag(id: string) {
+    return await this.request(`/tags/${id}`, messageResponse, {
+      method: 'DELETE'
+    });
+  }
+
+  // Calendar sync endpoints
+  async getCalendarFeed(): Promise<string> {
+    const response = await this.request('/calendar/feed', calendarFeedResponse);
+    return response.data.feed_url;
+  }
+
+  async resetCalendarFeed(): Promise<string> {
+    const response = await this.request('/calendar/feed/reset', calendarFeedResponse, {
+      method: 'POST'
+    });
+    return response.data.feed_url;
+  }
+
+  async importCalendar(events: CalendarImportEvent[]) {
+    return await this.request('/calendar/import', calendarImportResponse, {
+      method: 'POST',
+      body: JSON.stringify({ events })
+    });
   }
 
   // Notification endpoints
-  async sendEmailNotification(to, subject, body, taskTitle) {
-    return await this.request('/notifications/email', {
+  async getNotifications(options: { unread?: boolean; limit?: number; before?: string } = {}) {
+    return await this.request(`/notifications${this.query(options)}`, notificationListResponse);
+  }
+
+  async markNotificationRead(id: string, read = true) {
+    return await this.request(`/notifications/${id}/read`, notificationReadResponse, {
+      method: 'PUT',
+      body: JSON.stringify({ read })
+    });
+  }
+
+  async markAllNotificationsRead() {
+    return await this.request('/notifications/read-all', unreadCountResponse, {
+      method: 'PUT'
+    });
+  }
+
+  async deleteNotification(id: string) {
+    return await this.request(`/notifications/${id}`, unreadCountResponse, {
+      method: 'DELETE'
+    });
+  }
+
+  async getNotificationPreferences() {
+    const response = await this.request('/notifications/preferences', notificationPreferencesResponse);
+    return response.data.preferences;
+  }
+
+  async updateNotificationPreferences(preferences: NotificationPreferencesPayload) {
+    const response = await this.request('/notifications/preferences', notificationPreferencesResponse, {
+      method: 'PUT',
+      body: JSON.stringify(preferences)
+    });
+    return response.data.preferences;
+  }
+
+  // Web Push endpoints
+  async getPushConfig() {
+    const response = await this.request('/push/config', pushConfigResponse);
+    return response.data;
+  }
+
+  async getPushSubscriptions() {
+    const response = await this.request('/push/subscriptions', pushSubscriptionListResponse);
+    return response.data.subscriptions;
+  }
+
+  async savePushSubscription(subscription: PushSubscriptionPayload) {
+    const response = await this.request('/push/subscriptions', pushSubscriptionResponse, {
+      method: 'POST',
+      body: JSON.stringify(subscription)
+    });
+    return response.data.subscription;
+  }
+
+  async deletePushSubscription(id: string) {
+    return await this.request(`/push/subscriptions/${id}`, messageResponse, {
+      method: 'DELETE'
+    });
+  }
+
+  // Workspace endpoints
+  async getWorkspaces() {
+    const response = await this.request('/workspaces', workspaceListResponse);
+    return response.data.workspaces;
+  }
+
+  async getWorkspace(id: string) {
+    const response = await this.request(`/workspaces/${id}`, workspaceResponse);
+    return response.data.workspace;
+  }
+
+  async createWorkspace(name: string) {
+    const response = await this.request('/workspaces', workspaceResponse, {
+      method: 'POST',
+      body: JSON.stringify({ name })
+    });
+    return response.data.workspace;
+  }
+
+  async renameWorkspace(id: string, name: string) {
+    const response = await this.request(`/workspaces/${id}`, workspaceResponse, {
+      method: 'PUT',
+      body: JSON.stringify({ name })
+    });
+    return response.data.workspace;
+  }
+
+  async deleteWorkspace(id: string) {
+    return await this.request(`/workspaces/${id}`, messageResponse, {
+      method: 'DELETE'
+    });
+  }
+
+  async inviteToWorkspace(id: string, email: string, role: Exclude<WorkspaceRole, 'owner'>) {
+    return await this.request(`/workspaces/${id}/invitations`, invitationResponse, {
       method: 'POST',
-      body: JSON.stringify({ to, subject, body, taskTitle })
+      body: JSON.stringify({ email, role })
+    });
+  }
+
+  async cancelWorkspaceInvitation(id: string, invitationId: string) {
+    return await this.request(`/workspaces/${id}/invitations/${invitationId}`, messageResponse, {
+      method: 'DELETE'
+    });
+  }
+
+  async updateWorkspaceMember(id: string, userId: string, role: Exclude<WorkspaceRole, 'owner'>) {
+    const response = await this.request(`/workspaces/${id}/members/${userId}`, workspaceResponse, {
+      method: 'PUT',
+      body: JSON.stringify({ role })
+    });
+    return response.data.workspace;
+  }
+
+  // Also used to leave a workspace, with the user's own id
+  async removeWorkspaceMember(id: string, userId: string) {
+    const response = await this.request(`/workspaces/${id}/members/${userId}`, workspaceResponse, {
+      method: 'DELETE'
+    });
+    return response.data.workspace;
+  }
+
+  async getInvitation(token: string) {
+    const response = await this.request(`/workspaces/invitations/${token}`, invitationPreviewResponse);
+    return response.data.invitation;
+  }
+
+  async acceptInvitation(token: string) {
+    const response = await this.request(`/workspaces/invitations/${token}/accept`, workspaceResponse, {
+      method: 'POST'
     });
+    return response.data.workspace;
   }
 
   // Logout
@@ -261,4 +617,4 @@ class ApiService {
 // Create singleton instance
 const apiService = new ApiService();
 
-export default apiService;
\ No newline at end of file
+export default apiService;
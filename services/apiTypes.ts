@@ -0,0 +1,526 @@
+// Request/response DTOs for the tasq.one REST API
+// Response schemas are checked at runtime by apiService; rows keep the backend's snake_case shape
+import { v, Schema, Infer } from './validation';
+import { STATUS_COLORS } from '../utils/statusModel';
+
+export const BACKEND_PRIORITIES = ['low', 'medium', 'high'] as const;
+
+export type BackendPriority = typeof BACKEND_PRIORITIES[number];
+
+// Every successful response shares the same envelope
+export const envelope = <T>(data: Schema<T>) => v.object({
+  success: v.boolean(),
+  message: v.optional(v.string()),
+  data
+});
+
+export const messageResponse = v.object({
+  success: v.boolean(),
+  message: v.optional(v.string())
+});
+
+// Users & auth
+export const userRow = v.object({
+  id: v.id(),
+  name: v.string(),
+  email: v.string(),
+  role: v.optional(v.string()),
+  avatar_url: v.optional(v.string()),
+  location: v.optional(v.string()),
+  bio: v.optional(v.string()),
+  website: v.optional(v.string()),
+  twoFactorEnabled: v.optional(v.boolean()),
+  notificationsEnabled: v.optional(v.boolean()),
+  timezone: v.optional(v.string()),
+  createdAt: v.optional(v.string()),
+  created_at: v.optional(v.string())
+});
+
+// People tasks can be assigned to
+export const userSummaryRow = v.object({
+  id: v.id(),
+  name: v.string(),
+  email: v.optional(v.string()),
+  avatar_url: v.optional(v.string())
+});
+
+export const userListResponse = envelope(v.object({ users: v.array(userSummaryRow) }));
+
+export const authResponse = envelope(v.object({ user: userRow, token: v.string() }));
+export const userResponse = envelope(v.object({ user: userRow }));
+
+export interface ProfileUpdatePayload {
+  name?: string;
+  role?: string;
+  avatar_url?: string;
+  location?: string;
+  bio?: string;
+  website?: string;
+  timezone?: string; // IANA zone, used by the server's reminder scheduler
+  security?: {
+    twoFactorEnabled?: boolean;
+    notificationsEnabled?: boolean;
+  };
+}
+
+// Tasks
+const populatedRef = v.object({
+  id: v.id(),
+  name: v.optional(v.string()),
+  color: v.optional(v.string())
+});
+
+// An entry in an assigned task's progress timeline: a status change, notes, or both
+export const progressUpdateRow = v.object({
+  id: v.id(),
+  status: v.optional(v.string()),
+  from_status: v.optional(v.string()),
+  notes: v.optional(v.string()),
+  updated_by: v.optional(v.union(v.id(), userSummaryRow)),
+  updated_at: v.string()
+});
+
+const taskFields = {
+  id: v.id(),
+  title: v.string(),
+  description: v.optional(v.string()),
+  status: v.string(), // Any key from the owner's status model
+  priority: v.literal(...BACKEND_PRIORITIES),
+  due_date: v.optional(v.string()),
+  due_time: v.optional(v.string()),
+  // Populated on list/detail routes, a bare id elsewhere
+  project: v.optional(v.union(v.id(), populatedRef)),
+  project_id: v.optional(v.id()),
+  project_name: v.optional(v.string()),
+  project_color: v.optional(v.string()),
+  user: v.optional(v.id()), // Owner
+  workspace: v.optional(v.id()),
+  assigned_to: v.optional(v.union(v.id(), userSummaryRow)),
+  assigned_to_name: v.optional(v.string()),
+  assigned_by: v.optional(v.union(v.id(), userSummaryRow)),
+  progress_updates: v.optional(v.array(progressUpdateRow)),
+  recurrence: v.optional(v.string()),
+  recurrence_start: v.optional(v.string()),
+  series_id: v.optional(v.id()),
+  parent: v.optional(v.id()),
+  tags: v.optional(v.array(v.id())),
+  dependencies: v.optional(v.array(v.id())),
+  category: v.optional(v.id()),
+  estimate_hours: v.optional(v.number()),
+  reminder_minutes: v.optional(v.number()),
+  ical_uid: v.optional(v.string()),
+  created_at: v.optional(v.string()),
+  updated_at: v.optional(v.string())
+};
+
+export const taskRow = v.object(taskFields);
+
+// List and detail routes embed each top-level task's subtasks
+export const taskWithSubtasksRow = v.object({
+  ...taskFields,
+  subtasks: v.optional(v.array(taskRow))
+});
+
+export const taskListResponse = envelope(v.object({
+  tasks: v.array(taskWithSubtasksRow),
+  pagination: v.optional(v.object({
+    currentPage: v.number(),
+    totalPages: v.number(),
+    totalItems: v.number(),
+    itemsPerPage: v.number()
+  }))
+}));
+
+export const taskResponse = envelope(v.object({ task: taskWithSubtasksRow }));
+
+// The assignment routes return the rows bare, with assignee and assigner populated
+export const assignedTaskListResponse = envelope(v.array(taskRow));
+export const assignedTaskResponse = envelope(taskRow);
+export const progressListResponse = envelope(v.object({ progress_updates: v.array(progressUpdateRow) }));
+
+// Completing a recurring task also returns the occurrence the server generated
+export const taskUpdateResponse = envelope(v.object({
+  task: taskRow,
+  next_task: v.optional(taskRow)
+}));
+
+export const taskStatsResponse = envelope(v.object({
+  stats: v.object({
+    total_tasks: v.number(),
+    todo_count: v.number(),
+    in_progress_count: v.number(),
+    review_count: v.optional(v.number()),
+    completed_count: v.number(),
+    cancelled_count: v.number(),
+    high_priority_count: v.number(),
+    overdue_count: v.number()
+  })
+}));
+
+export const statusDefinitionRow = v.object({
+  key: v.string(),
+  label: v.string(),
+  color: v.literal(...STATUS_COLORS),
+  done: v.boolean()
+});
+
+export const statusListResponse = envelope(v.object({ statuses: v.array(statusDefinitionRow) }));
+
+export interface TaskPayload {
+  title?: string;
+  description?: string;
+  status?: string;
+  priority?: BackendPriority;
+  due_date?: string;
+  due_time?: string | null;
+  project_id?: string | null;
+  assigned_to?: string | null;
+  recurrence?: string | null;
+  recurrence_start?: string | null;
+  parent_id?: string | null;
+  tags?: string[];
+  dependencies?: string[];
+  category?: string | null;
+  estimate_hours?: number | null;
+  reminder_minutes?: number;
+  override_dependencies?: boolean; // Admins only: start or finish a task whose dependencies are still open
+  workspace_id?: string; // Create only: the workspace the task belongs to
+  base_updated_at?: string; // updated_at of the copy the edit was made on; 409 if the task has changed since
+}
+
+export interface TaskFilters {
+  workspace_id?: string; // A workspace's tasks instead of the user's personal ones
+  status?: string;
+  priority?: BackendPriority;
+  project_id?: string;
+  parent_id?: string; // List one task's subtasks instead of top-level tasks
+  tag?: string;
+  category?: string;
+  search?: string;
+  page?: number;
+  limit?: number;
+  sort_by?: string;
+  sort_order?: 'asc' | 'desc';
+}
+
+// Projects
+export const projectRow = v.object({
+  id: v.id(),
+  name: v.string(),
+  description: v.optional(v.string()),
+  color: v.optional(v.string()),
+  user: v.optional(v.id()), // Owner
+  workspace: v.optional(v.id()),
+  category: v.optional(v.id()),
+  priority: v.optional(v.string()),
+  due_date: v.optional(v.string()),
+  progress: v.optional(v.number()),
+  hourly_rate: v.optional(v.number()),
+  billable: v.optional(v.boolean()),
+  milestones: v.optional(v.array(v.object({
+    id: v.string(),
+    text: v.string(),
+    due_date: v.string(),
+    completed: v.optional(v.boolean())
+  }))),
+  task_count: v.optional(v.number()),
+  completed_tasks: v.optional(v.number()),
+  created_at: v.optional(v.string()),
+  updated_at: v.optional(v.string())
+});
+
+export const projectListResponse = envelope(v.object({ projects: v.array(projectRow) }));
+export const projectResponse = envelope(v.object({ project: projectRow }));
+
+// 409 bodies for an update made on a stale copy (backend/utils/concurrency.js): the server's current copy
+export const taskConflictBody = v.object({ data: v.object({ task: taskRow }) });
+export const projectConflictBody = v.object({ data: v.object({ project: projectRow }) });
+
+// Live sync events (backend/utils/realtime.js); `actor` is the user who made the change
+export const taskChangeEvent = v.object({ task: taskRow, actor: v.optional(v.id()) });
+export const taskDeletedEvent = v.object({ id: v.id(), project_id: v.optional(v.id()), actor: v.optional(v.id()) });
+export const taskProgressEvent = v.object({ task_id: v.id(), update: progressUpdateRow, message: v.optional(v.string()), actor: v.optional(v.id()) });
+export const projectChangeEvent = v.object({ project: projectRow, actor: v.optional(v.id()) });
+export const projectDeletedEvent = v.object({ id: v.id(), actor: v.optional(v.id()) });
+
+export const projectStatsResponse = envelope(v.object({
+  stats: v.object({
+    total_tasks: v.number(),
+    todo_count: v.number(),
+    in_progress_count: v.number(),
+    completed_count: v.number(),
+    high_priority_count: v.number(),
+    overdue_count: v.number()
+  })
+}));
+
+export interface ProjectPayload {
+  name?: string;
+  description?: string;
+  color?: string;
+  category?: string | null;
+  priority?: BackendPriority;
+  due_date?: string;
+  progress?: number;
+  hourly_rate?: number;
+  billable?: boolean;
+  milestones?: { id: string; text: string; due_date: string; completed: boolean }[];
+  workspace_id?: string; // Create only: the workspace to share the project with
+  base_updated_at?: string; // updated_at of the copy the edit was made on; 409 if the project has changed since
+}
+
+// Workspaces
+const workspaceRole = v.literal('owner', 'admin', 'member', 'guest');
+
+export const workspaceInvitationRow = v.object({
+  id: v.id(),
+  email: v.string(),
+  role: workspaceRole,
+  invited_by: v.optional(v.union(v.id(), v.object({ id: v.id(), name: v.optional(v.string()) }))),
+  expires_at: v.string()
+});
+
+export const workspaceRow = v.object({
+  id: v.id(),
+  name: v.string(),
+  owner: v.id(),
+  role: v.optional(workspaceRole), // The requesting user's; absent once they have left
+  members: v.array(v.object({
+    user: v.object({
+      id: v.id(),
+      name: v.string(),
+      email: v.optional(v.string()),
+      avatar_url: v.optional(v.string())
+    }),
+    role: workspaceRole,
+    joined_at: v.string()
+  })),
+  invitations: v.optional(v.array(workspaceInvitationRow))
+});
+
+export const workspaceListResponse = envelope(v.object({ workspaces: v.array(workspaceRow) }));
+export const workspaceResponse = envelope(v.object({ workspace: workspaceRow }));
+
+// What an invitation link leads to, shown before accepting it
+export const invitationPreviewResponse = envelope(v.object({
+  invitation: v.object({
+    id: v.id(),
+    email: v.string(),
+    role: workspaceRole,
+    workspace: v.object({ id: v.id(), name: v.string() }),
+    invited_by: v.optional(v.object({ id: v.id(), name: v.optional(v.string()) })),
+    expires_at: v.string()
+  })
+}));
+
+export const invitationResponse = v.object({
+  success: v.boolean(),
+  message: v.optional(v.string()),
+  data: v.object({ invitation: workspaceInvitationRow }),
+  demo_invite_url: v.optional(v.string()) // Development only, when the email could not be sent
+});
+
+export const workspaceChangeEvent = v.object({ workspace: workspaceRow, actor: v.optional(v.id()) });
+export const workspaceDeletedEvent = v.object({ id: v.id(), actor: v.optional(v.id()) });
+
+// Comments
+export const commentRow = v.object({
+  id: v.id(),
+  task: v.id(),
+  user: v.id(),
+  author_name: v.optional(v.string()),
+  author_avatar: v.optional(v.string()),
+  content: v.string(),
+  parent: v.optional(v.id()),
+  mentions: v.optional(v.array(v.id())),
+  edited: v.optional(v.boolean()),
+  created_at: v.string(),
+  updated_at: v.optional(v.string())
+});
+
+export const commentListResponse = envelope(v.object({ comments: v.array(commentRow) }));
+export const commentResponse = envelope(v.object({ comment: commentRow }));
+
+export interface CommentPayload {
+  content: string;
+  parent_id?: string | null;
+}
+
+// Time tracking
+// A running timer has no end_time yet
+export const timeEntryRow = v.object({
+  id: v.id(),
+  task_id: v.optional(v.id()),
+  description: v.optional(v.string()),
+  start_time: v.string(),
+  end_time: v.optional(v.string()),
+  duration: v.optional(v.number()),
+  billable: v.optional(v.boolean())
+});
+
+export const timeEntryListResponse = envelope(v.object({ entries: v.array(timeEntryRow) }));
+export const timeEntryResponse = envelope(v.object({ entry: timeEntryRow }));
+export const activeTimerResponse = envelope(v.object({ entry: v.optional(timeEntryRow) }));
+
+export interface TimeEntryFilters {
+  task_id?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface TimeEntryPayload {
+  description?: string;
+  task_id?: string | null;
+  start_time?: string;
+  end_time?: string;
+  billable?: boolean;
+}
+
+// Tags & categories
+export const tagRow = v.object({
+  id: v.id(),
+  name: v.string(),
+  color: v.optional(v.string()),
+  task_count: v.optional(v.number())
+});
+
+export const tagListResponse = envelope(v.object({ tags: v.array(tagRow) }));
+export const tagResponse = envelope(v.object({ tag: tagRow }));
+
+export interface TagPayload {
+  name?: string;
+  color?: string;
+}
+
+export const categoryRow = v.object({
+  id: v.id(),
+  name: v.string(),
+  color: v.optional(v.string()),
+  icon: v.optional(v.string()),
+  task_count: v.optional(v.number())
+});
+
+export const categoryListResponse = envelope(v.object({ categories: v.array(categoryRow) }));
+export const categoryResponse = envelope(v.object({ category: categoryRow }));
+
+export interface CategoryPayload {
+  name?: string;
+  color?: string;
+  icon?: string;
+}
+
+// Calendar sync
+export const calendarFeedResponse = envelope(v.object({ feed_url: v.string() }));
+
+export const calendarImportResponse = envelope(v.object({
+  created: v.number(),
+  updated: v.number(),
+  skipped: v.number()
+}));
+
+// One event from an uploaded .ics file, parsed on the client (see utils/ical.ts)
+export interface CalendarImportEvent {
+  uid: string;
+  title: string;
+  description?: string;
+  due_date: string;
+  due_time?: string | null;
+  estimate_hours?: number | null;
+  reminder_minutes?: number;
+}
+
+// Notifications
+// The same row arrives live as the payload of the `neural_alert` socket event
+export const notificationRow = v.object({
+  id: v.id(),
+  type: v.string(),
+  title: v.string(),
+  message: v.string(),
+  task: v.optional(v.id()),
+  project: v.optional(v.id()),
+  comment: v.optional(v.id()),
+  read: v.boolean(),
+  created_at: v.string(),
+  // Only on `neural_alert`: whether to list it in the inbox, and whether to raise a system notification
+  inbox: v.optional(v.boolean()),
+  push: v.optional(v.boolean())
+});
+
+export const notificationListResponse = envelope(v.object({
+  notifications: v.array(notificationRow),
+  unread_count: v.number()
+}));
+export const notificationReadResponse = envelope(v.object({
+  notification: notificationRow,
+  unread_count: v.number()
+}));
+export const unreadCountResponse = envelope(v.object({ unread_count: v.number() }));
+
+const channelChoices = v.object({ in_app: v.boolean(), email: v.boolean(), push: v.boolean() });
+
+export const notificationPreferencesRow = v.object({
+  enabled: v.boolean(),
+  events: v.object({
+    reminder: channelChoices,
+    deadline: channelChoices,
+    assignment: channelChoices,
+    comment: channelChoices,
+    status_change: channelChoices
+  }),
+  quiet_hours: v.object({ enabled: v.boolean(), start: v.string(), end: v.string() }),
+  digest: v.object({ frequency: v.literal('off', 'daily', 'weekly'), time: v.string(), weekday: v.number() })
+});
+
+export const notificationPreferencesResponse = envelope(v.object({ preferences: notificationPreferencesRow }));
+
+// Any subset may be sent; the server merges it over the saved preferences
+export interface NotificationPreferencesPayload {
+  enabled?: boolean;
+  events?: Partial<Record<keyof NotificationPreferencesRow['events'], Partial<Record<'in_app' | 'email' | 'push', boolean>>>>;
+  quiet_hours?: Partial<NotificationPreferencesRow['quiet_hours']>;
+  digest?: Partial<NotificationPreferencesRow['digest']>;
+}
+
+// Web Push
+export const pushConfigResponse = envelope(v.object({
+  enabled: v.boolean(),
+  public_key: v.optional(v.string())
+}));
+
+export const pushSubscriptionRow = v.object({
+  id: v.id(),
+  endpoint: v.string(),
+  device_name: v.optional(v.string()),
+  created_at: v.string(),
+  last_used_at: v.optional(v.string())
+});
+
+export const pushSubscriptionListResponse = envelope(v.object({ subscriptions: v.array(pushSubscriptionRow) }));
+export const pushSubscriptionResponse = envelope(v.object({ subscription: pushSubscriptionRow }));
+
+// The browser's PushSubscription.toJSON() plus a readable name for the device list
+export interface PushSubscriptionPayload {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+  device_name?: string;
+}
+
+export type UserRow = Infer<typeof userRow>;
+export type UserSummaryRow = Infer<typeof userSummaryRow>;
+export type TaskRow = Infer<typeof taskRow>;
+export type ProgressUpdateRow = Infer<typeof progressUpdateRow>;
+export type TaskWithSubtasksRow = Infer<typeof taskWithSubtasksRow>;
+export type ProjectRow = Infer<typeof projectRow>;
+export type CommentRow = Infer<typeof commentRow>;
+export type NotificationRow = Infer<typeof notificationRow>;
+export type NotificationPreferencesRow = Infer<typeof notificationPreferencesRow>;
+export type PushSubscriptionRow = Infer<typeof pushSubscriptionRow>;
+export type WorkspaceRow = Infer<typeof workspaceRow>;
+export type WorkspaceInvitationRow = Infer<typeof workspaceInvitationRow>;
+export type InvitationPreview = Infer<typeof invitationPreviewResponse>['data']['invitation'];
+export type TimeEntryRow = Infer<typeof timeEntryRow>;
+export type TagRow = Infer<typeof tagRow>;
+export type CategoryRow = Infer<typeof categoryRow>;
+export type TaskStats = Infer<typeof taskStatsResponse>['data']['stats'];
+export type ProjectStats = Infer<typeof projectStatsResponse>['data']['stats'];
+export type CalendarImportResult = Infer<typeof calendarImportResponse>['data'];
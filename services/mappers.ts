@@ -0,0 +1,325 @@
+// Bidirectional mapping between backend rows and the app's domain types
+// Every priority table is a full Record so a new enum member fails the type-check here.
+// Status keys are shared verbatim with the backend (see utils/statusModel.ts), so they need no table.
+import { format } from 'date-fns';
+import { Task, Project, User, TaskComment, Tag, Category, TimeEntry, ActiveTimer, Priority, AppNotification, NotificationType, NotificationPreferences, NotificationEventType, PushDevice, Workspace, WorkspaceInvitation, UserSummary, ProgressUpdate } from '../types';
+import {
+  BackendPriority,
+  TaskRow, TaskWithSubtasksRow, ProgressUpdateRow, ProjectRow, UserRow, UserSummaryRow, CommentRow, NotificationRow, NotificationPreferencesRow, NotificationPreferencesPayload, PushSubscriptionRow, WorkspaceRow, WorkspaceInvitationRow, TagRow, CategoryRow, TimeEntryRow, TaskPayload, ProjectPayload, TimeEntryPayload
+} from './apiTypes';
+
+const PRIORITY_TO_BACKEND: Record<Priority, BackendPriority> = {
+  [Priority.LOW]: 'low',
+  [Priority.MEDIUM]: 'medium',
+  [Priority.HIGH]: 'high'
+};
+
+const PRIORITY_FROM_BACKEND: Record<BackendPriority, Priority> = {
+  low: Priority.LOW,
+  medium: Priority.MEDIUM,
+  high: Priority.HIGH
+};
+
+export const priorityToBackend = (priority: Priority): BackendPriority => PRIORITY_TO_BACKEND[priority];
+
+// Project priority is a free-form string on the backend
+export const priorityFromBackend = (priority?: string): Priority =>
+  PRIORITY_FROM_BACKEND[priority as BackendPriority] || Priority.MEDIUM;
+
+// Backend dates are full ISO timestamps, the app works in YYYY-MM-DD
+const toDateOnly = (value?: string) => value ? value.split('T')[0] : undefined;
+
+const refId = (ref?: string | { id: string }) => typeof ref === 'string' ? ref : ref?.id;
+
+// A populated user ref, or nothing when the row only carries the id
+const refUser = (ref?: string | UserSummaryRow) => typeof ref === 'object' ? ref : undefined;
+
+// Tasks
+export const taskFromRow = (row: TaskRow): Task => {
+  const projectId = refId(row.project) || row.project_id;
+  const assignee = refUser(row.assigned_to);
+  return {
+    id: row.id,
+    projectId,
+    title: row.title,
+    description: row.description,
+    status: row.status,
+    priority: PRIORITY_FROM_BACKEND[row.priority],
+    dueDate: toDateOnly(row.due_date) || new Date().toISOString().split('T')[0],
+    dueTime: row.due_time || undefined,
+    category: row.category,
+    assigneeId: refId(row.assigned_to),
+    assignee: row.assigned_to_name || assignee?.name,
+    assigneeAvatarUrl: assignee?.avatar_url,
+    assignedById: refId(row.assigned_by),
+    assignedByName: refUser(row.assigned_by)?.name,
+    reminderMinutes: row.reminder_minutes || 0,
+    recurrence: row.recurrence,
+    recurrenceStart: toDateOnly(row.recurrence_start),
+    seriesId: row.series_id,
+    parentId: row.parent,
+    tags: row.tags || [],
+    dependencies: row.dependencies || [],
+    estimateHours: row.estimate_hours,
+    updatedAt: row.updated_at
+  };
+};
+
+export const progressUpdateFromRow = (taskId: string, row: ProgressUpdateRow): ProgressUpdate => {
+  const author = refUser(row.updated_by);
+  return {
+    id: row.id,
+    taskId,
+    status: row.status,
+    fromStatus: row.from_status,
+    notes: row.notes || undefined,
+    authorId: refId(row.updated_by),
+    authorName: author?.name,
+    authorAvatarUrl: author?.avatar_url,
+    createdAt: row.updated_at
+  };
+};
+
+// The app keeps one flat task list, with subtasks linked to their parent by parentId
+export const tasksFromRows = (rows: TaskWithSubtasksRow[]): Task[] =>
+  rows.flatMap(row => [taskFromRow(row), ...(row.subtasks || []).map(taskFromRow)]);
+
+// Only fields present on the input are emitted, so the same mapper serves creates and partial updates
+export const taskToPayload = (task: Partial<Task>): TaskPayload => {
+  const payload: TaskPayload = {};
+  if (task.title !== undefined) payload.title = task.title;
+  if (task.description !== undefined) payload.description = task.description;
+  if (task.status !== undefined) payload.status = task.status;
+  if (task.priority !== undefined) payload.priority = priorityToBackend(task.priority);
+  if (task.dueDate) payload.due_date = task.dueDate;
+  if ('dueTime' in task) payload.due_time = task.dueTime || null;
+  if ('projectId' in task) payload.project_id = task.projectId || null;
+  if ('assigneeId' in task) payload.assigned_to = task.assigneeId || null;
+  if ('recurrence' in task) payload.recurrence = task.recurrence || null;
+  if (task.recurrenceStart) payload.recurrence_start = task.recurrenceStart;
+  if ('parentId' in task) payload.parent_id = task.parentId || null;
+  if (task.tags !== undefined) payload.tags = task.tags;
+  if (task.dependencies !== undefined) payload.dependencies = task.dependencies;
+  if ('category' in task) payload.category = task.category || null;
+  if ('estimateHours' in task) payload.estimate_hours = task.estimateHours ?? null;
+  if ('reminderMinutes' in task) payload.reminder_minutes = task.reminderMinutes || 0;
+  return payload;
+};
+
+// The task fields an update payload carries, e.g. to tell which fields a refused edit changed
+const TASK_PAYLOAD_FIELDS: Partial<Record<keyof TaskPayload, keyof Task>> = {
+  title: 'title',
+  description: 'description',
+  status: 'status',
+  priority: 'priority',
+  due_date: 'dueDate',
+  due_time: 'dueTime',
+  project_id: 'projectId',
+  assigned_to: 'assigneeId',
+  recurrence: 'recurrence',
+  recurrence_start: 'recurrenceStart',
+  parent_id: 'parentId',
+  tags: 'tags',
+  dependencies: 'dependencies',
+  category: 'category',
+  estimate_hours: 'estimateHours',
+  reminder_minutes: 'reminderMinutes'
+};
+
+export const taskFieldsInPayload = (payload: TaskPayload): (keyof Task)[] =>
+  (Object.keys(payload) as (keyof TaskPayload)[])
+    .map(key => TASK_PAYLOAD_FIELDS[key])
+    .filter((field): field is keyof Task => !!field);
+
+// Projects
+export const projectFromRow = (row: ProjectRow): Project => ({
+  id: row.id,
+  name: row.name,
+  description: row.description || '',
+  category: row.category,
+  priority: priorityFromBackend(row.priority),
+  dueDate: toDateOnly(row.due_date) || '',
+  progress: row.progress || 0,
+  hourlyRate: row.hourly_rate || 0,
+  billable: row.billable !== false,
+  milestones: (row.milestones || []).map(m => ({
+    id: m.id,
+    text: m.text,
+    dueDate: toDateOnly(m.due_date) || m.due_date,
+    completed: m.completed || false
+  })),
+  workspaceId: row.workspace || null,
+  updatedAt: row.updated_at
+});
+
+export const projectToPayload = (project: Partial<Project>): ProjectPayload => {
+  const payload: ProjectPayload = {};
+  if (project.name !== undefined) payload.name = project.name;
+  if (project.description !== undefined) payload.description = project.description;
+  if ('category' in project) payload.category = project.category || null;
+  if (project.priority !== undefined) payload.priority = priorityToBackend(project.priority);
+  if (project.dueDate) payload.due_date = project.dueDate;
+  if (project.progress !== undefined) payload.progress = project.progress;
+  if (project.hourlyRate !== undefined) payload.hourly_rate = project.hourlyRate;
+  if (project.billable !== undefined) payload.billable = project.billable;
+  if (project.milestones !== undefined) {
+    payload.milestones = project.milestones.map(m => ({ id: m.id, text: m.text, due_date: m.dueDate, completed: m.completed }));
+  }
+  return payload;
+};
+
+// Tags
+export const tagFromRow = (row: TagRow): Tag => ({
+  id: row.id,
+  name: row.name,
+  color: row.color || '#9CA3AF',
+  taskCount: row.task_count
+});
+
+// Categories
+export const categoryFromRow = (row: CategoryRow): Category => ({
+  id: row.id,
+  name: row.name,
+  color: row.color || '#6366F1',
+  icon: row.icon || 'folder',
+  taskCount: row.task_count
+});
+
+// Time entries
+// Entries are grouped by the local calendar day they started on
+export const timeEntryFromRow = (row: TimeEntryRow): TimeEntry => ({
+  id: row.id,
+  taskId: row.task_id,
+  description: row.description || '',
+  startTime: row.start_time,
+  endTime: row.end_time || row.start_time,
+  duration: row.duration || 0,
+  date: format(new Date(row.start_time), 'yyyy-MM-dd'),
+  billable: row.billable !== false
+});
+
+export const activeTimerFromRow = (row: TimeEntryRow): ActiveTimer => ({
+  id: row.id,
+  startTime: new Date(row.start_time).getTime(),
+  description: row.description || '',
+  taskId: row.task_id
+});
+
+export const timeEntryToPayload = (entry: Partial<TimeEntry>): TimeEntryPayload => {
+  const payload: TimeEntryPayload = {};
+  if (entry.description !== undefined) payload.description = entry.description;
+  if ('taskId' in entry) payload.task_id = entry.taskId || null;
+  if (entry.startTime !== undefined) payload.start_time = entry.startTime;
+  if (entry.endTime !== undefined) payload.end_time = entry.endTime;
+  if (entry.billable !== undefined) payload.billable = entry.billable;
+  return payload;
+};
+
+// Comments
+export const commentFromRow = (row: CommentRow): TaskComment => ({
+  id: row.id,
+  taskId: row.task,
+  userId: row.user,
+  authorName: row.author_name || 'Unknown user',
+  authorAvatarUrl: row.author_avatar || undefined,
+  content: row.content,
+  parentId: row.parent,
+  mentions: row.mentions || [],
+  edited: row.edited || false,
+  createdAt: row.created_at
+});
+
+// Notifications
+const NOTIFICATION_TYPES: NotificationType[] = ['reminder', 'deadline', 'assignment', 'comment', 'status_change', 'system'];
+
+export const notificationFromRow = (row: NotificationRow): AppNotification => ({
+  id: row.id,
+  // Types added on the server before the client knows them show as plain system notices
+  type: NOTIFICATION_TYPES.includes(row.type as NotificationType) ? row.type as NotificationType : 'system',
+  title: row.title,
+  message: row.message,
+  taskId: row.task,
+  projectId: row.project,
+  commentId: row.comment,
+  read: row.read,
+  createdAt: row.created_at
+});
+
+export const notificationPreferencesFromRow = (row: NotificationPreferencesRow): NotificationPreferences => {
+  const events = {} as NotificationPreferences['events'];
+  (Object.keys(row.events) as NotificationEventType[]).forEach(type => {
+    const { in_app, email, push } = row.events[type];
+    events[type] = { inApp: in_app, email, push };
+  });
+  return {
+    enabled: row.enabled,
+    events,
+    quietHours: { ...row.quiet_hours },
+    digest: { ...row.digest }
+  };
+};
+
+export const notificationPreferencesToPayload = (prefs: Partial<NotificationPreferences>): NotificationPreferencesPayload => {
+  const payload: NotificationPreferencesPayload = {};
+  if ('enabled' in prefs) payload.enabled = prefs.enabled;
+  if (prefs.events) {
+    payload.events = {};
+    (Object.keys(prefs.events) as NotificationEventType[]).forEach(type => {
+      const { inApp, email, push } = prefs.events![type];
+      payload.events![type] = { in_app: inApp, email, push };
+    });
+  }
+  if (prefs.quietHours) payload.quiet_hours = { ...prefs.quietHours };
+  if (prefs.digest) payload.digest = { ...prefs.digest };
+  return payload;
+};
+
+// Push devices
+export const pushDeviceFromRow = (row: PushSubscriptionRow): PushDevice => ({
+  id: row.id,
+  name: row.device_name || 'Unknown device',
+  endpoint: row.endpoint,
+  createdAt: row.created_at,
+  lastUsedAt: row.last_used_at
+});
+
+// Workspaces
+export const workspaceInvitationFromRow = (row: WorkspaceInvitationRow): WorkspaceInvitation => ({
+  id: row.id,
+  email: row.email,
+  role: row.role,
+  invitedBy: typeof row.invited_by === 'object' ? row.invited_by.name : undefined,
+  expiresAt: row.expires_at
+});
+
+export const workspaceFromRow = (row: WorkspaceRow): Workspace => ({
+  id: row.id,
+  name: row.name,
+  role: row.role || 'guest',
+  members: row.members.map(m => ({
+    userId: m.user.id,
+    name: m.user.name,
+    email: m.user.email || '',
+    avatarUrl: m.user.avatar_url,
+    role: m.role,
+    joinedAt: m.joined_at
+  })),
+  invitations: row.invitations?.map(workspaceInvitationFromRow)
+});
+
+// Users
+export const userSummaryFromRow = (row: UserSummaryRow): UserSummary => ({
+  id: row.id,
+  name: row.name,
+  email: row.email || '',
+  avatarUrl: row.avatar_url
+});
+
+export const userFromRow = (row: UserRow): User => ({
+  id: row.id,
+  name: row.name,
+  email: row.email,
+  role: row.role || 'Product Designer',
+  avatarUrl: row.avatar_url,
+  joinDate: row.createdAt || row.created_at || new Date().toISOString()
+});
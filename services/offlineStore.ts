@@ -0,0 +1,138 @@
+// Offline persistence for tasq.one
+// IndexedDB-backed cache of workspace records plus a durable outbox of pending mutations
+import { Task, Project } from '../types';
+import { TaskPayload, ProjectPayload } from './apiTypes';
+
+const DB_NAME = 'tasq_offline';
+const DB_VERSION = 2;
+
+export type EntityStore = 'tasks' | 'projects';
+type StoreName = EntityStore | 'outbox' | 'idMap';
+
+export type MutationEntity = 'task' | 'project';
+export type MutationType = 'create' | 'update' | 'delete';
+
+export interface PendingMutation {
+  seq?: number;         // Outbox position, assigned by IndexedDB
+  entity: MutationEntity;
+  type: MutationType;
+  entityId: string;     // Local id, may still be a temp id when queued
+  payload?: TaskPayload | ProjectPayload;
+  createdAt: number;
+  attempts: number;
+}
+
+interface IdMapping {
+  tempId: string;
+  serverId: string;
+}
+
+type EntityRecord<S extends EntityStore> = S extends 'tasks' ? Task : Project;
+
+class OfflineStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available in this environment'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = (event) => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains('tasks')) db.createObjectStore('tasks', { keyPath: 'id' });
+          if (!db.objectStoreNames.contains('projects')) db.createObjectStore('projects', { keyPath: 'id' });
+          if (!db.objectStoreNames.contains('outbox')) db.createObjectStore('outbox', { keyPath: 'seq', autoIncrement: true });
+          if (!db.objectStoreNames.contains('idMap')) db.createObjectStore('idMap', { keyPath: 'tempId' });
+          // v1 cached task statuses as display labels; drop them and let the next fetch refill the cache
+          if (event.oldVersion === 1) request.transaction?.objectStore('tasks').clear();
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  // Run a single-store transaction and resolve once it has committed
+  private async withStore<T>(
+    name: StoreName,
+    mode: IDBTransactionMode,
+    work: (store: IDBObjectStore) => IDBRequest<T> | void
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(name, mode);
+      const request = work(tx.objectStore(name));
+      tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  // Entity cache
+  async getAll<S extends EntityStore>(name: S): Promise<EntityRecord<S>[]> {
+    return await this.withStore<EntityRecord<S>[]>(name, 'readonly', store => store.getAll());
+  }
+
+  async replaceAll<S extends EntityStore>(name: S, records: EntityRecord<S>[]): Promise<void> {
+    await this.withStore(name, 'readwrite', store => {
+      store.clear();
+      records.forEach(record => store.put(record));
+    });
+  }
+
+  // Outbox
+  async enqueue(mutation: PendingMutation): Promise<number> {
+    const { seq, ...record } = mutation;
+    return await this.withStore<IDBValidKey>('outbox', 'readwrite', store => store.add(record)) as number;
+  }
+
+  async getOutbox(): Promise<PendingMutation[]> {
+    // Keys are auto-incremented, so getAll already returns mutations in enqueue order
+    return await this.withStore<PendingMutation[]>('outbox', 'readonly', store => store.getAll());
+  }
+
+  async updateMutation(mutation: PendingMutation): Promise<void> {
+    await this.withStore('outbox', 'readwrite', store => store.put(mutation));
+  }
+
+  async removeMutation(seq: number): Promise<void> {
+    await this.withStore('outbox', 'readwrite', store => store.delete(seq));
+  }
+
+  // Temp id -> server id mappings for creates that have replayed
+  async saveIdMapping(tempId: string, serverId: string): Promise<void> {
+    await this.withStore('idMap', 'readwrite', store => store.put({ tempId, serverId } as IdMapping));
+  }
+
+  async getIdMappings(): Promise<Record<string, string>> {
+    const mappings = await this.withStore<IdMapping[]>('idMap', 'readonly', store => store.getAll());
+    return mappings.reduce<Record<string, string>>((acc, m) => {
+      acc[m.tempId] = m.serverId;
+      return acc;
+    }, {});
+  }
+
+  // Wipe everything, used on logout so the next user starts clean
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const names: StoreName[] = ['tasks', 'projects', 'outbox', 'idMap'];
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(names, 'readwrite');
+      names.forEach(name => tx.objectStore(name).clear());
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+}
+
+// Create singleton instance
+const offlineStore = new OfflineStore();
+
+export default offlineStore;
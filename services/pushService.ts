@@ -0,0 +1,140 @@
+// Web Push for this browser
+// Registers the service worker (Public/sw.js), subscribes with the server's VAPID key and keeps this
+// device's subscription in step with the backend's device list. Clicks on a push notification come
+// back from the worker as `open-notification` messages, handed to onOpen listeners.
+import apiService from './apiService';
+import { PushSubscriptionRow } from './apiTypes';
+
+export interface PushOpenTarget {
+  notificationId?: string | null;
+  taskId?: string | null;
+  projectId?: string | null;
+}
+
+type OpenListener = (target: PushOpenTarget) => void;
+
+// VAPID keys travel as base64url; PushManager wants the raw bytes
+const keyToBytes = (key: string) => {
+  const base64 = (key + '='.repeat((4 - key.length % 4) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+};
+
+// A readable label for the device list, e.g. "Chrome on Windows"
+const describeDevice = () => {
+  const ua = navigator.userAgent;
+  const browser = ua.includes('Edg/') ? 'Edge'
+    : ua.includes('Firefox') ? 'Firefox'
+    : ua.includes('Chrome') ? 'Chrome'
+    : ua.includes('Safari') ? 'Safari'
+    : 'Browser';
+  const platform = /Android/.test(ua) ? 'Android'
+    : /iPhone|iPad/.test(ua) ? 'iOS'
+    : ua.includes('Windows') ? 'Windows'
+    : ua.includes('Mac') ? 'macOS'
+    : ua.includes('Linux') ? 'Linux'
+    : 'unknown OS';
+  return `${browser} on ${platform}`;
+};
+
+class PushService {
+  private registration: Promise<ServiceWorkerRegistration | null> | null = null;
+  private subscribed = false;
+  private openListeners = new Set<OpenListener>();
+
+  constructor() {
+    if (this.isSupported()) {
+      navigator.serviceWorker.addEventListener('message', (event) => {
+        if (event.data?.type === 'open-notification') {
+          this.openListeners.forEach(listener => listener(event.data));
+        }
+      });
+    }
+  }
+
+  isSupported() {
+    return typeof window !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+  }
+
+  // Whether this browser receives pushes; while it does, the app leaves system notifications to the worker
+  isSubscribed() {
+    return this.subscribed;
+  }
+
+  onOpen(listener: OpenListener) {
+    this.openListeners.add(listener);
+    return () => { this.openListeners.delete(listener); };
+  }
+
+  private register() {
+    if (!this.registration) {
+      this.registration = this.isSupported()
+        ? navigator.serviceWorker.register('/sw.js').catch(error => {
+            console.warn('⚠️ Service worker registration failed:', error);
+            return null;
+          })
+        : Promise.resolve(null);
+    }
+    return this.registration;
+  }
+
+  async getSubscription() {
+    const registration = await this.register();
+    return registration ? await registration.pushManager.getSubscription() : null;
+  }
+
+  // Run after sign-in. A device revoked from another browser's device list is unsubscribed here too.
+  async sync() {
+    const subscription = await this.getSubscription();
+    if (!subscription) {
+      this.subscribed = false;
+      return;
+    }
+    const devices = await apiService.getPushSubscriptions();
+    if (devices.some(d => d.endpoint === subscription.endpoint)) {
+      this.subscribed = true;
+    } else {
+      await subscription.unsubscribe();
+      this.subscribed = false;
+    }
+  }
+
+  async subscribe(): Promise<PushSubscriptionRow> {
+    const config = await apiService.getPushConfig();
+    if (!config.enabled || !config.public_key) throw new Error('Push notifications are not set up on this server');
+
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') throw new Error('Notifications are blocked for this site in the browser settings');
+
+    const registration = await this.register();
+    if (!registration) throw new Error('This browser does not support push notifications');
+
+    const subscription = await registration.pushManager.getSubscription()
+      || await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: keyToBytes(config.public_key) });
+    const { endpoint, keys } = subscription.toJSON();
+    if (!endpoint || !keys?.p256dh || !keys?.auth) throw new Error('The browser returned an incomplete subscription');
+
+    const row = await apiService.savePushSubscription({ endpoint, keys: { p256dh: keys.p256dh, auth: keys.auth }, device_name: describeDevice() });
+    this.subscribed = true;
+    return row;
+  }
+
+  // Stop pushes to this browser; `id` is its entry in the device list, when known
+  async unsubscribe(id?: string) {
+    const subscription = await this.getSubscription();
+    if (id) await apiService.deletePushSubscription(id);
+    if (subscription) await subscription.unsubscribe();
+    this.subscribed = false;
+  }
+
+  // Forget the subscription on sign-out so the next user on this browser starts clean
+  async reset() {
+    const subscription = await this.getSubscription();
+    if (subscription) await subscription.unsubscribe();
+    this.subscribed = false;
+  }
+}
+
+// Create singleton instance
+const pushService = new PushService();
+
+export default pushService;
@@ -0,0 +1,305 @@
+// Offline mutation queue for tasq.one
+// Persists every task/project write to the outbox and replays them in order once the API is reachable
+import apiService, { ApiError, NetworkError } from './apiService';
+import offlineStore, { MutationEntity, MutationType, PendingMutation } from './offlineStore';
+import { TaskPayload, ProjectPayload } from './apiTypes';
+import { TaskManager } from '../utils/taskManager';
+
+const RETRY_DELAY_MS = 30000;
+
+type IdRemapListener = (entity: MutationEntity, tempId: string, serverId: string) => void;
+type FailureListener = (mutation: PendingMutation, error: Error) => void;
+type SyncedListener = (entity: MutationEntity, id: string, updatedAt: string) => void;
+type SignInListener = () => void;
+
+export interface QueuedMutation {
+  entity: MutationEntity;
+  type: MutationType;
+  entityId: string;
+  payload?: TaskPayload | ProjectPayload;
+}
+
+// Network failures and server-side outages are worth retrying; validation or
+// not-found errors will fail the same way every time
+const isTransient = (error: unknown) =>
+  error instanceof NetworkError || (error instanceof ApiError && error.status >= 500);
+
+// The session expired or its token is no longer accepted: a 401, or the 403 the auth middleware answers
+// an invalid token with. The change itself is fine and is sent once the user signs in again. Any other
+// 403 refuses the change itself, such as a workspace guest creating a task.
+const isAuthError = (error: unknown) =>
+  error instanceof ApiError && (error.status === 401 || (error.status === 403 && error.data?.message === 'Invalid token'));
+
+// An update refused because the server copy changed since the edit was made; the 409 carries that copy
+export const isConflict = (error: unknown): error is ApiError =>
+  error instanceof ApiError && error.status === 409 && !!error.data?.data?.conflict;
+
+class SyncQueue {
+  private queue: PendingMutation[] = [];
+  private idMap: Record<string, string> = {};
+  private inFlight: PendingMutation | null = null;
+  private flushing: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private localSeq = 0;
+  private ready: Promise<void>;
+  private remapListeners = new Set<IdRemapListener>();
+  private failureListeners = new Set<FailureListener>();
+  private syncedListeners = new Set<SyncedListener>();
+  private signInListeners = new Set<SignInListener>();
+  private awaitingSignIn = false;
+
+  constructor() {
+    this.ready = this.restore();
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => this.flush());
+    }
+  }
+
+  private async restore() {
+    try {
+      this.queue = await offlineStore.getOutbox();
+      this.idMap = await offlineStore.getIdMappings();
+    } catch (error) {
+      console.warn('⚠️ Offline outbox unavailable, queued changes will not survive a reload:', error);
+    }
+  }
+
+  onIdRemap(listener: IdRemapListener) {
+    this.remapListeners.add(listener);
+    return () => { this.remapListeners.delete(listener); };
+  }
+
+  onFailure(listener: FailureListener) {
+    this.failureListeners.add(listener);
+    return () => { this.failureListeners.delete(listener); };
+  }
+
+  // Reports the server's new updated_at after each create or update lands
+  onSynced(listener: SyncedListener) {
+    this.syncedListeners.add(listener);
+    return () => { this.syncedListeners.delete(listener); };
+  }
+
+  // Fires when the queue stops because the session is no longer valid
+  onSignInRequired(listener: SignInListener) {
+    this.signInListeners.add(listener);
+    return () => { this.signInListeners.delete(listener); };
+  }
+
+  hasPending(): boolean {
+    return this.queue.length > 0;
+  }
+
+  // Whether a local change to this task or project has yet to reach the server
+  hasPendingFor(entity: MutationEntity, id: string): boolean {
+    return this.queue.some(m => m.entity === entity && this.resolveId(m.entityId) === id);
+  }
+
+  // Resolve an id that may have been created offline to its server id
+  resolveId(id: string): string {
+    return this.idMap[id] || id;
+  }
+
+  async enqueue(mutation: QueuedMutation): Promise<void> {
+    await this.ready;
+
+    // Deleting something that never reached the server cancels its whole history
+    if (mutation.type === 'delete' && TaskManager.isTempId(mutation.entityId) && !this.idMap[mutation.entityId]) {
+      const history = this.queue.filter(m => m.entity === mutation.entity && m.entityId === mutation.entityId);
+      const createIsQueued = history.some(m => m.type === 'create' && m !== this.inFlight);
+      if (createIsQueued) {
+        this.queue = this.queue.filter(m => !history.includes(m));
+        await Promise.all(history.map(m => this.forget(m)));
+        return;
+      }
+    }
+
+    const pending: PendingMutation = { ...mutation, createdAt: Date.now(), attempts: 0 };
+    try {
+      pending.seq = await offlineStore.enqueue(pending);
+    } catch (error) {
+      // Keep the change in memory so it still syncs during this session
+      pending.seq = --this.localSeq;
+    }
+    this.queue.push(pending);
+    this.flush();
+  }
+
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.drain().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  // Pick up where an expired session left off, once the same user has signed in again
+  resume(): Promise<void> {
+    this.awaitingSignIn = false;
+    return this.flush();
+  }
+
+  // Drop every queued change and mapping, used on logout
+  async reset(): Promise<void> {
+    this.queue = [];
+    this.idMap = {};
+    this.awaitingSignIn = false;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    try {
+      await offlineStore.clear();
+    } catch (error) {
+      console.warn('⚠️ Failed to clear offline store:', error);
+    }
+  }
+
+  private async drain() {
+    await this.ready;
+
+    while (this.queue.length > 0) {
+      if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+      if (this.awaitingSignIn) return;
+
+      const mutation = this.queue[0];
+      this.inFlight = mutation;
+      try {
+        await this.replay(mutation);
+      } catch (error: any) {
+        if (isTransient(error)) {
+          mutation.attempts += 1;
+          await offlineStore.updateMutation(mutation).catch(() => undefined);
+          this.scheduleRetry();
+          return;
+        }
+        if (isAuthError(error)) {
+          this.awaitingSignIn = true;
+          this.signInListeners.forEach(listener => listener());
+          return;
+        }
+
+        console.error('❌ Dropping queued change rejected by the server:', mutation, error);
+        this.discardDependents(mutation);
+        if (isConflict(error)) await this.absorbLaterUpdates(mutation);
+        this.failureListeners.forEach(listener => listener(mutation, error));
+      } finally {
+        this.inFlight = null;
+      }
+
+      this.queue = this.queue.filter(m => m !== mutation);
+      await this.forget(mutation);
+    }
+  }
+
+  private async replay(mutation: PendingMutation) {
+    const id = this.resolveId(mutation.entityId);
+    const payload = this.resolvePayload(mutation.payload);
+
+    if (mutation.entity === 'task') {
+      switch (mutation.type) {
+        case 'create': {
+          const response = await apiService.createTask(payload);
+          if (!response.success) throw new Error(response.message || 'Failed to create task');
+          await this.recordMapping(mutation, response.data.task.id);
+          await this.recordVersion(mutation, response.data.task.id, response.data.task.updated_at);
+          break;
+        }
+        case 'update': {
+          const response = await apiService.updateTask(id, payload);
+          await this.recordVersion(mutation, id, response.data.task.updated_at);
+          break;
+        }
+        case 'delete':
+          await apiService.deleteTask(id);
+          break;
+      }
+    } else {
+      switch (mutation.type) {
+        case 'create': {
+          const response = await apiService.createProject(payload);
+          if (!response.success) throw new Error(response.message || 'Failed to create project');
+          await this.recordMapping(mutation, response.data.project.id);
+          await this.recordVersion(mutation, response.data.project.id, response.data.project.updated_at);
+          break;
+        }
+        case 'update': {
+          const response = await apiService.updateProject(id, payload);
+          await this.recordVersion(mutation, id, response.data.project.updated_at);
+          break;
+        }
+        case 'delete':
+          await apiService.deleteProject(id);
+          break;
+      }
+    }
+  }
+
+  // Payloads are captured at enqueue time, so any temp ids they reference
+  // (project_id, dependency lists) are swapped for server ids just before sending
+  private resolvePayload(payload?: TaskPayload | ProjectPayload): Record<string, any> {
+    if (!payload) return {};
+    return Object.fromEntries(
+      Object.entries(payload).map(([key, value]) => {
+        if (typeof value === 'string') return [key, this.resolveId(value)];
+        if (Array.isArray(value)) return [key, value.map(v => typeof v === 'string' ? this.resolveId(v) : v)];
+        return [key, value];
+      })
+    );
+  }
+
+  private async recordMapping(mutation: PendingMutation, serverId: string) {
+    this.idMap[mutation.entityId] = serverId;
+    await offlineStore.saveIdMapping(mutation.entityId, serverId).catch(() => undefined);
+    this.remapListeners.forEach(listener => listener(mutation.entity, mutation.entityId, serverId));
+  }
+
+  // Later queued edits of the same task or project were made on top of this one, so they now build on
+  // the version the server just saved rather than the one they were queued against
+  private async recordVersion(mutation: PendingMutation, serverId: string, updatedAt?: string) {
+    if (!updatedAt) return;
+    const later = this.queue.filter(m => m !== mutation && m.entity === mutation.entity && m.type === 'update'
+      && this.resolveId(m.entityId) === serverId);
+    for (const m of later) {
+      m.payload = { ...m.payload, base_updated_at: updatedAt };
+      await offlineStore.updateMutation(m).catch(() => undefined);
+    }
+    this.syncedListeners.forEach(listener => listener(mutation.entity, serverId, updatedAt));
+  }
+
+  // Edits queued after a conflicting one would conflict the same way; they are folded into it so the
+  // conflict covers everything still unsaved for that task or project
+  private async absorbLaterUpdates(mutation: PendingMutation) {
+    if (mutation.type !== 'update') return;
+    const later = this.queue.filter(m => m !== mutation && m.entity === mutation.entity && m.entityId === mutation.entityId && m.type === 'update');
+    if (later.length === 0) return;
+    mutation.payload = Object.assign({}, mutation.payload, ...later.map(m => m.payload));
+    this.queue = this.queue.filter(m => !later.includes(m));
+    await Promise.all(later.map(m => this.forget(m)));
+  }
+
+  // A rejected create leaves nothing on the server for later edits to target
+  private discardDependents(mutation: PendingMutation) {
+    if (mutation.type !== 'create') return;
+    const orphaned = this.queue.filter(m => m !== mutation && m.entity === mutation.entity && m.entityId === mutation.entityId);
+    this.queue = this.queue.filter(m => !orphaned.includes(m));
+    orphaned.forEach(m => this.forget(m));
+  }
+
+  private async forget(mutation: PendingMutation) {
+    if (mutation.seq !== undefined && mutation.seq > 0) {
+      await offlineStore.removeMutation(mutation.seq).catch(() => undefined);
+    }
+  }
+
+  private scheduleRetry() {
+    if (this.retryTimer) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, RETRY_DELAY_MS);
+  }
+}
+
+// Create singleton instance
+const syncQueue = new SyncQueue();
+
+export default syncQueue;
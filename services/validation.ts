@@ -0,0 +1,82 @@
+// Runtime validation for API responses
+// Small schema combinators: each schema both checks a value and carries its static type
+
+export class ValidationError extends Error {
+  path: string;
+
+  constructor(path: string, expected: string, received: unknown) {
+    const got = received === null ? 'null' : Array.isArray(received) ? 'array' : typeof received;
+    super(`Invalid API response at ${path || 'root'}: expected ${expected}, received ${got}`);
+    this.name = 'ValidationError';
+    this.path = path;
+  }
+}
+
+export type Schema<T> = (value: unknown, path?: string) => T;
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const string = (): Schema<string> => (value, path = '') => {
+  if (typeof value !== 'string') throw new ValidationError(path, 'string', value);
+  return value;
+};
+
+const number = (): Schema<number> => (value, path = '') => {
+  if (typeof value !== 'number' || Number.isNaN(value)) throw new ValidationError(path, 'number', value);
+  return value;
+};
+
+const boolean = (): Schema<boolean> => (value, path = '') => {
+  if (typeof value !== 'boolean') throw new ValidationError(path, 'boolean', value);
+  return value;
+};
+
+// Ids arrive as Mongo ObjectId strings, or numbers from the legacy SQL backend
+const id = (): Schema<string> => (value, path = '') => {
+  if (typeof value === 'string' && value.length > 0) return value;
+  if (typeof value === 'number') return value.toString();
+  throw new ValidationError(path, 'id', value);
+};
+
+const literal = <T extends string>(...options: T[]): Schema<T> => (value, path = '') => {
+  if (typeof value !== 'string' || !options.includes(value as T)) {
+    throw new ValidationError(path, options.map(o => `'${o}'`).join(' | '), value);
+  }
+  return value as T;
+};
+
+const optional = <T>(schema: Schema<T>): Schema<T | undefined> => (value, path) =>
+  value === undefined || value === null ? undefined : schema(value, path);
+
+const nullable = <T>(schema: Schema<T>): Schema<T | null> => (value, path) =>
+  value === null || value === undefined ? null : schema(value, path);
+
+const array = <T>(schema: Schema<T>): Schema<T[]> => (value, path = '') => {
+  if (!Array.isArray(value)) throw new ValidationError(path, 'array', value);
+  return value.map((item, i) => schema(item, `${path}[${i}]`));
+};
+
+const union = <A, B>(a: Schema<A>, b: Schema<B>): Schema<A | B> => (value, path = '') => {
+  try {
+    return a(value, path);
+  } catch {
+    return b(value, path);
+  }
+};
+
+// Unknown keys are kept so newer backend fields pass through untouched
+const object = <S extends Record<string, Schema<any>>>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> =>
+  (value, path = '') => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new ValidationError(path, 'object', value);
+    }
+    const input = value as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...input };
+    for (const key of Object.keys(shape)) {
+      result[key] = shape[key](input[key], path ? `${path}.${key}` : key);
+    }
+    return result as { [K in keyof S]: Infer<S[K]> };
+  };
+
+const unknown = (): Schema<unknown> => (value) => value;
+
+export const v = { string, number, boolean, id, literal, optional, nullable, array, union, object, unknown };
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../services/apiService', () => {
+  class ApiError extends Error {
+    status: number;
+    data: any;
+    constructor(message: string, status: number, data?: any) {
+      super(message);
+      this.status = status;
+      this.data = data;
+    }
+  }
+  class NetworkError extends Error {}
+  return {
+    ApiError,
+    NetworkError,
+    default: {
+      createTask: vi.fn(),
+      updateTask: vi.fn(),
+      deleteTask: vi.fn(),
+      createProject: vi.fn(),
+      updateProject: vi.fn(),
+      deleteProject: vi.fn()
+    }
+  };
+});
+
+vi.mock('../services/offlineStore', () => {
+  let seq = 0;
+  return {
+    default: {
+      enqueue: vi.fn(async () => ++seq),
+      getOutbox: vi.fn(async () => []),
+      getIdMappings: vi.fn(async () => ({})),
+      updateMutation: vi.fn(async () => undefined),
+      removeMutation: vi.fn(async () => undefined),
+      saveIdMapping: vi.fn(async () => undefined),
+      clear: vi.fn(async () => undefined)
+    }
+  };
+});
+
+import apiService, { ApiError } from '../services/apiService';
+import syncQueue from '../services/syncQueue';
+
+const TASK_ID = '64b7f0c2a1b2c3d4e5f60718';
+const updateTask = vi.mocked(apiService.updateTask);
+
+const saved = { success: true, data: { task: { id: TASK_ID, updated_at: '2026-03-01T12:00:00.000Z' } } } as any;
+
+// Queue an edit of the task and wait for the queue to try sending it
+const queueEdit = async () => {
+  await syncQueue.enqueue({ entity: 'task', type: 'update', entityId: TASK_ID, payload: { title: 'Ship it' } });
+  await syncQueue.flush();
+};
+
+describe('syncQueue rejections', () => {
+  let signIns: number;
+  let failures: Error[];
+  let unsubscribe: Array<() => void>;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    await syncQueue.reset();
+    updateTask.mockReset();
+    signIns = 0;
+    failures = [];
+    unsubscribe = [
+      syncQueue.onSignInRequired(() => { signIns += 1; }),
+      syncQueue.onFailure((mutation, error) => { failures.push(error); })
+    ];
+  });
+
+  afterEach(() => {
+    unsubscribe.forEach(off => off());
+    vi.restoreAllMocks();
+  });
+
+  it('holds the change for sign-in when the session expired', async () => {
+    updateTask.mockRejectedValueOnce(new ApiError('Token expired', 401, { success: false, message: 'Token expired' }));
+    await queueEdit();
+
+    expect(signIns).toBe(1);
+    expect(failures).toHaveLength(0);
+    expect(syncQueue.hasPendingFor('task', TASK_ID)).toBe(true);
+
+    updateTask.mockResolvedValueOnce(saved);
+    await syncQueue.resume();
+    expect(updateTask).toHaveBeenCalledTimes(2);
+    expect(syncQueue.hasPending()).toBe(false);
+  });
+
+  it("holds the change for sign-in on the auth middleware's invalid-token 403", async () => {
+    updateTask.mockRejectedValueOnce(new ApiError('Invalid token', 403, { success: false, message: 'Invalid token' }));
+    await queueEdit();
+
+    expect(signIns).toBe(1);
+    expect(failures).toHaveLength(0);
+    expect(syncQueue.hasPending()).toBe(true);
+  });
+
+  it('drops a change the server refuses with any other 403 without asking to sign in', async () => {
+    const refusal = new ApiError('Only admins can override task dependencies', 403, { success: false, message: 'Only admins can override task dependencies' });
+    updateTask.mockRejectedValueOnce(refusal);
+    await queueEdit();
+
+    expect(signIns).toBe(0);
+    expect(failures).toEqual([refusal]);
+    expect(syncQueue.hasPending()).toBe(false);
+  });
+
+  it('sends nothing more until the user signs in again', async () => {
+    updateTask.mockRejectedValueOnce(new ApiError('Token expired', 401, { success: false, message: 'Token expired' }));
+    await queueEdit();
+    await syncQueue.flush();
+
+    expect(updateTask).toHaveBeenCalledTimes(1);
+  });
+});
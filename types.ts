@@ -1,9 +1,22 @@
 
+// Built-in status keys, shared with the backend. Users can add their own
+// statuses on top of these, so a task's status is any key from the status model.
 export enum TaskStatus {
-  TODO = 'To Do',
-  IN_PROGRESS = 'In Progress',
-  REVIEW = 'Review',
-  DONE = 'Done'
+  TODO = 'todo',
+  IN_PROGRESS = 'in_progress',
+  REVIEW = 'review',
+  DONE = 'completed'
+}
+
+export type TaskStatusKey = TaskStatus | string;
+
+export type StatusColor = 'slate' | 'blue' | 'purple' | 'emerald' | 'amber' | 'red' | 'pink' | 'cyan' | 'orange' | 'indigo';
+
+export interface StatusDefinition {
+  key: TaskStatusKey;
+  label: string;
+  color: StatusColor;
+  done: boolean; // Tasks in a done status count as completed
 }
 
 export enum Priority {
@@ -12,9 +25,13 @@ export enum Priority {
   HIGH = 'High'
 }
 
-export enum Category {
-  PERSONAL = 'Personal',
-  COMPANY = 'Company'
+// User-defined; every workspace starts with Personal and Company
+export interface Category {
+  id: string;
+  name: string;
+  color: string; // Hex, e.g. #7C3AED
+  icon: string; // Key into CATEGORY_ICONS (components/CategoryBadge.tsx)
+  taskCount?: number;
 }
 
 export interface User {
@@ -26,6 +43,14 @@ export interface User {
   joinDate: string;
 }
 
+// Someone a task can be assigned to
+export interface UserSummary {
+  id: string;
+  name: string;
+  email: string;
+  avatarUrl?: string;
+}
+
 export interface ProjectMilestone {
   id: string;
   text: string;
@@ -37,12 +62,16 @@ export interface Project {
   id: string;
   name: string;
   description: string;
-  category: Category;
+  category?: string; // Category ID
   priority: Priority;
   dueDate: string;
   progress: number; // 0-100
+  hourlyRate?: number; // Billing rate for time logged against the project's tasks
+  billable?: boolean;  // Default for new time entries on the project's tasks
   completionCriteria?: { id: string; text: string; completed: boolean; }[];
   milestones?: ProjectMilestone[];
+  workspaceId?: string | null; // Shared with this workspace's members; personal when unset
+  updatedAt?: string; // Server version, compared when merging live updates
 }
 
 export interface Task {
@@ -50,18 +79,139 @@ export interface Task {
   projectId?: string; // Optional linkage to a project
   title: string;
   description?: string;
-  status: TaskStatus;
+  status: TaskStatusKey;
   priority: Priority;
-  category: Category;
+  category?: string; // Category ID
   dueDate: string;
   dueTime?: string; // HH:mm format
-  assignee?: string;
+  assigneeId?: string;
+  assignee?: string; // Assignee's name
+  assigneeAvatarUrl?: string;
+  assignedById?: string; // Who handed the task to its assignee
+  assignedByName?: string;
   dependencies?: string[]; // IDs of tasks that must be completed first
+  estimateHours?: number; // Planned effort, used for critical-path scheduling
   reminderMinutes?: number; // Minutes before due date to remind
-  reminderSent?: boolean;
+  recurrence?: string; // RFC 5545 RRULE subset, e.g. FREQ=WEEKLY;BYDAY=MO
+  recurrenceStart?: string; // YYYY-MM-DD of the series' first occurrence
+  seriesId?: string; // First task of the recurring series this task was generated from
+  parentId?: string; // Set on subtasks; nesting is one level deep
+  tags?: string[]; // Tag IDs
+  updatedAt?: string; // Server version, compared when merging live updates
+}
+
+// An entry in an assigned task's progress timeline: a status change, notes from its assignee, or both
+export interface ProgressUpdate {
+  id: string;
+  taskId: string;
+  status?: TaskStatusKey;
+  fromStatus?: TaskStatusKey; // Set when the update moved the task to `status`
+  notes?: string;
+  authorId?: string;
+  authorName?: string;
+  authorAvatarUrl?: string;
+  createdAt: string;
+}
+
+// An edit the server refused because someone else saved the task first; `fields` are the ones this
+// user changed, `mine` is the task with their edit applied and `theirs` the server's current copy
+export interface TaskConflict {
+  taskId: string;
+  fields: (keyof Task)[];
+  mine: Task;
+  theirs: Task;
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  color: string; // Hex, e.g. #6366F1
+  taskCount?: number;
+}
+
+export interface TaskComment {
+  id: string;
+  taskId: string;
+  userId: string;
+  authorName: string;
+  authorAvatarUrl?: string;
+  content: string; // Markdown source
+  parentId?: string; // Top-level comment this one replies to
+  mentions: string[]; // IDs of users mentioned with @handle
+  edited: boolean;
+  createdAt: string;
+}
+
+// Keep in sync with the Notification model's type enum (backend/models/Notification.js)
+export type NotificationType = 'reminder' | 'deadline' | 'assignment' | 'comment' | 'status_change' | 'system';
+
+// An inbox entry; taskId/projectId say which view opening it should jump to
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  taskId?: string;
+  projectId?: string;
+  commentId?: string;
+  read: boolean;
+  createdAt: string;
+}
+
+// Event types the user can route per channel; `system` notices always reach the inbox
+// Keep in sync with EVENT_TYPES in backend/utils/notificationPreferences.js
+export type NotificationEventType = Exclude<NotificationType, 'system'>;
+
+export type NotificationChannel = 'inApp' | 'email' | 'push';
+
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+export interface NotificationPreferences {
+  enabled: boolean; // Master switch for email and push
+  events: Record<NotificationEventType, Record<NotificationChannel, boolean>>;
+  quietHours: { enabled: boolean; start: string; end: string }; // HH:mm in the user's time zone
+  digest: { frequency: DigestFrequency; time: string; weekday: number }; // weekday: 0 = Sunday, weekly only
 }
 
-export type View = 'DASHBOARD' | 'PROJECTS' | 'TASKS' | 'CALENDAR' | 'WORKFLOW' | 'PROFILE';
+// A browser receiving the user's Web Push notifications
+export interface PushDevice {
+  id: string;
+  name: string;
+  endpoint: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+// Keep in sync with the roles in backend/utils/workspaces.js
+export type WorkspaceRole = 'owner' | 'admin' | 'member' | 'guest';
+
+export interface WorkspaceMember {
+  userId: string;
+  name: string;
+  email: string;
+  avatarUrl?: string;
+  role: WorkspaceRole;
+  joinedAt: string;
+}
+
+export interface WorkspaceInvitation {
+  id: string;
+  email: string;
+  role: WorkspaceRole;
+  invitedBy?: string; // Inviter's name
+  expiresAt: string;
+}
+
+// A team sharing projects; `role` is the current user's own
+export interface Workspace {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+  members: WorkspaceMember[];
+  invitations?: WorkspaceInvitation[]; // Pending ones, only loaded for admins
+}
+
+export type View = 'DASHBOARD' | 'PROJECTS' | 'TASKS' | 'CALENDAR' | 'TIMELINE' | 'WORKFLOW' | 'TIME' | 'PROFILE';
 
 export interface Message {
   id: string;
@@ -75,7 +225,6 @@ export interface AIResponse {
   analysis?: string;
 }
 
-// Added TimeEntry interface to resolve the export error in TimeTracking.tsx
 export interface TimeEntry {
   id: string;
   taskId?: string;
@@ -84,4 +233,13 @@ export interface TimeEntry {
   endTime: string;   // ISO string
   duration: number;  // in seconds
   date: string;      // YYYY-MM-DD
+  billable: boolean;
+}
+
+// The running timer is stored server-side so it follows the user across reloads and devices
+export interface ActiveTimer {
+  id: string;
+  startTime: number; // epoch ms
+  description: string;
+  taskId?: string;
 }
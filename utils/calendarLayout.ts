@@ -0,0 +1,69 @@
+// Time-slot layout for the calendar's week and day views
+// A timed task becomes a block starting at its dueTime and running for its estimate (an hour when
+// unestimated), clipped to the end of the day. Blocks that overlap share the width of their column.
+import { Task } from '../types';
+
+export const DEFAULT_BLOCK_MINUTES = 60;
+export const MIN_BLOCK_MINUTES = 15;
+export const SNAP_MINUTES = 15;
+export const DAY_MINUTES = 24 * 60;
+
+export interface TimeBlock {
+  task: Task;
+  start: number; // minutes from midnight
+  end: number;
+  column: number;  // 0-based column within its overlap group
+  columns: number; // how many columns the group needs
+}
+
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export const minutesToTime = (minutes: number): string => {
+  const clamped = Math.max(0, Math.min(DAY_MINUTES - SNAP_MINUTES, minutes));
+  return `${String(Math.floor(clamped / 60)).padStart(2, '0')}:${String(clamped % 60).padStart(2, '0')}`;
+};
+
+export const snapMinutes = (minutes: number) => Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+
+export const blockMinutes = (task: Task) =>
+  Math.max(MIN_BLOCK_MINUTES, Math.round((task.estimateHours || DEFAULT_BLOCK_MINUTES / 60) * 60));
+
+// Lay out one day's timed tasks; tasks without a dueTime belong in the all-day row instead
+export const layoutDay = (tasks: Task[]): TimeBlock[] => {
+  const blocks = tasks
+    .filter(t => t.dueTime)
+    .map(task => {
+      const start = timeToMinutes(task.dueTime!);
+      return { task, start, end: Math.min(DAY_MINUTES, start + blockMinutes(task)), column: 0, columns: 1 };
+    })
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  // Walk the blocks in start order, closing a group whenever a block starts after everything so far has ended
+  let group: TimeBlock[] = [];
+  let groupEnd = -1;
+  const closeGroup = () => {
+    const columns = Math.max(1, ...group.map(b => b.column + 1));
+    group.forEach(b => { b.columns = columns; });
+    group = [];
+  };
+
+  blocks.forEach(block => {
+    if (block.start >= groupEnd) {
+      closeGroup();
+      groupEnd = -1;
+    }
+    // First column whose last block has already ended
+    const taken = new Set(group.filter(b => b.end > block.start).map(b => b.column));
+    let column = 0;
+    while (taken.has(column)) column += 1;
+    block.column = column;
+    group.push(block);
+    groupEnd = Math.max(groupEnd, block.end);
+  });
+  closeGroup();
+
+  return blocks;
+};
@@ -0,0 +1,213 @@
+// Task dependency graph: cycle checks and critical-path scheduling
+// Edges run from a task to the tasks it depends on (Task.dependencies). Dependencies on tasks outside
+// the analysed set (another project, or deleted) are ignored.
+// Scheduling is a critical-path pass in whole days counted from today: an open task takes its estimate
+// (HOURS_PER_DAY hours to a day, at least one day, one day when unestimated) and a finished task none.
+import { differenceInCalendarDays, parseISO, addDays, format } from 'date-fns';
+import { Task } from '../types';
+import { StatusModel } from './statusModel';
+
+export const HOURS_PER_DAY = 8;
+
+export interface ScheduleNode {
+  taskId: string;
+  duration: number;       // days
+  earliestStart: number;  // days from today
+  earliestFinish: number;
+  latestFinish: number;   // latest finish that still meets the task's own and every downstream due date
+  slack: number;          // latestFinish - earliestFinish; negative means a due date will be missed
+  float: number;          // days the task can slip before the whole set finishes later
+  projectSlack?: number;  // days the task can slip before the project misses its due date
+  depth: number;          // longest chain of dependencies below the task, for layout
+}
+
+export interface ScheduleAnalysis {
+  nodes: Map<string, ScheduleNode>;
+  order: string[];             // every scheduled task after the tasks it depends on
+  criticalPath: string[];      // the dependency chain that determines the finish, first task first
+  drivesDueDate: Set<string>;  // open tasks whose slip would push the project past its due date
+  cycles: string[][];          // each loop as a path of task ids, first id repeated at the end
+  unscheduled: string[];       // tasks in or behind a loop, which can't be scheduled
+  finish: number;              // day offset by which everything can be done
+}
+
+type DependencyMap = Map<string, string[]>;
+
+const dependencyMap = (tasks: Task[]): DependencyMap => {
+  const ids = new Set(tasks.map(t => t.id));
+  return new Map(tasks.map(t => [t.id, (t.dependencies || []).filter(id => ids.has(id) && id !== t.id)]));
+};
+
+// Depth-first search along dependency edges; returns the path from `from` to `target` if one exists
+const findPath = (deps: DependencyMap, from: string, target: string): string[] | null => {
+  const visited = new Set<string>();
+  const walk = (id: string, path: string[]): string[] | null => {
+    if (id === target) return [...path, id];
+    if (visited.has(id)) return null;
+    visited.add(id);
+    for (const next of deps.get(id) || []) {
+      const found = walk(next, [...path, id]);
+      if (found) return found;
+    }
+    return null;
+  };
+  return walk(from, []);
+};
+
+export class DependencyGraph {
+  // The loop that giving `taskId` these dependencies would close, as [taskId, ..., taskId], or null
+  static findCycle(tasks: Task[], taskId: string, dependencies: string[]): string[] | null {
+    const deps = dependencyMap(tasks);
+    deps.set(taskId, dependencies.filter(id => deps.has(id)));
+    for (const dependency of deps.get(taskId) || []) {
+      if (dependency === taskId) return [taskId, taskId];
+      const path = findPath(deps, dependency, taskId);
+      if (path) return [taskId, ...path];
+    }
+    return null;
+  }
+
+  // Whether `taskId` depending on `candidateId` would close a loop
+  static wouldCreateCycle(tasks: Task[], taskId: string, candidateId: string): boolean {
+    if (taskId === candidateId) return true;
+    return findPath(dependencyMap(tasks), candidateId, taskId) !== null;
+  }
+
+  // Every distinct loop already in the graph
+  static findCycles(tasks: Task[]): string[][] {
+    const deps = dependencyMap(tasks);
+    const state = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+    const cycles: string[][] = [];
+    const seen = new Set<string>();
+
+    const visit = (id: string) => {
+      state.set(id, 'visiting');
+      stack.push(id);
+      for (const next of deps.get(id) || []) {
+        if (state.get(next) === 'visiting') {
+          const cycle = [...stack.slice(stack.indexOf(next)), next];
+          const key = [...cycle.slice(0, -1)].sort().join(',');
+          if (!seen.has(key)) {
+            seen.add(key);
+            cycles.push(cycle);
+          }
+        } else if (!state.has(next)) {
+          visit(next);
+        }
+      }
+      stack.pop();
+      state.set(id, 'done');
+    };
+
+    deps.forEach((_, id) => { if (!state.has(id)) visit(id); });
+    return cycles;
+  }
+
+  static durationOf(task: Task): number {
+    if (StatusModel.isDone(task.status)) return 0;
+    return Math.max(1, Math.ceil((task.estimateHours ?? HOURS_PER_DAY) / HOURS_PER_DAY));
+  }
+
+  // Day offset by which a task due on `date` must be finished (the end of that day)
+  static deadlineOffset(date: string, today: Date = new Date()): number {
+    return differenceInCalendarDays(parseISO(date), today) + 1;
+  }
+
+  // Calendar date of the day a schedule offset falls on; finishes land at the end of the previous day
+  static offsetToDate(offset: number, today: Date = new Date()): string {
+    return format(addDays(today, offset), 'yyyy-MM-dd');
+  }
+
+  static analyze(tasks: Task[], projectDueDate?: string, today: Date = new Date()): ScheduleAnalysis {
+    const deps = dependencyMap(tasks);
+    const byId = new Map(tasks.map(t => [t.id, t]));
+    const dependents = new Map<string, string[]>(tasks.map(t => [t.id, []]));
+    deps.forEach((list, id) => list.forEach(dep => dependents.get(dep)!.push(id)));
+
+    // Kahn's algorithm; whatever never reaches zero in-degree sits in or behind a loop
+    const remaining = new Map(tasks.map(t => [t.id, deps.get(t.id)!.length]));
+    const queue = tasks.filter(t => remaining.get(t.id) === 0).map(t => t.id);
+    const order: string[] = [];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      order.push(id);
+      dependents.get(id)!.forEach(next => {
+        remaining.set(next, remaining.get(next)! - 1);
+        if (remaining.get(next) === 0) queue.push(next);
+      });
+    }
+    const scheduled = new Set(order);
+    const unscheduled = tasks.map(t => t.id).filter(id => !scheduled.has(id));
+
+    // Forward pass
+    const nodes = new Map<string, ScheduleNode>();
+    order.forEach(id => {
+      const task = byId.get(id)!;
+      const upstream = deps.get(id)!.map(dep => nodes.get(dep)!);
+      const earliestStart = Math.max(0, ...upstream.map(n => n.earliestFinish));
+      const duration = DependencyGraph.durationOf(task);
+      nodes.set(id, {
+        taskId: id,
+        duration,
+        earliestStart,
+        earliestFinish: earliestStart + duration,
+        latestFinish: 0,
+        slack: 0,
+        float: 0,
+        depth: upstream.length > 0 ? Math.max(...upstream.map(n => n.depth)) + 1 : 0
+      });
+    });
+    const finish = Math.max(0, ...Array.from(nodes.values()).map(n => n.earliestFinish));
+    const projectDeadline = projectDueDate ? DependencyGraph.deadlineOffset(projectDueDate, today) : undefined;
+
+    // Backward passes: one against due dates for slack, one against the overall finish for float
+    const latestFinish = new Map<string, number>();
+    const latestFinishOverall = new Map<string, number>();
+    [...order].reverse().forEach(id => {
+      const task = byId.get(id)!;
+      const node = nodes.get(id)!;
+      const downstream = dependents.get(id)!.filter(d => scheduled.has(d));
+
+      const caps = downstream.map(d => latestFinish.get(d)! - nodes.get(d)!.duration);
+      if (!StatusModel.isDone(task.status) && task.dueDate) caps.push(DependencyGraph.deadlineOffset(task.dueDate, today));
+      if (projectDeadline !== undefined) caps.push(projectDeadline);
+      latestFinish.set(id, caps.length > 0 ? Math.min(...caps) : finish);
+
+      const overall = downstream.map(d => latestFinishOverall.get(d)! - nodes.get(d)!.duration);
+      latestFinishOverall.set(id, overall.length > 0 ? Math.min(...overall) : finish);
+
+      node.latestFinish = latestFinish.get(id)!;
+      node.slack = node.latestFinish - node.earliestFinish;
+      node.float = latestFinishOverall.get(id)! - node.earliestFinish;
+      if (projectDeadline !== undefined) node.projectSlack = node.float + (projectDeadline - finish);
+    });
+
+    // Walk back from the task that finishes last through the predecessors that hold it up
+    const criticalPath: string[] = [];
+    let current = order.map(id => nodes.get(id)!).filter(n => n.float === 0 && n.earliestFinish === finish)
+      .sort((a, b) => b.duration - a.duration)[0];
+    while (current && finish > 0) {
+      criticalPath.unshift(current.taskId);
+      const start = current.earliestStart;
+      current = deps.get(current.taskId)!
+        .map(dep => nodes.get(dep)!)
+        .filter(n => n.float === 0 && n.earliestFinish === start && n.earliestFinish > 0)
+        .sort((a, b) => b.duration - a.duration)[0];
+    }
+
+    const drivesDueDate = new Set(
+      order.filter(id => !StatusModel.isDone(byId.get(id)!.status) && (nodes.get(id)!.projectSlack ?? Infinity) <= 0)
+    );
+
+    return {
+      nodes,
+      order,
+      criticalPath,
+      drivesDueDate,
+      cycles: DependencyGraph.findCycles(tasks),
+      unscheduled,
+      finish
+    };
+  }
+}
@@ -0,0 +1,75 @@
+// Gantt timeline geometry: date spans for tasks and projects, zoom levels and axis ticks
+// Tasks only carry a due date, so a task's bar ends on its due date and reaches back over its estimate
+// (HOURS_PER_DAY hours to a day, one day when unestimated). A project's bar covers its tasks and
+// milestones and ends no earlier than its own due date.
+import { addDays, differenceInCalendarDays, eachDayOfInterval, format, parseISO, startOfMonth, startOfWeek, min as minDate, max as maxDate } from 'date-fns';
+import { Task, Project } from '../types';
+import { HOURS_PER_DAY } from './dependencyGraph';
+
+export type GanttZoom = 'day' | 'week' | 'month';
+
+export const GANTT_DAY_WIDTH: Record<GanttZoom, number> = {
+  day: 40,
+  week: 16,
+  month: 5
+};
+
+export interface GanttSpan {
+  start: string; // YYYY-MM-DD, inclusive
+  end: string;   // YYYY-MM-DD, inclusive
+}
+
+export interface GanttTick {
+  date: string;
+  label: string;
+  major: boolean; // starts a month; drawn with a stronger gridline
+}
+
+export const shiftDate = (date: string, days: number) => format(addDays(parseISO(date), days), 'yyyy-MM-dd');
+
+export const taskDays = (task: Task) => Math.max(1, Math.ceil((task.estimateHours ?? HOURS_PER_DAY) / HOURS_PER_DAY));
+
+export const taskSpan = (task: Task): GanttSpan => ({
+  start: shiftDate(task.dueDate, 1 - taskDays(task)),
+  end: task.dueDate
+});
+
+export const projectSpan = (project: Project, tasks: Task[]): GanttSpan => {
+  const dates = [
+    parseISO(project.dueDate),
+    ...(project.milestones || []).map(m => parseISO(m.dueDate)),
+    ...tasks.flatMap(t => {
+      const span = taskSpan(t);
+      return [parseISO(span.start), parseISO(span.end)];
+    })
+  ];
+  return {
+    start: format(minDate(dates), 'yyyy-MM-dd'),
+    end: format(maxDate(dates), 'yyyy-MM-dd')
+  };
+};
+
+// The visible window: every span plus today, padded so bars can be dragged past the edges
+export const timelineRange = (spans: GanttSpan[], zoom: GanttZoom, today: Date = new Date()): GanttSpan => {
+  const dates = [today, ...spans.flatMap(s => [parseISO(s.start), parseISO(s.end)])];
+  const padding = zoom === 'day' ? 7 : zoom === 'week' ? 14 : 45;
+  const start = addDays(minDate(dates), -padding);
+  return {
+    start: format(zoom === 'month' ? startOfMonth(start) : startOfWeek(start, { weekStartsOn: 1 }), 'yyyy-MM-dd'),
+    end: format(addDays(maxDate(dates), padding), 'yyyy-MM-dd')
+  };
+};
+
+export const dayOffset = (range: GanttSpan, date: string) => differenceInCalendarDays(parseISO(date), parseISO(range.start));
+
+export const rangeDays = (range: GanttSpan) => dayOffset(range, range.end) + 1;
+
+// Day zoom labels every day, week zoom every Monday, month zoom every first of the month
+export const timelineTicks = (range: GanttSpan, zoom: GanttZoom): GanttTick[] =>
+  eachDayOfInterval({ start: parseISO(range.start), end: parseISO(range.end) })
+    .filter(day => zoom === 'day' || (zoom === 'week' ? day.getDay() === 1 : day.getDate() === 1))
+    .map(day => ({
+      date: format(day, 'yyyy-MM-dd'),
+      label: zoom === 'day' ? format(day, 'd') : zoom === 'week' ? format(day, 'MMM d') : format(day, 'MMM yyyy'),
+      major: day.getDate() === 1
+    }));
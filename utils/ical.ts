@@ -0,0 +1,138 @@
+// iCalendar (.ics) parsing for the calendar import
+// Each VEVENT or VTODO becomes one task: its start (or a to-do's DUE) gives the due date and time, its
+// length the estimate, and its first VALARM the reminder. Times in UTC are converted to local time;
+// times with a TZID are taken as wall-clock times, which is right whenever the file's zone matches ours.
+// Recurring events import as their first occurrence only.
+import { CalendarImportEvent } from '../services/apiTypes';
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface ParsedDate {
+  date: string;  // YYYY-MM-DD
+  time?: string; // HH:mm, absent for all-day values
+  at: Date;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Continuation lines start with a space or tab and belong to the line before
+const unfold = (text: string) => text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+const parseLine = (line: string): ContentLine | null => {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false;
+  let split = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) { split = i; break; }
+  }
+  if (split < 0) return null;
+
+  const [name, ...paramParts] = line.slice(0, split).split(';');
+  const params: Record<string, string> = {};
+  paramParts.forEach(part => {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(split + 1) };
+};
+
+const unescapeText = (value: string) => value
+  .replace(/\\[nN]/g, '\n')
+  .replace(/\\([,;\\])/g, '$1');
+
+const parseDate = (line: ContentLine): ParsedDate | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(line.value.trim());
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s, utc] = match;
+
+  if (h === undefined || line.params.VALUE === 'DATE') {
+    const at = new Date(Number(y), Number(mo) - 1, Number(d));
+    return { date: `${y}-${mo}-${d}`, at };
+  }
+
+  const at = utc
+    ? new Date(Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s)))
+    : new Date(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s));
+  return {
+    date: `${at.getFullYear()}-${pad(at.getMonth() + 1)}-${pad(at.getDate())}`,
+    time: `${pad(at.getHours())}:${pad(at.getMinutes())}`,
+    at
+  };
+};
+
+// RFC 5545 durations such as -PT15M, P1D or -P1DT2H; returns signed minutes
+export const parseDuration = (value: string): number | null => {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes] = match;
+  const total = (Number(weeks || 0) * 7 + Number(days || 0)) * 1440 + Number(hours || 0) * 60 + Number(minutes || 0);
+  return sign === '-' ? -total : total;
+};
+
+export const parseCalendar = (text: string): CalendarImportEvent[] => {
+  const events = new Map<string, CalendarImportEvent>();
+  let component: Record<string, ContentLine> | null = null;
+  let alarmTrigger: ContentLine | null = null;
+  let inAlarm = false;
+
+  const finish = (props: Record<string, ContentLine>, kind: string) => {
+    const start = props.DTSTART ? parseDate(props.DTSTART) : null;
+    const due = props.DUE ? parseDate(props.DUE) : null;
+    const when = kind === 'VTODO' ? (due || start) : start;
+    const uid = props.UID?.value.trim();
+    const title = props.SUMMARY ? unescapeText(props.SUMMARY.value).trim() : '';
+    // Overrides of a recurring event share its UID; the series' own entry wins
+    if (!when || !uid || !title || (props['RECURRENCE-ID'] && events.has(uid))) return;
+
+    let estimateHours: number | null = null;
+    const end = props.DTEND ? parseDate(props.DTEND) : null;
+    const duration = props.DURATION ? parseDuration(props.DURATION.value) : null;
+    if (when.time && kind === 'VEVENT') {
+      const minutes = end ? (end.at.getTime() - when.at.getTime()) / 60000 : duration;
+      if (minutes && minutes > 0) estimateHours = Math.round((minutes / 60) * 100) / 100;
+    }
+
+    // Only alarms relative to the start (or due time) map onto a reminder
+    const trigger = alarmTrigger && alarmTrigger.params.RELATED !== 'END' ? parseDuration(alarmTrigger.value) : null;
+
+    events.set(uid, {
+      uid,
+      title,
+      description: props.DESCRIPTION ? unescapeText(props.DESCRIPTION.value).trim() : undefined,
+      due_date: when.date,
+      due_time: when.time || null,
+      estimate_hours: estimateHours,
+      reminder_minutes: trigger !== null && trigger < 0 ? -trigger : 0
+    });
+  };
+
+  let kind = '';
+  unfold(text).forEach(raw => {
+    const line = parseLine(raw);
+    if (!line) return;
+
+    if (line.name === 'BEGIN' && (line.value === 'VEVENT' || line.value === 'VTODO')) {
+      component = {};
+      kind = line.value;
+      alarmTrigger = null;
+    } else if (line.name === 'BEGIN' && line.value === 'VALARM') {
+      inAlarm = true;
+    } else if (line.name === 'END' && line.value === 'VALARM') {
+      inAlarm = false;
+    } else if (line.name === 'END' && line.value === kind && component) {
+      finish(component, kind);
+      component = null;
+    } else if (component && inAlarm) {
+      if (line.name === 'TRIGGER' && !alarmTrigger) alarmTrigger = line;
+    } else if (component && !(line.name in component)) {
+      component[line.name] = line;
+    }
+  });
+
+  return [...events.values()];
+};
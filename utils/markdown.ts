@@ -0,0 +1,94 @@
+// Minimal Markdown renderer for user-written text (task comments)
+// Supports paragraphs, **bold**, *italic*, `code`, fenced code blocks, [links](https://...), bare URLs,
+// bullet/numbered lists, > quotes and @mentions. Everything is HTML-escaped before any markup is
+// added, and only http(s)/mailto links are produced, so the output is safe for dangerouslySetInnerHTML.
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const LINK_CLASS = 'text-indigo-600 font-semibold underline decoration-indigo-200 hover:decoration-indigo-600';
+const link = (href: string, label: string) =>
+  `<a href="${href}" target="_blank" rel="noopener noreferrer" class="${LINK_CLASS}">${label}</a>`;
+
+export class Markdown {
+  static toHtml(source: string): string {
+    const lines = source.replace(/\r\n?/g, '\n').split('\n');
+    const blocks: string[] = [];
+    let paragraph: string[] = [];
+    let list: { ordered: boolean; items: string[] } | null = null;
+    let quote: string[] = [];
+
+    const flush = () => {
+      if (paragraph.length) {
+        blocks.push(`<p>${paragraph.map(Markdown.inline).join('<br />')}</p>`);
+        paragraph = [];
+      }
+      if (list) {
+        const tag = list.ordered ? 'ol' : 'ul';
+        const style = list.ordered ? 'list-decimal' : 'list-disc';
+        blocks.push(`<${tag} class="${style} pl-5 space-y-0.5">${list.items.map(item => `<li>${Markdown.inline(item)}</li>`).join('')}</${tag}>`);
+        list = null;
+      }
+      if (quote.length) {
+        blocks.push(`<blockquote class="border-l-4 border-slate-200 pl-3 text-slate-500">${quote.map(Markdown.inline).join('<br />')}</blockquote>`);
+        quote = [];
+      }
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+
+      // Fenced code block: copied verbatim up to the closing fence (or the end of the text)
+      if (/^\s*```/.test(line)) {
+        flush();
+        const code: string[] = [];
+        while (++i < lines.length && !/^\s*```/.test(lines[i])) code.push(lines[i]);
+        blocks.push(`<pre class="bg-slate-900 text-slate-100 rounded-xl p-3 text-xs overflow-x-auto"><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+        continue;
+      }
+
+      const bullet = line.match(/^\s*[-*+]\s+(.*)$/);
+      const numbered = line.match(/^\s*\d+[.)]\s+(.*)$/);
+      const quoted = line.match(/^\s*>\s?(.*)$/);
+
+      if (bullet || numbered) {
+        const ordered = !!numbered;
+        if (!list || list.ordered !== ordered || paragraph.length || quote.length) flush();
+        list = list || { ordered, items: [] };
+        list.items.push((bullet || numbered)![1]);
+      } else if (quoted) {
+        if (paragraph.length || list) flush();
+        quote.push(quoted[1]);
+      } else if (line.trim() === '') {
+        flush();
+      } else {
+        if (list || quote.length) flush();
+        paragraph.push(line);
+      }
+    }
+    flush();
+
+    return blocks.join('');
+  }
+
+  // Inline markup for a single line; code spans and links are set aside first so nothing inside them is reformatted
+  private static inline(text: string): string {
+    const held: string[] = [];
+    const hold = (html: string) => `\u0000${held.push(html) - 1}\u0000`;
+
+    let out = escapeHtml(text);
+    out = out.replace(/`([^`]+)`/g, (_, code) => hold(`<code class="bg-slate-100 text-slate-800 rounded px-1 py-0.5 text-[0.85em]">${code}</code>`));
+    out = out.replace(/\[([^\]]+)\]\(((?:https?:\/\/|mailto:)[^\s)]+)\)/g, (_, label, href) => hold(link(href, label)));
+    out = out.replace(/(^|[\s(])(https?:\/\/[^\s<)]*[^\s<).,!?;:])/g, (_, lead, href) => lead + hold(link(href, href)));
+    out = out.replace(/\*\*(?=\S)(.+?)\*\*/g, '<strong>$1</strong>');
+    out = out.replace(/(^|[^*\w])\*(?=\S)(.+?)\*(?!\w)/g, '$1<em>$2</em>');
+    out = out.replace(/(^|[^\w])_(?=\S)(.+?)_(?!\w)/g, '$1<em>$2</em>');
+    out = out.replace(/(^|[^\w@])@([a-zA-Z0-9._-]*[a-zA-Z0-9_-])/g, '$1<span class="text-indigo-600 font-bold bg-indigo-50 rounded px-1">@$2</span>');
+
+    return out.replace(/\u0000(\d+)\u0000/g, (_, index) => held[Number(index)]);
+  }
+}
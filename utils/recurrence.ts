@@ -0,0 +1,258 @@
+// Recurring task rules: a subset of RFC 5545 RRULE
+// Supported parts: FREQ (DAILY/WEEKLY/MONTHLY/YEARLY), INTERVAL, BYDAY (weekly), BYMONTHDAY (monthly), COUNT, UNTIL.
+// Occurrences are computed from the series start date (DTSTART), which always counts as the first one.
+// Mirrors backend/utils/recurrence.js, which generates the next real task when one is completed.
+import { Task, TaskStatus } from '../types';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: Weekday[];
+  byMonthDay?: number[];
+  count?: number;
+  until?: string; // YYYY-MM-DD, inclusive
+}
+
+// A calendar-only projection of a future occurrence; never stored or synced
+export interface ProjectedOccurrence extends Task {
+  occurrenceOf: string;
+}
+
+export const RECURRENCE_PRESETS: { label: string; rule: string }[] = [
+  { label: 'Daily', rule: 'FREQ=DAILY' },
+  { label: 'Every weekday', rule: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR' },
+  { label: 'Weekly', rule: 'FREQ=WEEKLY' },
+  { label: 'Every 2 weeks', rule: 'FREQ=WEEKLY;INTERVAL=2' },
+  { label: 'Monthly', rule: 'FREQ=MONTHLY' },
+  { label: 'Quarterly', rule: 'FREQ=MONTHLY;INTERVAL=3' },
+  { label: 'Yearly', rule: 'FREQ=YEARLY' }
+];
+
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+const WEEKDAY_NAMES: Record<Weekday, string> = { MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat', SU: 'Sun' };
+const FREQ_UNITS: Record<RecurrenceFrequency, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+
+// Hard stop so a rule with no end can't spin forever
+const MAX_PERIODS = 5000;
+
+// Dates are handled as UTC midnights so DST shifts never move an occurrence
+const toDate = (value: string) => {
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+};
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * 86400000);
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+const weekdayOf = (date: Date): Weekday => WEEKDAYS[(date.getUTCDay() + 6) % 7];
+
+const parseUntil = (value: string) => {
+  const match = value.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  if (!match) throw new Error(`Invalid UNTIL "${value}"`);
+  return `${match[1]}-${match[2]}-${match[3]}`;
+};
+
+export class Recurrence {
+  static parse(value: string): RecurrenceRule {
+    const parts = value.replace(/^RRULE:/i, '').split(';').filter(Boolean);
+    const fields: Record<string, string> = {};
+    for (const part of parts) {
+      const [key, val] = part.split('=');
+      if (!key || val === undefined) throw new Error(`Malformed rule part "${part}"`);
+      fields[key.toUpperCase()] = val.toUpperCase();
+    }
+
+    const freq = fields.FREQ as RecurrenceFrequency;
+    if (!FREQ_UNITS[freq]) throw new Error('FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY');
+
+    const rule: RecurrenceRule = { freq, interval: 1 };
+    for (const [key, val] of Object.entries(fields)) {
+      switch (key) {
+        case 'FREQ':
+          break;
+        case 'INTERVAL':
+          rule.interval = parseInt(val, 10);
+          if (!(rule.interval >= 1)) throw new Error('INTERVAL must be a positive number');
+          break;
+        case 'COUNT':
+          rule.count = parseInt(val, 10);
+          if (!(rule.count >= 1)) throw new Error('COUNT must be a positive number');
+          break;
+        case 'UNTIL':
+          rule.until = parseUntil(val);
+          break;
+        case 'BYDAY': {
+          if (freq !== 'WEEKLY') throw new Error('BYDAY is only supported with FREQ=WEEKLY');
+          const days = val.split(',') as Weekday[];
+          if (days.some(d => !WEEKDAYS.includes(d))) throw new Error(`Invalid BYDAY "${val}"`);
+          rule.byDay = days;
+          break;
+        }
+        case 'BYMONTHDAY': {
+          if (freq !== 'MONTHLY') throw new Error('BYMONTHDAY is only supported with FREQ=MONTHLY');
+          const days = val.split(',').map(d => parseInt(d, 10));
+          if (days.some(d => !d || d < -31 || d > 31)) throw new Error(`Invalid BYMONTHDAY "${val}"`);
+          rule.byMonthDay = days;
+          break;
+        }
+        default:
+          throw new Error(`${key} is not supported`);
+      }
+    }
+    if (rule.count && rule.until) throw new Error('Use either COUNT or UNTIL, not both');
+    return rule;
+  }
+
+  static format(rule: RecurrenceRule): string {
+    const parts = [`FREQ=${rule.freq}`];
+    if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+    if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+    if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+    if (rule.count) parts.push(`COUNT=${rule.count}`);
+    if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+    return parts.join(';');
+  }
+
+  static isValid(value: string): boolean {
+    try {
+      Recurrence.parse(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Human-readable summary, e.g. "Every 2 weeks on Mon, Thu · 6 times"
+  static describe(value: string): string {
+    let rule: RecurrenceRule;
+    try {
+      rule = Recurrence.parse(value);
+    } catch {
+      return 'Custom schedule';
+    }
+    const unit = FREQ_UNITS[rule.freq];
+    let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+    if (rule.byDay?.length) text += ` on ${rule.byDay.map(d => WEEKDAY_NAMES[d]).join(', ')}`;
+    if (rule.byMonthDay?.length) text += ` on day ${rule.byMonthDay.map(d => d === -1 ? 'last' : d).join(', ')}`;
+    if (rule.count) text += ` · ${rule.count} times`;
+    if (rule.until) text += ` · until ${rule.until}`;
+    return text;
+  }
+
+  // Walk the series in date order starting at DTSTART, honouring COUNT and UNTIL
+  static *occurrences(value: string | RecurrenceRule, start: string): Generator<string> {
+    const rule = typeof value === 'string' ? Recurrence.parse(value) : value;
+    const dtstart = toDate(start);
+    let emitted = 0;
+
+    const emit = (date: Date) => {
+      if (rule.until && toDateString(date) > rule.until) return false;
+      if (rule.count && emitted >= rule.count) return false;
+      emitted++;
+      return true;
+    };
+
+    if (!emit(dtstart)) return;
+    yield start;
+
+    for (let period = 0; period < MAX_PERIODS; period++) {
+      for (const date of Recurrence.periodDates(rule, dtstart, period)) {
+        if (date <= dtstart) continue;
+        if (!emit(date)) return;
+        yield toDateString(date);
+      }
+    }
+  }
+
+  // Candidate dates for the n-th period (day/week/month/year) of the series, ascending
+  private static periodDates(rule: RecurrenceRule, dtstart: Date, period: number): Date[] {
+    const step = period * rule.interval;
+    switch (rule.freq) {
+      case 'DAILY':
+        return [addDays(dtstart, step)];
+      case 'WEEKLY': {
+        // Weeks start on Monday (RFC 5545 default WKST)
+        const weekStart = addDays(dtstart, -((dtstart.getUTCDay() + 6) % 7) + step * 7);
+        const days = rule.byDay?.length ? rule.byDay : [weekdayOf(dtstart)];
+        return WEEKDAYS
+          .map((d, i) => days.includes(d) ? addDays(weekStart, i) : null)
+          .filter((d): d is Date => d !== null);
+      }
+      case 'MONTHLY': {
+        const monthIndex = dtstart.getUTCMonth() + step;
+        const year = dtstart.getUTCFullYear() + Math.floor(monthIndex / 12);
+        const month = monthIndex % 12;
+        const length = daysInMonth(year, month);
+        const days = rule.byMonthDay?.length ? rule.byMonthDay : [dtstart.getUTCDate()];
+        // Days that don't exist in a month (e.g. the 31st in April) are skipped, as RFC 5545 specifies
+        return days
+          .map(d => d < 0 ? length + d + 1 : d)
+          .filter(d => d >= 1 && d <= length)
+          .sort((a, b) => a - b)
+          .map(d => new Date(Date.UTC(year, month, d)));
+      }
+      case 'YEARLY': {
+        const year = dtstart.getUTCFullYear() + step;
+        const month = dtstart.getUTCMonth();
+        const day = dtstart.getUTCDate();
+        return day <= daysInMonth(year, month) ? [new Date(Date.UTC(year, month, day))] : [];
+      }
+    }
+  }
+
+  // First occurrence strictly after `after`, or null once the series has ended
+  static next(value: string, start: string, after: string): string | null {
+    for (const date of Recurrence.occurrences(value, start)) {
+      if (date > after) return date;
+    }
+    return null;
+  }
+
+  // Occurrences within [from, to], both YYYY-MM-DD
+  static between(value: string, start: string, from: string, to: string): string[] {
+    const dates: string[] = [];
+    for (const date of Recurrence.occurrences(value, start)) {
+      if (date > to) break;
+      if (date >= from) dates.push(date);
+    }
+    return dates;
+  }
+
+  // Future occurrences of every recurring series within [from, to], for display only.
+  // Each series projects forward from its latest real task, so no date is shown twice.
+  static project(tasks: Task[], from: string, to: string): ProjectedOccurrence[] {
+    const latest = new Map<string, Task>();
+    tasks.forEach(task => {
+      if (!task.recurrence) return;
+      const key = task.seriesId || task.id;
+      const current = latest.get(key);
+      if (!current || task.dueDate > current.dueDate) latest.set(key, task);
+    });
+
+    const projected: ProjectedOccurrence[] = [];
+    latest.forEach(task => {
+      let dates: string[];
+      try {
+        dates = Recurrence.between(task.recurrence!, task.recurrenceStart || task.dueDate, from, to);
+      } catch {
+        return; // Unparseable rules simply don't project
+      }
+      dates
+        .filter(date => date > task.dueDate)
+        .forEach(date => projected.push({
+          ...task,
+          id: `${task.id}@${date}`,
+          dueDate: date,
+          status: TaskStatus.TODO,
+          occurrenceOf: task.id
+        }));
+    });
+    return projected;
+  }
+
+  static isProjected(task: Task): task is ProjectedOccurrence {
+    return 'occurrenceOf' in task;
+  }
+}
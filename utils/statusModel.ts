@@ -0,0 +1,66 @@
+// Task status model: the ordered list of board columns and which of them count as done
+import { StatusDefinition, TaskStatus, TaskStatusKey, StatusColor } from '../types';
+
+const STORAGE_KEY = 'tasq_statuses';
+
+// Mirrors DEFAULT_STATUSES in backend/utils/taskStatuses.js
+export const DEFAULT_STATUSES: StatusDefinition[] = [
+  { key: TaskStatus.TODO, label: 'To Do', color: 'slate', done: false },
+  { key: TaskStatus.IN_PROGRESS, label: 'In Progress', color: 'blue', done: false },
+  { key: TaskStatus.REVIEW, label: 'Review', color: 'purple', done: false },
+  { key: TaskStatus.DONE, label: 'Done', color: 'emerald', done: true },
+  { key: 'cancelled', label: 'Cancelled', color: 'slate', done: true }
+];
+
+export const STATUS_COLORS: StatusColor[] = ['slate', 'blue', 'purple', 'emerald', 'amber', 'red', 'pink', 'cyan', 'orange', 'indigo'];
+
+const loadCached = (): StatusDefinition[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : DEFAULT_STATUSES;
+  } catch {
+    return DEFAULT_STATUSES;
+  }
+};
+
+export class StatusModel {
+  private static statuses: StatusDefinition[] = loadCached();
+
+  static all(): StatusDefinition[] {
+    return StatusModel.statuses;
+  }
+
+  // Replace the active model, e.g. after loading it from the server
+  static set(statuses: StatusDefinition[]) {
+    StatusModel.statuses = statuses.length > 0 ? statuses : DEFAULT_STATUSES;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(StatusModel.statuses));
+  }
+
+  static reset() {
+    StatusModel.statuses = DEFAULT_STATUSES;
+    localStorage.removeItem(STORAGE_KEY);
+  }
+
+  static get(key: TaskStatusKey): StatusDefinition {
+    return StatusModel.statuses.find(s => s.key === key)
+      || { key, label: key.replace(/_/g, ' '), color: 'slate', done: false };
+  }
+
+  static isDone(key: TaskStatusKey): boolean {
+    return StatusModel.get(key).done;
+  }
+
+  static label(key: TaskStatusKey): string {
+    return StatusModel.get(key).label;
+  }
+
+  static isBuiltIn(key: TaskStatusKey): boolean {
+    return DEFAULT_STATUSES.some(s => s.key === key);
+  }
+
+  // Turn a user-entered column name into a backend-safe status key
+  static keyFromLabel(label: string): string {
+    const slug = label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+    return (/^[a-z]/.test(slug) ? slug : `status_${slug}`).slice(0, 32);
+  }
+}
@@ -1,33 +1,96 @@
 // Enhanced Task Management Utilities
-import { Task, TaskStatus } from '../types';
+import { Task, TaskStatus, TaskStatusKey } from '../types';
+import { TaskPayload, TaskRow } from '../services/apiTypes';
+import { taskToPayload } from '../services/mappers';
+import { StatusModel } from './statusModel';
 
 export class TaskManager {
   static generateTempId(): string {
     return `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  static isTempId(id: string): boolean {
+    return id.startsWith('temp_');
+  }
+
   static createOptimisticTask(task: Task, tempId: string): Task {
     return { ...task, id: tempId };
   }
 
-  static prepareTaskPayload(task: Task): any {
-    return {
-      title: task.title,
-      description: task.description,
-      status: task.status === TaskStatus.TODO ? 'todo' : 
-              task.status === TaskStatus.IN_PROGRESS ? 'in_progress' : 'completed',
-      priority: task.priority.toLowerCase(),
-      due_date: task.dueDate,
-      project_id: task.projectId ? parseInt(task.projectId) : undefined
-    };
-  }
-
-  static updateTaskWithResponse(optimisticTasks: Task[], tempId: string, serverTask: any): Task[] {
-    return optimisticTasks.map(t => 
-      t.id === tempId 
-        ? { ...t, id: serverTask.id.toString(), ...serverTask } 
-        : t
-    );
+  static prepareTaskPayload(task: Task): TaskPayload {
+    return taskToPayload(task);
+  }
+
+  static updateTaskWithResponse(optimisticTasks: Task[], tempId: string, serverTask: TaskRow): Task[] {
+    return TaskManager.remapTempId(optimisticTasks, tempId, serverTask.id);
+  }
+
+  // Swap a temp id for its server id everywhere it is referenced, including
+  // dependency links and project links created while offline
+  static remapTempId(tasks: Task[], tempId: string, serverId: string): Task[] {
+    return tasks.map(t => {
+      let next = t.id === tempId ? { ...t, id: serverId } : t;
+      if (next.projectId === tempId) {
+        next = { ...next, projectId: serverId };
+      }
+      if (next.parentId === tempId) {
+        next = { ...next, parentId: serverId };
+      }
+      if (next.dependencies?.includes(tempId)) {
+        next = { ...next, dependencies: next.dependencies.map(d => d === tempId ? serverId : d) };
+      }
+      return next;
+    });
+  }
+
+  // Apply a live-sync copy of a task or project unless the one we hold is newer
+  static mergeRemote<T extends { id: string; updatedAt?: string }>(items: T[], incoming: T): T[] {
+    const current = items.find(item => item.id === incoming.id);
+    if (!current) return [incoming, ...items];
+    if (current.updatedAt && incoming.updatedAt && Date.parse(incoming.updatedAt) < Date.parse(current.updatedAt)) return items;
+    return items.map(item => item.id === incoming.id ? incoming : item);
+  }
+
+  // Field equality for edits: empty strings, null and undefined all mean "not set"
+  static sameValue(a: unknown, b: unknown): boolean {
+    const normalize = (value: unknown) => value === '' || value === undefined ? null : value;
+    return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+  }
+
+  // Drop a task deleted elsewhere; the server removes its subtasks and dependency links with it
+  static removeRemote(tasks: Task[], id: string): Task[] {
+    return tasks
+      .filter(t => t.id !== id && t.parentId !== id)
+      .map(t => t.dependencies?.includes(id) ? { ...t, dependencies: t.dependencies.filter(d => d !== id) } : t);
+  }
+
+  static subtasksOf(tasks: Task[], parentId: string): Task[] {
+    return tasks.filter(t => t.parentId === parentId);
+  }
+
+  // Completion rollup for a parent task; total is 0 when it has no subtasks
+  static subtaskProgress(tasks: Task[], parentId: string): { done: number; total: number; percent: number } {
+    const subtasks = TaskManager.subtasksOf(tasks, parentId);
+    const done = subtasks.filter(t => StatusModel.isDone(t.status)).length;
+    const total = subtasks.length;
+    return { done, total, percent: total > 0 ? Math.round((done / total) * 100) : 0 };
+  }
+
+  // A parent stays open until all of its subtasks are done (enforced by the API as well)
+  static hasOpenSubtasks(tasks: Task[], parentId: string): boolean {
+    return tasks.some(t => t.parentId === parentId && !StatusModel.isDone(t.status));
+  }
+
+  // Open tasks this one depends on
+  static blockingTasks(tasks: Task[], task: Task): Task[] {
+    return (task.dependencies || [])
+      .map(id => tasks.find(t => t.id === id))
+      .filter(t => t && !StatusModel.isDone(t.status)) as Task[];
+  }
+
+  // Statuses a task can only enter once its dependencies are done; mirrors backend/utils/dependencies.js
+  static needsDependencies(status: TaskStatusKey): boolean {
+    return status === TaskStatus.IN_PROGRESS || status === TaskStatus.REVIEW || StatusModel.isDone(status);
   }
 
   static handleError(tasks: Task[], tempId: string, error: any): { updatedTasks: Task[], errorMessage: string } {
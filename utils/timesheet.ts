@@ -0,0 +1,277 @@
+// Timesheet reporting: turns time entries into billable line items and totals
+// Durations are rounded per entry before anything is summed, the way most invoicing tools do it,
+// so a report's totals always equal the sum of its lines.
+import { format, startOfWeek, eachDayOfInterval, parseISO } from 'date-fns';
+import { Task, Project, TimeEntry } from '../types';
+
+export type RoundingMode = 'nearest' | 'up' | 'down';
+export type TimesheetGrouping = 'project' | 'task' | 'day' | 'week';
+export type BillableFilter = 'all' | 'billable' | 'non-billable';
+
+export interface RoundingRule {
+  increment: number; // minutes; 0 keeps exact durations
+  mode: RoundingMode;
+}
+
+export const ROUNDING_INCREMENTS = [0, 1, 5, 6, 10, 15, 30, 60];
+
+export const NO_ROUNDING: RoundingRule = { increment: 0, mode: 'nearest' };
+
+export interface TimesheetOptions {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;   // YYYY-MM-DD, inclusive
+  rounding: RoundingRule;
+  billable: BillableFilter;
+}
+
+export interface TimesheetLine {
+  entry: TimeEntry;
+  date: string;
+  week: string; // YYYY-MM-DD of the Monday starting the entry's week
+  projectId?: string;
+  projectName: string;
+  taskTitle: string;
+  seconds: number; // after rounding
+  billable: boolean;
+  rate: number;
+  amount: number;
+}
+
+export interface TimesheetGroup {
+  key: string;
+  label: string;
+  seconds: number;
+  billableSeconds: number;
+  amount: number;
+  entryCount: number;
+}
+
+export interface TimesheetTotals {
+  seconds: number;
+  billableSeconds: number;
+  amount: number;
+}
+
+const NO_PROJECT = 'No project';
+const NO_TASK = 'No task';
+
+export const roundSeconds = (seconds: number, rule: RoundingRule): number => {
+  if (rule.increment <= 0) return seconds;
+  const step = rule.increment * 60;
+  const units = seconds / step;
+  const rounded = rule.mode === 'up' ? Math.ceil(units) : rule.mode === 'down' ? Math.floor(units) : Math.round(units);
+  return rounded * step;
+};
+
+export const weekOf = (date: string) => format(startOfWeek(parseISO(date), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+
+// Entries resolve their project through the task they were logged against
+export const buildTimesheet = (
+  entries: TimeEntry[],
+  tasks: Task[],
+  projects: Project[],
+  options: TimesheetOptions
+): TimesheetLine[] => {
+  const taskById = new Map(tasks.map(t => [t.id, t]));
+  const projectById = new Map(projects.map(p => [p.id, p]));
+
+  return entries
+    .filter(e => e.date >= options.from && e.date <= options.to)
+    .filter(e => options.billable === 'all' || e.billable === (options.billable === 'billable'))
+    .sort((a, b) => a.startTime.localeCompare(b.startTime))
+    .map(entry => {
+      const task = entry.taskId ? taskById.get(entry.taskId) : undefined;
+      const project = task?.projectId ? projectById.get(task.projectId) : undefined;
+      const seconds = roundSeconds(entry.duration, options.rounding);
+      const rate = project?.hourlyRate || 0;
+      return {
+        entry,
+        date: entry.date,
+        week: weekOf(entry.date),
+        projectId: project?.id,
+        projectName: project?.name || NO_PROJECT,
+        taskTitle: task?.title || NO_TASK,
+        seconds,
+        billable: entry.billable,
+        rate,
+        amount: entry.billable ? (seconds / 3600) * rate : 0
+      };
+    });
+};
+
+const groupKey = (line: TimesheetLine, grouping: TimesheetGrouping) => {
+  switch (grouping) {
+    case 'project': return line.projectId || '';
+    case 'task': return line.entry.taskId || '';
+    case 'day': return line.date;
+    case 'week': return line.week;
+  }
+};
+
+const groupLabel = (line: TimesheetLine, grouping: TimesheetGrouping) => {
+  switch (grouping) {
+    case 'project': return line.projectName;
+    case 'task': return line.taskTitle;
+    case 'day': return format(parseISO(line.date), 'EEE, MMM d, yyyy');
+    case 'week': return `Week of ${format(parseISO(line.week), 'MMM d, yyyy')}`;
+  }
+};
+
+export const groupTimesheet = (lines: TimesheetLine[], grouping: TimesheetGrouping): TimesheetGroup[] => {
+  const groups = new Map<string, TimesheetGroup>();
+  lines.forEach(line => {
+    const key = groupKey(line, grouping);
+    const group = groups.get(key) || { key, label: groupLabel(line, grouping), seconds: 0, billableSeconds: 0, amount: 0, entryCount: 0 };
+    group.seconds += line.seconds;
+    if (line.billable) group.billableSeconds += line.seconds;
+    group.amount += line.amount;
+    group.entryCount += 1;
+    groups.set(key, group);
+  });
+
+  const result = Array.from(groups.values());
+  // Dates read chronologically; projects and tasks by where the time went
+  return grouping === 'day' || grouping === 'week'
+    ? result.sort((a, b) => a.key.localeCompare(b.key))
+    : result.sort((a, b) => b.seconds - a.seconds);
+};
+
+export const timesheetTotals = (lines: TimesheetLine[]): TimesheetTotals => lines.reduce(
+  (totals, line) => ({
+    seconds: totals.seconds + line.seconds,
+    billableSeconds: totals.billableSeconds + (line.billable ? line.seconds : 0),
+    amount: totals.amount + line.amount
+  }),
+  { seconds: 0, billableSeconds: 0, amount: 0 }
+);
+
+// Hours per calendar day across the range, including empty days, for the activity chart
+export const dailyHours = (lines: TimesheetLine[], from: string, to: string) => {
+  const byDay = new Map<string, number>();
+  lines.forEach(line => byDay.set(line.date, (byDay.get(line.date) || 0) + line.seconds));
+  return eachDayOfInterval({ start: parseISO(from), end: parseISO(to) }).map(day => {
+    const date = format(day, 'yyyy-MM-dd');
+    return {
+      date,
+      label: format(day, 'MMM d'),
+      day: format(day, 'EEE'),
+      hours: parseFloat(((byDay.get(date) || 0) / 3600).toFixed(2))
+    };
+  });
+};
+
+export const formatHours = (seconds: number) => (seconds / 3600).toFixed(2);
+
+export const formatAmount = (amount: number) => amount.toFixed(2);
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per entry so the file can be re-aggregated in a spreadsheet
+export const timesheetToCsv = (lines: TimesheetLine[]): string => {
+  const header = ['Date', 'Week', 'Project', 'Task', 'Description', 'Start', 'End', 'Hours', 'Billable', 'Rate', 'Amount'];
+  const rows = lines.map(line => [
+    line.date,
+    line.week,
+    line.projectName,
+    line.taskTitle,
+    line.entry.description,
+    format(new Date(line.entry.startTime), 'HH:mm'),
+    format(new Date(line.entry.endTime), 'HH:mm'),
+    formatHours(line.seconds),
+    line.billable ? 'Yes' : 'No',
+    formatAmount(line.rate),
+    formatAmount(line.amount)
+  ]);
+  const totals = timesheetTotals(lines);
+  rows.push(['Total', '', '', '', '', '', '', formatHours(totals.seconds), '', '', formatAmount(totals.amount)]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+};
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Standalone, print-styled document; the browser's print dialog saves it as a PDF
+export const timesheetToHtml = (
+  lines: TimesheetLine[],
+  options: TimesheetOptions,
+  grouping: TimesheetGrouping,
+  preparedFor: string
+): string => {
+  const totals = timesheetTotals(lines);
+  const range = `${format(parseISO(options.from), 'MMM d, yyyy')} – ${format(parseISO(options.to), 'MMM d, yyyy')}`;
+  const rounding = options.rounding.increment > 0
+    ? `Rounded ${options.rounding.mode} to ${options.rounding.increment} min per entry`
+    : 'Exact durations';
+
+  const summaryRows = groupTimesheet(lines, grouping).map(group => `
+    <tr>
+      <td>${escapeHtml(group.label)}</td>
+      <td class="num">${group.entryCount}</td>
+      <td class="num">${formatHours(group.seconds)}</td>
+      <td class="num">${formatHours(group.billableSeconds)}</td>
+      <td class="num">${formatAmount(group.amount)}</td>
+    </tr>`).join('');
+
+  const detailRows = lines.map(line => `
+    <tr>
+      <td>${line.date}</td>
+      <td>${escapeHtml(line.projectName)}</td>
+      <td>${escapeHtml(line.taskTitle)}</td>
+      <td>${escapeHtml(line.entry.description)}</td>
+      <td class="num">${formatHours(line.seconds)}</td>
+      <td>${line.billable ? 'Yes' : 'No'}</td>
+      <td class="num">${formatAmount(line.rate)}</td>
+      <td class="num">${formatAmount(line.amount)}</td>
+    </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Timesheet ${options.from} to ${options.to}</title>
+<style>
+  body { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; color: #0f172a; margin: 32px; font-size: 12px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 13px; text-transform: uppercase; letter-spacing: 0.08em; color: #64748b; margin: 28px 0 8px; }
+  .meta { color: #64748b; margin: 0 0 2px; }
+  .totals { display: flex; gap: 32px; margin-top: 20px; }
+  .totals strong { display: block; font-size: 18px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+  th { font-size: 10px; text-transform: uppercase; letter-spacing: 0.06em; color: #64748b; }
+  .num { text-align: right; white-space: nowrap; }
+  tfoot td { font-weight: bold; border-top: 2px solid #0f172a; border-bottom: none; }
+  @media print { body { margin: 0; } tr { page-break-inside: avoid; } }
+</style>
+</head>
+<body>
+  <h1>Timesheet</h1>
+  <p class="meta">${escapeHtml(preparedFor)}</p>
+  <p class="meta">${range} · ${rounding}</p>
+  <div class="totals">
+    <div>Total hours<strong>${formatHours(totals.seconds)}</strong></div>
+    <div>Billable hours<strong>${formatHours(totals.billableSeconds)}</strong></div>
+    <div>Amount<strong>${formatAmount(totals.amount)}</strong></div>
+  </div>
+
+  <h2>Summary by ${grouping}</h2>
+  <table>
+    <thead><tr><th>${grouping}</th><th class="num">Entries</th><th class="num">Hours</th><th class="num">Billable</th><th class="num">Amount</th></tr></thead>
+    <tbody>${summaryRows}</tbody>
+  </table>
+
+  <h2>Entries</h2>
+  <table>
+    <thead><tr><th>Date</th><th>Project</th><th>Task</th><th>Description</th><th class="num">Hours</th><th>Billable</th><th class="num">Rate</th><th class="num">Amount</th></tr></thead>
+    <tbody>${detailRows}</tbody>
+    <tfoot><tr><td colspan="4">Total</td><td class="num">${formatHours(totals.seconds)}</td><td></td><td></td><td class="num">${formatAmount(totals.amount)}</td></tr></tfoot>
+  </table>
+</body>
+</html>`;
+};